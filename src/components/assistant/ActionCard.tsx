@@ -0,0 +1,112 @@
+import { Link } from "react-router-dom";
+import { BookOpen, Check, CheckSquare, Flag, Lightbulb, Link2, Loader2, X } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import {
+  AssistantAction,
+  AssistantActionResult,
+  AssistantActionStatus,
+  AssistantActionTool,
+  isAwaitingDecision,
+  useResolveAssistantAction,
+} from "@/hooks/useAssistantActions";
+
+interface ActionCardProps {
+  action: AssistantAction;
+}
+
+const TOOL_LABELS: Record<AssistantActionTool, { label: string; icon: typeof CheckSquare }> = {
+  create_task: { label: "New task", icon: CheckSquare },
+  update_task_status: { label: "Task status", icon: CheckSquare },
+  create_project_goal: { label: "Project goal", icon: Flag },
+  add_insight: { label: "Insight", icon: Lightbulb },
+  link_document_to_principle: { label: "Document principle", icon: Link2 },
+  draft_sop: { label: "SOP draft", icon: BookOpen },
+};
+
+const STATUS_BADGES: Record<AssistantActionStatus, { label: string; variant: "default" | "secondary" | "destructive" | "outline" }> = {
+  proposed: { label: "Needs confirmation", variant: "outline" },
+  applying: { label: "Applying", variant: "secondary" },
+  applied: { label: "Applied", variant: "default" },
+  rejected: { label: "Rejected", variant: "secondary" },
+  failed: { label: "Failed", variant: "destructive" },
+};
+
+const resultHref = (result: AssistantActionResult) => {
+  switch (result.type) {
+    case "task":
+      return `/workflow?task=${result.id}`;
+    case "goal":
+      return "/projects";
+    case "insight":
+      return "/insights";
+    case "document":
+      return `/library?doc=${result.id}`;
+    case "sop":
+      return "/sops";
+  }
+};
+
+// The argument values worth reading before confirming; ids are already named in the summary
+const details = (args: Record<string, unknown>) => {
+  const lines: string[] = [];
+  const textOf = (key: string) => (typeof args[key] === "string" && args[key] ? (args[key] as string) : null);
+  const description = textOf("description") ?? textOf("content");
+  if (description) lines.push(description);
+  if (textOf("priority")) lines.push(`Priority: ${textOf("priority")}`);
+  if (textOf("due_date")) lines.push(`Due: ${textOf("due_date")}`);
+  if (textOf("target_date")) lines.push(`Target: ${textOf("target_date")}`);
+  if (Array.isArray(args.steps) && args.steps.length > 0) lines.push(`${args.steps.length} steps`);
+  return lines;
+};
+
+// A change the assistant proposed, with confirm and reject while it is still pending or its apply was cut off
+export function ActionCard({ action }: ActionCardProps) {
+  const resolve = useResolveAssistantAction();
+  const { label, icon: Icon } = TOOL_LABELS[action.tool];
+  const badge = STATUS_BADGES[action.status];
+  const pending = isAwaitingDecision(action);
+
+  return (
+    <div className="mt-3 rounded-lg border bg-background p-3 text-sm space-y-2">
+      <div className="flex items-center gap-2">
+        <Icon className="h-4 w-4 text-primary shrink-0" />
+        <span className="text-xs font-medium uppercase tracking-wide text-muted-foreground">{label}</span>
+        <Badge variant={badge.variant} className="ml-auto text-xs">{badge.label}</Badge>
+      </div>
+      <p className="font-medium">{action.summary}</p>
+      {details(action.arguments).map((line, index) => (
+        <p key={index} className="text-xs text-muted-foreground line-clamp-3 whitespace-pre-wrap">{line}</p>
+      ))}
+      {action.status === "failed" && action.error && (
+        <p className="text-xs text-destructive">{action.error}</p>
+      )}
+      {action.status === "applied" && action.result && (
+        <Link to={resultHref(action.result)} className="text-xs text-primary hover:underline">
+          Open
+        </Link>
+      )}
+      {pending && (
+        <div className="flex gap-2 pt-1">
+          <Button
+            size="sm"
+            disabled={resolve.isPending}
+            onClick={() => resolve.mutate({ action, decision: "confirm" })}
+          >
+            {resolve.isPending ? <Loader2 className="h-4 w-4 mr-1 animate-spin" /> : <Check className="h-4 w-4 mr-1" />}
+            Confirm
+          </Button>
+          <Button
+            size="sm"
+            variant="outline"
+            disabled={resolve.isPending}
+            onClick={() => resolve.mutate({ action, decision: "reject" })}
+          >
+            <X className="h-4 w-4 mr-1" />
+            Reject
+          </Button>
+        </div>
+      )}
+    </div>
+  );
+}
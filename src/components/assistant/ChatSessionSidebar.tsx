@@ -0,0 +1,212 @@
+import { useState } from "react";
+import { format } from "date-fns";
+import { Archive, ArchiveRestore, MessageSquare, MoreHorizontal, Pencil, Pin, PinOff, Plus, Search, Trash2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { ScrollArea } from "@/components/ui/scroll-area";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+import { cn } from "@/lib/utils";
+import type { ChatSession } from "@/hooks/useChat";
+import {
+  sessionTitle,
+  useChatSessions,
+  useDeleteChatSession,
+  useSearchChatSessions,
+  useUpdateChatSession,
+} from "@/hooks/useChatSessions";
+
+interface ChatSessionSidebarProps {
+  activeSessionId?: string;
+  onOpen: (session: ChatSession) => void;
+  onNew: () => void;
+}
+
+export function ChatSessionSidebar({ activeSessionId, onOpen, onNew }: ChatSessionSidebarProps) {
+  const { data: sessions } = useChatSessions();
+  const updateSession = useUpdateChatSession();
+  const deleteSession = useDeleteChatSession();
+
+  const [query, setQuery] = useState("");
+  const [showArchived, setShowArchived] = useState(false);
+  const [renamingId, setRenamingId] = useState<string | null>(null);
+  const [draftTitle, setDraftTitle] = useState("");
+  const { data: matches } = useSearchChatSessions(query);
+
+  const searching = query.trim().length >= 2;
+  const all = sessions || [];
+  const byId = new Map(all.map(session => [session.id, session]));
+
+  // Title matches first, then sessions whose messages match, each with the matching passage
+  const needle = query.trim().toLowerCase();
+  const titleMatches = searching ? all.filter(session => sessionTitle(session).toLowerCase().includes(needle)) : [];
+  const contentMatches = (matches || [])
+    .filter(match => byId.has(match.session_id) && !titleMatches.some(session => session.id === match.session_id));
+
+  const pinned = all.filter(session => session.pinned && !session.archived_at);
+  const recent = all.filter(session => !session.pinned && !session.archived_at);
+  const archived = all.filter(session => session.archived_at);
+
+  const startRename = (session: ChatSession) => {
+    setRenamingId(session.id);
+    setDraftTitle(sessionTitle(session));
+  };
+
+  const finishRename = (session: ChatSession) => {
+    const title = draftTitle.trim();
+    if (title && title !== session.title) updateSession.mutate({ id: session.id, title });
+    setRenamingId(null);
+  };
+
+  const handleDelete = (session: ChatSession) => {
+    if (!confirm(`Delete "${sessionTitle(session)}" and all its messages?`)) return;
+    deleteSession.mutate(session.id, {
+      onSuccess: () => {
+        if (session.id === activeSessionId) onNew();
+      },
+    });
+  };
+
+  const handleArchive = (session: ChatSession) => {
+    const archiving = !session.archived_at;
+    updateSession.mutate({ id: session.id, archived_at: archiving ? new Date().toISOString() : null });
+    if (archiving && session.id === activeSessionId) onNew();
+  };
+
+  const renderSession = (session: ChatSession, snippet?: string) => (
+    <div
+      key={session.id}
+      className={cn(
+        "group flex items-start gap-1 rounded-md px-2 py-1.5 text-sm transition-colors",
+        session.id === activeSessionId ? "bg-accent" : "hover:bg-accent/50"
+      )}
+    >
+      {renamingId === session.id ? (
+        <Input
+          value={draftTitle}
+          onChange={(e) => setDraftTitle(e.target.value)}
+          onBlur={() => finishRename(session)}
+          onKeyDown={(e) => {
+            if (e.key === "Enter") finishRename(session);
+            if (e.key === "Escape") setRenamingId(null);
+          }}
+          className="h-7 text-sm"
+          autoFocus
+        />
+      ) : (
+        <button className="flex-1 min-w-0 text-left" onClick={() => onOpen(session)}>
+          <div className="flex items-center gap-1.5">
+            {session.pinned && <Pin className="h-3 w-3 shrink-0 text-muted-foreground" />}
+            <span className="truncate font-medium">{sessionTitle(session)}</span>
+          </div>
+          {snippet ? (
+            <p className="text-xs text-muted-foreground line-clamp-2">{snippet}</p>
+          ) : (
+            <p className="text-xs text-muted-foreground">{format(new Date(session.last_active), "MMM d, HH:mm")}</p>
+          )}
+        </button>
+      )}
+      <DropdownMenu>
+        <DropdownMenuTrigger asChild>
+          <Button variant="ghost" size="icon" className="h-6 w-6 shrink-0 opacity-0 group-hover:opacity-100 data-[state=open]:opacity-100">
+            <MoreHorizontal className="h-3.5 w-3.5" />
+          </Button>
+        </DropdownMenuTrigger>
+        <DropdownMenuContent align="end">
+          <DropdownMenuItem onClick={() => startRename(session)}>
+            <Pencil className="w-4 h-4 mr-2" /> Rename
+          </DropdownMenuItem>
+          <DropdownMenuItem onClick={() => updateSession.mutate({ id: session.id, pinned: !session.pinned })}>
+            {session.pinned
+              ? <><PinOff className="w-4 h-4 mr-2" /> Unpin</>
+              : <><Pin className="w-4 h-4 mr-2" /> Pin</>}
+          </DropdownMenuItem>
+          <DropdownMenuItem onClick={() => handleArchive(session)}>
+            {session.archived_at
+              ? <><ArchiveRestore className="w-4 h-4 mr-2" /> Unarchive</>
+              : <><Archive className="w-4 h-4 mr-2" /> Archive</>}
+          </DropdownMenuItem>
+          <DropdownMenuSeparator />
+          <DropdownMenuItem className="text-red-600" onClick={() => handleDelete(session)}>
+            <Trash2 className="w-4 h-4 mr-2" /> Delete
+          </DropdownMenuItem>
+        </DropdownMenuContent>
+      </DropdownMenu>
+    </div>
+  );
+
+  const renderGroup = (label: string, items: ChatSession[]) =>
+    items.length > 0 && (
+      <div className="space-y-0.5">
+        <p className="px-2 pt-2 text-xs font-medium uppercase tracking-wide text-muted-foreground">{label}</p>
+        {items.map(session => renderSession(session))}
+      </div>
+    );
+
+  return (
+    <div className="w-64 shrink-0 border-r flex flex-col min-h-0">
+      <div className="p-3 space-y-2 border-b">
+        <Button className="w-full justify-start" variant="outline" onClick={onNew}>
+          <Plus className="h-4 w-4 mr-2" />
+          New chat
+        </Button>
+        <div className="relative">
+          <Search className="absolute left-2 top-1/2 -translate-y-1/2 h-4 w-4 text-muted-foreground" />
+          <Input
+            value={query}
+            onChange={(e) => setQuery(e.target.value)}
+            placeholder="Search conversations"
+            className="h-8 pl-8 text-sm"
+          />
+        </div>
+      </div>
+
+      <ScrollArea className="flex-1">
+        <div className="p-2 space-y-1">
+          {searching ? (
+            titleMatches.length + contentMatches.length > 0 ? (
+              <>
+                {titleMatches.map(session => renderSession(session))}
+                {contentMatches.map(match => {
+                  const session = byId.get(match.session_id);
+                  return session ? renderSession(session, match.snippet) : null;
+                })}
+              </>
+            ) : (
+              <p className="px-2 py-4 text-sm text-muted-foreground text-center">No conversations match</p>
+            )
+          ) : all.length === 0 ? (
+            <div className="px-2 py-6 text-center text-sm text-muted-foreground space-y-2">
+              <MessageSquare className="h-6 w-6 mx-auto" />
+              <p>Your conversations will appear here</p>
+            </div>
+          ) : (
+            <>
+              {renderGroup("Pinned", pinned)}
+              {renderGroup("Recent", recent)}
+              {archived.length > 0 && (
+                <div className="pt-2">
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    className="w-full justify-start text-xs text-muted-foreground"
+                    onClick={() => setShowArchived(!showArchived)}
+                  >
+                    <Archive className="h-3.5 w-3.5 mr-2" />
+                    {showArchived ? "Hide archived" : `Archived (${archived.length})`}
+                  </Button>
+                  {showArchived && archived.map(session => renderSession(session))}
+                </div>
+              )}
+            </>
+          )}
+        </div>
+      </ScrollArea>
+    </div>
+  );
+}
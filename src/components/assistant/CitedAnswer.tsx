@@ -0,0 +1,75 @@
+import { ReactNode } from "react";
+import { Link } from "react-router-dom";
+import ReactMarkdown from "react-markdown";
+import { BookOpen, CheckSquare, FileText, Lightbulb, MessageSquare, Target } from "lucide-react";
+import { CitationSource, CitationSourceType, citationHref, citedSources, linkCitations, SOURCE_TYPE_LABELS } from "@/lib/citations";
+
+interface CitedAnswerProps {
+  text: string;
+  sources: CitationSource[];
+}
+
+const SOURCE_ICONS: Record<CitationSourceType, typeof FileText> = {
+  document: FileText,
+  sop: BookOpen,
+  principle: Target,
+  task: CheckSquare,
+  insight: Lightbulb,
+  chat: MessageSquare,
+};
+
+const isCitation = (href: string | undefined, children: ReactNode): href is string =>
+  !!href && href.startsWith("/") && typeof children === "string" && /^\d+$/.test(children);
+
+// An assistant answer with its [n] citations as chips, and the cited sources listed underneath
+export function CitedAnswer({ text, sources }: CitedAnswerProps) {
+  const cited = citedSources(text, sources);
+
+  return (
+    <>
+      <div className="prose prose-sm dark:prose-invert max-w-none">
+        <ReactMarkdown
+          components={{
+            a: ({ href, title, children }) =>
+              isCitation(href, children) ? (
+                <Link
+                  to={href}
+                  title={title}
+                  className="inline-flex items-center justify-center min-w-[1rem] h-4 px-1 mx-0.5 rounded-full bg-primary/15 text-primary text-[10px] font-semibold align-super no-underline hover:bg-primary/25"
+                >
+                  {children}
+                </Link>
+              ) : (
+                <a href={href} title={title}>
+                  {children}
+                </a>
+              ),
+          }}
+        >
+          {linkCitations(text, sources)}
+        </ReactMarkdown>
+      </div>
+
+      {cited.length > 0 && (
+        <div className="mt-3 pt-3 border-t flex flex-wrap gap-1.5">
+          {cited.map(source => {
+            const Icon = SOURCE_ICONS[source.type];
+            return (
+              <Link
+                key={source.n}
+                to={citationHref(source)}
+                title={source.excerpt || SOURCE_TYPE_LABELS[source.type]}
+                className="inline-flex items-center gap-1 max-w-full rounded-full border bg-background px-2 py-0.5 text-xs hover:bg-accent"
+              >
+                <span className="font-semibold text-primary">{source.n}</span>
+                <Icon className="h-3 w-3 shrink-0 text-muted-foreground" />
+                <span className="truncate">{source.title}</span>
+                {source.page && <span className="text-muted-foreground">p. {source.page}</span>}
+              </Link>
+            );
+          })}
+        </div>
+      )}
+    </>
+  );
+}
@@ -0,0 +1,82 @@
+import { useState } from "react";
+import { format } from "date-fns";
+import { Brain } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Textarea } from "@/components/ui/textarea";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import type { ChatSession } from "@/hooks/useChat";
+import { useUpdateChatSession } from "@/hooks/useChatSessions";
+
+interface ConversationMemoryProps {
+  session: ChatSession;
+}
+
+// The running summary the assistant keeps of a long conversation, which the user can correct
+export function ConversationMemory({ session }: ConversationMemoryProps) {
+  const updateSession = useUpdateChatSession();
+  const [open, setOpen] = useState(false);
+  const [draft, setDraft] = useState("");
+
+  const openEditor = () => {
+    setDraft(session.summary ?? "");
+    setOpen(true);
+  };
+
+  const save = async (summary: string | null) => {
+    await updateSession.mutateAsync({ id: session.id, summary });
+    setOpen(false);
+  };
+
+  return (
+    <>
+      <Button variant="outline" size="sm" onClick={openEditor} title="What the assistant remembers of this conversation">
+        <Brain className="h-4 w-4 mr-2" />
+        Memory
+      </Button>
+
+      <Dialog open={open} onOpenChange={setOpen}>
+        <DialogContent className="sm:max-w-lg">
+          <DialogHeader>
+            <DialogTitle>Conversation memory</DialogTitle>
+            <DialogDescription>
+              {session.summary_through
+                ? `Once a conversation gets long, the assistant reads this summary instead of the earlier messages. It covers everything up to ${format(new Date(session.summary_through), "MMM d, HH:mm")}.`
+                : "Once this conversation gets long, the assistant will summarize the earlier messages here and read the summary instead."}
+            </DialogDescription>
+          </DialogHeader>
+
+          <Textarea
+            value={draft}
+            onChange={(e) => setDraft(e.target.value)}
+            placeholder="Nothing summarized yet. Anything written here is remembered for the rest of the conversation."
+            className="min-h-[200px]"
+          />
+          <p className="text-xs text-muted-foreground">
+            Edits are kept: later summaries build on what you write here.
+          </p>
+
+          <DialogFooter className="gap-2 sm:gap-0">
+            {session.summary && (
+              <Button
+                variant="ghost"
+                className="sm:mr-auto"
+                disabled={updateSession.isPending}
+                onClick={() => {
+                  if (confirm("Clear this memory? The assistant forgets the summarized part of the conversation.")) save(null);
+                }}
+              >
+                Clear
+              </Button>
+            )}
+            <Button variant="outline" onClick={() => setOpen(false)}>
+              Cancel
+            </Button>
+            <Button onClick={() => save(draft.trim() || null)} disabled={updateSession.isPending}>
+              Save
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </>
+  );
+}
@@ -0,0 +1,149 @@
+import { useState } from "react";
+import { ThumbsDown, ThumbsUp } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Textarea } from "@/components/ui/textarea";
+import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
+import { ChatFeedback, useDeleteChatFeedback, useSaveChatFeedback } from "@/hooks/useChatFeedback";
+import { FEEDBACK_REASONS, FeedbackReason, FeedbackType } from "@/lib/chatFeedback";
+import { cn } from "@/lib/utils";
+
+interface MessageFeedbackProps {
+  messageId: string;
+  feedback?: ChatFeedback;
+}
+
+// Thumbs up/down under an answer. Thumbs down asks what was wrong, which is what tunes later answers
+export function MessageFeedback({ messageId, feedback }: MessageFeedbackProps) {
+  const saveFeedback = useSaveChatFeedback();
+  const deleteFeedback = useDeleteChatFeedback();
+  const [openType, setOpenType] = useState<FeedbackType | null>(null);
+  const [reasons, setReasons] = useState<FeedbackReason[]>([]);
+  const [comment, setComment] = useState("");
+  const busy = saveFeedback.isPending || deleteFeedback.isPending;
+
+  const openForm = (type: FeedbackType) => {
+    const same = feedback?.feedback_type === type;
+    setReasons(same ? feedback.reasons : []);
+    setComment(same ? feedback.comment ?? "" : "");
+    setOpenType(type);
+  };
+
+  // Thumbs up counts straight away; the popover only adds an optional comment
+  const handleHelpful = () => {
+    if (feedback?.feedback_type === "helpful") {
+      deleteFeedback.mutate(feedback.id);
+      return;
+    }
+    saveFeedback.mutate({ message_id: messageId, feedback_type: "helpful", reasons: [], comment: null });
+    openForm("helpful");
+  };
+
+  const toggleReason = (reason: FeedbackReason) => {
+    setReasons(current => current.includes(reason) ? current.filter(r => r !== reason) : [...current, reason]);
+  };
+
+  const submit = async () => {
+    if (!openType) return;
+    await saveFeedback.mutateAsync({
+      message_id: messageId,
+      feedback_type: openType,
+      reasons: openType === "not_helpful" ? reasons : [],
+      comment: comment.trim() || null,
+    });
+    setOpenType(null);
+  };
+
+  const form = (
+    <PopoverContent align="start" className="w-80 space-y-3">
+      {openType === "not_helpful" ? (
+        <>
+          <p className="text-sm font-medium">What was wrong with this answer?</p>
+          <div className="flex flex-wrap gap-2">
+            {FEEDBACK_REASONS.map(({ value, label }) => (
+              <Button
+                key={value}
+                type="button"
+                size="sm"
+                variant={reasons.includes(value) ? "default" : "outline"}
+                className="h-7 text-xs"
+                onClick={() => toggleReason(value)}
+              >
+                {label}
+              </Button>
+            ))}
+          </div>
+        </>
+      ) : (
+        <p className="text-sm font-medium">Thanks! Anything to add?</p>
+      )}
+      <Textarea
+        value={comment}
+        onChange={(e) => setComment(e.target.value)}
+        placeholder={openType === "not_helpful" ? "What would have been better? (optional)" : "Optional comment"}
+        className="min-h-[70px]"
+      />
+      <div className="flex justify-end gap-2">
+        <Button variant="ghost" size="sm" onClick={() => setOpenType(null)}>
+          {openType === "helpful" ? "Done" : "Cancel"}
+        </Button>
+        <Button
+          size="sm"
+          onClick={submit}
+          disabled={busy || (openType === "not_helpful" && reasons.length === 0 && !comment.trim())}
+        >
+          Send
+        </Button>
+      </div>
+    </PopoverContent>
+  );
+
+  return (
+    <div className="flex items-center gap-1 mt-2 -mb-1">
+      <Popover open={openType === "helpful"} onOpenChange={(open) => !open && setOpenType(null)}>
+        <PopoverTrigger asChild>
+          <Button
+            variant="ghost"
+            size="icon"
+            className={cn("h-7 w-7", feedback?.feedback_type === "helpful" && "text-primary")}
+            title={feedback?.feedback_type === "helpful" ? "Remove feedback" : "Helpful"}
+            disabled={busy}
+            onClick={(e) => {
+              e.preventDefault();
+              handleHelpful();
+            }}
+          >
+            <ThumbsUp className={cn("h-3.5 w-3.5", feedback?.feedback_type === "helpful" && "fill-current")} />
+          </Button>
+        </PopoverTrigger>
+        {openType === "helpful" && form}
+      </Popover>
+
+      <Popover open={openType === "not_helpful"} onOpenChange={(open) => open ? openForm("not_helpful") : setOpenType(null)}>
+        <PopoverTrigger asChild>
+          <Button
+            variant="ghost"
+            size="icon"
+            className={cn("h-7 w-7", feedback?.feedback_type === "not_helpful" && "text-destructive")}
+            title="Not helpful"
+            disabled={busy}
+          >
+            <ThumbsDown className={cn("h-3.5 w-3.5", feedback?.feedback_type === "not_helpful" && "fill-current")} />
+          </Button>
+        </PopoverTrigger>
+        {openType === "not_helpful" && form}
+      </Popover>
+
+      {feedback?.feedback_type === "not_helpful" && (
+        <Button
+          variant="link"
+          size="sm"
+          className="h-7 px-1 text-xs text-muted-foreground"
+          disabled={busy}
+          onClick={() => deleteFeedback.mutate(feedback.id)}
+        >
+          Undo
+        </Button>
+      )}
+    </div>
+  );
+}
@@ -14,10 +14,13 @@ import {
   Library,
   Sparkles,
   FolderOpen,
-  Bell
+  Bell,
+  Bookmark
 } from "lucide-react";
 import { NavLink, useLocation } from "react-router-dom";
 import { useAuth } from "@/contexts/AuthContext";
+import { useDocuments } from "@/hooks/useDocuments";
+import { countSavedSearchMatches, savedSearchUrl, toSavedSearchParams, useSavedSearches } from "@/hooks/useSavedSearches";
 
 import {
   Sidebar,
@@ -54,6 +57,12 @@ export function AppSidebar() {
   const currentPath = location.pathname;
   const { user, signOut } = useAuth();
   const [profile, setProfile] = useState<{ full_name: string | null } | null>(null);
+  const { data: savedSearches } = useSavedSearches();
+  const { data: documents } = useDocuments();
+  const pinnedSearches = savedSearches?.filter(search => search.pinned) ?? [];
+  const currentLibraryParams = currentPath.startsWith("/library")
+    ? toSavedSearchParams(new URLSearchParams(location.search))
+    : null;
 
   useEffect(() => {
     if (user) {
@@ -170,6 +179,41 @@ export function AppSidebar() {
           </SidebarGroupContent>
         </SidebarGroup>
 
+        {/* Pinned Library searches with live counts */}
+        {state !== "collapsed" && pinnedSearches.length > 0 && (
+          <SidebarGroup>
+            <SidebarGroupLabel className="px-6 py-3 text-xs font-semibold text-muted-foreground uppercase tracking-wider">
+              Pinned Searches
+            </SidebarGroupLabel>
+            <SidebarGroupContent className="px-3">
+              <SidebarMenu>
+                {pinnedSearches.map((search) => (
+                  <SidebarMenuItem key={search.id}>
+                    <SidebarMenuButton asChild>
+                      <NavLink
+                        to={savedSearchUrl(search)}
+                        className={`${
+                          currentLibraryParams === search.params
+                            ? "bg-sidebar-accent font-medium"
+                            : "hover:bg-sidebar-accent transition-smooth"
+                        } px-3 py-2 rounded-lg flex items-center gap-3 text-sm w-full`}
+                      >
+                        {search.is_smart_collection
+                          ? <Sparkles className="w-4 h-4 flex-shrink-0 text-primary" />
+                          : <Bookmark className="w-4 h-4 flex-shrink-0" />}
+                        <span className="flex-1 truncate">{search.name}</span>
+                        <span className="text-xs text-muted-foreground">
+                          {countSavedSearchMatches(search, documents)}
+                        </span>
+                      </NavLink>
+                    </SidebarMenuButton>
+                  </SidebarMenuItem>
+                ))}
+              </SidebarMenu>
+            </SidebarGroupContent>
+          </SidebarGroup>
+        )}
+
         {/* User Section */}
         {state !== "collapsed" && (
           <div className="mt-auto p-4 border-t border-sidebar-border animate-fade-in space-y-2">
@@ -5,6 +5,7 @@ import { Button } from "@/components/ui/button";
 import { Search, Bell, Settings } from "lucide-react";
 import { MobileBottomNav } from "./MobileBottomNav";
 import { MobileFAB } from "./MobileFAB";
+import { UploadQueueIndicator } from "./UploadQueueIndicator";
 import { useIsMobile } from "@/hooks/use-mobile";
 
 interface LayoutProps {
@@ -45,6 +46,7 @@ export function Layout({ children }: LayoutProps) {
             </div>
 
             <div className="flex items-center gap-1 md:gap-2 flex-shrink-0">
+              <UploadQueueIndicator />
               <Button variant="ghost" size="icon" className="h-9 w-9 md:h-10 md:w-10">
                 <Bell className="w-4 h-4" />
               </Button>
@@ -0,0 +1,79 @@
+import { CheckCircle, Loader2, RotateCcw, Upload, X } from "lucide-react";
+import { useNavigate } from "react-router-dom";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Progress } from "@/components/ui/progress";
+import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
+import { useUploadQueue } from "@/hooks/useUploadQueue";
+import { describeUpload, IN_FLIGHT_STATUSES } from "@/lib/uploadQueue";
+
+// Header badge for the upload queue, so uploads stay visible while the user is elsewhere in the app
+export function UploadQueueIndicator() {
+  const { uploads, retry, discard } = useUploadQueue();
+  const navigate = useNavigate();
+
+  if (uploads.length === 0) return null;
+
+  const working = uploads.filter(upload => upload.status === 'queued' || IN_FLIGHT_STATUSES.includes(upload.status));
+  const needsReview = uploads.filter(upload => upload.status === 'reviewing').length;
+  const failed = uploads.filter(upload => upload.status === 'error').length;
+  const overallProgress = working.length > 0
+    ? working.reduce((sum, upload) => sum + upload.progress, 0) / working.length
+    : 100;
+
+  return (
+    <Popover>
+      <PopoverTrigger asChild>
+        <Button variant="ghost" size="sm" className="h-9 gap-2">
+          {working.length > 0 ? <Loader2 className="w-4 h-4 animate-spin" /> : <Upload className="w-4 h-4" />}
+          <span className="hidden md:inline">
+            {working.length > 0 ? `Uploading ${working.length}` : `${needsReview} to review`}
+          </span>
+          {failed > 0 && <Badge variant="destructive">{failed}</Badge>}
+        </Button>
+      </PopoverTrigger>
+      <PopoverContent align="end" className="w-80 space-y-3">
+        <div className="flex items-center justify-between">
+          <h4 className="text-sm font-medium">Uploads</h4>
+          {needsReview > 0 && (
+            <Button size="sm" variant="link" className="h-auto p-0" onClick={() => navigate('/library')}>
+              Review {needsReview}
+            </Button>
+          )}
+        </div>
+        {working.length > 0 && <Progress value={overallProgress} />}
+        <div className="max-h-72 overflow-auto space-y-2">
+          {uploads.map(upload => (
+            <div key={upload.id} className="flex items-center gap-2 text-sm">
+              {upload.status === 'complete' ? (
+                <CheckCircle className="w-4 h-4 text-green-500 shrink-0" />
+              ) : upload.status === 'error' ? (
+                <X className="w-4 h-4 text-destructive shrink-0" />
+              ) : upload.status === 'reviewing' ? (
+                <Upload className="w-4 h-4 text-primary shrink-0" />
+              ) : (
+                <Loader2 className="w-4 h-4 animate-spin text-muted-foreground shrink-0" />
+              )}
+              <div className="flex-1 min-w-0">
+                <div className="truncate">{upload.file.name}</div>
+                <div className={`text-xs truncate ${upload.status === 'error' ? 'text-destructive' : 'text-muted-foreground'}`}>
+                  {describeUpload(upload)}
+                </div>
+              </div>
+              {upload.status === 'error' && (
+                <>
+                  <Button size="icon" variant="ghost" className="h-7 w-7" onClick={() => retry(upload.id)}>
+                    <RotateCcw className="w-3.5 h-3.5" />
+                  </Button>
+                  <Button size="icon" variant="ghost" className="h-7 w-7" onClick={() => discard(upload.id).catch(error => console.error('Error discarding upload:', error))}>
+                    <X className="w-3.5 h-3.5" />
+                  </Button>
+                </>
+              )}
+            </div>
+          ))}
+        </div>
+      </PopoverContent>
+    </Popover>
+  );
+}
@@ -0,0 +1,238 @@
+import { useEffect, useMemo, useState } from "react";
+import { FolderOpen, Loader2, Sparkles, Tag, Trash2, X } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { ToastAction } from "@/components/ui/toast";
+import { useToast } from "@/hooks/use-toast";
+import { supabase } from "@/integrations/supabase/client";
+import { Document } from "@/hooks/useDocuments";
+import {
+  BulkChange,
+  BulkResult,
+  describeBulkResult,
+  UNDO_WINDOW_MS,
+  useBulkRecategorize,
+  useBulkUpdateDocuments,
+  useUndoBulkChange,
+} from "@/hooks/useBulkDocumentActions";
+
+interface BulkActionBarProps {
+  documents: Document[];
+  onClearSelection: () => void;
+  onDelete: (ids: string[]) => () => void;
+}
+
+// Sentinel for "no principle/project" in the relink selects, which can't use an empty value
+const UNLINK = "__none__";
+
+const plural = (count: number) => `${count} ${count === 1 ? "document" : "documents"}`;
+
+export function BulkActionBar({ documents, onClearSelection, onDelete }: BulkActionBarProps) {
+  const { toast } = useToast();
+  const bulkUpdate = useBulkUpdateDocuments();
+  const bulkRecategorize = useBulkRecategorize();
+  const undoBulkChange = useUndoBulkChange();
+  const [principles, setPrinciples] = useState<{ id: string; title: string }[]>([]);
+  const [projects, setProjects] = useState<{ id: string; name: string }[]>([]);
+  const [newTags, setNewTags] = useState("");
+  const [progress, setProgress] = useState<{ done: number; total: number } | null>(null);
+
+  useEffect(() => {
+    const fetchData = async () => {
+      const [principlesRes, projectsRes] = await Promise.all([
+        supabase.from('principles').select('id, title').order('title'),
+        supabase.from('projects').select('id, name').order('name'),
+      ]);
+      if (principlesRes.data) setPrinciples(principlesRes.data);
+      if (projectsRes.data) setProjects(projectsRes.data);
+    };
+    fetchData();
+  }, []);
+
+  // Tags present on any selected document, most common first
+  const selectedTags = useMemo(() => {
+    const counts = new Map<string, number>();
+    documents.forEach(doc => (doc.tags || []).forEach(tag => counts.set(tag, (counts.get(tag) || 0) + 1)));
+    return Array.from(counts.entries()).sort((a, b) => b[1] - a[1]);
+  }, [documents]);
+
+  const busy = bulkUpdate.isPending || bulkRecategorize.isPending;
+
+  const offerUndo = (title: string, result: BulkResult, verb?: string) => {
+    if (result.snapshots.length === 0 && result.failed.length === 0) {
+      toast({ title: "Nothing to change", description: "The selected documents already match" });
+      return;
+    }
+    toast({
+      title: result.snapshots.length === 0 ? "No documents changed" : result.failed.length > 0 ? `${title}, with failures` : title,
+      description: describeBulkResult(result, verb),
+      duration: UNDO_WINDOW_MS,
+      variant: result.snapshots.length === 0 ? "destructive" : "default",
+      action: result.snapshots.length > 0 ? (
+        <ToastAction altText="Undo changes" onClick={() => undoBulkChange.mutate(result)}>
+          Undo
+        </ToastAction>
+      ) : undefined,
+    });
+  };
+
+  const applyChange = async (title: string, change: BulkChange) => {
+    // Failures are reported by the mutation itself
+    const undo = await bulkUpdate.mutateAsync({ documents, change }).catch(() => null);
+    if (undo) offerUndo(title, undo);
+  };
+
+  const handleAddTags = async () => {
+    const tags = newTags.split(',').map(t => t.trim()).filter(Boolean);
+    if (tags.length === 0) return;
+    await applyChange("Tags added", { kind: "add_tags", tags });
+    setNewTags("");
+  };
+
+  const handleRecategorize = async () => {
+    if (!confirm(`Ask the AI to recategorize ${plural(documents.length)}? This replaces their category, tags and principle.`)) return;
+
+    setProgress({ done: 0, total: documents.length });
+    try {
+      const result = await bulkRecategorize.mutateAsync({
+        documents,
+        onProgress: (done, total) => setProgress({ done, total }),
+      });
+      offerUndo("Documents recategorized", result, "Recategorized");
+    } catch {
+      // Reported by the mutation's error toast
+    } finally {
+      setProgress(null);
+    }
+  };
+
+  const handleDelete = () => {
+    if (!confirm(`Delete ${plural(documents.length)} and their files?`)) return;
+
+    const cancel = onDelete(documents.map(doc => doc.id));
+    const count = documents.length;
+    onClearSelection();
+    toast({
+      title: "Documents deleted",
+      description: `${plural(count)} will be removed`,
+      duration: UNDO_WINDOW_MS,
+      action: (
+        <ToastAction altText="Undo delete" onClick={cancel}>
+          Undo
+        </ToastAction>
+      ),
+    });
+  };
+
+  return (
+    <div className="sticky top-2 z-10 flex flex-wrap items-center gap-2 rounded-lg border bg-card p-2 shadow-md">
+      <Badge variant="secondary">{documents.length} selected</Badge>
+
+      <Popover>
+        <PopoverTrigger asChild>
+          <Button size="sm" variant="outline" disabled={busy}>
+            <Tag className="w-4 h-4 mr-2" />
+            Tags
+          </Button>
+        </PopoverTrigger>
+        <PopoverContent className="w-72 space-y-3">
+          <div className="flex gap-2">
+            <Input
+              placeholder="Add tags, comma separated"
+              value={newTags}
+              onChange={(e) => setNewTags(e.target.value)}
+              onKeyDown={(e) => e.key === 'Enter' && handleAddTags()}
+            />
+            <Button size="sm" onClick={handleAddTags} disabled={busy}>
+              Add
+            </Button>
+          </div>
+          {selectedTags.length > 0 && (
+            <div className="space-y-1">
+              <p className="text-xs text-muted-foreground">Remove from selected</p>
+              <div className="flex flex-wrap gap-1">
+                {selectedTags.map(([tag, count]) => (
+                  <Badge key={tag} variant="outline" className="gap-1">
+                    {tag}
+                    <span className="text-muted-foreground">{count}</span>
+                    <button
+                      className="ml-1 hover:text-destructive"
+                      disabled={busy}
+                      onClick={() => applyChange("Tag removed", { kind: "remove_tags", tags: [tag] })}
+                    >
+                      ×
+                    </button>
+                  </Badge>
+                ))}
+              </div>
+            </div>
+          )}
+        </PopoverContent>
+      </Popover>
+
+      <Select
+        value=""
+        disabled={busy}
+        onValueChange={(value) =>
+          applyChange("Principle linked", { kind: "principle", principleId: value === UNLINK ? null : value })
+        }
+      >
+        <SelectTrigger className="h-9 w-40">
+          <SelectValue placeholder="Link principle" />
+        </SelectTrigger>
+        <SelectContent>
+          <SelectItem value={UNLINK}>No principle</SelectItem>
+          {principles.map(p => (
+            <SelectItem key={p.id} value={p.id}>{p.title}</SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+
+      <Select
+        value=""
+        disabled={busy}
+        onValueChange={(value) =>
+          applyChange("Project linked", { kind: "project", projectId: value === UNLINK ? null : value })
+        }
+      >
+        <SelectTrigger className="h-9 w-40">
+          <FolderOpen className="w-4 h-4 mr-2 shrink-0" />
+          <SelectValue placeholder="Link project" />
+        </SelectTrigger>
+        <SelectContent>
+          <SelectItem value={UNLINK}>No project</SelectItem>
+          {projects.map(p => (
+            <SelectItem key={p.id} value={p.id}>{p.name}</SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+
+      <Button size="sm" variant="outline" onClick={handleRecategorize} disabled={busy}>
+        {progress ? (
+          <>
+            <Loader2 className="w-4 h-4 mr-2 animate-spin" />
+            {progress.done}/{progress.total}
+          </>
+        ) : (
+          <>
+            <Sparkles className="w-4 h-4 mr-2" />
+            Recategorize
+          </>
+        )}
+      </Button>
+
+      <Button size="sm" variant="destructive" onClick={handleDelete} disabled={busy}>
+        <Trash2 className="w-4 h-4 mr-2" />
+        Delete
+      </Button>
+
+      <Button size="sm" variant="ghost" className="ml-auto" onClick={onClearSelection}>
+        <X className="w-4 h-4 mr-2" />
+        Clear
+      </Button>
+    </div>
+  );
+}
@@ -2,81 +2,88 @@ import { Document } from "@/hooks/useDocuments";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Badge } from "@/components/ui/badge";
 import { Button } from "@/components/ui/button";
-import { FileText, ChevronDown, ChevronRight } from "lucide-react";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Input } from "@/components/ui/input";
+import { Slider } from "@/components/ui/slider";
+import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
+import { ToastAction } from "@/components/ui/toast";
+import { FileText, ChevronDown, ChevronRight, FolderPlus, Tag } from "lucide-react";
 import { useState, useMemo } from "react";
+import { useToast } from "@/hooks/use-toast";
+import { useCreateProject } from "@/hooks/useProjects";
+import { BulkChange, describeBulkResult, UNDO_WINDOW_MS, useBulkUpdateDocuments, useUndoBulkChange } from "@/hooks/useBulkDocumentActions";
 import { formatFileSize, getFileTypeLabel } from "@/lib/fileParser";
+import {
+  clusterDocuments,
+  DocumentCluster,
+  MAX_CLUSTERS,
+  MIN_CLUSTERS,
+  suggestedClusterCount,
+  UNCLUSTERED_ID,
+} from "@/lib/documentClustering";
 
 interface ClusterViewProps {
   documents: Document[];
   onDocumentClick: (doc: Document) => void;
+  selectedIds?: Set<string>;
+  onToggleSelect?: (doc: Document) => void;
 }
 
-interface Cluster {
-  id: string;
-  label: string;
-  keywords: string[];
-  documents: Document[];
-}
-
-export function ClusterView({ documents, onDocumentClick }: ClusterViewProps) {
-  const [expandedClusters, setExpandedClusters] = useState<Set<string>>(new Set());
+const plural = (count: number) => `${count} ${count === 1 ? "document" : "documents"}`;
 
-  // Cluster documents by principle, then by shared tags
-  const clusters = useMemo(() => {
-    const clusterMap = new Map<string, Cluster>();
-    const uncategorized: Document[] = [];
+const slugify = (text: string) => text.toLowerCase().replace(/[^a-z0-9]+/g, "-").replace(/^-|-$/g, "");
 
-    documents.forEach(doc => {
-      let clusterId: string;
-      let clusterLabel: string;
-      let clusterKeywords: string[] = [];
+export function ClusterView({ documents, onDocumentClick, selectedIds, onToggleSelect }: ClusterViewProps) {
+  const { toast } = useToast();
+  const bulkUpdate = useBulkUpdateDocuments();
+  const undoBulkChange = useUndoBulkChange();
+  const createProject = useCreateProject();
+  const [expandedClusters, setExpandedClusters] = useState<Set<string>>(new Set());
+  const [clusterCount, setClusterCount] = useState<number | null>(null);
+  const [tagName, setTagName] = useState("");
+  const [projectName, setProjectName] = useState("");
 
-      if (doc.primary_principle_id) {
-        clusterId = `principle-${doc.primary_principle_id}`;
-        clusterLabel = "Principle-aligned";
-        clusterKeywords = doc.tags?.slice(0, 3) || [];
-      } else if (doc.linked_project_id) {
-        clusterId = `project-${doc.linked_project_id}`;
-        clusterLabel = "Project-linked";
-        clusterKeywords = doc.tags?.slice(0, 3) || [];
-      } else if (doc.category) {
-        clusterId = `category-${doc.category}`;
-        clusterLabel = doc.category;
-        clusterKeywords = doc.tags?.slice(0, 3) || [];
-      } else if (doc.tags && doc.tags.length > 0) {
-        // Group by primary tag
-        clusterId = `tag-${doc.tags[0]}`;
-        clusterLabel = doc.tags[0];
-        clusterKeywords = doc.tags.slice(1, 4);
-      } else {
-        uncategorized.push(doc);
-        return;
-      }
+  // Granularity follows the library's size until the user picks one
+  const maxClusters = Math.max(MIN_CLUSTERS, Math.min(MAX_CLUSTERS, documents.length));
+  const effectiveCount = Math.min(clusterCount ?? suggestedClusterCount(documents.length), maxClusters);
 
-      if (!clusterMap.has(clusterId)) {
-        clusterMap.set(clusterId, {
-          id: clusterId,
-          label: clusterLabel,
-          keywords: clusterKeywords,
-          documents: [],
-        });
-      }
+  const clusters = useMemo(() => clusterDocuments(documents, effectiveCount), [documents, effectiveCount]);
 
-      clusterMap.get(clusterId)!.documents.push(doc);
+  const applyChange = async (title: string, cluster: DocumentCluster<Document>, change: BulkChange) => {
+    // Failures are reported by the mutation itself
+    const undo = await bulkUpdate.mutateAsync({ documents: cluster.documents, change }).catch(() => null);
+    if (!undo) return;
+    toast({
+      title: undo.failed.length > 0 ? `${title}, with failures` : title,
+      description: undo.snapshots.length > 0 ? describeBulkResult(undo) : "The cluster's documents already match",
+      duration: UNDO_WINDOW_MS,
+      action: undo.snapshots.length > 0 ? (
+        <ToastAction altText="Undo changes" onClick={() => undoBulkChange.mutate(undo)}>
+          Undo
+        </ToastAction>
+      ) : undefined,
     });
+  };
 
-    // Add uncategorized cluster if needed
-    if (uncategorized.length > 0) {
-      clusterMap.set('uncategorized', {
-        id: 'uncategorized',
-        label: 'Uncategorized',
-        keywords: [],
-        documents: uncategorized,
-      });
-    }
+  const handleTagCluster = async (cluster: DocumentCluster<Document>) => {
+    const tag = slugify(tagName);
+    if (!tag) return;
+    await applyChange(`Tagged "${tag}"`, cluster, { kind: "add_tags", tags: [tag] });
+    setTagName("");
+  };
 
-    return Array.from(clusterMap.values()).sort((a, b) => b.documents.length - a.documents.length);
-  }, [documents]);
+  const handleProjectFromCluster = async (cluster: DocumentCluster<Document>) => {
+    const name = projectName.trim();
+    if (!name) return;
+    const project = await createProject.mutateAsync({
+      name,
+      description: cluster.keywords.length > 0 ? `Keywords: ${cluster.keywords.join(", ")}` : undefined,
+      tags: cluster.keywords.slice(0, 3),
+    }).catch(() => null);
+    if (!project) return;
+    await applyChange(`Linked to "${name}"`, cluster, { kind: "project", projectId: project.id });
+    setProjectName("");
+  };
 
   const toggleCluster = (clusterId: string) => {
     setExpandedClusters(prev => {
@@ -104,7 +111,22 @@ export function ClusterView({ documents, onDocumentClick }: ClusterViewProps) {
         <div className="text-sm text-muted-foreground">
           {clusters.length} clusters • {documents.length} documents
         </div>
-        <div className="flex gap-2">
+        <div className="flex items-center gap-2">
+          {documents.length > MIN_CLUSTERS && (
+            <div className="flex items-center gap-2 mr-2 text-xs text-muted-foreground">
+              <span>Fewer</span>
+              <Slider
+                className="w-32"
+                min={MIN_CLUSTERS}
+                max={maxClusters}
+                step={1}
+                value={[effectiveCount]}
+                onValueChange={([value]) => setClusterCount(value)}
+                aria-label="Number of clusters"
+              />
+              <span>More</span>
+            </div>
+          )}
           <Button variant="ghost" size="sm" onClick={expandAll}>
             Expand All
           </Button>
@@ -132,7 +154,7 @@ export function ClusterView({ documents, onDocumentClick }: ClusterViewProps) {
                   )}
                   <div>
                     <CardTitle className="text-base">{cluster.label}</CardTitle>
-                    <div className="flex gap-2 mt-1">
+                    <div className="flex gap-2 mt-1 flex-wrap">
                       <Badge variant="secondary">{cluster.documents.length} docs</Badge>
                       {cluster.keywords.map(kw => (
                         <Badge key={kw} variant="outline" className="text-xs">
@@ -142,6 +164,61 @@ export function ClusterView({ documents, onDocumentClick }: ClusterViewProps) {
                     </div>
                   </div>
                 </div>
+                {cluster.id !== UNCLUSTERED_ID && (
+                  <div className="flex gap-1" onClick={(e) => e.stopPropagation()}>
+                    <Popover onOpenChange={(open) => open && setTagName(slugify(cluster.keywords[0] ?? cluster.label))}>
+                      <PopoverTrigger asChild>
+                        <Button variant="ghost" size="sm" title="Tag every document in this cluster">
+                          <Tag className="w-4 h-4 mr-1" />
+                          Tag
+                        </Button>
+                      </PopoverTrigger>
+                      <PopoverContent className="w-64 space-y-2" align="end">
+                        <Input
+                          placeholder="Tag name"
+                          value={tagName}
+                          onChange={(e) => setTagName(e.target.value)}
+                          onKeyDown={(e) => e.key === "Enter" && handleTagCluster(cluster)}
+                        />
+                        <Button
+                          size="sm"
+                          className="w-full"
+                          disabled={!slugify(tagName) || bulkUpdate.isPending}
+                          onClick={() => handleTagCluster(cluster)}
+                        >
+                          Tag {plural(cluster.documents.length)}
+                        </Button>
+                      </PopoverContent>
+                    </Popover>
+                    <Popover onOpenChange={(open) => open && setProjectName(cluster.label)}>
+                      <PopoverTrigger asChild>
+                        <Button variant="ghost" size="sm" title="Create a project from this cluster">
+                          <FolderPlus className="w-4 h-4 mr-1" />
+                          Project
+                        </Button>
+                      </PopoverTrigger>
+                      <PopoverContent className="w-64 space-y-2" align="end">
+                        <Input
+                          placeholder="Project name"
+                          value={projectName}
+                          onChange={(e) => setProjectName(e.target.value)}
+                          onKeyDown={(e) => e.key === "Enter" && handleProjectFromCluster(cluster)}
+                        />
+                        <p className="text-xs text-muted-foreground">
+                          Creates the project and links {plural(cluster.documents.length)} to it
+                        </p>
+                        <Button
+                          size="sm"
+                          className="w-full"
+                          disabled={!projectName.trim() || createProject.isPending || bulkUpdate.isPending}
+                          onClick={() => handleProjectFromCluster(cluster)}
+                        >
+                          Create project
+                        </Button>
+                      </PopoverContent>
+                    </Popover>
+                  </div>
+                )}
               </div>
             </CardHeader>
 
@@ -155,6 +232,14 @@ export function ClusterView({ documents, onDocumentClick }: ClusterViewProps) {
                       onClick={() => onDocumentClick(doc)}
                     >
                       <div className="flex items-start gap-3">
+                        {onToggleSelect && (
+                          <Checkbox
+                            className="mt-1"
+                            checked={selectedIds?.has(doc.id) ?? false}
+                            onClick={(e) => e.stopPropagation()}
+                            onCheckedChange={() => onToggleSelect(doc)}
+                          />
+                        )}
                         <FileText className="w-4 h-4 mt-1 text-muted-foreground flex-shrink-0" />
                         <div className="flex-1 min-w-0">
                           <div className="font-medium text-sm">{doc.title}</div>
@@ -0,0 +1,116 @@
+import { useMemo, useState } from "react";
+import { ArrowDown, ArrowUp, ArrowUpDown } from "lucide-react";
+import { Badge } from "@/components/ui/badge";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import type { CellValue, SheetSchema } from "@/lib/spreadsheetParser";
+
+interface DataPreviewTableProps {
+  sheets: SheetSchema[];
+}
+
+type SortState = { column: number; direction: 'asc' | 'desc' } | null;
+
+const compareValues = (a: CellValue, b: CellValue): number => {
+  const numA = typeof a === 'number' ? a : Number(String(a).replace(/[$€£¥,%\s]/g, ''));
+  const numB = typeof b === 'number' ? b : Number(String(b).replace(/[$€£¥,%\s]/g, ''));
+  if (!isNaN(numA) && !isNaN(numB)) return numA - numB;
+
+  return String(a).localeCompare(String(b), undefined, { numeric: true });
+};
+
+const isEmpty = (value: CellValue) => value === null || value === '';
+
+// Empty cells go last whichever way the column is sorted
+const compareCells = (a: CellValue, b: CellValue, direction: 'asc' | 'desc'): number => {
+  if (isEmpty(a)) return isEmpty(b) ? 0 : 1;
+  if (isEmpty(b)) return -1;
+  return direction === 'asc' ? compareValues(a, b) : compareValues(b, a);
+};
+
+function SheetTable({ sheet }: { sheet: SheetSchema }) {
+  const [sort, setSort] = useState<SortState>(null);
+
+  const rows = useMemo(() => {
+    if (!sort) return sheet.previewRows;
+    return [...sheet.previewRows].sort((a, b) => compareCells(a[sort.column], b[sort.column], sort.direction));
+  }, [sheet.previewRows, sort]);
+
+  const toggleSort = (column: number) => {
+    setSort(prev => {
+      if (!prev || prev.column !== column) return { column, direction: 'asc' };
+      if (prev.direction === 'asc') return { column, direction: 'desc' };
+      return null;
+    });
+  };
+
+  return (
+    <div className="space-y-2">
+      <div className="text-xs text-muted-foreground">
+        {sheet.rowCount.toLocaleString()} rows × {sheet.columnCount} columns
+        {sheet.rowCount > sheet.previewRows.length && ` • showing first ${sheet.previewRows.length}`}
+      </div>
+      <div className="max-h-80 overflow-auto rounded-md border">
+        <Table>
+          <TableHeader>
+            <TableRow>
+              {sheet.columns.map((column, i) => (
+                <TableHead key={i} className="whitespace-nowrap">
+                  <div className="flex flex-col items-start py-1">
+                    <button
+                      className="flex items-center gap-1 hover:text-foreground"
+                      onClick={() => toggleSort(i)}
+                    >
+                      {column.name}
+                      {sort?.column === i ? (
+                        sort.direction === 'asc' ? <ArrowUp className="w-3 h-3" /> : <ArrowDown className="w-3 h-3" />
+                      ) : (
+                        <ArrowUpDown className="w-3 h-3 opacity-40" />
+                      )}
+                    </button>
+                    <Badge variant="outline" className="mt-1 text-[10px] font-normal">
+                      {column.type}
+                    </Badge>
+                  </div>
+                </TableHead>
+              ))}
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {rows.map((row, rowIndex) => (
+              <TableRow key={rowIndex}>
+                {sheet.columns.map((_, i) => (
+                  <TableCell key={i} className="whitespace-nowrap text-xs">
+                    {row[i] === null ? '' : String(row[i])}
+                  </TableCell>
+                ))}
+              </TableRow>
+            ))}
+          </TableBody>
+        </Table>
+      </div>
+    </div>
+  );
+}
+
+export function DataPreviewTable({ sheets }: DataPreviewTableProps) {
+  if (sheets.length === 0) return null;
+  if (sheets.length === 1) return <SheetTable sheet={sheets[0]} />;
+
+  return (
+    <Tabs defaultValue={sheets[0].name}>
+      <TabsList className="flex-wrap h-auto">
+        {sheets.map(sheet => (
+          <TabsTrigger key={sheet.name} value={sheet.name}>
+            {sheet.name}
+          </TabsTrigger>
+        ))}
+      </TabsList>
+      {sheets.map(sheet => (
+        <TabsContent key={sheet.name} value={sheet.name}>
+          <SheetTable sheet={sheet} />
+        </TabsContent>
+      ))}
+    </Tabs>
+  );
+}
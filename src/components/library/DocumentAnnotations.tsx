@@ -0,0 +1,343 @@
+import { ReactNode, useMemo, useRef, useState } from "react";
+import { Highlighter, Lightbulb, ListTodo, MessageSquare, Pencil, Trash2, X } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Textarea } from "@/components/ui/textarea";
+import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Document } from "@/hooks/useDocuments";
+import { useProjects } from "@/hooks/useProjects";
+import {
+  AnnotationColor,
+  DocumentAnnotation,
+  useAnnotations,
+  useConvertAnnotation,
+  useCreateAnnotation,
+  useDeleteAnnotation,
+  useUpdateAnnotation,
+} from "@/hooks/useDocumentAnnotations";
+import { createAnchor, resolveAnchor, segmentAnnotatedText, TextAnchor } from "@/lib/annotationAnchors";
+
+interface DocumentAnnotationsProps {
+  document: Document;
+  highlight: (text: string) => ReactNode;
+}
+
+const COLORS: Record<AnnotationColor, { mark: string; swatch: string; border: string }> = {
+  yellow: { mark: "bg-yellow-200/80 dark:bg-yellow-500/30", swatch: "bg-yellow-300", border: "border-yellow-400" },
+  green: { mark: "bg-green-200/80 dark:bg-green-500/30", swatch: "bg-green-300", border: "border-green-400" },
+  blue: { mark: "bg-blue-200/80 dark:bg-blue-500/30", swatch: "bg-blue-300", border: "border-blue-400" },
+  pink: { mark: "bg-pink-200/80 dark:bg-pink-500/30", swatch: "bg-pink-300", border: "border-pink-400" },
+};
+
+// Character offset of a DOM position within the container's text, which mirrors extracted_text
+const textOffset = (container: HTMLElement, node: Node, offset: number) => {
+  const range = window.document.createRange();
+  range.selectNodeContents(container);
+  range.setEnd(node, offset);
+  return range.toString().length;
+};
+
+function TaskButton({
+  annotation,
+  document,
+  onConvert,
+  disabled,
+}: {
+  annotation: DocumentAnnotation;
+  document: Document;
+  onConvert: (projectId?: string) => void;
+  disabled: boolean;
+}) {
+  const { data: projects } = useProjects();
+  const [projectId, setProjectId] = useState<string>("");
+
+  if (annotation.task_id) {
+    return <Badge variant="secondary" className="text-xs">Task created</Badge>;
+  }
+
+  // With a linked project the task goes straight there; otherwise ask which project
+  if (document.linked_project_id) {
+    return (
+      <Button variant="ghost" size="sm" className="h-7 px-2 text-xs" disabled={disabled} onClick={() => onConvert()}>
+        <ListTodo className="w-3 h-3 mr-1" />
+        Task
+      </Button>
+    );
+  }
+
+  return (
+    <Popover>
+      <PopoverTrigger asChild>
+        <Button variant="ghost" size="sm" className="h-7 px-2 text-xs" disabled={disabled}>
+          <ListTodo className="w-3 h-3 mr-1" />
+          Task
+        </Button>
+      </PopoverTrigger>
+      <PopoverContent className="w-64 space-y-2">
+        <p className="text-xs text-muted-foreground">Add the task to a project</p>
+        <Select value={projectId} onValueChange={setProjectId}>
+          <SelectTrigger className="h-8">
+            <SelectValue placeholder="Choose a project" />
+          </SelectTrigger>
+          <SelectContent>
+            {(projects || []).map(project => (
+              <SelectItem key={project.id} value={project.id}>{project.name}</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        <Button size="sm" className="w-full" disabled={!projectId} onClick={() => onConvert(projectId)}>
+          Create task
+        </Button>
+      </PopoverContent>
+    </Popover>
+  );
+}
+
+export function DocumentAnnotations({ document, highlight }: DocumentAnnotationsProps) {
+  const { data: allAnnotations } = useAnnotations();
+  const createAnnotation = useCreateAnnotation();
+  const updateAnnotation = useUpdateAnnotation();
+  const deleteAnnotation = useDeleteAnnotation();
+  const convertAnnotation = useConvertAnnotation();
+
+  const textRef = useRef<HTMLDivElement>(null);
+  const [showText, setShowText] = useState(false);
+  const [pending, setPending] = useState<TextAnchor | null>(null);
+  const [color, setColor] = useState<AnnotationColor>("yellow");
+  const [comment, setComment] = useState("");
+  const [editing, setEditing] = useState<{ id: string; comment: string } | null>(null);
+
+  const text = document.extracted_text || "";
+
+  // Anchors are resolved against the current text, so annotations made on an earlier version
+  // follow their quote; ones whose quote is gone are listed as detached
+  const annotations = useMemo(
+    () =>
+      (allAnnotations || [])
+        .filter(annotation => annotation.document_id === document.id)
+        .map(annotation => ({ annotation, range: resolveAnchor(text, annotation) }))
+        .sort((a, b) => (a.range?.start ?? Infinity) - (b.range?.start ?? Infinity)),
+    [allAnnotations, document.id, text]
+  );
+
+  const segments = useMemo(() => {
+    const ranges = annotations.flatMap(({ annotation, range }) => (range ? [{ ...range, id: annotation.id }] : []));
+    return segmentAnnotatedText(text, ranges);
+  }, [annotations, text]);
+
+  const colorOf = useMemo(
+    () => new Map(annotations.map(({ annotation }) => [annotation.id, annotation.color])),
+    [annotations]
+  );
+
+  const handleSelection = () => {
+    const selection = window.getSelection();
+    const container = textRef.current;
+    if (!selection || selection.isCollapsed || !container) return;
+
+    const range = selection.getRangeAt(0);
+    if (!container.contains(range.startContainer) || !container.contains(range.endContainer)) return;
+
+    const start = textOffset(container, range.startContainer, range.startOffset);
+    const end = textOffset(container, range.endContainer, range.endOffset);
+    if (end - start < 1 || !text.slice(start, end).trim()) return;
+
+    setPending(createAnchor(text, start, end));
+    setComment("");
+  };
+
+  const savePending = async () => {
+    if (!pending) return;
+    const saved = await createAnnotation
+      .mutateAsync({ documentId: document.id, anchor: pending, comment, color })
+      .catch(() => null);
+    if (!saved) return;
+    setPending(null);
+    setComment("");
+    window.getSelection()?.removeAllRanges();
+  };
+
+  const scrollToAnnotation = (id: string) => {
+    setShowText(true);
+    // Wait for the text view to render before looking for the mark
+    requestAnimationFrame(() => {
+      textRef.current?.querySelector(`[data-annotation-start="${id}"]`)?.scrollIntoView({ block: "center", behavior: "smooth" });
+    });
+  };
+
+  const startsAt = useMemo(
+    () => new Map(annotations.flatMap(({ annotation, range }) => (range ? [[range.start, annotation.id] as const] : []))),
+    [annotations]
+  );
+
+  return (
+    <div className="space-y-2">
+      <div className="flex items-center justify-between">
+        <h3 className="text-sm font-medium flex items-center gap-2">
+          <Highlighter className="w-4 h-4" />
+          Annotations
+          {annotations.length > 0 && <Badge variant="secondary">{annotations.length}</Badge>}
+        </h3>
+        {text && (
+          <Button variant="ghost" size="sm" onClick={() => setShowText(prev => !prev)}>
+            {showText ? "Hide text" : "Annotate text"}
+          </Button>
+        )}
+      </div>
+
+      {!text && (
+        <p className="text-xs text-muted-foreground">This document has no extracted text to annotate.</p>
+      )}
+
+      {showText && text && (
+        <div className="space-y-2">
+          {pending ? (
+            <div className="space-y-2 rounded-md border bg-card p-3">
+              <div className="flex items-start justify-between gap-2">
+                <p className="text-xs italic text-muted-foreground line-clamp-2">"{pending.quote}"</p>
+                <button className="min-h-0 min-w-0 text-muted-foreground hover:text-foreground" onClick={() => setPending(null)}>
+                  <X className="w-4 h-4" />
+                </button>
+              </div>
+              <div className="flex items-center gap-1">
+                {(Object.keys(COLORS) as AnnotationColor[]).map(option => (
+                  <button
+                    key={option}
+                    aria-label={option}
+                    className={`h-5 w-5 min-h-0 min-w-0 rounded-full ${COLORS[option].swatch} ${color === option ? "ring-2 ring-ring ring-offset-1" : ""}`}
+                    onClick={() => setColor(option)}
+                  />
+                ))}
+              </div>
+              <Textarea
+                placeholder="Add a margin comment (optional)"
+                value={comment}
+                onChange={(e) => setComment(e.target.value)}
+                rows={2}
+                className="text-sm"
+              />
+              <Button size="sm" onClick={savePending} disabled={createAnnotation.isPending}>
+                {comment.trim() ? <MessageSquare className="w-3 h-3 mr-1" /> : <Highlighter className="w-3 h-3 mr-1" />}
+                {comment.trim() ? "Save comment" : "Highlight"}
+              </Button>
+            </div>
+          ) : (
+            <p className="text-xs text-muted-foreground">Select text to highlight it or add a comment.</p>
+          )}
+
+          <div
+            ref={textRef}
+            onMouseUp={handleSelection}
+            className="max-h-80 overflow-auto rounded-md border bg-muted/30 p-3 text-sm leading-relaxed whitespace-pre-wrap break-words"
+          >
+            {segments.map(segment => {
+              const firstId = startsAt.get(segment.start);
+              if (segment.annotationIds.length === 0) {
+                return <span key={segment.start}>{highlight(segment.text)}</span>;
+              }
+              // Overlaps take the colour of the annotation that starts last, which is the innermost one
+              const top = segment.annotationIds[segment.annotationIds.length - 1];
+              return (
+                <span
+                  key={segment.start}
+                  data-annotation-start={firstId}
+                  className={`rounded-sm ${COLORS[colorOf.get(top) ?? "yellow"].mark}`}
+                >
+                  {highlight(segment.text)}
+                </span>
+              );
+            })}
+          </div>
+        </div>
+      )}
+
+      {annotations.length > 0 && (
+        <div className="space-y-2">
+          {annotations.map(({ annotation, range }) => (
+            <div key={annotation.id} className={`rounded-md border border-l-4 p-2 text-sm ${COLORS[annotation.color].border}`}>
+              <button
+                className="block min-h-0 w-full text-left text-xs italic text-muted-foreground line-clamp-2 hover:text-foreground"
+                onClick={() => range && scrollToAnnotation(annotation.id)}
+              >
+                "{highlight(annotation.quote)}"
+              </button>
+
+              {editing?.id === annotation.id ? (
+                <div className="mt-2 space-y-2">
+                  <Textarea
+                    value={editing.comment}
+                    onChange={(e) => setEditing({ id: annotation.id, comment: e.target.value })}
+                    rows={2}
+                    className="text-sm"
+                  />
+                  <div className="flex gap-2">
+                    <Button
+                      size="sm"
+                      onClick={() =>
+                        updateAnnotation.mutate(
+                          { id: annotation.id, comment: editing.comment.trim() || null },
+                          { onSuccess: () => setEditing(null) }
+                        )
+                      }
+                    >
+                      Save
+                    </Button>
+                    <Button size="sm" variant="outline" onClick={() => setEditing(null)}>Cancel</Button>
+                  </div>
+                </div>
+              ) : (
+                annotation.comment && <p className="mt-1">{highlight(annotation.comment)}</p>
+              )}
+
+              <div className="mt-1 flex flex-wrap items-center gap-1">
+                {!range && (
+                  <Badge variant="outline" className="text-xs" title="The quoted text is not in the current version">
+                    Detached
+                  </Badge>
+                )}
+                {annotation.insight_id ? (
+                  <Badge variant="secondary" className="text-xs">Insight created</Badge>
+                ) : (
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    className="h-7 px-2 text-xs"
+                    disabled={convertAnnotation.isPending}
+                    onClick={() => convertAnnotation.mutate({ annotation, document, target: "insight" })}
+                  >
+                    <Lightbulb className="w-3 h-3 mr-1" />
+                    Insight
+                  </Button>
+                )}
+                <TaskButton
+                  annotation={annotation}
+                  document={document}
+                  disabled={convertAnnotation.isPending}
+                  onConvert={(projectId) => convertAnnotation.mutate({ annotation, document, target: "task", projectId })}
+                />
+                <div className="flex-1" />
+                <Button
+                  variant="ghost"
+                  size="icon"
+                  className="h-7 w-7"
+                  onClick={() => setEditing({ id: annotation.id, comment: annotation.comment || "" })}
+                >
+                  <Pencil className="w-3 h-3" />
+                </Button>
+                <Button
+                  variant="ghost"
+                  size="icon"
+                  className="h-7 w-7 text-destructive"
+                  onClick={() => deleteAnnotation.mutate(annotation.id)}
+                >
+                  <Trash2 className="w-3 h-3" />
+                </Button>
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -19,30 +19,42 @@ import {
   Trash2,
   ExternalLink,
 } from "lucide-react";
-import { useState, useEffect, ReactNode } from "react";
+import { useState, useEffect, useCallback, ReactNode } from "react";
 import { useToast } from "@/hooks/use-toast";
 import { supabase } from "@/integrations/supabase/client";
 import { useUpdateDocument } from "@/hooks/useDocuments";
 import { formatFileSize, getFileTypeLabel } from "@/lib/fileParser";
+import { openStoredFile } from "@/lib/documentStorage";
+import { DataPreviewTable } from "@/components/library/DataPreviewTable";
+import { DocumentPreview } from "@/components/library/DocumentPreview";
+import { DocumentAnnotations } from "@/components/library/DocumentAnnotations";
+import { DocumentVersions } from "@/components/library/DocumentVersions";
+import { DocumentRelations } from "@/components/library/DocumentRelations";
 import { format } from "date-fns";
 import { formatInTimeZone } from "date-fns-tz";
 
 interface DocumentDetailPanelProps {
   document: Document | null;
+  documents: Document[];
   relatedDocs: Document[];
   open: boolean;
   onOpenChange: (open: boolean) => void;
   onDelete: (id: string) => void;
+  onUploadVersion: (document: Document, file: File) => void;
+  onOpenDocument: (documentId: string) => void;
   highlightMatches: (text: string, query: string) => ReactNode;
   searchQuery: string;
 }
 
 export function DocumentDetailPanel({
   document,
+  documents,
   relatedDocs,
   open,
   onOpenChange,
   onDelete,
+  onUploadVersion,
+  onOpenDocument,
   highlightMatches,
   searchQuery,
 }: DocumentDetailPanelProps) {
@@ -64,6 +76,8 @@ export function DocumentDetailPanel({
     fetchData();
   }, []);
 
+  const highlight = useCallback((text: string) => highlightMatches(text, searchQuery), [highlightMatches, searchQuery]);
+
   if (!document) return null;
 
   const handleAddTag = async () => {
@@ -110,6 +124,16 @@ export function DocumentDetailPanel({
     });
   };
 
+  const handleOpenFile = () => {
+    openStoredFile(document.storage_path).catch(error => {
+      toast({
+        title: "Could not open file",
+        description: error instanceof Error ? error.message : "The file is not available",
+        variant: "destructive",
+      });
+    });
+  };
+
   const handleCopyLink = () => {
     const url = `${window.location.origin}/library?doc=${document.id}`;
     navigator.clipboard.writeText(url);
@@ -135,7 +159,7 @@ export function DocumentDetailPanel({
 
   return (
     <Sheet open={open} onOpenChange={onOpenChange}>
-      <SheetContent className="w-full sm:max-w-xl overflow-y-auto">
+      <SheetContent className="w-full sm:max-w-2xl overflow-y-auto">
         <SheetHeader>
           <SheetTitle className="flex items-start gap-2">
             <span className="flex-1">{document.title}</span>
@@ -149,21 +173,47 @@ export function DocumentDetailPanel({
             {document.category && <Badge variant="secondary">{document.category}</Badge>}
             <Badge variant="outline">{getFileTypeLabel(document.file_type)}</Badge>
             <span className="text-xs text-muted-foreground">{formatFileSize(document.file_size)}</span>
+            {document.source_metadata?.pageCount > 0 && (
+              <span className="text-xs text-muted-foreground">• {document.source_metadata.pageCount} pages</span>
+            )}
+            {document.source_metadata?.author && (
+              <span className="text-xs text-muted-foreground">• {document.source_metadata.author}</span>
+            )}
             <span className="text-xs text-muted-foreground">•</span>
             <span className="text-xs text-muted-foreground">{melbourneDate}</span>
           </SheetDescription>
         </SheetHeader>
 
         <div className="mt-6 space-y-6">
-          {/* Preview */}
+          {/* Summary */}
           <div className="space-y-2">
-            <h3 className="text-sm font-medium">Preview</h3>
+            <h3 className="text-sm font-medium">Summary</h3>
             <div className="text-sm text-muted-foreground leading-relaxed">
               {highlightedExcerpt}
             </div>
             {excerpt.length > 300 && <span className="text-xs text-muted-foreground">...</span>}
           </div>
 
+          {/* Preview */}
+          <div className="space-y-2">
+            <h3 className="text-sm font-medium">Preview</h3>
+            <DocumentPreview key={document.id} document={document} searchQuery={searchQuery} highlight={highlight} />
+          </div>
+
+          {/* Annotations */}
+          <DocumentAnnotations key={`annotations-${document.id}`} document={document} highlight={highlight} />
+
+          {/* Tabular Data */}
+          {document.data_schema && document.data_schema.length > 0 && (
+            <div className="space-y-2">
+              <h3 className="text-sm font-medium">Data</h3>
+              {document.data_description && (
+                <p className="text-xs text-muted-foreground whitespace-pre-line">{document.data_description}</p>
+              )}
+              <DataPreviewTable sheets={document.data_schema} />
+            </div>
+          )}
+
           {/* Alignment Score */}
           {document.principle_alignment_score && (
             <div className="p-3 rounded-lg border bg-card space-y-2">
@@ -250,21 +300,22 @@ export function DocumentDetailPanel({
             </select>
           </div>
 
-          {/* Related Documents */}
+          {/* Version History */}
+          <DocumentVersions document={document} onUploadVersion={(file) => onUploadVersion(document, file)} />
+
+          {/* Related and Linked from */}
+          <DocumentRelations document={document} documents={documents} onOpenDocument={onOpenDocument} />
+
+          {/* Similar Documents */}
           {relatedDocs.length > 0 && (
             <div className="space-y-2">
-              <h3 className="text-sm font-medium">Related Documents</h3>
+              <h3 className="text-sm font-medium">Similar Documents</h3>
               <div className="space-y-2">
                 {relatedDocs.map(related => (
                   <div
                     key={related.id}
                     className="p-2 rounded border bg-card hover:bg-accent cursor-pointer text-sm"
-                    onClick={() => {
-                      onOpenChange(false);
-                      setTimeout(() => {
-                        // This will be handled by parent
-                      }, 100);
-                    }}
+                    onClick={() => onOpenDocument(related.id)}
                   >
                     <div className="font-medium">{related.title}</div>
                     <div className="text-xs text-muted-foreground">
@@ -280,7 +331,7 @@ export function DocumentDetailPanel({
 
           {/* Actions */}
           <div className="space-y-2 pt-4 border-t">
-            <Button variant="outline" className="w-full justify-start" onClick={() => window.open(document.file_url, '_blank')}>
+            <Button variant="outline" className="w-full justify-start" onClick={handleOpenFile}>
               <Download className="w-4 h-4 mr-2" />
               Open File
             </Button>
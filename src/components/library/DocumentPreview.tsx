@@ -0,0 +1,167 @@
+import { Children, ReactNode, useEffect, useMemo, useState } from "react";
+import ReactMarkdown, { Components } from "react-markdown";
+import { Loader2 } from "lucide-react";
+import { Document } from "@/hooks/useDocuments";
+import { useSignedFileUrl, useStoredFile } from "@/hooks/useStoredFile";
+import { structuredFormatOf } from "@/lib/structuredData";
+import { PdfPreview } from "@/components/library/PdfPreview";
+import { SpreadsheetPreview } from "@/components/library/SpreadsheetPreview";
+import { StructuredDataPreview } from "@/components/library/StructuredDataPreview";
+
+interface DocumentPreviewProps {
+  document: Document;
+  searchQuery: string;
+  highlight: (text: string) => ReactNode;
+}
+
+// Bigger files are not downloaded for previewing; their extracted text is shown instead
+const MAX_PREVIEW_BYTES = 20 * 1024 * 1024;
+const MAX_TEXT_CHARS = 20_000;
+
+type PreviewKind = "pdf" | "markdown" | "structured" | "spreadsheet" | "text" | "image" | "extracted";
+
+const previewKindOf = (document: Document): PreviewKind => {
+  const type = document.file_type;
+  if (type.startsWith("image/")) return "image";
+  if (document.file_size > MAX_PREVIEW_BYTES) return "extracted";
+  if (type === "application/pdf") return "pdf";
+  if (type === "text/markdown") return "markdown";
+  if (structuredFormatOf(type)) return "structured";
+  if (type === "text/csv" || type.includes("excel") || type.includes("spreadsheet")) return "spreadsheet";
+  if (type === "text/plain") return "text";
+  return "extracted";
+};
+
+const useFileText = (file: File | undefined) => {
+  const [text, setText] = useState<string | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    setText(null);
+    file?.text().then(result => {
+      if (!cancelled) setText(result);
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, [file]);
+
+  return text;
+};
+
+function PlainText({ text, highlight }: { text: string; highlight: DocumentPreviewProps["highlight"] }) {
+  return (
+    <div className="max-h-[70vh] overflow-auto rounded-md border bg-muted/30 p-3">
+      <p className="text-sm leading-relaxed whitespace-pre-wrap break-words">
+        {highlight(text.slice(0, MAX_TEXT_CHARS))}
+      </p>
+      {text.length > MAX_TEXT_CHARS && (
+        <p className="mt-2 text-xs text-muted-foreground">
+          Showing the first {MAX_TEXT_CHARS.toLocaleString()} of {text.length.toLocaleString()} characters
+        </p>
+      )}
+    </div>
+  );
+}
+
+function MarkdownPreview({ text, highlight }: { text: string; highlight: DocumentPreviewProps["highlight"] }) {
+  // Only plain string children are highlighted; nested elements get their own pass
+  const components = useMemo((): Components => {
+    const marked = (children: ReactNode) =>
+      Children.map(children, child => (typeof child === "string" ? highlight(child) : child));
+
+    return {
+      h1: ({ children }) => <h1 className="mt-4 mb-2 text-xl font-semibold">{marked(children)}</h1>,
+      h2: ({ children }) => <h2 className="mt-4 mb-2 text-lg font-semibold">{marked(children)}</h2>,
+      h3: ({ children }) => <h3 className="mt-3 mb-1 font-semibold">{marked(children)}</h3>,
+      h4: ({ children }) => <h4 className="mt-3 mb-1 font-medium">{marked(children)}</h4>,
+      p: ({ children }) => <p className="my-2 leading-relaxed">{marked(children)}</p>,
+      ul: ({ children }) => <ul className="my-2 ml-5 list-disc space-y-1">{children}</ul>,
+      ol: ({ children }) => <ol className="my-2 ml-5 list-decimal space-y-1">{children}</ol>,
+      li: ({ children }) => <li>{marked(children)}</li>,
+      strong: ({ children }) => <strong className="font-semibold">{marked(children)}</strong>,
+      em: ({ children }) => <em>{marked(children)}</em>,
+      a: ({ children, href }) => (
+        <a href={href} target="_blank" rel="noreferrer" className="text-primary underline">{marked(children)}</a>
+      ),
+      blockquote: ({ children }) => (
+        <blockquote className="my-2 border-l-2 pl-3 text-muted-foreground">{children}</blockquote>
+      ),
+      code: ({ children }) => <code className="rounded bg-muted px-1 font-mono text-xs">{marked(children)}</code>,
+      pre: ({ children }) => <pre className="my-2 overflow-auto rounded-md bg-muted p-3 [&>code]:bg-transparent [&>code]:p-0">{children}</pre>,
+      th: ({ children }) => <th className="border px-2 py-1 text-left font-medium">{marked(children)}</th>,
+      td: ({ children }) => <td className="border px-2 py-1">{marked(children)}</td>,
+    };
+  }, [highlight]);
+
+  return (
+    <div className="max-h-[70vh] overflow-auto rounded-md border p-4 text-sm">
+      <ReactMarkdown components={components}>{text}</ReactMarkdown>
+    </div>
+  );
+}
+
+function ImagePreview({ document }: { document: Document }) {
+  const { data: url, isError } = useSignedFileUrl(document.storage_path);
+
+  if (isError) return <p className="text-sm text-muted-foreground">Could not load this image.</p>;
+  if (!url) return <Loader2 className="w-4 h-4 animate-spin text-muted-foreground" />;
+
+  return (
+    <div className="flex justify-center rounded-md border bg-muted/30 p-2">
+      <img src={url} alt={document.title} className="max-h-[70vh] object-contain" />
+    </div>
+  );
+}
+
+// Renders the stored file itself where the format allows, with the current search highlighted
+export function DocumentPreview({ document, searchQuery, highlight }: DocumentPreviewProps) {
+  const kind = previewKindOf(document);
+  const needsFile = kind !== "image" && kind !== "extracted";
+  const { data: file, isLoading, isError } = useStoredFile(document, needsFile);
+  const text = useFileText(kind === "markdown" || kind === "structured" || kind === "text" ? file : undefined);
+
+  if (kind === "image") return <ImagePreview document={document} />;
+
+  if (kind === "extracted" || isError) {
+    if (!document.extracted_text) {
+      return <p className="text-sm text-muted-foreground">{document.summary || "No preview available"}</p>;
+    }
+    return <PlainText text={document.extracted_text} highlight={highlight} />;
+  }
+
+  if (isLoading || !file) {
+    return (
+      <div className="flex items-center gap-2 text-sm text-muted-foreground">
+        <Loader2 className="w-4 h-4 animate-spin" />
+        Loading preview...
+      </div>
+    );
+  }
+
+  switch (kind) {
+    case "pdf":
+      return (
+        <PdfPreview
+          file={file}
+          searchQuery={searchQuery}
+          extractedText={document.extracted_text}
+          pageOffsets={document.page_offsets}
+        />
+      );
+    case "spreadsheet":
+      return (
+        <SpreadsheetPreview
+          file={file}
+          schemas={document.data_schema}
+          searchQuery={searchQuery}
+          highlight={highlight}
+        />
+      );
+    default:
+      if (text === null) return <Loader2 className="w-4 h-4 animate-spin text-muted-foreground" />;
+      if (kind === "markdown") return <MarkdownPreview text={text} highlight={highlight} />;
+      if (kind === "text") return <PlainText text={text} highlight={highlight} />;
+      return <StructuredDataPreview text={text} format={structuredFormatOf(document.file_type) ?? "json"} highlight={highlight} />;
+  }
+}
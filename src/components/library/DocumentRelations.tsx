@@ -0,0 +1,138 @@
+import { Check, FileText, Link2, ListChecks, X } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Document } from "@/hooks/useDocuments";
+import { DocumentRelation, useDocumentRelations, useSetRelationStatus } from "@/hooks/useDocumentRelations";
+import { useDocumentLinks } from "@/hooks/useDocumentLinks";
+
+interface DocumentRelationsProps {
+  document: Document;
+  documents: Document[];
+  onOpenDocument: (documentId: string) => void;
+}
+
+// A row in either list: what it points at, and the relation behind it if there is one
+type RelationItem = {
+  key: string;
+  title: string;
+  documentId?: string;
+  isSop?: boolean;
+  label?: string;
+  relation?: DocumentRelation;
+};
+
+export function DocumentRelations({ document, documents, onOpenDocument }: DocumentRelationsProps) {
+  const { data: relations } = useDocumentRelations(document.id);
+  const { data: links } = useDocumentLinks(document.id);
+  const setStatus = useSetRelationStatus();
+
+  const titleOf = (id: string) => documents.find(doc => doc.id === id)?.title ?? "Untitled document";
+
+  // Explicit links (e.g. a near-duplicate kept alongside the original) count as accepted relations
+  const linkItems = (direction: "outgoing" | "incoming"): RelationItem[] =>
+    (links || [])
+      .filter(link => (direction === "outgoing" ? link.source_document_id : link.target_document_id) === document.id)
+      .map(link => {
+        const otherId = direction === "outgoing" ? link.target_document_id : link.source_document_id;
+        return { key: link.id, title: titleOf(otherId), documentId: otherId, label: link.link_type };
+      });
+
+  const related: RelationItem[] = [
+    ...(relations?.outgoing || []).map(relation => ({
+      key: relation.id,
+      title: relation.related_document?.title ?? relation.related_sop?.title ?? "Untitled",
+      documentId: relation.related_document_id ?? undefined,
+      isSop: !!relation.related_sop_id,
+      relation,
+    })),
+    ...linkItems("outgoing"),
+  ];
+  const linkedFrom: RelationItem[] = [
+    ...(relations?.incoming || []).map(relation => ({
+      key: relation.id,
+      title: relation.document?.title ?? "Untitled document",
+      documentId: relation.document_id,
+      relation,
+    })),
+    ...linkItems("incoming"),
+  ];
+
+  if (related.length === 0 && linkedFrom.length === 0) return null;
+
+  const renderItem = (item: RelationItem) => {
+    const { relation, documentId } = item;
+    const Icon = item.isSop ? ListChecks : FileText;
+    return (
+      <div key={item.key} className="flex items-start gap-2 p-2 rounded border bg-card text-sm">
+        <Icon className="w-4 h-4 mt-0.5 shrink-0 text-muted-foreground" />
+        <div className="flex-1 min-w-0 space-y-1">
+          <div className="flex items-center gap-2 flex-wrap">
+            {documentId ? (
+              <button className="font-medium truncate hover:underline text-left" onClick={() => onOpenDocument(documentId)}>
+                {item.title}
+              </button>
+            ) : (
+              <span className="font-medium truncate">{item.title}</span>
+            )}
+            {item.isSop && <Badge variant="outline" className="text-xs">SOP</Badge>}
+            {item.label && <Badge variant="outline" className="text-xs">{item.label}</Badge>}
+            {relation?.status === "suggested" && <Badge variant="secondary" className="text-xs">Suggested</Badge>}
+            {relation?.confidence != null && (
+              <span className="text-xs text-muted-foreground">{relation.confidence}%</span>
+            )}
+          </div>
+          {relation?.reason && <p className="text-xs text-muted-foreground">{relation.reason}</p>}
+        </div>
+        {relation && (
+          <div className="flex gap-1 shrink-0">
+            {relation.status === "suggested" && (
+              <Button
+                size="icon"
+                variant="ghost"
+                className="h-7 w-7"
+                title="Accept"
+                disabled={setStatus.isPending}
+                onClick={() => setStatus.mutate({ relation, status: "accepted" })}
+              >
+                <Check className="w-4 h-4" />
+              </Button>
+            )}
+            <Button
+              size="icon"
+              variant="ghost"
+              className="h-7 w-7"
+              title={relation.status === "suggested" ? "Reject" : "Remove"}
+              disabled={setStatus.isPending}
+              onClick={() => setStatus.mutate({ relation, status: "rejected" })}
+            >
+              <X className="w-4 h-4" />
+            </Button>
+          </div>
+        )}
+      </div>
+    );
+  };
+
+  return (
+    <div className="space-y-3">
+      {related.length > 0 && (
+        <div className="space-y-2">
+          <h3 className="text-sm font-medium flex items-center gap-2">
+            <Link2 className="w-4 h-4" />
+            Related
+          </h3>
+          <div className="space-y-1">{related.map(renderItem)}</div>
+        </div>
+      )}
+      {linkedFrom.length > 0 && (
+        <div className="space-y-2">
+          <h3 className="text-sm font-medium flex items-center gap-2">
+            <Link2 className="w-4 h-4 rotate-180" />
+            Linked from
+          </h3>
+          <div className="space-y-1">{linkedFrom.map(renderItem)}</div>
+        </div>
+      )}
+    </div>
+  );
+}
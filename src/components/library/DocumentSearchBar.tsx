@@ -1,7 +1,8 @@
-import { Search, Filter, Calendar, Tag, FolderOpen, FileText } from "lucide-react";
+import { Search, Filter, Calendar, Tag, FolderOpen, FileText, Sparkles } from "lucide-react";
 import { Input } from "@/components/ui/input";
 import { Button } from "@/components/ui/button";
 import { Badge } from "@/components/ui/badge";
+import { Switch } from "@/components/ui/switch";
 import {
   Select,
   SelectContent,
@@ -9,8 +10,19 @@ import {
   SelectTrigger,
   SelectValue,
 } from "@/components/ui/select";
-import { useState, useEffect } from "react";
+import { useState, useEffect, useMemo, useRef, KeyboardEvent } from "react";
 import { supabase } from "@/integrations/supabase/client";
+import { cn } from "@/lib/utils";
+import {
+  QUERY_FILTER_KEYS,
+  QueryFilters,
+  QueryLookups,
+  QueryToken,
+  quoteValue,
+  resolveQuery,
+  serializeQuery,
+  tokenizeQuery,
+} from "@/lib/searchQuery";
 
 interface DocumentSearchBarProps {
   query: string;
@@ -19,16 +31,24 @@ interface DocumentSearchBarProps {
   projectId: string;
   tags: string[];
   dateRange: string;
+  before: string;
+  after: string;
   sortBy: string;
-  onQueryChange: (value: string) => void;
+  semanticAvailable?: boolean;
+  semanticMode?: boolean;
+  onSemanticModeChange?: (enabled: boolean) => void;
   onCategoryChange: (value: string) => void;
   onPrincipleChange: (value: string) => void;
   onProjectChange: (value: string) => void;
   onTagsChange: (value: string[]) => void;
   onDateRangeChange: (value: string) => void;
   onSortChange: (value: string) => void;
+  // Applies several filters at once, e.g. everything typed in query syntax
+  onFiltersChange: (value: Partial<QueryFilters> & { dateRange?: string }) => void;
 }
 
+type Suggestion = { label: string; insert: string; hint?: string };
+
 const categories = ["All", "SOP", "Principle", "Project Note", "General Reference"];
 const dateRanges = [
   { value: "all", label: "All Time" },
@@ -36,6 +56,16 @@ const dateRanges = [
   { value: "14", label: "Last 14 days" },
   { value: "30", label: "Last 30 days" },
 ];
+const KEY_HINTS: Record<string, string> = {
+  tag: "documents with a tag",
+  principle: "linked principle",
+  project: "linked project",
+  category: "document category",
+  before: "uploaded before a date",
+  after: "uploaded after a date",
+};
+const MAX_SUGGESTIONS = 8;
+
 const sortOptions = [
   { value: "relevance", label: "Relevance" },
   { value: "updated", label: "Last Updated" },
@@ -48,6 +78,11 @@ export function DocumentSearchBar(props: DocumentSearchBarProps) {
   const [projects, setProjects] = useState<any[]>([]);
   const [availableTags, setAvailableTags] = useState<string[]>([]);
   const [showFilters, setShowFilters] = useState(false);
+  const [draft, setDraft] = useState<string | null>(null);
+  const [caret, setCaret] = useState(0);
+  const [focused, setFocused] = useState(false);
+  const [activeSuggestion, setActiveSuggestion] = useState(0);
+  const inputRef = useRef<HTMLInputElement>(null);
 
   useEffect(() => {
     const fetchData = async () => {
@@ -72,6 +107,110 @@ export function DocumentSearchBar(props: DocumentSearchBarProps) {
     fetchData();
   }, []);
 
+  const lookups: QueryLookups = useMemo(() => ({
+    principles,
+    projects,
+    categories: categories.filter(c => c !== 'All'),
+  }), [principles, projects]);
+
+  const currentFilters: QueryFilters = {
+    query: props.query,
+    tags: props.tags,
+    category: props.category,
+    principleId: props.principleId,
+    projectId: props.projectId,
+    before: props.before,
+    after: props.after,
+  };
+  const serialized = serializeQuery(currentFilters, lookups);
+
+  // The input shows the filters in query syntax. What the user typed is kept while it still
+  // describes the current filters, and replaced once they change elsewhere (dropdowns, chips, URL)
+  const draftInSync = draft !== null && serializeQuery(resolveQuery(draft, lookups).filters, lookups) === serialized;
+  const inputValue = draftInSync ? draft : serialized;
+  const resolved = useMemo(() => resolveQuery(inputValue, lookups), [inputValue, lookups]);
+
+  const handleInputChange = (value: string, cursor: number) => {
+    setDraft(value);
+    setCaret(cursor);
+    setActiveSuggestion(0);
+    const next = resolveQuery(value, lookups).filters;
+    if (serializeQuery(next, lookups) !== serialized) {
+      props.onFiltersChange(next);
+    }
+  };
+
+  // Token being edited, i.e. the one the caret is touching
+  const currentToken = useMemo(
+    () => (focused ? tokenizeQuery(inputValue).find(t => t.start <= caret && caret <= t.end) : undefined),
+    [focused, inputValue, caret]
+  );
+
+  const suggestions = useMemo((): Suggestion[] => {
+    if (!currentToken || currentToken.negated) return [];
+
+    if (currentToken.kind === 'term') {
+      const prefix = currentToken.value.toLowerCase();
+      return QUERY_FILTER_KEYS
+        .filter(key => key.startsWith(prefix) && key !== prefix)
+        .map(key => ({ label: `${key}:`, insert: `${key}:`, hint: KEY_HINTS[key] }));
+    }
+
+    if (currentToken.kind !== 'filter' || !currentToken.key) return [];
+    const values =
+      currentToken.key === 'tag' ? availableTags :
+      currentToken.key === 'principle' ? ['none', ...principles.map(p => p.title as string)] :
+      currentToken.key === 'project' ? projects.map(p => p.name as string) :
+      currentToken.key === 'category' ? lookups.categories :
+      [];
+    const partial = currentToken.value.toLowerCase();
+
+    return values
+      .filter(value => value.toLowerCase().includes(partial) && value.toLowerCase() !== partial)
+      .sort((a, b) => Number(!a.toLowerCase().startsWith(partial)) - Number(!b.toLowerCase().startsWith(partial)))
+      .slice(0, MAX_SUGGESTIONS)
+      .map(value => ({ label: value, insert: `${currentToken.key}:${quoteValue(value)} ` }));
+  }, [currentToken, availableTags, principles, projects, lookups.categories]);
+
+  const applySuggestion = (suggestion: Suggestion) => {
+    if (!currentToken) return;
+    const value = inputValue.slice(0, currentToken.start) + suggestion.insert + inputValue.slice(currentToken.end);
+    const cursor = currentToken.start + suggestion.insert.length;
+    handleInputChange(value, cursor);
+    requestAnimationFrame(() => inputRef.current?.setSelectionRange(cursor, cursor));
+  };
+
+  const handleKeyDown = (e: KeyboardEvent<HTMLInputElement>) => {
+    if (suggestions.length === 0) return;
+    if (e.key === 'ArrowDown') {
+      e.preventDefault();
+      setActiveSuggestion(i => (i + 1) % suggestions.length);
+    } else if (e.key === 'ArrowUp') {
+      e.preventDefault();
+      setActiveSuggestion(i => (i - 1 + suggestions.length) % suggestions.length);
+    } else if (e.key === 'Enter' || e.key === 'Tab') {
+      e.preventDefault();
+      applySuggestion(suggestions[Math.min(activeSuggestion, suggestions.length - 1)]);
+    } else if (e.key === 'Escape') {
+      setFocused(false);
+    }
+  };
+
+  // Errors on the token under the caret are held back until the user moves on
+  const visibleErrors = resolved.errors.filter(
+    t => !(focused && draftInSync && t.start === currentToken?.start)
+  );
+  const errorSegments: { text: string; error?: QueryToken }[] = [];
+  if (visibleErrors.length > 0) {
+    let last = 0;
+    visibleErrors.forEach(token => {
+      if (token.start > last) errorSegments.push({ text: inputValue.slice(last, token.start) });
+      errorSegments.push({ text: token.raw, error: token });
+      last = token.end;
+    });
+    if (last < inputValue.length) errorSegments.push({ text: inputValue.slice(last) });
+  }
+
   const toggleTag = (tag: string) => {
     const newTags = props.tags.includes(tag)
       ? props.tags.filter(t => t !== tag)
@@ -80,11 +219,15 @@ export function DocumentSearchBar(props: DocumentSearchBarProps) {
   };
 
   const clearFilters = () => {
-    props.onCategoryChange('All');
-    props.onPrincipleChange('All');
-    props.onProjectChange('All');
-    props.onTagsChange([]);
-    props.onDateRangeChange('all');
+    props.onFiltersChange({
+      category: 'All',
+      principleId: 'All',
+      projectId: 'All',
+      tags: [],
+      dateRange: 'all',
+      before: '',
+      after: '',
+    });
   };
 
   const activeFiltersCount = 
@@ -92,7 +235,9 @@ export function DocumentSearchBar(props: DocumentSearchBarProps) {
     (props.principleId !== 'All' ? 1 : 0) +
     (props.projectId !== 'All' ? 1 : 0) +
     props.tags.length +
-    (props.dateRange !== 'all' ? 1 : 0);
+    (props.dateRange !== 'all' ? 1 : 0) +
+    (props.before ? 1 : 0) +
+    (props.after ? 1 : 0);
 
   return (
     <div className="space-y-4">
@@ -101,12 +246,51 @@ export function DocumentSearchBar(props: DocumentSearchBarProps) {
         <div className="relative flex-1">
           <Search className="absolute left-3 top-1/2 -translate-y-1/2 w-4 h-4 text-muted-foreground" />
           <Input
-            placeholder="Search documents by title, content, or tags..."
-            value={props.query}
-            onChange={(e) => props.onQueryChange(e.target.value)}
-            className="pl-10"
+            ref={inputRef}
+            placeholder={props.semanticMode
+              ? "Search inside documents by meaning or keywords, or try tag:finance..."
+              : "Search documents, or filter with tag: principle: project: category: before:..."}
+            value={inputValue}
+            onChange={(e) => handleInputChange(e.target.value, e.target.selectionStart ?? e.target.value.length)}
+            onSelect={(e) => setCaret(e.currentTarget.selectionStart ?? 0)}
+            onFocus={() => setFocused(true)}
+            onBlur={() => setFocused(false)}
+            onKeyDown={handleKeyDown}
+            aria-invalid={visibleErrors.length > 0}
+            className={cn("pl-10", visibleErrors.length > 0 && "border-destructive focus-visible:ring-destructive")}
           />
+          {suggestions.length > 0 && (
+            <div className="absolute left-0 right-0 top-full z-50 mt-1 rounded-md border bg-popover p-1 shadow-md">
+              {suggestions.map((suggestion, i) => (
+                <button
+                  key={suggestion.label}
+                  type="button"
+                  className={cn(
+                    "flex w-full items-center justify-between rounded-sm px-2 py-1.5 text-left text-sm",
+                    i === activeSuggestion ? "bg-accent text-accent-foreground" : "hover:bg-accent/50"
+                  )}
+                  onMouseDown={(e) => {
+                    e.preventDefault();
+                    applySuggestion(suggestion);
+                  }}
+                >
+                  <span className="font-mono">{suggestion.label}</span>
+                  {suggestion.hint && <span className="text-xs text-muted-foreground">{suggestion.hint}</span>}
+                </button>
+              ))}
+            </div>
+          )}
         </div>
+        {props.semanticAvailable && (
+          <label className="flex items-center gap-2 px-3 rounded-md border text-sm cursor-pointer">
+            <Sparkles className="w-4 h-4 text-primary" />
+            <span className="hidden sm:inline">Semantic</span>
+            <Switch
+              checked={!!props.semanticMode}
+              onCheckedChange={props.onSemanticModeChange}
+            />
+          </label>
+        )}
         <Button
           variant={showFilters ? "default" : "outline"}
           onClick={() => setShowFilters(!showFilters)}
@@ -121,6 +305,26 @@ export function DocumentSearchBar(props: DocumentSearchBarProps) {
         </Button>
       </div>
 
+      {/* Query Syntax Errors */}
+      {errorSegments.length > 0 && (
+        <div className="space-y-1 text-xs">
+          <div className="font-mono whitespace-pre-wrap break-all text-muted-foreground">
+            {errorSegments.map((segment, i) => (
+              <span
+                key={i}
+                className={segment.error ? "text-destructive underline decoration-wavy decoration-destructive" : undefined}
+                title={segment.error?.error}
+              >
+                {segment.text}
+              </span>
+            ))}
+          </div>
+          {visibleErrors.map(token => (
+            <p key={token.start} className="text-destructive">{token.error}</p>
+          ))}
+        </div>
+      )}
+
       {/* Active Filter Chips */}
       {activeFiltersCount > 0 && (
         <div className="flex gap-2 flex-wrap items-center">
@@ -132,7 +336,9 @@ export function DocumentSearchBar(props: DocumentSearchBarProps) {
           )}
           {props.principleId !== 'All' && (
             <Badge variant="secondary" className="gap-1">
-              Principle: {principles.find(p => p.id === props.principleId)?.title}
+              Principle: {props.principleId === 'none'
+                ? 'Unaligned'
+                : principles.find(p => p.id === props.principleId)?.title}
               <button onClick={() => props.onPrincipleChange('All')} className="ml-1">×</button>
             </Badge>
           )}
@@ -154,6 +360,18 @@ export function DocumentSearchBar(props: DocumentSearchBarProps) {
               <button onClick={() => props.onDateRangeChange('all')} className="ml-1">×</button>
             </Badge>
           )}
+          {props.before && (
+            <Badge variant="secondary" className="gap-1">
+              Before {props.before}
+              <button onClick={() => props.onFiltersChange({ before: '' })} className="ml-1">×</button>
+            </Badge>
+          )}
+          {props.after && (
+            <Badge variant="secondary" className="gap-1">
+              After {props.after}
+              <button onClick={() => props.onFiltersChange({ after: '' })} className="ml-1">×</button>
+            </Badge>
+          )}
           <Button variant="ghost" size="sm" onClick={clearFilters}>
             Clear all
           </Button>
@@ -191,6 +409,7 @@ export function DocumentSearchBar(props: DocumentSearchBarProps) {
               </SelectTrigger>
               <SelectContent>
                 <SelectItem value="All">All Principles</SelectItem>
+                <SelectItem value="none">Unaligned</SelectItem>
                 {principles.map(principle => (
                   <SelectItem key={principle.id} value={principle.id}>
                     {principle.title}
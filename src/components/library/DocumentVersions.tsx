@@ -0,0 +1,171 @@
+import { useEffect, useMemo, useRef, useState } from "react";
+import { History, RotateCcw, Upload } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { cn } from "@/lib/utils";
+import { Document } from "@/hooks/useDocuments";
+import { DocumentVersion, useDocumentVersions, useRestoreDocumentVersion } from "@/hooks/useDocumentVersions";
+import { collapseUnchanged, diffLines, diffStats } from "@/lib/textDiff";
+import { formatFileSize, SUPPORTED_FILE_TYPES } from "@/lib/fileParser";
+import { formatInTimeZone } from "date-fns-tz";
+
+interface DocumentVersionsProps {
+  document: Document;
+  onUploadVersion: (file: File) => void;
+}
+
+// What a version's diff compares: the extracted text, falling back to the AI summary
+const versionText = (version: DocumentVersion) => version.extracted_text || version.summary || "";
+
+export function DocumentVersions({ document, onUploadVersion }: DocumentVersionsProps) {
+  const { data: versions } = useDocumentVersions(document.id);
+  const restoreVersion = useRestoreDocumentVersion();
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const [fromVersion, setFromVersion] = useState<string>("");
+  const [toVersion, setToVersion] = useState<string>("");
+
+  // Default to comparing the previous version with the current one
+  useEffect(() => {
+    if (!versions || versions.length < 2) return;
+    setToVersion(String(versions[0].version_number));
+    setFromVersion(String(versions[1].version_number));
+  }, [versions]);
+
+  const diff = useMemo(() => {
+    const from = versions?.find(v => String(v.version_number) === fromVersion);
+    const to = versions?.find(v => String(v.version_number) === toVersion);
+    if (!from || !to || from === to) return null;
+
+    const lines = diffLines(versionText(from), versionText(to));
+    return { rows: collapseUnchanged(lines), stats: diffStats(lines) };
+  }, [versions, fromVersion, toVersion]);
+
+  const currentVersion = document.current_version ?? versions?.[0]?.version_number;
+
+  return (
+    <div className="space-y-3">
+      <div className="flex items-center justify-between">
+        <h3 className="text-sm font-medium flex items-center gap-2">
+          <History className="w-4 h-4" />
+          Versions
+        </h3>
+        <Button size="sm" variant="outline" onClick={() => fileInputRef.current?.click()}>
+          <Upload className="w-4 h-4 mr-2" />
+          Upload new version
+        </Button>
+        <input
+          ref={fileInputRef}
+          type="file"
+          className="hidden"
+          accept={Object.keys(SUPPORTED_FILE_TYPES).join(',')}
+          onChange={(e) => {
+            const file = e.target.files?.[0];
+            if (file) onUploadVersion(file);
+            e.target.value = "";
+          }}
+        />
+      </div>
+
+      <div className="space-y-1">
+        {versions?.map(version => (
+          <div key={version.id} className="flex items-center gap-2 p-2 rounded border bg-card text-sm">
+            <Badge variant={version.version_number === currentVersion ? "default" : "outline"}>
+              v{version.version_number}
+            </Badge>
+            <div className="flex-1 min-w-0">
+              <div className="truncate">{version.note || version.file_name}</div>
+              <div className="text-xs text-muted-foreground truncate">
+                {version.file_name} • {formatFileSize(version.file_size)} •{" "}
+                {formatInTimeZone(new Date(version.created_at), "Australia/Melbourne", "PPp")}
+              </div>
+            </div>
+            {version.version_number !== currentVersion && (
+              <Button
+                size="sm"
+                variant="ghost"
+                disabled={restoreVersion.isPending}
+                onClick={() => {
+                  if (confirm(`Restore version ${version.version_number}? The current state stays in the history.`)) {
+                    restoreVersion.mutate(version);
+                  }
+                }}
+              >
+                <RotateCcw className="w-3.5 h-3.5 mr-1" />
+                Restore
+              </Button>
+            )}
+          </div>
+        ))}
+      </div>
+
+      {versions && versions.length > 1 && (
+        <div className="space-y-2">
+          <div className="flex items-center gap-2 text-sm">
+            <span className="text-muted-foreground">Compare</span>
+            <Select value={fromVersion} onValueChange={setFromVersion}>
+              <SelectTrigger className="h-8 w-24">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {versions.map(v => (
+                  <SelectItem key={v.id} value={String(v.version_number)}>v{v.version_number}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <span className="text-muted-foreground">with</span>
+            <Select value={toVersion} onValueChange={setToVersion}>
+              <SelectTrigger className="h-8 w-24">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {versions.map(v => (
+                  <SelectItem key={v.id} value={String(v.version_number)}>v{v.version_number}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            {diff && (
+              <span className="ml-auto text-xs">
+                <span className="text-green-600">+{diff.stats.added}</span>{" "}
+                <span className="text-red-600">−{diff.stats.removed}</span>
+              </span>
+            )}
+          </div>
+
+          {diff && (
+            <div className="max-h-96 overflow-auto rounded-md border font-mono text-xs">
+              {diff.stats.added === 0 && diff.stats.removed === 0 ? (
+                <p className="p-3 text-muted-foreground font-sans">The text of these versions is identical.</p>
+              ) : (
+                diff.rows.map((row, i) =>
+                  row.op === "skip" ? (
+                    <div key={i} className="px-2 py-1 bg-muted text-muted-foreground">
+                      ⋯ {row.count} unchanged line{row.count === 1 ? "" : "s"}
+                    </div>
+                  ) : (
+                    <div
+                      key={i}
+                      className={cn(
+                        "flex whitespace-pre-wrap break-words",
+                        row.op === "insert" && "bg-green-500/10 text-green-700 dark:text-green-400",
+                        row.op === "delete" && "bg-red-500/10 text-red-700 dark:text-red-400"
+                      )}
+                    >
+                      <span className="w-10 shrink-0 select-none pr-2 text-right text-muted-foreground">
+                        {row.op === "insert" ? row.newLine : row.oldLine}
+                      </span>
+                      <span className="w-4 shrink-0 select-none">
+                        {row.op === "insert" ? "+" : row.op === "delete" ? "−" : ""}
+                      </span>
+                      <span className="flex-1">{row.text || " "}</span>
+                    </div>
+                  )
+                )
+              )}
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,77 @@
+import { Document } from "@/hooks/useDocuments";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Copy, FileText, Trash2 } from "lucide-react";
+import { useMemo } from "react";
+import { clusterDuplicates } from "@/lib/duplicateDetection";
+import { formatFileSize, getFileTypeLabel } from "@/lib/fileParser";
+import { formatInTimeZone } from "date-fns-tz";
+
+interface DuplicateClustersProps {
+  documents: Document[];
+  onDocumentClick: (doc: Document) => void;
+  onDelete: (id: string) => void;
+}
+
+export function DuplicateClusters({ documents, onDocumentClick, onDelete }: DuplicateClustersProps) {
+  // Oldest first within each cluster, so the original upload is listed at the top
+  const clusters = useMemo(
+    () =>
+      clusterDuplicates(documents).map(cluster => ({
+        ...cluster,
+        documents: [...cluster.documents].sort((a, b) => a.created_at.localeCompare(b.created_at)),
+      })),
+    [documents]
+  );
+
+  if (clusters.length === 0) {
+    return (
+      <Card className="bg-card">
+        <CardContent className="flex flex-col items-center justify-center py-12">
+          <Copy className="w-12 h-12 text-muted-foreground mb-4" />
+          <h3 className="text-lg font-semibold mb-2">No duplicates found</h3>
+          <p className="text-muted-foreground text-center">
+            None of these documents match each other closely enough to be duplicates
+          </p>
+        </CardContent>
+      </Card>
+    );
+  }
+
+  return (
+    <div className="space-y-4">
+      {clusters.map(cluster => (
+        <Card key={cluster.documents[0].id} className="bg-card">
+          <CardHeader className="pb-3">
+            <CardTitle className="text-base flex items-center gap-2">
+              <Copy className="w-4 h-4" />
+              {cluster.documents.length} copies of "{cluster.documents[0].title}"
+              <Badge variant="outline" className="ml-auto">
+                {cluster.exact ? "Identical files" : `${Math.round(cluster.similarity * 100)}%+ similar`}
+              </Badge>
+            </CardTitle>
+          </CardHeader>
+          <CardContent className="space-y-2">
+            {cluster.documents.map((doc, index) => (
+              <div key={doc.id} className="flex items-center gap-3 p-2 rounded border hover:bg-accent">
+                <FileText className="w-4 h-4 text-muted-foreground shrink-0" />
+                <button className="flex-1 min-w-0 text-left" onClick={() => onDocumentClick(doc)}>
+                  <div className="text-sm font-medium truncate">{doc.title}</div>
+                  <div className="text-xs text-muted-foreground truncate">
+                    {doc.file_name} • {getFileTypeLabel(doc.file_type)} • {formatFileSize(doc.file_size)} •{" "}
+                    {formatInTimeZone(new Date(doc.created_at), "Australia/Melbourne", "PP")}
+                  </div>
+                </button>
+                {index === 0 && <Badge variant="secondary">Original</Badge>}
+                <Button size="sm" variant="ghost" onClick={() => onDelete(doc.id)}>
+                  <Trash2 className="w-4 h-4" />
+                </Button>
+              </div>
+            ))}
+          </CardContent>
+        </Card>
+      ))}
+    </div>
+  );
+}
@@ -0,0 +1,49 @@
+import { Copy } from "lucide-react";
+import { Alert, AlertDescription } from "@/components/ui/alert";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Document } from "@/hooks/useDocuments";
+import { DuplicateMatch } from "@/lib/duplicateDetection";
+
+export type DuplicateResolution = 'version' | 'link' | 'ignore';
+
+interface DuplicateWarningProps {
+  matches: DuplicateMatch<Document>[];
+  onResolve: (resolution: DuplicateResolution, match?: Document) => void;
+}
+
+export function DuplicateWarning({ matches, onResolve }: DuplicateWarningProps) {
+  if (matches.length === 0) return null;
+
+  return (
+    <Alert className="border-amber-500/50 bg-amber-500/10">
+      <Copy className="h-4 w-4 text-amber-500" />
+      <AlertDescription className="space-y-3">
+        <p>
+          {matches[0].kind === 'exact'
+            ? 'This file is already in your library.'
+            : 'This file looks very similar to a document already in your library.'}
+        </p>
+        {matches.slice(0, 3).map(match => (
+          <div key={match.document.id} className="flex flex-wrap items-center gap-2">
+            <span className="font-medium truncate max-w-xs">{match.document.title}</span>
+            <Badge variant="outline">
+              {match.kind === 'exact' ? 'Identical' : `${Math.round(match.similarity * 100)}% similar`}
+            </Badge>
+            <div className="flex gap-2 ml-auto">
+              <Button size="sm" variant="outline" onClick={() => onResolve('version', match.document)}>
+                Merge as new version
+              </Button>
+              <Button size="sm" variant="outline" onClick={() => onResolve('link', match.document)}>
+                Link as related
+              </Button>
+            </div>
+          </div>
+        ))}
+        <Button size="sm" variant="ghost" onClick={() => onResolve('ignore')}>
+          Upload anyway
+        </Button>
+      </AlertDescription>
+    </Alert>
+  );
+}
@@ -1,194 +1,367 @@
 import { Document } from "@/hooks/useDocuments";
+import {
+  DEFAULT_GRAPH_FILTERS,
+  GraphFilters,
+  GraphLayout,
+  PositionedNode,
+  useDeleteGraphLayout,
+  useGraphLayouts,
+  useKnowledgeGraph,
+  useSaveGraphLayout,
+} from "@/hooks/useKnowledgeGraph";
+import { GRAPH_EDGE_TYPES, GRAPH_NODE_TYPES, GraphEdge, GraphEdgeType, GraphNode, GraphNodeType } from "@/lib/knowledgeGraph";
 import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
-import { Maximize2, Minimize2 } from "lucide-react";
-import { useState, useEffect, useMemo, useCallback } from "react";
-import { supabase } from "@/integrations/supabase/client";
-import ForceGraph2D from "react-force-graph-2d";
+import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { ToggleGroup, ToggleGroupItem } from "@/components/ui/toggle-group";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+import { FolderOpen, Loader2, Maximize2, Minimize2, PinOff, Save, Trash2 } from "lucide-react";
+import { useState, useMemo, useCallback, useRef } from "react";
+import ForceGraph2D, { ForceGraphMethods, LinkObject, NodeObject } from "react-force-graph-2d";
 
 interface KnowledgeGraphProps {
   documents: Document[];
   onDocumentClick: (doc: Document) => void;
 }
 
-interface GraphNode {
-  id: string;
-  name: string;
-  type: 'document' | 'principle' | 'project';
-  val: number;
-  color: string;
-}
+type ForceNode = NodeObject<GraphNode>;
+type ForceLink = LinkObject<GraphNode, GraphEdge>;
 
-interface GraphLink {
-  source: string;
-  target: string;
-  value: number;
-}
+const NODE_STYLES: Record<GraphNodeType, { label: string; color: string; size: number }> = {
+  document: { label: "Documents", color: "#3b82f6", size: 3 },
+  principle: { label: "Principles", color: "#a855f7", size: 8 },
+  project: { label: "Projects", color: "#10b981", size: 6 },
+  sop: { label: "SOPs", color: "#f59e0b", size: 5 },
+  task: { label: "Tasks", color: "#ef4444", size: 2 },
+  insight: { label: "Insights", color: "#eab308", size: 2 },
+  chat: { label: "Chats", color: "#06b6d4", size: 2 },
+  tag: { label: "Tags", color: "#64748b", size: 1.5 },
+};
+
+const EDGE_STYLES: Record<GraphEdgeType, { label: string; color: string; dash: number[] | null }> = {
+  aligned_with: { label: "Aligned with", color: "#a855f780", dash: null },
+  belongs_to: { label: "Belongs to", color: "#10b98180", dash: null },
+  follows_sop: { label: "Follows SOP", color: "#f59e0b80", dash: null },
+  ai_related: { label: "AI suggested", color: "#3b82f680", dash: [4, 2] },
+  linked: { label: "Linked", color: "#64748b80", dash: null },
+  tagged: { label: "Tagged", color: "#64748b40", dash: [1, 2] },
+};
+
+const DATE_RANGES = [
+  { value: "all", label: "Any time" },
+  { value: "7", label: "Last 7 days" },
+  { value: "30", label: "Last 30 days" },
+  { value: "90", label: "Last 90 days" },
+  { value: "365", label: "Last year" },
+];
 
 export function KnowledgeGraph({ documents, onDocumentClick }: KnowledgeGraphProps) {
   const [isExpanded, setIsExpanded] = useState(false);
-  const [principles, setPrinciples] = useState<any[]>([]);
-  const [projects, setProjects] = useState<any[]>([]);
-
-  useEffect(() => {
-    const fetchData = async () => {
-      const [principlesRes, projectsRes] = await Promise.all([
-        supabase.from('principles').select('id, title').order('title'),
-        supabase.from('projects').select('id, name').order('name'),
-      ]);
-      if (principlesRes.data) setPrinciples(principlesRes.data);
-      if (projectsRes.data) setProjects(projectsRes.data);
-    };
-    fetchData();
-  }, []);
+  const [filters, setFilters] = useState<GraphFilters>(DEFAULT_GRAPH_FILTERS);
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const [layoutName, setLayoutName] = useState("");
+  const [activeLayout, setActiveLayout] = useState<GraphLayout | null>(null);
+  const [pinnedCount, setPinnedCount] = useState(0);
+  const graphRef = useRef<ForceGraphMethods<ForceNode, ForceLink>>();
+  // The simulation keeps positions on the node objects, so they are reused across renders
+  const forceNodes = useRef(new Map<string, ForceNode>());
+
+  const graph = useKnowledgeGraph(documents);
+  const { data: layouts = [] } = useGraphLayouts();
+  const saveLayout = useSaveGraphLayout();
+  const deleteLayout = useDeleteGraphLayout();
 
   const graphData = useMemo(() => {
-    const nodes: GraphNode[] = [];
-    const links: GraphLink[] = [];
-    const nodeIds = new Set<string>();
-
-    // Limit to max 50 documents for performance
-    const limitedDocs = documents.slice(0, 50);
-
-    // Add document nodes
-    limitedDocs.forEach(doc => {
-      const nodeId = `doc-${doc.id}`;
-      if (!nodeIds.has(nodeId)) {
-        nodes.push({
-          id: nodeId,
-          name: doc.title,
-          type: 'document',
-          val: 3,
-          color: '#3b82f6', // blue
-        });
-        nodeIds.add(nodeId);
-      }
-
-      // Add principle nodes and links
-      if (doc.primary_principle_id) {
-        const principleId = `principle-${doc.primary_principle_id}`;
-        if (!nodeIds.has(principleId)) {
-          const principle = principles.find(p => p.id === doc.primary_principle_id);
-          nodes.push({
-            id: principleId,
-            name: principle?.title || 'Unknown Principle',
-            type: 'principle',
-            val: 8,
-            color: '#a855f7', // purple
-          });
-          nodeIds.add(principleId);
-        }
-        links.push({
-          source: nodeId,
-          target: principleId,
-          value: 2,
-        });
-      }
-
-      // Add project nodes and links
-      if (doc.linked_project_id) {
-        const projectId = `project-${doc.linked_project_id}`;
-        if (!nodeIds.has(projectId)) {
-          const project = projects.find(p => p.id === doc.linked_project_id);
-          nodes.push({
-            id: projectId,
-            name: project?.name || 'Unknown Project',
-            type: 'project',
-            val: 6,
-            color: '#10b981', // green
-          });
-          nodeIds.add(projectId);
-        }
-        links.push({
-          source: nodeId,
-          target: projectId,
-          value: 2,
-        });
-      }
+    const cutoff = filters.since === "all"
+      ? null
+      : new Date(Date.now() - Number(filters.since) * 24 * 60 * 60 * 1000).toISOString();
+
+    const nodes: ForceNode[] = [];
+    graph.nodes.forEach(node => {
+      if (!filters.nodeTypes.includes(node.type)) return;
+      if (cutoff && node.createdAt && node.createdAt < cutoff) return;
+      const forceNode = Object.assign(forceNodes.current.get(node.id) ?? {}, node);
+      forceNodes.current.set(node.id, forceNode);
+      nodes.push(forceNode);
     });
 
-    // Add related document links (shared tags)
-    limitedDocs.forEach((doc, i) => {
-      limitedDocs.slice(i + 1).forEach(otherDoc => {
-        const sharedTags = (doc.tags || []).filter(tag => 
-          (otherDoc.tags || []).includes(tag)
-        );
-        if (sharedTags.length > 0) {
-          links.push({
-            source: `doc-${doc.id}`,
-            target: `doc-${otherDoc.id}`,
-            value: sharedTags.length,
-          });
-        }
-      });
+    const visible = new Set(nodes.map(node => node.id));
+    const links: ForceLink[] = [];
+    graph.edges.forEach(edge => {
+      if (visible.has(edge.source) && visible.has(edge.target)) links.push({ ...edge });
     });
 
     return { nodes, links };
-  }, [documents, principles, projects]);
+  }, [graph.nodes, graph.edges, filters]);
+
+  const selected = selectedId ? graph.nodes.get(selectedId) : undefined;
+  const selectedDocument = selected?.type === "document"
+    ? documents.find(doc => doc.id === selected.entityId)
+    : undefined;
+  // Edge ids rather than link ends: the simulation swaps those from ids to node objects
+  const selectedEdgeIds = useMemo(() => new Set(
+    Array.from(graph.edges.values())
+      .filter(edge => edge.source === selectedId || edge.target === selectedId)
+      .map(edge => edge.id)
+  ), [graph.edges, selectedId]);
+
+  const { expand, expanded } = graph;
+  const handleNodeClick = useCallback((node: ForceNode) => {
+    setSelectedId(node.id);
+    if (!expanded.has(node.id)) expand(node);
+  }, [expand, expanded]);
 
-  const handleNodeClick = useCallback((node: any) => {
-    if (node.type === 'document') {
-      const docId = node.id.replace('doc-', '');
-      const doc = documents.find(d => d.id === docId);
-      if (doc) onDocumentClick(doc);
-    }
-  }, [documents, onDocumentClick]);
+  const countPinned = () =>
+    setPinnedCount(Array.from(forceNodes.current.values()).filter(node => node.fx !== undefined).length);
+
+  const handleNodeDragEnd = useCallback((node: ForceNode) => {
+    node.fx = node.x;
+    node.fy = node.y;
+    countPinned();
+  }, []);
+
+  const handleNodeRightClick = useCallback((node: ForceNode) => {
+    node.fx = undefined;
+    node.fy = undefined;
+    countPinned();
+    graphRef.current?.d3ReheatSimulation();
+  }, []);
+
+  const unpinAll = () => {
+    forceNodes.current.forEach(node => {
+      node.fx = undefined;
+      node.fy = undefined;
+    });
+    countPinned();
+    graphRef.current?.d3ReheatSimulation();
+  };
+
+  const handleSave = (id?: string, name = layoutName.trim()) => {
+    if (!name) return;
+    const nodes: PositionedNode[] = Array.from(graph.nodes.values()).map(node => {
+      const forceNode = forceNodes.current.get(node.id);
+      return {
+        ...node,
+        x: forceNode?.x,
+        y: forceNode?.y,
+        pinned: forceNode?.fx !== undefined,
+      };
+    });
+    saveLayout.mutate(
+      { id, name, filters, graph: { nodes, edges: Array.from(graph.edges.values()), expanded: Array.from(graph.expanded) } },
+      { onSuccess: () => setLayoutName("") }
+    );
+  };
+
+  const handleLoad = (layout: GraphLayout) => {
+    forceNodes.current = new Map(layout.graph.nodes.map(({ pinned, ...node }) => [
+      node.id,
+      { ...node, fx: pinned ? node.x : undefined, fy: pinned ? node.y : undefined },
+    ]));
+    graph.restore(layout.graph);
+    setFilters({ ...DEFAULT_GRAPH_FILTERS, ...layout.filters });
+    setActiveLayout(layout);
+    setSelectedId(null);
+    countPinned();
+  };
+
+  const toggleNodeTypes = (values: string[]) =>
+    setFilters(prev => ({ ...prev, nodeTypes: GRAPH_NODE_TYPES.filter(type => values.includes(type)) }));
 
   const size = isExpanded ? 800 : 400;
 
   return (
     <Card>
       <CardHeader>
-        <div className="flex items-center justify-between">
-          <CardTitle className="text-base">Knowledge Graph</CardTitle>
-          <Button
-            variant="ghost"
+        <div className="flex items-center justify-between gap-2">
+          <CardTitle className="text-base">
+            Knowledge Graph
+            {activeLayout && <span className="ml-2 text-xs font-normal text-muted-foreground">{activeLayout.name}</span>}
+          </CardTitle>
+          <div className="flex items-center gap-1">
+            {pinnedCount > 0 && (
+              <Button variant="ghost" size="sm" onClick={unpinAll} title="Unpin all nodes">
+                <PinOff className="w-4 h-4 mr-1" />
+                {pinnedCount}
+              </Button>
+            )}
+            <Popover>
+              <PopoverTrigger asChild>
+                <Button variant="ghost" size="sm" title="Save layout">
+                  <Save className="w-4 h-4" />
+                </Button>
+              </PopoverTrigger>
+              <PopoverContent className="w-64 space-y-2" align="end">
+                <Input
+                  placeholder="Layout name"
+                  value={layoutName}
+                  onChange={e => setLayoutName(e.target.value)}
+                  onKeyDown={e => e.key === "Enter" && handleSave()}
+                />
+                <div className="flex justify-end gap-2">
+                  {activeLayout && (
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      disabled={saveLayout.isPending}
+                      onClick={() => handleSave(activeLayout.id, activeLayout.name)}
+                    >
+                      Update "{activeLayout.name}"
+                    </Button>
+                  )}
+                  <Button size="sm" disabled={!layoutName.trim() || saveLayout.isPending} onClick={() => handleSave()}>
+                    Save new
+                  </Button>
+                </div>
+              </PopoverContent>
+            </Popover>
+            <DropdownMenu>
+              <DropdownMenuTrigger asChild>
+                <Button variant="ghost" size="sm" title="Saved layouts">
+                  <FolderOpen className="w-4 h-4" />
+                </Button>
+              </DropdownMenuTrigger>
+              <DropdownMenuContent align="end" className="w-56">
+                <DropdownMenuLabel>Saved layouts</DropdownMenuLabel>
+                <DropdownMenuSeparator />
+                {layouts.length === 0 && (
+                  <p className="px-2 py-1.5 text-xs text-muted-foreground">No saved layouts yet</p>
+                )}
+                {layouts.map(layout => (
+                  <DropdownMenuItem key={layout.id} onSelect={() => handleLoad(layout)} className="justify-between">
+                    <span className="truncate">{layout.name}</span>
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      className="h-6 w-6"
+                      onClick={e => {
+                        e.stopPropagation();
+                        deleteLayout.mutate(layout.id);
+                        if (activeLayout?.id === layout.id) setActiveLayout(null);
+                      }}
+                    >
+                      <Trash2 className="w-3 h-3" />
+                    </Button>
+                  </DropdownMenuItem>
+                ))}
+              </DropdownMenuContent>
+            </DropdownMenu>
+            <Button
+              variant="ghost"
+              size="sm"
+              onClick={() => setIsExpanded(!isExpanded)}
+            >
+              {isExpanded ? (
+                <Minimize2 className="w-4 h-4" />
+              ) : (
+                <Maximize2 className="w-4 h-4" />
+              )}
+            </Button>
+          </div>
+        </div>
+        <div className="flex flex-wrap items-center gap-2 mt-2">
+          <ToggleGroup
+            type="multiple"
             size="sm"
-            onClick={() => setIsExpanded(!isExpanded)}
+            value={filters.nodeTypes}
+            onValueChange={toggleNodeTypes}
+            className="flex-wrap justify-start"
           >
-            {isExpanded ? (
-              <Minimize2 className="w-4 h-4" />
-            ) : (
-              <Maximize2 className="w-4 h-4" />
-            )}
-          </Button>
+            {GRAPH_NODE_TYPES.map(type => (
+              <ToggleGroupItem key={type} value={type} className="h-7 px-2 text-xs gap-1">
+                <span className="w-2.5 h-2.5 rounded-full" style={{ backgroundColor: NODE_STYLES[type].color }} />
+                {NODE_STYLES[type].label}
+              </ToggleGroupItem>
+            ))}
+          </ToggleGroup>
+          <Select value={filters.since} onValueChange={since => setFilters(prev => ({ ...prev, since }))}>
+            <SelectTrigger className="h-7 w-[140px] text-xs">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {DATE_RANGES.map(range => (
+                <SelectItem key={range.value} value={range.value}>{range.label}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
         </div>
-        <div className="flex gap-3 text-xs text-muted-foreground mt-2">
-          <div className="flex items-center gap-1">
-            <div className="w-3 h-3 rounded-full bg-[#3b82f6]" />
-            Documents
-          </div>
-          <div className="flex items-center gap-1">
-            <div className="w-3 h-3 rounded-full bg-[#a855f7]" />
-            Principles
-          </div>
-          <div className="flex items-center gap-1">
-            <div className="w-3 h-3 rounded-full bg-[#10b981]" />
-            Projects
-          </div>
+        <div className="flex flex-wrap gap-3 text-xs text-muted-foreground mt-2">
+          {GRAPH_EDGE_TYPES.map(type => (
+            <div key={type} className="flex items-center gap-1">
+              <svg width="16" height="4" aria-hidden>
+                <line
+                  x1="0" y1="2" x2="16" y2="2"
+                  stroke={EDGE_STYLES[type].color}
+                  strokeWidth="2"
+                  strokeDasharray={EDGE_STYLES[type].dash?.join(" ")}
+                />
+              </svg>
+              {EDGE_STYLES[type].label}
+            </div>
+          ))}
         </div>
       </CardHeader>
       <CardContent>
         <div className="rounded-lg border bg-background overflow-hidden">
-          <ForceGraph2D
+          <ForceGraph2D<GraphNode, GraphEdge>
+            ref={graphRef}
             graphData={graphData}
             width={size}
             height={size}
-            nodeLabel="name"
-            nodeColor="color"
+            nodeLabel={node => `${NODE_STYLES[node.type].label.replace(/s$/, "")}: ${node.name}`}
+            nodeColor={node => NODE_STYLES[node.type].color}
+            nodeVal={node => NODE_STYLES[node.type].size}
             nodeRelSize={6}
-            linkColor={() => '#64748b50'}
-            linkWidth={link => link.value}
+            linkColor={link => EDGE_STYLES[link.type].color}
+            linkLineDash={link => EDGE_STYLES[link.type].dash}
+            linkWidth={link => (selectedEdgeIds.has(link.id) ? 2 : 1)}
             onNodeClick={handleNodeClick}
+            onNodeDragEnd={handleNodeDragEnd}
+            onNodeRightClick={handleNodeRightClick}
+            onBackgroundClick={() => setSelectedId(null)}
             cooldownTicks={100}
             d3VelocityDecay={0.3}
           />
         </div>
-        {documents.length > 50 && (
-          <p className="text-xs text-muted-foreground mt-2 text-center">
-            Showing first 50 documents for performance
-          </p>
+        {selected && (
+          <div className="mt-3 flex items-center justify-between gap-2 rounded-lg border p-3">
+            <div className="min-w-0">
+              <div className="flex items-center gap-2">
+                <Badge variant="outline" style={{ borderColor: NODE_STYLES[selected.type].color }}>
+                  {NODE_STYLES[selected.type].label.replace(/s$/, "")}
+                </Badge>
+                {graph.expanding.has(selected.id) && <Loader2 className="w-3 h-3 animate-spin text-muted-foreground" />}
+              </div>
+              <p className="text-sm font-medium truncate mt-1">{selected.name}</p>
+              {selected.type === "document" && !selectedDocument && (
+                <p className="text-xs text-muted-foreground">Not in the current Library view</p>
+              )}
+            </div>
+            {selectedDocument && (
+              <Button size="sm" variant="outline" onClick={() => onDocumentClick(selectedDocument)}>
+                Open document
+              </Button>
+            )}
+          </div>
         )}
+        <div className="flex items-center justify-between mt-2 text-xs text-muted-foreground">
+          <span>Click a node to load its connections. Drag to pin, right-click to unpin.</span>
+          {graph.hiddenDocumentCount > 0 && (
+            <Button variant="link" size="sm" className="h-auto p-0 text-xs" onClick={graph.showMoreDocuments}>
+              Show more documents ({graph.hiddenDocumentCount} more)
+            </Button>
+          )}
+        </div>
       </CardContent>
     </Card>
   );
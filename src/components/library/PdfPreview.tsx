@@ -0,0 +1,189 @@
+import { useEffect, useMemo, useRef, useState } from "react";
+import { TextLayer } from "pdfjs-dist";
+import type { PDFDocumentProxy, RenderTask } from "pdfjs-dist";
+import { ChevronLeft, ChevronRight, Loader2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import type { PageOffset } from "@/lib/fileParser";
+import { openPdfDocument } from "@/lib/pdfParser";
+import { highlightPattern } from "@/lib/searchQuery";
+
+interface PdfPreviewProps {
+  file: File;
+  searchQuery: string;
+  extractedText?: string;
+  pageOffsets?: PageOffset[];
+}
+
+// Wraps search matches inside the rendered text spans, which pdf.js lays over the canvas
+const markMatches = (textDivs: HTMLElement[], pattern: RegExp | null) => {
+  if (!pattern) return;
+  textDivs.forEach(div => {
+    const parts = (div.textContent ?? "").split(pattern);
+    if (parts.length < 2) return;
+    div.replaceChildren(
+      ...parts.map((part, i) => {
+        if (i % 2 === 0) return document.createTextNode(part);
+        const mark = document.createElement("span");
+        mark.className = "highlight";
+        mark.textContent = part;
+        return mark;
+      })
+    );
+  });
+};
+
+export function PdfPreview({ file, searchQuery, extractedText, pageOffsets }: PdfPreviewProps) {
+  const containerRef = useRef<HTMLDivElement>(null);
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const textLayerRef = useRef<HTMLDivElement>(null);
+  const [pdf, setPdf] = useState<PDFDocumentProxy | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [rendering, setRendering] = useState(false);
+
+  const pattern = useMemo(() => highlightPattern(searchQuery), [searchQuery]);
+
+  // Pages whose extracted text contains a match, found from the stored page offsets
+  const matchPages = useMemo(() => {
+    if (!pattern || !extractedText || !pageOffsets) return [];
+    return pageOffsets
+      .filter(({ start, end }) => new RegExp(pattern.source, "i").test(extractedText.slice(start, end)))
+      .map(({ page }) => page);
+  }, [pattern, extractedText, pageOffsets]);
+
+  const [pageNumber, setPageNumber] = useState(() => matchPages[0] ?? 1);
+
+  useEffect(() => {
+    let cancelled = false;
+    let loaded: PDFDocumentProxy | null = null;
+
+    openPdfDocument(file)
+      .then(doc => {
+        if (cancelled) {
+          doc.destroy();
+          return;
+        }
+        loaded = doc;
+        setPdf(doc);
+      })
+      .catch(err => {
+        if (!cancelled) setError(err instanceof Error ? err.message : "Could not open PDF");
+      });
+
+    return () => {
+      cancelled = true;
+      loaded?.destroy();
+    };
+  }, [file]);
+
+  useEffect(() => {
+    if (!pdf) return;
+    let cancelled = false;
+    let renderTask: RenderTask | null = null;
+    let textLayer: TextLayer | null = null;
+
+    const render = async () => {
+      const page = await pdf.getPage(pageNumber);
+      const canvas = canvasRef.current;
+      const layer = textLayerRef.current;
+      const context = canvas?.getContext("2d");
+      if (cancelled || !canvas || !layer || !context) return;
+
+      const width = containerRef.current?.clientWidth || 540;
+      const scale = width / page.getViewport({ scale: 1 }).width;
+      const viewport = page.getViewport({ scale });
+      const ratio = window.devicePixelRatio || 1;
+
+      canvas.width = Math.floor(viewport.width * ratio);
+      canvas.height = Math.floor(viewport.height * ratio);
+      canvas.style.width = `${viewport.width}px`;
+      canvas.style.height = `${viewport.height}px`;
+
+      layer.replaceChildren();
+      layer.style.setProperty("--scale-factor", String(scale));
+
+      renderTask = page.render({
+        canvasContext: context,
+        viewport,
+        transform: ratio !== 1 ? [ratio, 0, 0, ratio, 0, 0] : undefined,
+      });
+      textLayer = new TextLayer({ textContentSource: page.streamTextContent(), container: layer, viewport });
+
+      await Promise.all([renderTask.promise, textLayer.render()]);
+      if (!cancelled) markMatches(textLayer.textDivs, pattern);
+    };
+
+    setRendering(true);
+    render()
+      .catch(err => {
+        if (!cancelled && err?.name !== "RenderingCancelledException") {
+          setError(err instanceof Error ? err.message : "Could not render page");
+        }
+      })
+      .finally(() => {
+        if (!cancelled) setRendering(false);
+      });
+
+    return () => {
+      cancelled = true;
+      renderTask?.cancel();
+      textLayer?.cancel();
+    };
+  }, [pdf, pageNumber, pattern]);
+
+  if (error) {
+    return <p className="text-sm text-muted-foreground">Could not display this PDF: {error}</p>;
+  }
+
+  const pageCount = pdf?.numPages ?? 0;
+
+  return (
+    <div className="space-y-2">
+      <div className="flex items-center gap-2 text-xs text-muted-foreground">
+        <Button
+          variant="outline"
+          size="icon"
+          className="h-7 w-7"
+          disabled={pageNumber <= 1}
+          onClick={() => setPageNumber(page => page - 1)}
+        >
+          <ChevronLeft className="w-4 h-4" />
+        </Button>
+        <span>{pageCount > 0 ? `Page ${pageNumber} of ${pageCount}` : "Loading..."}</span>
+        <Button
+          variant="outline"
+          size="icon"
+          className="h-7 w-7"
+          disabled={pageNumber >= pageCount}
+          onClick={() => setPageNumber(page => page + 1)}
+        >
+          <ChevronRight className="w-4 h-4" />
+        </Button>
+        {rendering && <Loader2 className="w-3 h-3 animate-spin" />}
+      </div>
+
+      {matchPages.length > 0 && (
+        <div className="flex flex-wrap items-center gap-1 text-xs text-muted-foreground">
+          Matches on
+          {matchPages.map(page => (
+            <Button
+              key={page}
+              variant={page === pageNumber ? "secondary" : "ghost"}
+              size="sm"
+              className="h-6 min-w-0 px-2 text-xs"
+              onClick={() => setPageNumber(page)}
+            >
+              p. {page}
+            </Button>
+          ))}
+        </div>
+      )}
+
+      <div ref={containerRef} className="max-h-[70vh] overflow-auto rounded-md border bg-muted/30">
+        <div className="relative w-fit">
+          <canvas ref={canvasRef} className="block" />
+          <div ref={textLayerRef} className="textLayer" />
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,207 @@
+import { useState } from "react";
+import { useSearchParams } from "react-router-dom";
+import { Bookmark, BookmarkPlus, Bell, BellOff, MoreHorizontal, Pin, PinOff, RefreshCw, Sparkles, Trash2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+import { cn } from "@/lib/utils";
+import { Document } from "@/hooks/useDocuments";
+import {
+  SavedSearch,
+  countSavedSearchMatches,
+  toSavedSearchParams,
+  useCreateSavedSearch,
+  useDeleteSavedSearch,
+  useSavedSearches,
+  useUpdateSavedSearch,
+} from "@/hooks/useSavedSearches";
+
+interface SavedSearchesProps {
+  documents: Document[] | undefined;
+}
+
+export function SavedSearches({ documents }: SavedSearchesProps) {
+  const [searchParams, setSearchParams] = useSearchParams();
+  const { data: savedSearches } = useSavedSearches();
+  const createSavedSearch = useCreateSavedSearch();
+  const updateSavedSearch = useUpdateSavedSearch();
+  const deleteSavedSearch = useDeleteSavedSearch();
+
+  const [dialogOpen, setDialogOpen] = useState(false);
+  const [name, setName] = useState("");
+  const [pinned, setPinned] = useState(true);
+  const [smartCollection, setSmartCollection] = useState(false);
+  const [notifyOnMatch, setNotifyOnMatch] = useState(true);
+
+  const currentParams = toSavedSearchParams(searchParams);
+  const activeSearch = savedSearches?.find(search => search.params === currentParams);
+
+  const applySearch = (search: SavedSearch) => {
+    const params = new URLSearchParams(search.params);
+    // Keep the keyword/semantic choice, which is a view preference rather than part of the search
+    const mode = searchParams.get('mode');
+    if (mode) params.set('mode', mode);
+    setSearchParams(params);
+  };
+
+  const openSaveDialog = () => {
+    setName("");
+    setPinned(true);
+    setSmartCollection(false);
+    setNotifyOnMatch(true);
+    setDialogOpen(true);
+  };
+
+  // A failed save keeps the dialog open; the hook reports the error
+  const handleSave = () => {
+    if (!name.trim()) return;
+    createSavedSearch.mutate(
+      {
+        name: name.trim(),
+        params: currentParams,
+        pinned,
+        is_smart_collection: smartCollection,
+        notify_on_match: notifyOnMatch,
+      },
+      { onSuccess: () => setDialogOpen(false) }
+    );
+  };
+
+  if (!savedSearches?.length && !currentParams) return null;
+
+  return (
+    <div className="flex flex-wrap items-center gap-2">
+      {savedSearches?.map(search => (
+        <div
+          key={search.id}
+          className={cn(
+            "flex items-center rounded-full border text-sm transition-colors",
+            activeSearch?.id === search.id ? "border-primary bg-primary/10" : "hover:bg-accent"
+          )}
+        >
+          <button
+            className="flex items-center gap-1.5 py-1 pl-3 pr-1"
+            onClick={() => applySearch(search)}
+            title={search.is_smart_collection ? "Smart collection" : "Saved search"}
+          >
+            {search.is_smart_collection
+              ? <Sparkles className="w-3.5 h-3.5 text-primary" />
+              : <Bookmark className="w-3.5 h-3.5" />}
+            {search.name}
+            <Badge variant="secondary" className="h-5 px-1.5 text-[10px]">
+              {countSavedSearchMatches(search, documents)}
+            </Badge>
+          </button>
+          <DropdownMenu>
+            <DropdownMenuTrigger asChild>
+              <Button variant="ghost" size="icon" className="h-6 w-6 rounded-full mr-1">
+                <MoreHorizontal className="w-3.5 h-3.5" />
+              </Button>
+            </DropdownMenuTrigger>
+            <DropdownMenuContent align="start">
+              <DropdownMenuItem onClick={() => updateSavedSearch.mutate({ id: search.id, pinned: !search.pinned })}>
+                {search.pinned
+                  ? <><PinOff className="w-4 h-4 mr-2" /> Unpin from sidebar</>
+                  : <><Pin className="w-4 h-4 mr-2" /> Pin to sidebar</>}
+              </DropdownMenuItem>
+              <DropdownMenuItem
+                onClick={() => updateSavedSearch.mutate({ id: search.id, is_smart_collection: !search.is_smart_collection })}
+              >
+                <Sparkles className="w-4 h-4 mr-2" />
+                {search.is_smart_collection ? "Make a regular saved search" : "Make a smart collection"}
+              </DropdownMenuItem>
+              {search.is_smart_collection && (
+                <DropdownMenuItem
+                  onClick={() => updateSavedSearch.mutate({ id: search.id, notify_on_match: !search.notify_on_match })}
+                >
+                  {search.notify_on_match
+                    ? <><BellOff className="w-4 h-4 mr-2" /> Stop notifying</>
+                    : <><Bell className="w-4 h-4 mr-2" /> Notify when documents join</>}
+                </DropdownMenuItem>
+              )}
+              {currentParams && activeSearch?.id !== search.id && (
+                <DropdownMenuItem onClick={() => updateSavedSearch.mutate({ id: search.id, params: currentParams })}>
+                  <RefreshCw className="w-4 h-4 mr-2" /> Replace with current filters
+                </DropdownMenuItem>
+              )}
+              <DropdownMenuSeparator />
+              <DropdownMenuItem className="text-red-600" onClick={() => deleteSavedSearch.mutate(search.id)}>
+                <Trash2 className="w-4 h-4 mr-2" /> Delete
+              </DropdownMenuItem>
+            </DropdownMenuContent>
+          </DropdownMenu>
+        </div>
+      ))}
+
+      {currentParams && !activeSearch && (
+        <Button variant="ghost" size="sm" onClick={openSaveDialog}>
+          <BookmarkPlus className="w-4 h-4 mr-2" />
+          Save search
+        </Button>
+      )}
+
+      <Dialog open={dialogOpen} onOpenChange={setDialogOpen}>
+        <DialogContent className="sm:max-w-md">
+          <DialogHeader>
+            <DialogTitle>Save search</DialogTitle>
+            <DialogDescription>
+              Keep the current query and filters as a named view you can come back to.
+            </DialogDescription>
+          </DialogHeader>
+
+          <div className="space-y-4">
+            <div className="space-y-2">
+              <Label htmlFor="saved-search-name">Name</Label>
+              <Input
+                id="saved-search-name"
+                value={name}
+                onChange={(e) => setName(e.target.value)}
+                onKeyDown={(e) => e.key === 'Enter' && handleSave()}
+                placeholder="e.g. Unaligned docs from last 14 days"
+                autoFocus
+              />
+            </div>
+            <div className="flex items-center justify-between">
+              <Label htmlFor="saved-search-pinned">Pin to sidebar</Label>
+              <Switch id="saved-search-pinned" checked={pinned} onCheckedChange={setPinned} />
+            </div>
+            <div className="flex items-center justify-between gap-4">
+              <div>
+                <Label htmlFor="saved-search-smart">Smart collection</Label>
+                <p className="text-xs text-muted-foreground">
+                  New documents that match are included automatically.
+                </p>
+              </div>
+              <Switch id="saved-search-smart" checked={smartCollection} onCheckedChange={setSmartCollection} />
+            </div>
+            {smartCollection && (
+              <div className="flex items-center justify-between">
+                <Label htmlFor="saved-search-notify">Notify me when a document joins</Label>
+                <Switch id="saved-search-notify" checked={notifyOnMatch} onCheckedChange={setNotifyOnMatch} />
+              </div>
+            )}
+          </div>
+
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setDialogOpen(false)}>
+              Cancel
+            </Button>
+            <Button onClick={handleSave} disabled={!name.trim() || createSavedSearch.isPending}>
+              Save
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
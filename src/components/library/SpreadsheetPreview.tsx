@@ -0,0 +1,162 @@
+import { ReactNode, useEffect, useMemo, useState } from "react";
+import { ChevronLeft, ChevronRight, Loader2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { Tabs, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { highlightPattern } from "@/lib/searchQuery";
+import { CellValue, readSheetRows, SheetSchema } from "@/lib/spreadsheetParser";
+
+interface SpreadsheetPreviewProps {
+  file: File;
+  schemas?: SheetSchema[];
+  searchQuery: string;
+  highlight: (text: string) => ReactNode;
+}
+
+const PAGE_SIZE = 100;
+
+const cellText = (value: CellValue) => (value === null ? "" : String(value));
+
+export function SpreadsheetPreview({ file, schemas, searchQuery, highlight }: SpreadsheetPreviewProps) {
+  const [sheets, setSheets] = useState<{ name: string; rows: CellValue[][] }[] | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [sheetIndex, setSheetIndex] = useState(0);
+  const [page, setPage] = useState(0);
+  const [matchingOnly, setMatchingOnly] = useState(false);
+
+  useEffect(() => {
+    let cancelled = false;
+    readSheetRows(file)
+      .then(result => {
+        if (!cancelled) setSheets(result);
+      })
+      .catch(err => {
+        if (!cancelled) setError(err instanceof Error ? err.message : "Could not read spreadsheet");
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [file]);
+
+  const sheet = sheets?.[sheetIndex];
+  // The header row was detected when the file was uploaded; the schema remembers it per sheet
+  const hasHeader = schemas?.find(schema => schema.name === sheet?.name)?.hasHeader ?? false;
+  const pattern = useMemo(() => highlightPattern(searchQuery), [searchQuery]);
+
+  const { header, rows } = useMemo(() => {
+    if (!sheet) return { header: [], rows: [] };
+    const body = hasHeader ? sheet.rows.slice(1) : sheet.rows;
+    const columnCount = sheet.rows.reduce((max, row) => Math.max(max, row.length), 0);
+    const labels = Array.from({ length: columnCount }, (_, i) =>
+      hasHeader && sheet.rows[0][i] !== null ? cellText(sheet.rows[0][i]) : `Column ${i + 1}`
+    );
+
+    const filtered = matchingOnly && pattern
+      ? body.filter(row => row.some(cell => new RegExp(pattern.source, "i").test(cellText(cell))))
+      : body;
+    return { header: labels, rows: filtered };
+  }, [sheet, hasHeader, matchingOnly, pattern]);
+
+  if (error) {
+    return <p className="text-sm text-muted-foreground">Could not display this spreadsheet: {error}</p>;
+  }
+
+  if (!sheets) {
+    return (
+      <div className="flex items-center gap-2 text-sm text-muted-foreground">
+        <Loader2 className="w-4 h-4 animate-spin" />
+        Reading spreadsheet...
+      </div>
+    );
+  }
+
+  const pageCount = Math.max(1, Math.ceil(rows.length / PAGE_SIZE));
+  const currentPage = Math.min(page, pageCount - 1);
+  const visibleRows = rows.slice(currentPage * PAGE_SIZE, (currentPage + 1) * PAGE_SIZE);
+
+  return (
+    <div className="space-y-2">
+      {sheets.length > 1 && (
+        <Tabs
+          value={String(sheetIndex)}
+          onValueChange={value => {
+            setSheetIndex(Number(value));
+            setPage(0);
+          }}
+        >
+          <TabsList className="h-auto flex-wrap">
+            {sheets.map((s, i) => (
+              <TabsTrigger key={s.name} value={String(i)}>{s.name}</TabsTrigger>
+            ))}
+          </TabsList>
+        </Tabs>
+      )}
+
+      <div className="flex items-center justify-between gap-2 text-xs text-muted-foreground">
+        <span>
+          {rows.length.toLocaleString()} {matchingOnly ? "matching " : ""}rows × {header.length} columns
+        </span>
+        {pattern && (
+          <div className="flex items-center gap-2">
+            <Switch
+              id="matching-rows"
+              checked={matchingOnly}
+              onCheckedChange={checked => {
+                setMatchingOnly(checked);
+                setPage(0);
+              }}
+            />
+            <Label htmlFor="matching-rows" className="text-xs font-normal">Matching rows only</Label>
+          </div>
+        )}
+      </div>
+
+      <div className="max-h-[60vh] overflow-auto rounded-md border">
+        <Table>
+          <TableHeader>
+            <TableRow>
+              {header.map((label, i) => (
+                <TableHead key={i} className="whitespace-nowrap">{highlight(label)}</TableHead>
+              ))}
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {visibleRows.map((row, r) => (
+              <TableRow key={currentPage * PAGE_SIZE + r}>
+                {header.map((_, c) => (
+                  <TableCell key={c} className="whitespace-nowrap text-xs">{highlight(cellText(row[c] ?? null))}</TableCell>
+                ))}
+              </TableRow>
+            ))}
+          </TableBody>
+        </Table>
+      </div>
+
+      {pageCount > 1 && (
+        <div className="flex items-center justify-end gap-2 text-xs text-muted-foreground">
+          <Button
+            variant="outline"
+            size="icon"
+            className="h-7 w-7"
+            disabled={currentPage === 0}
+            onClick={() => setPage(currentPage - 1)}
+          >
+            <ChevronLeft className="w-4 h-4" />
+          </Button>
+          <span>Page {currentPage + 1} of {pageCount}</span>
+          <Button
+            variant="outline"
+            size="icon"
+            className="h-7 w-7"
+            disabled={currentPage >= pageCount - 1}
+            onClick={() => setPage(currentPage + 1)}
+          >
+            <ChevronRight className="w-4 h-4" />
+          </Button>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,164 @@
+import { useState } from "react";
+import { AlertTriangle, HardDrive, Loader2, Trash2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { useUploadQueue } from "@/hooks/useUploadQueue";
+import { StorageReconciliation, useStorageReconciliation } from "@/hooks/useStorageReconciliation";
+import { formatFileSize } from "@/lib/fileParser";
+
+interface StorageCheckDialogProps {
+  onOpenDocument: (documentId: string) => void;
+}
+
+export function StorageCheckDialog({ onOpenDocument }: StorageCheckDialogProps) {
+  const { uploads } = useUploadQueue();
+  const reconcile = useStorageReconciliation();
+  const [open, setOpen] = useState(false);
+  const [result, setResult] = useState<StorageReconciliation | null>(null);
+
+  const keepPaths = uploads.map(upload => upload.storagePath);
+
+  const runCheck = async (dryRun: boolean) => {
+    const next = await reconcile.mutateAsync({ dryRun, keepPaths }).catch(() => null);
+    if (!next) return;
+    // A cleanup run reports what it deleted; what's left to show is the missing files
+    setResult(dryRun ? next : { ...next, orphanedObjects: [] });
+  };
+
+  const orphanedSize = result?.orphanedObjects.reduce((sum, object) => sum + object.size, 0) ?? 0;
+
+  return (
+    <>
+      <Button
+        variant="outline"
+        size="sm"
+        onClick={() => {
+          setOpen(true);
+          setResult(null);
+          runCheck(true);
+        }}
+      >
+        <HardDrive className="w-4 h-4 mr-2" />
+        Check storage
+      </Button>
+
+      <Dialog open={open} onOpenChange={setOpen}>
+        <DialogContent className="sm:max-w-lg">
+          <DialogHeader>
+            <DialogTitle>Storage check</DialogTitle>
+            <DialogDescription>
+              Compares your stored files with the documents that use them.
+            </DialogDescription>
+          </DialogHeader>
+
+          {reconcile.isPending && !result ? (
+            <div className="flex items-center gap-2 py-6 text-sm text-muted-foreground">
+              <Loader2 className="w-4 h-4 animate-spin" />
+              Scanning storage...
+            </div>
+          ) : result && (
+            <div className="space-y-4 text-sm">
+              <p className="text-muted-foreground">{result.scanned} stored files scanned.</p>
+
+              <div className="space-y-2">
+                <h4 className="font-medium flex items-center gap-2">
+                  Orphaned files
+                  <Badge variant="secondary">{result.orphanedObjects.length}</Badge>
+                </h4>
+                {result.orphanedObjects.length === 0 ? (
+                  <p className="text-muted-foreground">Every stored file belongs to a document.</p>
+                ) : (
+                  <>
+                    <p className="text-muted-foreground">
+                      {formatFileSize(orphanedSize)} in files that no document or version refers to.
+                    </p>
+                    <div className="max-h-32 overflow-auto rounded border p-2 font-mono text-xs">
+                      {result.orphanedObjects.map(object => (
+                        <div key={object.path} className="truncate">{object.path}</div>
+                      ))}
+                    </div>
+                  </>
+                )}
+              </div>
+
+              {result.unmatchedLegacyObjects.length > 0 && (
+                <div className="space-y-2">
+                  <h4 className="font-medium flex items-center gap-2">
+                    Older files to review
+                    <Badge variant="secondary">{result.unmatchedLegacyObjects.length}</Badge>
+                  </h4>
+                  <p className="text-muted-foreground">
+                    Uploaded before files were linked to documents by key, and not matched to a document since.
+                    They are kept until you remove them yourself.
+                  </p>
+                  <div className="max-h-32 overflow-auto rounded border p-2 font-mono text-xs">
+                    {result.unmatchedLegacyObjects.map(object => (
+                      <div key={object.path} className="truncate">{object.path}</div>
+                    ))}
+                  </div>
+                </div>
+              )}
+
+              <div className="space-y-2">
+                <h4 className="font-medium flex items-center gap-2">
+                  Documents with missing files
+                  <Badge variant={result.missingFiles.length > 0 ? "destructive" : "secondary"}>
+                    {result.missingFiles.length}
+                  </Badge>
+                </h4>
+                {result.missingFiles.length === 0 ? (
+                  <p className="text-muted-foreground">Every document's file is present.</p>
+                ) : (
+                  <div className="max-h-40 overflow-auto space-y-1">
+                    {result.missingFiles.map(missing => (
+                      <button
+                        key={`${missing.documentId}-${missing.versionNumber ?? "current"}`}
+                        className="flex w-full items-center gap-2 rounded border p-2 text-left hover:bg-accent"
+                        onClick={() => {
+                          setOpen(false);
+                          onOpenDocument(missing.documentId);
+                        }}
+                      >
+                        <AlertTriangle className="w-4 h-4 text-destructive shrink-0" />
+                        <span className="flex-1 truncate">{missing.title}</span>
+                        <span className="text-xs text-muted-foreground">
+                          {missing.versionNumber === null ? "current file" : `version ${missing.versionNumber}`}
+                        </span>
+                      </button>
+                    ))}
+                  </div>
+                )}
+              </div>
+            </div>
+          )}
+
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setOpen(false)}>
+              Close
+            </Button>
+            <Button
+              variant="destructive"
+              disabled={reconcile.isPending || !result || result.orphanedObjects.length === 0}
+              onClick={() => runCheck(false)}
+            >
+              {reconcile.isPending && result ? (
+                <Loader2 className="w-4 h-4 mr-2 animate-spin" />
+              ) : (
+                <Trash2 className="w-4 h-4 mr-2" />
+              )}
+              Delete orphaned files
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </>
+  );
+}
@@ -0,0 +1,146 @@
+import { ReactNode, useMemo, useState } from "react";
+import { ChevronDown, ChevronRight } from "lucide-react";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import {
+  parseStructuredTree,
+  StructuredFormat,
+  SyntaxTokenType,
+  tokenizeSource,
+  TreeNode,
+} from "@/lib/structuredData";
+
+interface StructuredDataPreviewProps {
+  text: string;
+  format: StructuredFormat;
+  highlight: (text: string) => ReactNode;
+}
+
+// Large files are cut short; highlighting megabytes of source would stall the panel
+const MAX_SOURCE_CHARS = 100_000;
+const MAX_CHILDREN = 200;
+const EXPANDED_DEPTH = 2;
+
+const TOKEN_CLASSES: Record<SyntaxTokenType, string> = {
+  key: "text-primary",
+  string: "text-green-700 dark:text-green-400",
+  number: "text-orange-600 dark:text-orange-400",
+  literal: "text-blue-600 dark:text-blue-400",
+  comment: "text-muted-foreground italic",
+  tag: "text-blue-600 dark:text-blue-400",
+  attribute: "text-orange-600 dark:text-orange-400",
+  punctuation: "text-muted-foreground",
+  plain: "",
+};
+
+const VALUE_CLASSES: Record<NonNullable<TreeNode["valueType"]>, string> = {
+  string: TOKEN_CLASSES.string,
+  number: TOKEN_CLASSES.number,
+  boolean: TOKEN_CLASSES.literal,
+  null: TOKEN_CLASSES.literal,
+};
+
+const summarize = (node: TreeNode) => {
+  const count = node.children?.length ?? 0;
+  if (node.kind === "array") return `[${count}]`;
+  if (node.kind === "object") return `{${count}}`;
+  return count > 0 ? `${count} ${count === 1 ? "child" : "children"}` : "";
+};
+
+function TreeItem({ node, depth, highlight }: { node: TreeNode; depth: number; highlight: StructuredDataPreviewProps["highlight"] }) {
+  const [expanded, setExpanded] = useState(depth < EXPANDED_DEPTH);
+
+  if (node.kind === "value") {
+    return (
+      <div className="flex gap-1 py-0.5 pl-5">
+        {node.key !== "#text" && <span className="text-primary">{highlight(node.key)}:</span>}
+        <span className={`break-all ${VALUE_CLASSES[node.valueType ?? "string"]}`}>{highlight(node.value ?? "")}</span>
+      </div>
+    );
+  }
+
+  const children = node.children ?? [];
+
+  return (
+    <div>
+      <button
+        className="flex min-h-0 min-w-0 items-center gap-1 py-0.5 text-left hover:text-foreground"
+        onClick={() => setExpanded(prev => !prev)}
+      >
+        {expanded ? <ChevronDown className="w-4 h-4 shrink-0" /> : <ChevronRight className="w-4 h-4 shrink-0" />}
+        <span className={node.kind === "element" ? TOKEN_CLASSES.tag : "text-primary"}>
+          {node.kind === "element" ? <>&lt;{highlight(node.key)}&gt;</> : highlight(node.key)}
+        </span>
+        {node.attributes?.map(attr => (
+          <span key={attr.name} className="text-xs">
+            <span className={TOKEN_CLASSES.attribute}>{highlight(attr.name)}</span>=
+            <span className={TOKEN_CLASSES.string}>"{highlight(attr.value)}"</span>
+          </span>
+        ))}
+        <span className="text-xs text-muted-foreground">{summarize(node)}</span>
+      </button>
+      {expanded && (
+        <div className="ml-2 border-l pl-2">
+          {children.slice(0, MAX_CHILDREN).map((child, i) => (
+            <TreeItem key={`${child.key}-${i}`} node={child} depth={depth + 1} highlight={highlight} />
+          ))}
+          {children.length > MAX_CHILDREN && (
+            <div className="py-0.5 pl-5 text-xs text-muted-foreground">
+              {children.length - MAX_CHILDREN} more not shown
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
+
+export function StructuredDataPreview({ text, format, highlight }: StructuredDataPreviewProps) {
+  const parsed = useMemo(() => {
+    try {
+      return { tree: parseStructuredTree(text, format), error: null };
+    } catch (error) {
+      return { tree: null, error: error instanceof Error ? error.message : "Could not parse file" };
+    }
+  }, [text, format]);
+
+  const tokens = useMemo(() => tokenizeSource(text.slice(0, MAX_SOURCE_CHARS), format), [text, format]);
+
+  const source = (
+    <div className="max-h-[70vh] overflow-auto rounded-md border bg-muted/30 p-3">
+      <pre className="font-mono text-xs whitespace-pre-wrap break-all">
+        {tokens.map((token, i) => (
+          <span key={i} className={TOKEN_CLASSES[token.type]}>{highlight(token.text)}</span>
+        ))}
+      </pre>
+      {text.length > MAX_SOURCE_CHARS && (
+        <p className="mt-2 text-xs text-muted-foreground">
+          Showing the first {MAX_SOURCE_CHARS.toLocaleString()} of {text.length.toLocaleString()} characters
+        </p>
+      )}
+    </div>
+  );
+
+  if (!parsed.tree) {
+    return (
+      <div className="space-y-2">
+        <p className="text-xs text-muted-foreground">Tree view unavailable: {parsed.error}</p>
+        {source}
+      </div>
+    );
+  }
+
+  return (
+    <Tabs defaultValue="tree">
+      <TabsList>
+        <TabsTrigger value="tree">Tree</TabsTrigger>
+        <TabsTrigger value="source">Source</TabsTrigger>
+      </TabsList>
+      <TabsContent value="tree">
+        <div className="max-h-[70vh] overflow-auto rounded-md border p-3 font-mono text-xs">
+          <TreeItem node={parsed.tree} depth={0} highlight={highlight} />
+        </div>
+      </TabsContent>
+      <TabsContent value="source">{source}</TabsContent>
+    </Tabs>
+  );
+}
@@ -0,0 +1,233 @@
+import { useCallback, useEffect, useRef, useState } from "react";
+import { supabase } from "@/integrations/supabase/client";
+import { useAuth } from "@/contexts/AuthContext";
+import { UploadQueueContext } from "@/hooks/useUploadQueue";
+import { Document } from "@/hooks/useDocuments";
+import { extractStructuredContent } from "@/lib/fileParser";
+import { computeFingerprint, hashFileContent } from "@/lib/duplicateDetection";
+import { buildStoragePath, DOCUMENTS_BUCKET, removeStoredFiles } from "@/lib/documentStorage";
+import { logger } from "@/lib/logger";
+import {
+  AiSuggestion,
+  deleteUpload,
+  IN_FLIGHT_STATUSES,
+  isRetryableError,
+  loadUploads,
+  MAX_CONCURRENT_UPLOADS,
+  MAX_UPLOAD_ATTEMPTS,
+  QueuedUpload,
+  retryDelay,
+  saveUpload,
+} from "@/lib/uploadQueue";
+
+export function UploadQueueProvider({ children }: { children: React.ReactNode }) {
+  const { user } = useAuth();
+  const [uploads, setUploads] = useState<QueuedUpload[]>([]);
+  // Mirrors `uploads` synchronously so workers always patch the latest version of an item
+  const uploadsRef = useRef<QueuedUpload[]>([]);
+  const activeRef = useRef(new Set<string>());
+  const [wakeAt, setWakeAt] = useState(0);
+
+  const commit = useCallback((next: QueuedUpload[]) => {
+    uploadsRef.current = next;
+    setUploads(next);
+  }, []);
+
+  const persist = useCallback((upload: QueuedUpload) => {
+    saveUpload(upload).catch(error => {
+      logger.error('Failed to persist upload', { component: 'UploadQueue', operation: 'saveUpload', error });
+    });
+  }, []);
+
+  const update = useCallback((id: string, changes: Partial<QueuedUpload>) => {
+    const existing = uploadsRef.current.find(upload => upload.id === id);
+    // The user may have removed the upload while a worker was still busy with it
+    if (!existing) return;
+
+    const next = { ...existing, ...changes };
+    commit(uploadsRef.current.map(upload => (upload.id === id ? next : upload)));
+    // Progress ticks aren't worth a write; everything else is needed to resume after a reload
+    if (Object.keys(changes).some(key => key !== 'progress')) persist(next);
+  }, [commit, persist]);
+
+  const remove = useCallback((id: string) => {
+    commit(uploadsRef.current.filter(upload => upload.id !== id));
+    deleteUpload(id).catch(error => {
+      logger.error('Failed to delete upload', { component: 'UploadQueue', operation: 'deleteUpload', error });
+    });
+  }, [commit]);
+
+  // Drops an upload that will never become a document, along with any file it already stored
+  const discard = useCallback(async (id: string) => {
+    const upload = uploadsRef.current.find(item => item.id === id);
+    remove(id);
+    if (upload?.uploaded) await removeStoredFiles([upload.storagePath]);
+  }, [remove]);
+
+  const enqueue = useCallback((files: File[], targetDocument?: Document) => {
+    if (!user) return;
+
+    const added = files.map((file, index): QueuedUpload => {
+      // A new document takes the upload's id, so its file sits in the document's own folder
+      const id = crypto.randomUUID();
+      return {
+        id,
+        userId: user.id,
+        file,
+        storagePath: buildStoragePath(user.id, targetDocument?.id ?? id, id, file.name),
+        createdAt: Date.now() + index,
+        status: 'queued',
+        progress: 0,
+        attempts: 0,
+        targetDocument,
+      };
+    });
+    commit([...uploadsRef.current, ...added]);
+    added.forEach(persist);
+  }, [commit, persist, user]);
+
+  const retry = useCallback((id: string) => {
+    update(id, { status: 'queued', error: undefined, attempts: 0, retryAt: undefined });
+  }, [update]);
+
+  // Restore this user's queue; anything that was mid-flight when the page went away starts again
+  // from its last completed step
+  useEffect(() => {
+    if (!user) {
+      commit([]);
+      return;
+    }
+
+    let cancelled = false;
+    loadUploads(user.id)
+      .then(stored => {
+        if (cancelled) return;
+        const restored = stored.map(upload =>
+          IN_FLIGHT_STATUSES.includes(upload.status) ? { ...upload, status: 'queued' as const } : upload
+        );
+        commit(restored);
+      })
+      .catch(error => {
+        logger.error('Failed to restore uploads', { component: 'UploadQueue', operation: 'loadUploads', error });
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [user, commit]);
+
+  const process = useCallback(async (upload: QueuedUpload) => {
+    let current = upload;
+    const patch = (changes: Partial<QueuedUpload>) => {
+      current = { ...current, ...changes };
+      update(upload.id, changes);
+    };
+    const { file } = upload;
+
+    try {
+      if (!current.uploaded) {
+        patch({ status: 'uploading', progress: 10 });
+
+        // upsert, because an attempt cut short by a reload may already have written the object
+        const { error: uploadError } = await supabase.storage
+          .from(DOCUMENTS_BUCKET)
+          .upload(current.storagePath, file, { upsert: true });
+
+        if (uploadError) throw uploadError;
+        patch({ uploaded: true, progress: 40 });
+      }
+
+      if (!current.extracted) {
+        patch({ status: 'processing', progress: 40 });
+
+        const extracted = await extractStructuredContent(file);
+        const contentHash = await hashFileContent(file);
+        patch({ extracted, contentHash, fingerprint: computeFingerprint(extracted.text), progress: 60 });
+      }
+
+      patch({ status: 'categorizing', progress: 60 });
+
+      const { data: aiData, error: aiError } = await supabase.functions.invoke<AiSuggestion>('categorize-document', {
+        body: {
+          content: current.extracted?.text,
+          fileName: file.name,
+          fileType: file.type,
+          projectId: null
+        }
+      });
+
+      if (aiError) throw aiError;
+      if (!aiData) throw new Error('No categorization returned');
+
+      patch({
+        progress: 90,
+        status: 'reviewing',
+        error: undefined,
+        retryAt: undefined,
+        aiSuggestion: aiData,
+        editedData: {
+          category: aiData.category,
+          title: aiData.title,
+          summary: aiData.summary,
+          tags: aiData.tags.join(', '),
+          primary_principle_id: aiData.principle_alignment?.primary_principle_id || null,
+        }
+      });
+    } catch (error) {
+      const attempts = current.attempts + 1;
+      const message = error instanceof Error ? error.message : 'Failed to process file';
+
+      if (isRetryableError(error) && attempts < MAX_UPLOAD_ATTEMPTS) {
+        const delay = retryDelay(attempts);
+        logger.warn(`Upload step failed, retrying in ${delay}ms`, {
+          component: 'UploadQueue',
+          operation: 'processUpload',
+          error,
+          context: { fileName: file.name, attempts },
+        });
+        patch({ status: 'queued', attempts, retryAt: Date.now() + delay, error: message });
+      } else {
+        logger.error('Upload failed', {
+          component: 'UploadQueue',
+          operation: 'processUpload',
+          error,
+          context: { fileName: file.name, attempts },
+        });
+        patch({ status: 'error', attempts, error: message });
+      }
+    }
+  }, [update]);
+
+  // Start queued uploads whose retry time has come, up to the concurrency limit, and schedule a
+  // wake-up for the next pending retry
+  useEffect(() => {
+    const now = Date.now();
+    const ready = uploads.filter(
+      upload => upload.status === 'queued' && !activeRef.current.has(upload.id) && (upload.retryAt ?? 0) <= now
+    );
+
+    ready.slice(0, MAX_CONCURRENT_UPLOADS - activeRef.current.size).forEach(upload => {
+      activeRef.current.add(upload.id);
+      process(upload).finally(() => {
+        activeRef.current.delete(upload.id);
+        setWakeAt(Date.now());
+      });
+    });
+
+    const nextRetry = Math.min(
+      ...uploads
+        .filter(upload => upload.status === 'queued' && (upload.retryAt ?? 0) > now)
+        .map(upload => upload.retryAt as number)
+    );
+    if (!Number.isFinite(nextRetry)) return;
+
+    const timer = setTimeout(() => setWakeAt(Date.now()), nextRetry - now);
+    return () => clearTimeout(timer);
+  }, [uploads, wakeAt, process]);
+
+  return (
+    <UploadQueueContext.Provider value={{ uploads, enqueue, update, remove, discard, retry }}>
+      {children}
+    </UploadQueueContext.Provider>
+  );
+}
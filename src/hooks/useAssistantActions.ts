@@ -0,0 +1,121 @@
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { supabase } from "@/integrations/supabase/client";
+import { useToast } from "@/hooks/use-toast";
+
+export type AssistantActionTool =
+  | "create_task"
+  | "update_task_status"
+  | "create_project_goal"
+  | "add_insight"
+  | "link_document_to_principle"
+  | "draft_sop";
+
+export type AssistantActionStatus = "proposed" | "applying" | "applied" | "rejected" | "failed";
+
+export interface AssistantActionResult {
+  type: "task" | "goal" | "insight" | "document" | "sop";
+  id: string;
+  project_id?: string;
+}
+
+export interface AssistantAction {
+  id: string;
+  session_id: string;
+  message_id: string | null;
+  tool: AssistantActionTool;
+  arguments: Record<string, unknown>;
+  summary: string;
+  status: AssistantActionStatus;
+  result: AssistantActionResult | null;
+  error: string | null;
+  resolved_at: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+// apply-assistant-action lets an action that has been applying this long be confirmed or rejected again
+const STALE_APPLYING_MS = 5 * 60 * 1000;
+
+// Whether the user can still decide on the action: it is proposed, or its apply call never finished
+export const isAwaitingDecision = (action: AssistantAction, now = Date.now()) =>
+  action.status === "proposed" ||
+  (action.status === "applying" && now - new Date(action.updated_at).getTime() > STALE_APPLYING_MS);
+
+// Changes the assistant proposed in a session, oldest first
+export const useAssistantActions = (sessionId?: string) => {
+  return useQuery({
+    queryKey: ["assistant-actions", sessionId],
+    queryFn: async () => {
+      if (!sessionId) return [];
+
+      const { data, error } = await supabase
+        .from("assistant_actions")
+        .select("*")
+        .eq("session_id", sessionId)
+        .order("created_at", { ascending: true });
+
+      if (error) throw error;
+      return data as unknown as AssistantAction[];
+    },
+    enabled: !!sessionId,
+  });
+};
+
+// Proposals are stored while the answer streams, before the message they belong to is saved
+export const attachActionsToMessage = async (actionIds: string[], messageId: string) => {
+  if (actionIds.length === 0) return;
+  const { error } = await supabase
+    .from("assistant_actions")
+    .update({ message_id: messageId })
+    .in("id", actionIds);
+  if (error) throw error;
+};
+
+// The lists a confirmed action may have changed
+const AFFECTED_QUERIES: Record<AssistantActionTool, string[]> = {
+  create_task: ["tasks"],
+  update_task_status: ["tasks"],
+  create_project_goal: ["project-goals", "project-goals-summary"],
+  add_insight: ["insights"],
+  link_document_to_principle: ["documents"],
+  draft_sop: ["sops"],
+};
+
+export const useResolveAssistantAction = () => {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async ({ action, decision }: { action: AssistantAction; decision: "confirm" | "reject" }) => {
+      const { data, error } = await supabase.functions.invoke<{ action: AssistantAction }>("apply-assistant-action", {
+        body: { actionId: action.id, decision },
+      });
+
+      if (error) throw error;
+      if (!data) throw new Error("No result returned");
+      return data.action;
+    },
+    onSuccess: (resolved, { action }) => {
+      queryClient.invalidateQueries({ queryKey: ["assistant-actions", action.session_id] });
+      if (resolved.status === "applied") {
+        AFFECTED_QUERIES[action.tool].forEach(key => queryClient.invalidateQueries({ queryKey: [key] }));
+        toast({ title: "Done", description: action.summary });
+      } else if (resolved.status === "failed") {
+        toast({
+          title: "Couldn't apply the change",
+          description: resolved.error ?? action.summary,
+          variant: "destructive",
+        });
+      }
+    },
+    onError: (error, { action }) => {
+      // A 409 means it was handled elsewhere; the refreshed list shows how
+      queryClient.invalidateQueries({ queryKey: ["assistant-actions", action.session_id] });
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to update the action",
+        variant: "destructive",
+      });
+    },
+  });
+};
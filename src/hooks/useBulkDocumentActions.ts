@@ -0,0 +1,407 @@
+import { useCallback, useEffect, useRef, useState } from "react";
+import { useMutation, useQueryClient } from "@tanstack/react-query";
+import { supabase } from "@/integrations/supabase/client";
+import { useToast } from "@/hooks/use-toast";
+import { useAuth } from "@/contexts/AuthContext";
+import type { Json } from "@/integrations/supabase/types";
+import { removeStoredFiles } from "@/lib/documentStorage";
+import { Document } from "./useDocuments";
+import { saveSuggestedRelations } from "./useDocumentRelations";
+
+// How long a bulk change can be undone, and how long a bulk delete waits before it is carried out
+export const UNDO_WINDOW_MS = 10000;
+
+export type BulkChange =
+  | { kind: "add_tags"; tags: string[] }
+  | { kind: "remove_tags"; tags: string[] }
+  | { kind: "principle"; principleId: string | null }
+  | { kind: "project"; projectId: string | null };
+
+type EditableFields = Pick<
+  Document,
+  | "category"
+  | "tags"
+  | "primary_principle_id"
+  | "linked_project_id"
+  | "related_items"
+  | "principle_alignment_score"
+  | "ai_confidence"
+  | "ai_reasoning"
+  | "user_override"
+>;
+
+// Fields the categorize-document function suggests; changing them on an AI-categorized document is a correction
+const AI_SUGGESTED_FIELDS = ["category", "tags", "primary_principle_id"] as const;
+
+export interface BulkUndo {
+  snapshots: { id: string; values: Partial<EditableFields> }[];
+  learningLogIds: string[];
+}
+
+// What a bulk change did: undo covers the documents that changed; failed names the ones that didn't
+export interface BulkResult extends BulkUndo {
+  failed: string[];
+}
+
+const titleList = (titles: string[]) =>
+  titles.length <= 3
+    ? titles.map(title => `"${title}"`).join(", ")
+    : `${titles.slice(0, 3).map(title => `"${title}"`).join(", ")} and ${titles.length - 3} more`;
+
+// One line for the result toast, since a second toast would replace the one offering undo
+export const describeBulkResult = (result: BulkResult, verb = "Updated") => {
+  const changed = `${verb} ${result.snapshots.length} ${result.snapshots.length === 1 ? "document" : "documents"}`;
+  return result.failed.length > 0 ? `${changed}. Failed: ${titleList(result.failed)}` : changed;
+};
+
+const changeToUpdates = (doc: Document, change: BulkChange): Partial<EditableFields> => {
+  const tags = doc.tags || [];
+  switch (change.kind) {
+    case "add_tags": {
+      const added = change.tags.filter(tag => !tags.includes(tag));
+      return added.length > 0 ? { tags: [...tags, ...added] } : {};
+    }
+    case "remove_tags": {
+      const kept = tags.filter(tag => !change.tags.includes(tag));
+      return kept.length !== tags.length ? { tags: kept } : {};
+    }
+    case "principle":
+      return (doc.primary_principle_id ?? null) !== change.principleId
+        ? { primary_principle_id: change.principleId }
+        : {};
+    case "project":
+      return (doc.linked_project_id ?? null) !== change.projectId
+        ? { linked_project_id: change.projectId }
+        : {};
+  }
+};
+
+const snapshotOf = (doc: Document, updates: Partial<EditableFields>) => ({
+  id: doc.id,
+  values: Object.fromEntries(
+    Object.keys(updates).map(key => [key, doc[key as keyof EditableFields] ?? null])
+  ) as Partial<EditableFields>,
+});
+
+// Each row is updated on its own, so a failure leaves the others changed; the result says which went through
+const updateDocuments = async (updates: { id: string; values: Partial<EditableFields> }[]) => {
+  const results = await Promise.allSettled(
+    updates.map(async ({ id, values }) => {
+      const { error } = await supabase.from("documents").update(values).eq("id", id);
+      if (error) throw error;
+    })
+  );
+
+  const updated = new Set<string>();
+  let firstError: unknown = null;
+  results.forEach((result, i) => {
+    if (result.status === "fulfilled") {
+      updated.add(updates[i].id);
+    } else {
+      console.error(`Error updating document ${updates[i].id}:`, result.reason);
+      firstError ??= result.reason;
+    }
+  });
+  return { updated, firstError };
+};
+
+export const useBulkUpdateDocuments = () => {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async ({ documents, change }: { documents: Document[]; change: BulkChange }): Promise<BulkResult> => {
+      const { data: { user } } = await supabase.auth.getUser();
+      if (!user) throw new Error("Not authenticated");
+
+      const updates = documents
+        .map(doc => ({ doc, values: changeToUpdates(doc, change) }))
+        .filter(({ values }) => Object.keys(values).length > 0);
+
+      const { updated, firstError } = await updateDocuments(updates.map(({ doc, values }) => ({ id: doc.id, values })));
+      if (updated.size === 0 && firstError) throw firstError;
+      const applied = updates.filter(({ doc }) => updated.has(doc.id));
+
+      const corrections = applied
+        .filter(({ doc, values }) => doc.ai_confidence != null && AI_SUGGESTED_FIELDS.some(field => field in values))
+        .map(({ doc, values }) => ({
+          user_id: user.id,
+          document_id: doc.id,
+          ai_suggestion: {
+            category: doc.category ?? null,
+            tags: doc.tags ?? [],
+            primary_principle_id: doc.primary_principle_id ?? null,
+          } as Json,
+          user_choice: values as Json,
+          correction_type: `bulk_${change.kind}`,
+        }));
+
+      let learningLogIds: string[] = [];
+      if (corrections.length > 0) {
+        const { data, error } = await supabase.from("ai_learning_log").insert(corrections).select("id");
+        if (error) console.error("Error recording corrections:", error);
+        learningLogIds = (data || []).map(row => row.id);
+      }
+
+      return {
+        snapshots: applied.map(({ doc, values }) => snapshotOf(doc, values)),
+        learningLogIds,
+        failed: updates.filter(({ doc }) => !updated.has(doc.id)).map(({ doc }) => doc.title),
+      };
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["documents"] });
+    },
+    onError: (error) => {
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to update documents",
+        variant: "destructive",
+      });
+    },
+  });
+};
+
+// Runs categorize-document again for each document, one at a time to stay clear of AI rate limits
+export const useBulkRecategorize = () => {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async ({
+      documents,
+      onProgress,
+    }: {
+      documents: Document[];
+      onProgress?: (done: number, total: number) => void;
+    }): Promise<BulkResult> => {
+      const { data: { user } } = await supabase.auth.getUser();
+      if (!user) throw new Error("Not authenticated");
+
+      const snapshots: BulkUndo["snapshots"] = [];
+      const failed: string[] = [];
+
+      for (const [index, doc] of documents.entries()) {
+        const { data: aiData, error } = await supabase.functions.invoke("categorize-document", {
+          body: {
+            content: doc.extracted_text || doc.summary || doc.title,
+            fileName: doc.file_name,
+            fileType: doc.file_type,
+            projectId: doc.linked_project_id ?? null,
+          },
+        });
+
+        if (error || !aiData) {
+          console.error(`Error recategorizing ${doc.title}:`, error);
+          failed.push(doc.title);
+        } else {
+          const values: Partial<EditableFields> = {
+            category: aiData.category,
+            tags: aiData.tags,
+            primary_principle_id: aiData.principle_alignment?.primary_principle_id || null,
+            principle_alignment_score: aiData.principle_alignment ? Math.round(aiData.confidence) : null,
+            ai_confidence: aiData.confidence ?? null,
+            ai_reasoning: aiData.reasoning ?? null,
+            related_items: aiData.related_items ?? null,
+            user_override: false,
+          };
+          const { updated } = await updateDocuments([{ id: doc.id, values }]);
+          if (updated.has(doc.id)) {
+            snapshots.push(snapshotOf(doc, values));
+            // Fresh suggestions replace pending ones; relations the user already decided on are kept
+            await saveSuggestedRelations(doc.id, aiData.related_items).catch(relationError => {
+              console.error(`Error saving relations for ${doc.title}:`, relationError);
+            });
+          } else {
+            failed.push(doc.title);
+          }
+        }
+
+        onProgress?.(index + 1, documents.length);
+      }
+
+      return { snapshots, learningLogIds: [], failed };
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["documents"] });
+      queryClient.invalidateQueries({ queryKey: ["document-relations"] });
+    },
+    onError: (error) => {
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to recategorize documents",
+        variant: "destructive",
+      });
+    },
+  });
+};
+
+export const useUndoBulkChange = () => {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async (undo: BulkUndo) => {
+      const { updated } = await updateDocuments(undo.snapshots);
+
+      if (undo.learningLogIds.length > 0) {
+        const { error } = await supabase.from("ai_learning_log").delete().in("id", undo.learningLogIds);
+        if (error) console.error("Error withdrawing corrections:", error);
+      }
+
+      const notRestored = undo.snapshots.length - updated.size;
+      if (notRestored > 0) {
+        throw new Error(`Could not restore ${notRestored} of ${undo.snapshots.length} documents`);
+      }
+    },
+    onSettled: () => {
+      queryClient.invalidateQueries({ queryKey: ["documents"] });
+    },
+    onSuccess: (_, undo) => {
+      toast({
+        title: "Undone",
+        description: `Restored ${undo.snapshots.length} ${undo.snapshots.length === 1 ? "document" : "documents"}`,
+      });
+    },
+    onError: (error) => {
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to undo changes",
+        variant: "destructive",
+      });
+    },
+  });
+};
+
+// Deletes the documents along with every stored file they reference, including earlier versions.
+// Rows go first: if that fails nothing is lost, whereas files removed first would leave rows pointing nowhere.
+const deleteDocuments = async (ids: string[]) => {
+  const [docsRes, versionsRes] = await Promise.all([
+    supabase.from("documents").select("storage_path").in("id", ids),
+    supabase.from("document_versions").select("storage_path").in("document_id", ids),
+  ]);
+
+  if (docsRes.error) throw docsRes.error;
+  if (versionsRes.error) throw versionsRes.error;
+
+  const { error } = await supabase.from("documents").delete().in("id", ids);
+  if (error) throw error;
+
+  const paths = new Set([...(docsRes.data || []), ...(versionsRes.data || [])].map(row => row.storage_path));
+  await removeStoredFiles(Array.from(paths)).catch(storageError => {
+    // Leftover files are picked up by reconcile-storage
+    console.error("Storage deletion error:", storageError);
+  });
+};
+
+// Deletes waiting out their undo window are kept in localStorage, so one cut short by a reload or a
+// closed tab is carried out on the next load instead of being lost after its documents disappeared
+const PENDING_DELETES_KEY = "lumen-pending-deletes";
+
+type PendingDelete = { id: string; userId: string; ids: string[]; dueAt: number };
+
+const readPendingDeletes = (): PendingDelete[] => {
+  try {
+    const entries = JSON.parse(localStorage.getItem(PENDING_DELETES_KEY) || "[]");
+    return Array.isArray(entries) ? entries : [];
+  } catch {
+    return [];
+  }
+};
+
+const writePendingDeletes = (entries: PendingDelete[]) => {
+  if (entries.length === 0) localStorage.removeItem(PENDING_DELETES_KEY);
+  else localStorage.setItem(PENDING_DELETES_KEY, JSON.stringify(entries));
+};
+
+const forgetPendingDelete = (id: string) =>
+  writePendingDeletes(readPendingDeletes().filter(entry => entry.id !== id));
+
+// Bulk deletes wait out the undo window before anything is removed. Pending documents are hidden
+// in the meantime, and anything still pending when the page unmounts is deleted straight away.
+export const usePendingDeletion = () => {
+  const userId = useAuth().user?.id;
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [pendingIds, setPendingIds] = useState<Set<string>>(new Set());
+  const timers = useRef(new Map<ReturnType<typeof setTimeout>, PendingDelete>());
+
+  const settle = useCallback((ids: string[]) => {
+    setPendingIds(prev => {
+      const next = new Set(prev);
+      ids.forEach(id => next.delete(id));
+      return next;
+    });
+  }, []);
+
+  const run = useCallback(async (entry: PendingDelete) => {
+    // Undone in another tab in the meantime
+    if (!readPendingDeletes().some(pending => pending.id === entry.id)) {
+      settle(entry.ids);
+      return;
+    }
+    try {
+      await deleteDocuments(entry.ids);
+      await queryClient.invalidateQueries({ queryKey: ["documents"] });
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to delete documents",
+        variant: "destructive",
+      });
+    } finally {
+      // A failed delete brings the documents back rather than trying again behind the user's back
+      forgetPendingDelete(entry.id);
+      settle(entry.ids);
+    }
+  }, [queryClient, settle, toast]);
+
+  const start = useCallback((entry: PendingDelete) => {
+    setPendingIds(prev => new Set([...prev, ...entry.ids]));
+
+    const timer = setTimeout(() => {
+      timers.current.delete(timer);
+      run(entry);
+    }, Math.max(0, entry.dueAt - Date.now()));
+    timers.current.set(timer, entry);
+
+    return () => {
+      if (!timers.current.has(timer)) return;
+      clearTimeout(timer);
+      timers.current.delete(timer);
+      forgetPendingDelete(entry.id);
+      settle(entry.ids);
+    };
+  }, [run, settle]);
+
+  const scheduleDelete = useCallback((ids: string[]) => {
+    if (!userId) return () => {};
+    const entry = { id: crypto.randomUUID(), userId, ids, dueAt: Date.now() + UNDO_WINDOW_MS };
+    writePendingDeletes([...readPendingDeletes(), entry]);
+    return start(entry);
+  }, [start, userId]);
+
+  // Picks up deletes an earlier page load left unfinished
+  useEffect(() => {
+    if (!userId) return;
+    const tracked = new Set(Array.from(timers.current.values(), entry => entry.id));
+    readPendingDeletes()
+      .filter(entry => entry.userId === userId && !tracked.has(entry.id))
+      .forEach(entry => start(entry));
+  }, [start, userId]);
+
+  useEffect(() => {
+    const pending = timers.current;
+    return () => {
+      pending.forEach((entry, timer) => {
+        clearTimeout(timer);
+        deleteDocuments(entry.ids)
+          .then(() => forgetPendingDelete(entry.id))
+          .catch(error => console.error("Error deleting documents:", error));
+      });
+      pending.clear();
+    };
+  }, []);
+
+  return { pendingIds, scheduleDelete };
+};
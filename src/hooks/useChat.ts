@@ -1,6 +1,10 @@
-import { useState, useEffect, useCallback } from "react";
+import { useState, useEffect, useCallback, useRef } from "react";
+import { useQueryClient } from "@tanstack/react-query";
 import { supabase } from "@/integrations/supabase/client";
 import { useToast } from "@/hooks/use-toast";
+import type { Json } from "@/integrations/supabase/types";
+import { CitationSource, sourcesOf } from "@/lib/citations";
+import { attachActionsToMessage } from "@/hooks/useAssistantActions";
 
 export interface ChatMessage {
   id: string;
@@ -16,36 +20,34 @@ export interface ChatSession {
   last_active: string;
   context_type: string;
   context_id?: string;
+  title: string | null;
+  pinned: boolean;
+  archived_at: string | null;
+  // Memory of the turns up to summary_through, which the assistant reads instead of those turns
+  summary: string | null;
+  summary_through: string | null;
 }
 
+type ProposedAction = { id: string; summary: string };
+
+// A reply made only of tool calls is kept as the changes it proposed, so the turn isn't saved blank
+const replyText = (answer: string, actions: ProposedAction[]) =>
+  answer.trim() ? answer : actions.map(action => action.summary).join('\n');
+
 export const useChat = (contextType: string = 'global', contextId?: string) => {
   const { toast } = useToast();
+  const queryClient = useQueryClient();
   const [session, setSession] = useState<ChatSession | null>(null);
   const [messages, setMessages] = useState<ChatMessage[]>([]);
   const [isLoading, setIsLoading] = useState(false);
   const [isStreaming, setIsStreaming] = useState(false);
 
-  // Create or get session
-  const initSession = useCallback(async () => {
+  // A new session is only created when its first message is sent, so "New chat" leaves no empty ones behind
+  const createSession = useCallback(async () => {
     try {
       const { data: { user } } = await supabase.auth.getUser();
       if (!user) throw new Error("Not authenticated");
 
-      // Try to get the most recent session
-      const { data: existingSessions } = await supabase
-        .from('chat_sessions')
-        .select('*')
-        .eq('context_type', contextType)
-        .eq('context_id', contextId || null)
-        .order('last_active', { ascending: false })
-        .limit(1);
-
-      if (existingSessions && existingSessions.length > 0) {
-        setSession(existingSessions[0]);
-        return existingSessions[0];
-      }
-
-      // Create new session
       const { data: newSession, error } = await supabase
         .from('chat_sessions')
         .insert([{
@@ -58,17 +60,37 @@ export const useChat = (contextType: string = 'global', contextId?: string) => {
 
       if (error) throw error;
       setSession(newSession);
+      queryClient.invalidateQueries({ queryKey: ["chat-sessions"] });
       return newSession;
     } catch (error) {
-      console.error('Error initializing session:', error);
+      console.error('Error creating session:', error);
       toast({
         title: "Error",
-        description: "Failed to initialize chat session",
+        description: "Failed to start a chat session",
         variant: "destructive",
       });
       return null;
     }
-  }, [contextType, contextId, toast]);
+  }, [contextType, contextId, toast, queryClient]);
+
+  // The most recently active session that isn't archived, to pick up where the user left off
+  const findLatestSession = useCallback(async () => {
+    let query = supabase
+      .from('chat_sessions')
+      .select('*')
+      .eq('context_type', contextType)
+      .is('archived_at', null)
+      .order('last_active', { ascending: false })
+      .limit(1);
+    query = contextId ? query.eq('context_id', contextId) : query.is('context_id', null);
+
+    const { data, error } = await query;
+    if (error) {
+      console.error('Error loading chat session:', error);
+      return null;
+    }
+    return data?.[0] ?? null;
+  }, [contextType, contextId]);
 
   // Load messages for session
   const loadMessages = useCallback(async (sessionId: string) => {
@@ -100,7 +122,7 @@ export const useChat = (contextType: string = 'global', contextId?: string) => {
       // Get or create session
       let currentSession = session;
       if (!currentSession) {
-        currentSession = await initSession();
+        currentSession = await createSession();
         if (!currentSession) throw new Error("Failed to create session");
       }
 
@@ -152,6 +174,8 @@ export const useChat = (contextType: string = 'global', contextId?: string) => {
       const reader = response.body?.getReader();
       const decoder = new TextDecoder();
       let assistantMessage = '';
+      let sources: CitationSource[] = [];
+      let actions: ProposedAction[] = [];
       let tempMessageId = `temp-${Date.now()}`;
 
       // Add temporary assistant message
@@ -180,6 +204,29 @@ export const useChat = (contextType: string = 'global', contextId?: string) => {
               
               try {
                 const parsed = JSON.parse(data);
+
+                // The retrieved sources arrive first, so citations resolve while the answer streams
+                if (parsed.sources) {
+                  sources = sourcesOf(parsed);
+                  setMessages(prev => prev.map(msg =>
+                    msg.id === tempMessageId ? { ...msg, context_snapshot: { sources } } : msg
+                  ));
+                  continue;
+                }
+
+                // Changes the assistant proposed come last, once the answer is complete
+                if (Array.isArray(parsed.actions)) {
+                  actions = parsed.actions;
+                  continue;
+                }
+
+                // A new session's title, named after its first exchange
+                if (typeof parsed.title === 'string') {
+                  const title = parsed.title;
+                  setSession(prev => (prev ? { ...prev, title } : prev));
+                  continue;
+                }
+
                 const content = parsed.choices?.[0]?.delta?.content;
                 if (content) {
                   assistantMessage += content;
@@ -199,30 +246,43 @@ export const useChat = (contextType: string = 'global', contextId?: string) => {
         }
       }
 
-      // Save assistant message to database
-      const { data: savedMessage, error: saveError } = await supabase
-        .from('chat_history')
-        .insert([{
-          user_id: user.id,
-          session_id: currentSession.id,
-          message: assistantMessage,
-          role: 'assistant',
-        }])
-        .select()
-        .single();
-
-      if (saveError) throw saveError;
-
-      // Replace temp message with saved message
-      setMessages(prev => prev.map(msg => 
-        msg.id === tempMessageId ? (savedMessage as ChatMessage) : msg
-      ));
+      const reply = replyText(assistantMessage, actions);
+      if (reply) {
+        // Save assistant message to database
+        const { data: savedMessage, error: saveError } = await supabase
+          .from('chat_history')
+          .insert([{
+            user_id: user.id,
+            session_id: currentSession.id,
+            message: reply,
+            role: 'assistant',
+            context_snapshot: { sources } as unknown as Json,
+          }])
+          .select()
+          .single();
+
+        if (saveError) throw saveError;
+
+        // Replace temp message with saved message
+        setMessages(prev => prev.map(msg =>
+          msg.id === tempMessageId ? (savedMessage as ChatMessage) : msg
+        ));
+
+        if (actions.length > 0) {
+          await attachActionsToMessage(actions.map(action => action.id), savedMessage.id);
+          queryClient.invalidateQueries({ queryKey: ["assistant-actions", currentSession.id] });
+        }
+      } else {
+        // Nothing came back to keep
+        setMessages(prev => prev.filter(msg => msg.id !== tempMessageId));
+      }
 
       // Update session last_active
       await supabase
         .from('chat_sessions')
         .update({ last_active: new Date().toISOString() })
         .eq('id', currentSession.id);
+      queryClient.invalidateQueries({ queryKey: ["chat-sessions"] });
 
     } catch (error) {
       console.error('Error sending message:', error);
@@ -235,18 +295,35 @@ export const useChat = (contextType: string = 'global', contextId?: string) => {
       setIsLoading(false);
       setIsStreaming(false);
     }
-  }, [session, initSession, contextType, contextId, toast]);
+  }, [session, createSession, contextType, contextId, toast, queryClient]);
+
+  // Set once the user picks a session, so the latest one loading late doesn't replace it
+  const sessionChosen = useRef(false);
+
+  const openSession = useCallback(async (next: ChatSession) => {
+    sessionChosen.current = true;
+    setSession(next);
+    setMessages([]);
+    await loadMessages(next.id);
+  }, [loadMessages]);
+
+  const startNewSession = useCallback(() => {
+    sessionChosen.current = true;
+    setSession(null);
+    setMessages([]);
+  }, []);
 
-  // Initialize on mount
+  // Reopen the latest session on mount
   useEffect(() => {
     const init = async () => {
-      const sess = await initSession();
-      if (sess) {
-        await loadMessages(sess.id);
+      const latest = await findLatestSession();
+      if (latest && !sessionChosen.current) {
+        setSession(latest);
+        await loadMessages(latest.id);
       }
     };
     init();
-  }, [initSession, loadMessages]);
+  }, [findLatestSession, loadMessages]);
 
   return {
     messages,
@@ -254,5 +331,7 @@ export const useChat = (contextType: string = 'global', contextId?: string) => {
     isStreaming,
     sendMessage,
     session,
+    openSession,
+    startNewSession,
   };
 };
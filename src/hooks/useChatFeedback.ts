@@ -0,0 +1,125 @@
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { supabase } from "@/integrations/supabase/client";
+import { useToast } from "@/hooks/use-toast";
+import type { FeedbackReason, FeedbackType } from "@/lib/chatFeedback";
+
+export interface ChatFeedback {
+  id: string;
+  message_id: string;
+  user_id: string;
+  feedback_type: FeedbackType;
+  reasons: FeedbackReason[];
+  comment: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface ChatFeedbackWithMessage extends ChatFeedback {
+  message: { id: string; message: string; session_id: string; created_at: string } | null;
+}
+
+// All of the user's feedback with the answers it was given on, newest first, for the review page
+export const useChatFeedback = () => {
+  return useQuery({
+    queryKey: ["chat-feedback"],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from("chat_feedback")
+        .select("*, message:chat_history(id, message, session_id, created_at)")
+        .order("updated_at", { ascending: false });
+
+      if (error) throw error;
+      return data as unknown as ChatFeedbackWithMessage[];
+    },
+  });
+};
+
+// The reasons chat-assistant currently adjusts its answers for, most frequent first
+export const useFeedbackSteering = () => {
+  return useQuery({
+    queryKey: ["chat-feedback", "steering"],
+    queryFn: async () => {
+      const { data, error } = await supabase.functions.invoke<{ reasons: { reason: FeedbackReason; count: number }[] }>(
+        "feedback-steering"
+      );
+
+      if (error) throw error;
+      return data?.reasons ?? [];
+    },
+  });
+};
+
+// Feedback on a session's answers, by message id
+export const useSessionFeedback = (sessionId?: string) => {
+  return useQuery({
+    queryKey: ["chat-feedback", "session", sessionId],
+    queryFn: async () => {
+      if (!sessionId) return new Map<string, ChatFeedback>();
+
+      const { data, error } = await supabase
+        .from("chat_feedback")
+        .select("*, message:chat_history!inner(session_id)")
+        .eq("message.session_id", sessionId);
+
+      if (error) throw error;
+      const feedback = data as unknown as ChatFeedback[];
+      return new Map(feedback.map(entry => [entry.message_id, entry]));
+    },
+    enabled: !!sessionId,
+  });
+};
+
+// One feedback per answer; giving it again replaces the earlier one
+export const useSaveChatFeedback = () => {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async (feedback: Pick<ChatFeedback, "message_id" | "feedback_type" | "reasons" | "comment">) => {
+      const { data: { user } } = await supabase.auth.getUser();
+      if (!user) throw new Error("Not authenticated");
+
+      const { error } = await supabase
+        .from("chat_feedback")
+        .upsert({ ...feedback, user_id: user.id }, { onConflict: "message_id,user_id" });
+
+      if (error) throw error;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["chat-feedback"] });
+    },
+    onError: (error) => {
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to save feedback",
+        variant: "destructive",
+      });
+    },
+  });
+};
+
+export const useDeleteChatFeedback = () => {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async (id: string) => {
+      const { error } = await supabase
+        .from("chat_feedback")
+        .delete()
+        .eq("id", id);
+
+      if (error) throw error;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["chat-feedback"] });
+    },
+    onError: (error) => {
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to remove feedback",
+        variant: "destructive",
+      });
+    },
+  });
+};
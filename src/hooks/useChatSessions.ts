@@ -0,0 +1,103 @@
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { supabase } from "@/integrations/supabase/client";
+import { useToast } from "@/hooks/use-toast";
+import type { ChatSession } from "./useChat";
+
+export interface ChatSessionMatch {
+  session_id: string;
+  snippet: string;
+  matched_at: string;
+  rank: number;
+}
+
+export const sessionTitle = (session: Pick<ChatSession, "title">) => session.title || "New conversation";
+
+// Every session in a context, archived ones included; pinned first, then the most recently active
+export const useChatSessions = (contextType: string = "global", contextId?: string) => {
+  return useQuery({
+    queryKey: ["chat-sessions", contextType, contextId],
+    queryFn: async () => {
+      let query = supabase
+        .from("chat_sessions")
+        .select("*")
+        .eq("context_type", contextType)
+        .order("pinned", { ascending: false })
+        .order("last_active", { ascending: false });
+      query = contextId ? query.eq("context_id", contextId) : query.is("context_id", null);
+
+      const { data, error } = await query;
+      if (error) throw error;
+      return data as ChatSession[];
+    },
+  });
+};
+
+// Sessions whose messages match the query, with the best match as a snippet
+export const useSearchChatSessions = (queryText: string) => {
+  const trimmed = queryText.trim();
+  return useQuery({
+    queryKey: ["chat-sessions", "search", trimmed],
+    queryFn: async () => {
+      const { data, error } = await supabase.rpc("search_chat_sessions", { query_text: trimmed });
+      if (error) throw error;
+      return data as ChatSessionMatch[];
+    },
+    enabled: trimmed.length >= 2,
+  });
+};
+
+export const useUpdateChatSession = () => {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async ({ id, ...updates }: Partial<Pick<ChatSession, "title" | "pinned" | "archived_at" | "summary">> & { id: string }) => {
+      const { error } = await supabase
+        .from("chat_sessions")
+        .update(updates)
+        .eq("id", id);
+
+      if (error) throw error;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["chat-sessions"] });
+    },
+    onError: (error) => {
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to update conversation",
+        variant: "destructive",
+      });
+    },
+  });
+};
+
+// Deletes the session with its messages, feedback and proposed actions
+export const useDeleteChatSession = () => {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async (id: string) => {
+      const { error } = await supabase
+        .from("chat_sessions")
+        .delete()
+        .eq("id", id);
+
+      if (error) throw error;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["chat-sessions"] });
+      toast({
+        title: "Conversation deleted",
+      });
+    },
+    onError: (error) => {
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to delete conversation",
+        variant: "destructive",
+      });
+    },
+  });
+};
@@ -0,0 +1,222 @@
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { supabase } from "@/integrations/supabase/client";
+import { useToast } from "@/hooks/use-toast";
+import type { TextAnchor } from "@/lib/annotationAnchors";
+import { Document } from "./useDocuments";
+
+export type AnnotationColor = "yellow" | "green" | "blue" | "pink";
+
+export interface DocumentAnnotation extends TextAnchor {
+  id: string;
+  user_id: string;
+  document_id: string;
+  comment?: string | null;
+  color: AnnotationColor;
+  insight_id?: string | null;
+  task_id?: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+// All of the user's annotations in one list: the Library search needs every document's, and the
+// detail panel picks out the open document's
+export const useAnnotations = () => {
+  return useQuery({
+    queryKey: ["document-annotations"],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from("document_annotations")
+        .select("*")
+        .order("start_offset", { ascending: true });
+
+      if (error) throw error;
+      return data as DocumentAnnotation[];
+    },
+  });
+};
+
+export const useCreateAnnotation = () => {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async ({
+      documentId,
+      anchor,
+      comment,
+      color = "yellow",
+    }: {
+      documentId: string;
+      anchor: TextAnchor;
+      comment?: string;
+      color?: AnnotationColor;
+    }) => {
+      const { data: { user } } = await supabase.auth.getUser();
+      if (!user) throw new Error("Not authenticated");
+
+      const { data, error } = await supabase
+        .from("document_annotations")
+        .insert({
+          ...anchor,
+          user_id: user.id,
+          document_id: documentId,
+          comment: comment?.trim() || null,
+          color,
+        })
+        .select()
+        .single();
+
+      if (error) throw error;
+      return data as DocumentAnnotation;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["document-annotations"] });
+    },
+    onError: (error) => {
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to save annotation",
+        variant: "destructive",
+      });
+    },
+  });
+};
+
+export const useUpdateAnnotation = () => {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async ({ id, ...updates }: Partial<DocumentAnnotation> & { id: string }) => {
+      const { error } = await supabase.from("document_annotations").update(updates).eq("id", id);
+      if (error) throw error;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["document-annotations"] });
+    },
+    onError: (error) => {
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to update annotation",
+        variant: "destructive",
+      });
+    },
+  });
+};
+
+export const useDeleteAnnotation = () => {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async (id: string) => {
+      const { error } = await supabase.from("document_annotations").delete().eq("id", id);
+      if (error) throw error;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["document-annotations"] });
+    },
+    onError: (error) => {
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to delete annotation",
+        variant: "destructive",
+      });
+    },
+  });
+};
+
+const annotationTitle = (annotation: DocumentAnnotation) => {
+  const source = (annotation.comment || annotation.quote).replace(/\s+/g, " ").trim();
+  return source.length > 80 ? `${source.slice(0, 77)}...` : source;
+};
+
+const annotationBody = (annotation: DocumentAnnotation, document: Document) =>
+  [
+    `> ${annotation.quote.replace(/\s+/g, " ").trim()}`,
+    annotation.comment,
+    `From "${document.title}"`,
+  ].filter(Boolean).join("\n\n");
+
+// Turns an annotation into an insight or a task and remembers which, so it isn't converted twice
+export const useConvertAnnotation = () => {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async ({
+      annotation,
+      document,
+      target,
+      projectId,
+    }: {
+      annotation: DocumentAnnotation;
+      document: Document;
+      target: "insight" | "task";
+      projectId?: string;
+    }) => {
+      const { data: { user } } = await supabase.auth.getUser();
+      if (!user) throw new Error("Not authenticated");
+
+      if (target === "insight") {
+        const { data, error } = await supabase
+          .from("insights")
+          .insert({
+            user_id: user.id,
+            title: annotationTitle(annotation),
+            content: annotationBody(annotation, document),
+            category: document.category ?? null,
+            tags: document.tags ?? [],
+          })
+          .select("id")
+          .single();
+        if (error) throw error;
+
+        const { error: linkError } = await supabase
+          .from("document_annotations")
+          .update({ insight_id: data.id })
+          .eq("id", annotation.id);
+        if (linkError) throw linkError;
+        return;
+      }
+
+      const taskProjectId = projectId ?? document.linked_project_id;
+      if (!taskProjectId) throw new Error("Choose a project for the task");
+
+      const { data, error } = await supabase
+        .from("tasks")
+        .insert({
+          project_id: taskProjectId,
+          title: annotationTitle(annotation),
+          description: annotationBody(annotation, document),
+          status: "pending",
+          priority: "medium",
+          source: "annotation",
+        })
+        .select("id")
+        .single();
+      if (error) throw error;
+
+      const { error: linkError } = await supabase
+        .from("document_annotations")
+        .update({ task_id: data.id })
+        .eq("id", annotation.id);
+      if (linkError) throw linkError;
+    },
+    onSuccess: (_, { target }) => {
+      queryClient.invalidateQueries({ queryKey: ["document-annotations"] });
+      queryClient.invalidateQueries({ queryKey: [target === "insight" ? "insights" : "tasks"] });
+      toast({
+        title: target === "insight" ? "Insight created" : "Task created",
+        description: target === "insight" ? "Saved to your insights" : "Added to the project's tasks",
+      });
+    },
+    onError: (error) => {
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to convert annotation",
+        variant: "destructive",
+      });
+    },
+  });
+};
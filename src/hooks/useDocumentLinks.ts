@@ -0,0 +1,77 @@
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { supabase } from "@/integrations/supabase/client";
+import { useToast } from "@/hooks/use-toast";
+
+export interface DocumentLink {
+  id: string;
+  user_id: string;
+  source_document_id: string;
+  target_document_id: string;
+  link_type: string;
+  created_at: string;
+}
+
+// Links in either direction, since a relation made from one document applies to both
+export const useDocumentLinks = (documentId?: string) => {
+  return useQuery({
+    queryKey: ["document-links", documentId],
+    queryFn: async () => {
+      if (!documentId) return [];
+
+      const { data, error } = await supabase
+        .from("document_links")
+        .select("*")
+        .or(`source_document_id.eq.${documentId},target_document_id.eq.${documentId}`)
+        .order("created_at", { ascending: false });
+
+      if (error) throw error;
+      return data as DocumentLink[];
+    },
+    enabled: !!documentId,
+  });
+};
+
+export const useCreateDocumentLink = () => {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async ({
+      sourceDocumentId,
+      targetDocumentId,
+      linkType = "related",
+    }: {
+      sourceDocumentId: string;
+      targetDocumentId: string;
+      linkType?: string;
+    }) => {
+      const { data: { user } } = await supabase.auth.getUser();
+      if (!user) throw new Error("Not authenticated");
+
+      const { data, error } = await supabase
+        .from("document_links")
+        .insert([{
+          user_id: user.id,
+          source_document_id: sourceDocumentId,
+          target_document_id: targetDocumentId,
+          link_type: linkType,
+        }])
+        .select()
+        .single();
+
+      if (error) throw error;
+      return data as DocumentLink;
+    },
+    onSuccess: (link) => {
+      queryClient.invalidateQueries({ queryKey: ["document-links", link.source_document_id] });
+      queryClient.invalidateQueries({ queryKey: ["document-links", link.target_document_id] });
+    },
+    onError: (error) => {
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to link documents",
+        variant: "destructive",
+      });
+    },
+  });
+};
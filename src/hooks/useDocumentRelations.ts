@@ -0,0 +1,154 @@
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { supabase } from "@/integrations/supabase/client";
+import { useToast } from "@/hooks/use-toast";
+import type { Json } from "@/integrations/supabase/types";
+import type { RelatedItems, SuggestedRelation } from "./useDocuments";
+
+export type RelationStatus = "suggested" | "accepted" | "rejected";
+
+type RelationEnd = { id: string; title: string } | null;
+
+export interface DocumentRelation {
+  id: string;
+  user_id: string;
+  document_id: string;
+  related_document_id: string | null;
+  related_sop_id: string | null;
+  reason: string | null;
+  confidence: number | null;
+  status: RelationStatus;
+  created_at: string;
+  updated_at: string;
+  // Titles of both ends, for display
+  document: RelationEnd;
+  related_document: RelationEnd;
+  related_sop: RelationEnd;
+}
+
+const RELATION_COLUMNS =
+  "*, document:documents!document_relations_document_id_fkey(id, title), related_document:documents!document_relations_related_document_id_fkey(id, title), related_sop:sops(id, title)";
+
+// Relations from the document ("Related") and to it ("Linked from"); rejected ones are hidden
+export const useDocumentRelations = (documentId?: string) => {
+  return useQuery({
+    queryKey: ["document-relations", documentId],
+    queryFn: async () => {
+      if (!documentId) return { outgoing: [], incoming: [] };
+
+      const { data, error } = await supabase
+        .from("document_relations")
+        .select(RELATION_COLUMNS)
+        .or(`document_id.eq.${documentId},related_document_id.eq.${documentId}`)
+        .neq("status", "rejected")
+        .order("confidence", { ascending: false, nullsFirst: false });
+
+      if (error) throw error;
+      const relations = data as unknown as DocumentRelation[];
+      return {
+        outgoing: relations.filter(relation => relation.document_id === documentId),
+        incoming: relations.filter(relation => relation.related_document_id === documentId),
+      };
+    },
+    enabled: !!documentId,
+  });
+};
+
+// Suggestions from before relations had their own reason share the overall one and have no confidence
+const relationsOf = (relations: SuggestedRelation[] | undefined, ids: string[], reasoning: string) =>
+  relations ?? ids.map(id => ({ id, reason: reasoning, confidence: null }));
+
+// Replaces a document's pending suggestions with a fresh set, e.g. after it is categorized again.
+// Relations the user already accepted or rejected stay as they are, so a rejection sticks.
+export const saveSuggestedRelations = async (documentId: string, related: RelatedItems | null | undefined) => {
+  const { data: { user } } = await supabase.auth.getUser();
+  if (!user) throw new Error("Not authenticated");
+
+  const { error: deleteError } = await supabase
+    .from("document_relations")
+    .delete()
+    .eq("document_id", documentId)
+    .eq("status", "suggested");
+  if (deleteError) throw deleteError;
+  if (!related) return;
+
+  const base = (relation: { reason: string; confidence: number | null }) => ({
+    user_id: user.id,
+    document_id: documentId,
+    reason: relation.reason || null,
+    confidence: relation.confidence,
+  });
+  const documentRows = relationsOf(related.documents, related.document_ids, related.reasoning)
+    .filter(relation => relation.id !== documentId)
+    .map(relation => ({ ...base(relation), related_document_id: relation.id }));
+  const sopRows = relationsOf(related.sops, related.sop_ids, related.reasoning)
+    .map(relation => ({ ...base(relation), related_sop_id: relation.id }));
+
+  // One upsert per target column, since each has its own unique constraint
+  const [documentsResult, sopsResult] = await Promise.all([
+    documentRows.length > 0
+      ? supabase.from("document_relations").upsert(documentRows, { onConflict: "document_id,related_document_id", ignoreDuplicates: true })
+      : Promise.resolve({ error: null }),
+    sopRows.length > 0
+      ? supabase.from("document_relations").upsert(sopRows, { onConflict: "document_id,related_sop_id", ignoreDuplicates: true })
+      : Promise.resolve({ error: null }),
+  ]);
+  if (documentsResult.error) throw documentsResult.error;
+  if (sopsResult.error) throw sopsResult.error;
+};
+
+// Drops a rejected target from the document's stored suggestion, so the knowledge graph stops drawing it
+const removeFromRelatedItems = async (relation: DocumentRelation) => {
+  const { data: doc, error } = await supabase
+    .from("documents")
+    .select("related_items")
+    .eq("id", relation.document_id)
+    .single();
+  if (error) throw error;
+
+  const items = doc.related_items as RelatedItems | null;
+  if (!items) return;
+  const targetId = relation.related_document_id ?? relation.related_sop_id;
+  const keep = (relations: SuggestedRelation[] | undefined) => relations?.filter(r => r.id !== targetId);
+  const updated: RelatedItems = {
+    ...items,
+    sop_ids: (items.sop_ids || []).filter(id => id !== targetId),
+    document_ids: (items.document_ids || []).filter(id => id !== targetId),
+    sops: keep(items.sops),
+    documents: keep(items.documents),
+  };
+
+  const { error: updateError } = await supabase
+    .from("documents")
+    .update({ related_items: updated as unknown as Json })
+    .eq("id", relation.document_id);
+  if (updateError) throw updateError;
+};
+
+export const useSetRelationStatus = () => {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async ({ relation, status }: { relation: DocumentRelation; status: RelationStatus }) => {
+      const { error } = await supabase
+        .from("document_relations")
+        .update({ status })
+        .eq("id", relation.id);
+      if (error) throw error;
+
+      if (status === "rejected") await removeFromRelatedItems(relation);
+    },
+    onSuccess: (_, { status }) => {
+      // Both ends show the relation, so every cached list may hold it
+      queryClient.invalidateQueries({ queryKey: ["document-relations"] });
+      if (status === "rejected") queryClient.invalidateQueries({ queryKey: ["documents"] });
+    },
+    onError: (error) => {
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to update relation",
+        variant: "destructive",
+      });
+    },
+  });
+};
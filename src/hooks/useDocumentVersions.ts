@@ -0,0 +1,157 @@
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { supabase } from "@/integrations/supabase/client";
+import { useToast } from "@/hooks/use-toast";
+import { indexDocumentChunks } from "@/lib/documentChunks";
+import type { DocumentMetadata, PageOffset } from "@/lib/fileParser";
+import type { SheetSchema } from "@/lib/spreadsheetParser";
+import { Document } from "./useDocuments";
+
+export interface DocumentVersion {
+  id: string;
+  document_id: string;
+  user_id: string;
+  version_number: number;
+  note?: string;
+  file_name: string;
+  file_type: string;
+  file_url?: string;
+  storage_path: string;
+  file_size: number;
+  content_hash?: string;
+  text_fingerprint?: number[];
+  extracted_text?: string;
+  page_offsets?: PageOffset[];
+  source_metadata?: DocumentMetadata;
+  data_schema?: SheetSchema[];
+  data_description?: string;
+  title: string;
+  summary?: string;
+  category?: string;
+  tags?: string[];
+  primary_principle_id?: string;
+  principle_alignment_score?: number;
+  ai_confidence?: number;
+  ai_reasoning?: string;
+  created_at: string;
+}
+
+// Fields a new version replaces; project and SOP links carry over from the current document
+export type VersionedFields = Pick<
+  Document,
+  | "file_name"
+  | "file_type"
+  | "storage_path"
+  | "file_size"
+  | "content_hash"
+  | "text_fingerprint"
+  | "extracted_text"
+  | "page_offsets"
+  | "source_metadata"
+  | "data_schema"
+  | "data_description"
+  | "title"
+  | "summary"
+  | "category"
+  | "tags"
+  | "primary_principle_id"
+  | "principle_alignment_score"
+  | "ai_confidence"
+  | "ai_reasoning"
+>;
+
+export const useDocumentVersions = (documentId?: string) => {
+  return useQuery({
+    queryKey: ["document-versions", documentId],
+    queryFn: async () => {
+      if (!documentId) return [];
+
+      const { data, error } = await supabase
+        .from("document_versions")
+        .select("*")
+        .eq("document_id", documentId)
+        .order("version_number", { ascending: false });
+
+      if (error) throw error;
+      return data as DocumentVersion[];
+    },
+    enabled: !!documentId,
+  });
+};
+
+// Replaces a document's file and derived content with a new upload and records it as a version
+export const useAddDocumentVersion = () => {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async ({ documentId, fields, note }: { documentId: string; fields: VersionedFields; note?: string }) => {
+      const { error } = await supabase
+        .from("documents")
+        .update(fields)
+        .eq("id", documentId);
+
+      if (error) throw error;
+
+      const { data: version, error: snapshotError } = await supabase.rpc("snapshot_document_version", {
+        p_document_id: documentId,
+        p_note: note,
+      });
+
+      if (snapshotError) throw snapshotError;
+      return version;
+    },
+    onSuccess: (version, { documentId, fields }) => {
+      queryClient.invalidateQueries({ queryKey: ["documents"] });
+      queryClient.invalidateQueries({ queryKey: ["document-versions", documentId] });
+      indexDocumentChunks(documentId, fields.extracted_text, fields.page_offsets).catch(error => {
+        console.error("Error indexing document chunks:", error);
+      });
+      toast({
+        title: "New version saved",
+        description: `${fields.title} is now at version ${version}`,
+      });
+    },
+    onError: (error) => {
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to save new version",
+        variant: "destructive",
+      });
+    },
+  });
+};
+
+export const useRestoreDocumentVersion = () => {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async (version: DocumentVersion) => {
+      const { data, error } = await supabase.rpc("restore_document_version", {
+        p_document_id: version.document_id,
+        p_version_number: version.version_number,
+      });
+
+      if (error) throw error;
+      return data;
+    },
+    onSuccess: (newVersion, version) => {
+      queryClient.invalidateQueries({ queryKey: ["documents"] });
+      queryClient.invalidateQueries({ queryKey: ["document-versions", version.document_id] });
+      indexDocumentChunks(version.document_id, version.extracted_text, version.page_offsets).catch(error => {
+        console.error("Error indexing document chunks:", error);
+      });
+      toast({
+        title: "Version restored",
+        description: `Version ${version.version_number} restored as version ${newVersion}`,
+      });
+    },
+    onError: (error) => {
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to restore version",
+        variant: "destructive",
+      });
+    },
+  });
+};
@@ -1,27 +1,57 @@
 import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
 import { supabase } from "@/integrations/supabase/client";
 import { useToast } from "@/hooks/use-toast";
+import { removeStoredFiles } from "@/lib/documentStorage";
+import type { DocumentMetadata, PageOffset } from "@/lib/fileParser";
+import type { SheetSchema } from "@/lib/spreadsheetParser";
+
+// One relation categorize-document suggests, with why and how sure it is
+export type SuggestedRelation = {
+  id: string;
+  reason: string;
+  confidence: number;
+};
+
+// SOPs and documents categorize-document considers related, with its reason. Suggestions made
+// before relations carried their own reason and confidence have only the id lists.
+export type RelatedItems = {
+  sop_ids: string[];
+  document_ids: string[];
+  reasoning: string;
+  sops?: SuggestedRelation[];
+  documents?: SuggestedRelation[];
+};
 
 export interface Document {
   id: string;
   user_id: string;
   file_name: string;
   file_type: string;
-  file_url: string;
+  // Legacy public URL; files are addressed by storage_path
+  file_url?: string;
+  storage_path: string;
   file_size: number;
+  content_hash?: string;
+  text_fingerprint?: number[];
   category?: string;
   title: string;
   summary?: string;
   tags?: string[];
   data_description?: string;
+  data_schema?: SheetSchema[];
+  extracted_text?: string;
+  page_offsets?: PageOffset[];
+  source_metadata?: DocumentMetadata;
   linked_sop_id?: string;
   linked_principle_id?: string;
   linked_project_id?: string;
+  related_items?: RelatedItems | null;
   primary_principle_id?: string;
   principle_alignment_score?: number;
   ai_confidence?: number;
   ai_reasoning?: string;
   user_override?: boolean;
+  current_version?: number;
   created_at: string;
   updated_at: string;
 }
@@ -46,7 +76,8 @@ export const useCreateDocument = () => {
   const queryClient = useQueryClient();
 
   return useMutation({
-    mutationFn: async (document: Omit<Document, "id" | "user_id" | "created_at" | "updated_at">) => {
+    // The id may be supplied so it can match the folder the file was already stored under
+    mutationFn: async (document: Omit<Document, "id" | "user_id" | "created_at" | "updated_at"> & { id?: string }) => {
       const { data: { user } } = await supabase.auth.getUser();
       if (!user) throw new Error("Not authenticated");
 
@@ -57,7 +88,7 @@ export const useCreateDocument = () => {
         .single();
 
       if (error) throw error;
-      return data;
+      return data as Document;
     },
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ["documents"] });
@@ -115,22 +146,19 @@ export const useDeleteDocument = () => {
 
   return useMutation({
     mutationFn: async (id: string) => {
-      // First get the document to find the file path
-      const { data: doc, error: fetchError } = await supabase
-        .from("documents")
-        .select("file_url")
-        .eq("id", id)
-        .single();
+      // First find every stored file of the document, including earlier versions
+      const [docRes, versionsRes] = await Promise.all([
+        supabase.from("documents").select("storage_path").eq("id", id).single(),
+        supabase.from("document_versions").select("storage_path").eq("document_id", id),
+      ]);
 
-      if (fetchError) throw fetchError;
+      if (docRes.error) throw docRes.error;
 
       // Delete from storage
-      const filePath = doc.file_url.split('/').slice(-2).join('/');
-      const { error: storageError } = await supabase.storage
-        .from("documents")
-        .remove([filePath]);
-
-      if (storageError) console.error("Storage deletion error:", storageError);
+      const paths = new Set([docRes.data, ...(versionsRes.data || [])].map(row => row.storage_path));
+      await removeStoredFiles(Array.from(paths)).catch(storageError => {
+        console.error("Storage deletion error:", storageError);
+      });
 
       // Delete from database
       const { error: dbError } = await supabase
@@ -0,0 +1,208 @@
+import { useCallback, useEffect, useMemo, useState } from "react";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { supabase } from "@/integrations/supabase/client";
+import { useToast } from "@/hooks/use-toast";
+import type { Json } from "@/integrations/supabase/types";
+import {
+  documentFragment,
+  fetchGraphHubs,
+  fetchNeighbourhood,
+  GRAPH_NODE_TYPES,
+  GraphEdge,
+  GraphFragment,
+  GraphNode,
+  GraphNodeType,
+} from "@/lib/knowledgeGraph";
+import { Document } from "./useDocuments";
+
+// Library documents are added to the graph a page at a time; everything else arrives by expanding nodes
+export const GRAPH_DOCUMENT_PAGE_SIZE = 50;
+
+export type GraphFilters = {
+  nodeTypes: GraphNodeType[];
+  // Days back from today, or "all"; nodes without a date (principles, tags) are always shown
+  since: string;
+};
+
+export const DEFAULT_GRAPH_FILTERS: GraphFilters = { nodeTypes: [...GRAPH_NODE_TYPES], since: "all" };
+
+export type PositionedNode = GraphNode & { x?: number; y?: number; pinned?: boolean };
+
+export type SavedGraph = {
+  nodes: PositionedNode[];
+  edges: GraphEdge[];
+  expanded: string[];
+};
+
+export interface GraphLayout {
+  id: string;
+  user_id: string;
+  name: string;
+  graph: SavedGraph;
+  filters: GraphFilters;
+  created_at: string;
+  updated_at: string;
+}
+
+const addFragment = (
+  nodes: Map<string, GraphNode>,
+  edges: Map<string, GraphEdge>,
+  fragment: GraphFragment
+) => {
+  fragment.nodes.forEach(node => nodes.set(node.id, node));
+  fragment.edges.forEach(edge => edges.set(edge.id, edge));
+};
+
+const libraryDocumentFragment = (doc: Document) =>
+  documentFragment({
+    id: doc.id,
+    title: doc.title,
+    created_at: doc.created_at,
+    tags: doc.tags ?? null,
+    primary_principle_id: doc.primary_principle_id ?? null,
+    linked_project_id: doc.linked_project_id ?? null,
+    linked_sop_id: doc.linked_sop_id ?? null,
+    related_items: doc.related_items ?? null,
+  });
+
+// Graph contents: the hubs, a growing page of the Library's current documents, and whatever the
+// user has expanded or restored from a saved layout
+export const useKnowledgeGraph = (documents: Document[]) => {
+  const { toast } = useToast();
+  const [loaded, setLoaded] = useState<{ nodes: Map<string, GraphNode>; edges: Map<string, GraphEdge> }>(
+    () => ({ nodes: new Map(), edges: new Map() })
+  );
+  const [expanded, setExpanded] = useState<Set<string>>(new Set());
+  const [expanding, setExpanding] = useState<Set<string>>(new Set());
+  const [documentLimit, setDocumentLimit] = useState(GRAPH_DOCUMENT_PAGE_SIZE);
+
+  const merge = useCallback((fragment: GraphFragment) => {
+    setLoaded(prev => {
+      const nodes = new Map(prev.nodes);
+      const edges = new Map(prev.edges);
+      addFragment(nodes, edges, fragment);
+      return { nodes, edges };
+    });
+  }, []);
+
+  useEffect(() => {
+    fetchGraphHubs()
+      .then(merge)
+      .catch(error => console.error("Error loading graph hubs:", error));
+  }, [merge]);
+
+  const { nodes, edges } = useMemo(() => {
+    const allNodes = new Map(loaded.nodes);
+    const allEdges = new Map(loaded.edges);
+    documents.slice(0, documentLimit).forEach(doc => addFragment(allNodes, allEdges, libraryDocumentFragment(doc)));
+    return { nodes: allNodes, edges: allEdges };
+  }, [loaded, documents, documentLimit]);
+
+  const expand = useCallback(async (node: GraphNode) => {
+    setExpanding(prev => new Set(prev).add(node.id));
+    try {
+      merge(await fetchNeighbourhood(node));
+      setExpanded(prev => new Set(prev).add(node.id));
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to load connections",
+        variant: "destructive",
+      });
+    } finally {
+      setExpanding(prev => {
+        const next = new Set(prev);
+        next.delete(node.id);
+        return next;
+      });
+    }
+  }, [merge, toast]);
+
+  // Replaces everything but the Library documents with a saved layout's contents
+  const restore = useCallback((graph: SavedGraph) => {
+    const restoredNodes = new Map<string, GraphNode>();
+    const restoredEdges = new Map<string, GraphEdge>();
+    graph.nodes.forEach(({ x: _x, y: _y, pinned: _pinned, ...node }) => restoredNodes.set(node.id, node));
+    graph.edges.forEach(edge => restoredEdges.set(edge.id, edge));
+    setLoaded({ nodes: restoredNodes, edges: restoredEdges });
+    setExpanded(new Set(graph.expanded));
+  }, []);
+
+  return {
+    nodes,
+    edges,
+    expanded,
+    expanding,
+    expand,
+    restore,
+    hiddenDocumentCount: Math.max(0, documents.length - documentLimit),
+    showMoreDocuments: () => setDocumentLimit(limit => limit + GRAPH_DOCUMENT_PAGE_SIZE),
+  };
+};
+
+export const useGraphLayouts = () => {
+  return useQuery({
+    queryKey: ["graph-layouts"],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from("graph_layouts")
+        .select("*")
+        .order("name");
+
+      if (error) throw error;
+      return data as unknown as GraphLayout[];
+    },
+  });
+};
+
+export const useSaveGraphLayout = () => {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async ({ id, name, graph, filters }: { id?: string; name: string; graph: SavedGraph; filters: GraphFilters }) => {
+      const { data: { user } } = await supabase.auth.getUser();
+      if (!user) throw new Error("Not authenticated");
+
+      const values = { name, graph: graph as unknown as Json, filters: filters as unknown as Json };
+      const { error } = id
+        ? await supabase.from("graph_layouts").update(values).eq("id", id)
+        : await supabase.from("graph_layouts").insert({ ...values, user_id: user.id });
+
+      if (error) throw error;
+    },
+    onSuccess: (_, { name }) => {
+      queryClient.invalidateQueries({ queryKey: ["graph-layouts"] });
+      toast({ title: "Layout saved", description: name });
+    },
+    onError: (error) => {
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to save layout",
+        variant: "destructive",
+      });
+    },
+  });
+};
+
+export const useDeleteGraphLayout = () => {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async (id: string) => {
+      const { error } = await supabase.from("graph_layouts").delete().eq("id", id);
+      if (error) throw error;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["graph-layouts"] });
+    },
+    onError: (error) => {
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to delete layout",
+        variant: "destructive",
+      });
+    },
+  });
+};
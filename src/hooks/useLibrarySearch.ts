@@ -2,160 +2,315 @@ import { useState, useEffect, useCallback, useMemo, ReactNode, createElement } f
 import { useSearchParams } from 'react-router-dom';
 import { supabase } from '@/integrations/supabase/client';
 import { Document } from './useDocuments';
+import type { DocumentAnnotation } from './useDocumentAnnotations';
+import { ChunkMatch, hasIndexedChunks, searchDocumentChunks } from '@/lib/documentChunks';
+import { rankHybrid } from '@/lib/hybridSearch';
+import { highlightPattern, parseTextQuery, TextQuery } from '@/lib/searchQuery';
 
 // Helper to normalize document principle ID access
 export const getDocPrincipleId = (doc: Document): string | null => {
   return doc.primary_principle_id ?? doc.linked_principle_id ?? null;
 };
 
-interface SearchFilters {
+// Lowercased text that phrases and excluded terms are matched against
+const documentHaystack = (doc: Document, annotationText = ''): string =>
+  [doc.title, doc.summary || '', (doc.tags || []).join(' '), doc.extracted_text || '', annotationText].join('\n').toLowerCase();
+
+const annotationSearchText = (annotation: DocumentAnnotation) =>
+  `${annotation.quote}\n${annotation.comment || ''}`.toLowerCase();
+
+// Keyword relevance of a document's title, summary, tags and the user's annotations on it
+const scoreDocument = (doc: Document, text: TextQuery, annotationText = ''): number => {
+  const terms = [...text.terms, ...text.phrases];
+  const query = terms.join(' ');
+  let score = 0;
+  const titleLower = doc.title.toLowerCase();
+  const summaryLower = (doc.summary || '').toLowerCase();
+  const tagsLower = (doc.tags || []).map(t => t.toLowerCase());
+  
+  // Title matches (highest weight)
+  terms.forEach(term => {
+    if (titleLower.includes(term)) score += 10;
+  });
+  
+  // Exact title match bonus
+  if (titleLower === query) score += 50;
+  
+  // Summary matches
+  terms.forEach(term => {
+    const matches = summaryLower.split(term).length - 1;
+    score += matches * 5;
+  });
+  
+  // Tag matches
+  terms.forEach(term => {
+    tagsLower.forEach(tag => {
+      if (tag.includes(term)) score += 8;
+    });
+  });
+
+  // Annotation matches: the user's own highlights and comments
+  terms.forEach(term => {
+    if (annotationText.includes(term)) score += 6;
+  });
+
+  // Phrases are required, so one found only in the body still counts as a match
+  if (score === 0 && text.phrases.length > 0) score += 3 * text.phrases.length;
+  
+  // Recency bonus (only breaks ties between actual matches)
+  if (score > 0) {
+    const daysSinceUpdate = (Date.now() - new Date(doc.updated_at).getTime()) / (1000 * 60 * 60 * 24);
+    score += Math.max(0, 10 - daysSinceUpdate / 30);
+  }
+  
+  return score;
+};
+
+export type SearchResult = Document & {
+  _searchScore?: number;
+  _matchedChunk?: ChunkMatch;
+  _matchedAnnotation?: DocumentAnnotation;
+};
+
+export interface SearchFilters {
   query: string;
   category: string;
   principleId: string;
   projectId: string;
   tags: string[];
   dateRange: string;
+  before: string;
+  after: string;
   sortBy: string;
 }
 
-export const useLibrarySearch = (documents: Document[] | undefined) => {
+// URL parameter for each filter
+const PARAM_NAMES: Record<keyof SearchFilters, string> = {
+  query: 'q',
+  category: 'category',
+  principleId: 'principle',
+  projectId: 'project',
+  tags: 'tags',
+  dateRange: 'range',
+  before: 'before',
+  after: 'after',
+  sortBy: 'sort',
+};
+
+// Reads filters from Library URL parameters; also used for saved searches, which store them
+export const parseSearchParams = (searchParams: URLSearchParams): SearchFilters => ({
+  query: searchParams.get('q') || '',
+  category: searchParams.get('category') || 'All',
+  principleId: searchParams.get('principle') || 'All',
+  projectId: searchParams.get('project') || 'All',
+  tags: searchParams.get('tags')?.split(',').map(decodeURIComponent).filter(Boolean) || [],
+  dateRange: searchParams.get('range') || 'all',
+  before: searchParams.get('before') || '',
+  after: searchParams.get('after') || '',
+  sortBy: searchParams.get('sort') || 'relevance',
+});
+
+// Every filter except free-text relevance, which is scored separately
+const matchesFilters = (doc: Document, filters: SearchFilters, textQuery: TextQuery, annotationText = ''): boolean => {
+  // Category filter
+  if (filters.category !== 'All' && doc.category !== filters.category) return false;
+  
+  // Principle filter; 'none' selects documents not aligned to any principle
+  if (filters.principleId === 'none') {
+    if (getDocPrincipleId(doc) !== null) return false;
+  } else if (filters.principleId !== 'All' && getDocPrincipleId(doc) !== filters.principleId) return false;
+  
+  // Project filter  
+  if (filters.projectId !== 'All' && doc.linked_project_id !== filters.projectId) return false;
+  
+  // Tags filter
+  if (filters.tags.length > 0) {
+    const docTags = doc.tags || [];
+    const hasAllTags = filters.tags.every(tag => 
+      docTags.some(dt => dt.toLowerCase().includes(tag.toLowerCase()))
+    );
+    if (!hasAllTags) return false;
+  }
+  
+  // Date range filter
+  if (filters.dateRange !== 'all') {
+    const now = new Date();
+    const docDate = new Date(doc.updated_at);
+    const daysDiff = (now.getTime() - docDate.getTime()) / (1000 * 60 * 60 * 24);
+    
+    if (filters.dateRange === '7' && daysDiff > 7) return false;
+    if (filters.dateRange === '14' && daysDiff > 14) return false;
+    if (filters.dateRange === '30' && daysDiff > 30) return false;
+  }
+
+  // before:/after: compare the upload date against whole days
+  const createdDay = doc.created_at.slice(0, 10);
+  if (filters.before && createdDay >= filters.before) return false;
+  if (filters.after && createdDay <= filters.after) return false;
+
+  // Quoted phrases are required and -terms excluded, anywhere in the document
+  if (textQuery.phrases.length > 0 || textQuery.excluded.length > 0) {
+    const haystack = documentHaystack(doc, annotationText);
+    if (!textQuery.phrases.every(phrase => haystack.includes(phrase))) return false;
+    if (textQuery.excluded.some(term => haystack.includes(term))) return false;
+  }
+  
+  return true;
+};
+
+// Keyword-only match used where no ranking is needed, e.g. saved search counts
+export const matchesSearch = (doc: Document, filters: SearchFilters): boolean => {
+  const textQuery = parseTextQuery(filters.query);
+  if (!matchesFilters(doc, filters, textQuery)) return false;
+  const hasPositiveTerms = textQuery.terms.length > 0 || textQuery.phrases.length > 0;
+  return !hasPositiveTerms || scoreDocument(doc, textQuery) > 0;
+};
+
+export const useLibrarySearch = (documents: Document[] | undefined, annotations?: DocumentAnnotation[]) => {
   const [searchParams, setSearchParams] = useSearchParams();
-  const [semanticMode, setSemanticMode] = useState<boolean | null>(null);
+  const [semanticAvailable, setSemanticAvailable] = useState<boolean | null>(null);
   const [isSearching, setIsSearching] = useState(false);
   
   // Initialize filters from URL
-  const filters: SearchFilters = useMemo(() => ({
-    query: searchParams.get('q') || '',
-    category: searchParams.get('category') || 'All',
-    principleId: searchParams.get('principle') || 'All',
-    projectId: searchParams.get('project') || 'All',
-    tags: searchParams.get('tags')?.split(',').map(decodeURIComponent).filter(Boolean) || [],
-    dateRange: searchParams.get('range') || 'all',
-    sortBy: searchParams.get('sort') || 'relevance',
-  }), [searchParams]);
-
-  // Detect semantic mode on mount
+  const filters = useMemo(() => parseSearchParams(searchParams), [searchParams]);
+
+  const textQuery = useMemo(() => parseTextQuery(filters.query), [filters.query]);
+  // Positive part of the query; excluded terms never drive ranking
+  const positiveQuery = useMemo(() => [...textQuery.terms, ...textQuery.phrases].join(' '), [textQuery]);
+
+  const [chunkMatches, setChunkMatches] = useState<ChunkMatch[] | null>(null);
+
+  // Annotations grouped by document, with their text joined for matching
+  const annotationIndex = useMemo(() => {
+    const index = new Map<string, { annotations: DocumentAnnotation[]; text: string }>();
+    (annotations || []).forEach(annotation => {
+      const entry = index.get(annotation.document_id) ?? { annotations: [], text: '' };
+      entry.annotations.push(annotation);
+      entry.text += `\n${annotationSearchText(annotation)}`;
+      index.set(annotation.document_id, entry);
+    });
+    return index;
+  }, [annotations]);
+
+  // Detect semantic mode on mount: available once any document text has been indexed
   useEffect(() => {
-    // Default to keyword mode (document_chunks table not yet created)
-    // When embeddings are added, this will auto-detect the table
-    setSemanticMode(false);
+    hasIndexedChunks().then(setSemanticAvailable);
   }, []);
 
-  const updateFilter = useCallback((key: keyof SearchFilters, value: any) => {
+  // Semantic ranking is on by default when available; ?mode=keyword opts out
+  const semanticMode = semanticAvailable === null
+    ? null
+    : semanticAvailable && searchParams.get('mode') !== 'keyword';
+
+  const setSemanticEnabled = useCallback((enabled: boolean) => {
+    const newParams = new URLSearchParams(searchParams);
+    if (enabled) {
+      newParams.delete('mode');
+    } else {
+      newParams.set('mode', 'keyword');
+    }
+    setSearchParams(newParams);
+  }, [searchParams, setSearchParams]);
+
+  // Fetch matching chunks for the query, debounced; failures fall back to keyword ranking
+  useEffect(() => {
+    if (!semanticMode || !positiveQuery) {
+      setChunkMatches(null);
+      return;
+    }
+
+    let cancelled = false;
+    const t = setTimeout(async () => {
+      try {
+        const matches = await searchDocumentChunks(positiveQuery);
+        if (!cancelled) setChunkMatches(matches);
+      } catch (error) {
+        console.error('Semantic search failed, using keyword ranking:', error);
+        if (!cancelled) setChunkMatches(null);
+      }
+    }, 300);
+
+    return () => {
+      cancelled = true;
+      clearTimeout(t);
+    };
+  }, [semanticMode, positiveQuery]);
+
+  // Writes several filters in one navigation so they don't overwrite each other
+  const updateFilters = useCallback((changes: Partial<SearchFilters>) => {
     const newParams = new URLSearchParams(searchParams);
     
-    if (key === 'tags') {
-      if (value.length > 0) {
-        newParams.set('tags', value.map(encodeURIComponent).join(','));
+    Object.entries(changes).forEach(([key, value]) => {
+      const param = PARAM_NAMES[key as keyof SearchFilters];
+      if (Array.isArray(value)) {
+        if (value.length > 0) {
+          newParams.set(param, value.map(encodeURIComponent).join(','));
+        } else {
+          newParams.delete(param);
+        }
+      } else if (value && value !== 'All' && value !== 'all') {
+        newParams.set(param, value);
       } else {
-        newParams.delete('tags');
+        newParams.delete(param);
       }
-    } else if (value && value !== 'All' && value !== 'all' && value !== '') {
-      newParams.set(key === 'query' ? 'q' : key, value);
-    } else {
-      newParams.delete(key === 'query' ? 'q' : key);
-    }
+    });
     
     setSearchParams(newParams);
   }, [searchParams, setSearchParams]);
 
+  const updateFilter = useCallback(<K extends keyof SearchFilters>(key: K, value: SearchFilters[K]) => {
+    updateFilters({ [key]: value });
+  }, [updateFilters]);
+
   // Highlight matches in text - returns ReactNode for safe rendering
   const highlightMatches = useCallback((text: string, query: string): ReactNode => {
     if (!query || !text) return text;
     
-    const terms = query
-      .toLowerCase()
-      .split(/\s+/)
-      .filter(Boolean)
-      .map(t => t.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')); // Escape regex special chars
-    
-    if (terms.length === 0) return text;
+    const regex = highlightPattern(query);
+    if (!regex) return text;
     
-    const regex = new RegExp(`(${terms.join('|')})`, 'gi');
-    const parts = text.split(regex);
-    
-    return parts.map((part, i) =>
-      regex.test(part) 
+    // The pattern's capture group leaves every match at an odd index
+    return text.split(regex).map((part, i) =>
+      i % 2 === 1
         ? createElement('mark', { key: i, className: 'bg-primary/20 px-0.5 rounded' }, part)
         : createElement('span', { key: i }, part)
     );
   }, []);
 
   // Filter and score documents
-  const filteredDocuments = useMemo(() => {
+  const filteredDocuments = useMemo((): SearchResult[] => {
     if (!documents) return [];
     
-    let results = documents.filter(doc => {
-      // Category filter
-      if (filters.category !== 'All' && doc.category !== filters.category) return false;
-      
-      // Principle filter
-      if (filters.principleId !== 'All' && getDocPrincipleId(doc) !== filters.principleId) return false;
-      
-      // Project filter  
-      if (filters.projectId !== 'All' && doc.linked_project_id !== filters.projectId) return false;
-      
-      // Tags filter
-      if (filters.tags.length > 0) {
-        const docTags = doc.tags || [];
-        const hasAllTags = filters.tags.every(tag => 
-          docTags.some(dt => dt.toLowerCase().includes(tag.toLowerCase()))
-        );
-        if (!hasAllTags) return false;
-      }
-      
-      // Date range filter
-      if (filters.dateRange !== 'all') {
-        const now = new Date();
-        const docDate = new Date(doc.updated_at);
-        const daysDiff = (now.getTime() - docDate.getTime()) / (1000 * 60 * 60 * 24);
-        
-        if (filters.dateRange === '7' && daysDiff > 7) return false;
-        if (filters.dateRange === '14' && daysDiff > 14) return false;
-        if (filters.dateRange === '30' && daysDiff > 30) return false;
-      }
-      
-      return true;
-    });
+    const annotationText = (doc: Document) => annotationIndex.get(doc.id)?.text ?? '';
+    const terms = [...textQuery.terms, ...textQuery.phrases];
+    const matchedAnnotation = (doc: Document) =>
+      annotationIndex.get(doc.id)?.annotations.find(annotation =>
+        terms.some(term => annotationSearchText(annotation).includes(term))
+      );
+
+    let results: SearchResult[] = documents.filter(doc => matchesFilters(doc, filters, textQuery, annotationText(doc)));
 
     // Text search with scoring
-    if (filters.query) {
-      const query = filters.query.toLowerCase();
-      const terms = query.split(' ').filter(Boolean);
-      
-      results = results.map(doc => {
-        let score = 0;
-        const titleLower = doc.title.toLowerCase();
-        const summaryLower = (doc.summary || '').toLowerCase();
-        const tagsLower = (doc.tags || []).map(t => t.toLowerCase());
-        
-        // Title matches (highest weight)
-        terms.forEach(term => {
-          if (titleLower.includes(term)) score += 10;
-        });
-        
-        // Exact title match bonus
-        if (titleLower === query) score += 50;
-        
-        // Summary matches
-        terms.forEach(term => {
-          const matches = (summaryLower.match(new RegExp(term, 'g')) || []).length;
-          score += matches * 5;
-        });
-        
-        // Tag matches
-        terms.forEach(term => {
-          tagsLower.forEach(tag => {
-            if (tag.includes(term)) score += 8;
-          });
-        });
-        
-        // Recency bonus
-        const daysSinceUpdate = (Date.now() - new Date(doc.updated_at).getTime()) / (1000 * 60 * 60 * 24);
-        score += Math.max(0, 10 - daysSinceUpdate / 30);
-        
-        return { ...doc, _searchScore: score };
-      }).filter(doc => (doc as any)._searchScore > 0);
+    if (positiveQuery && chunkMatches) {
+      const metadataScores = new Map(results.map(doc => [doc.id, scoreDocument(doc, textQuery, annotationText(doc))]));
+      const ranked = new Map(rankHybrid(metadataScores, chunkMatches).map(r => [r.documentId, r]));
+
+      results = results
+        .filter(doc => ranked.has(doc.id))
+        .map(doc => ({
+          ...doc,
+          _searchScore: ranked.get(doc.id)!.score,
+          _matchedChunk: ranked.get(doc.id)!.bestChunk,
+          _matchedAnnotation: matchedAnnotation(doc),
+        }));
+    } else if (positiveQuery) {
+      results = results
+        .map(doc => ({
+          ...doc,
+          _searchScore: scoreDocument(doc, textQuery, annotationText(doc)),
+          _matchedAnnotation: matchedAnnotation(doc),
+        }))
+        .filter(doc => (doc as any)._searchScore > 0);
     } else {
       results = results.map(doc => ({ ...doc, _searchScore: 50 }));
     }
@@ -180,7 +335,7 @@ export const useLibrarySearch = (documents: Document[] | undefined) => {
     });
 
     return results;
-  }, [documents, filters]);
+  }, [documents, filters, textQuery, positiveQuery, chunkMatches, annotationIndex]);
 
   // Track search state separately
   useEffect(() => {
@@ -192,8 +347,11 @@ export const useLibrarySearch = (documents: Document[] | undefined) => {
   return {
     filters,
     updateFilter,
+    updateFilters,
     filteredDocuments,
     semanticMode,
+    semanticAvailable: !!semanticAvailable,
+    setSemanticEnabled,
     isSearching,
     highlightMatches,
   };
@@ -0,0 +1,171 @@
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { supabase } from "@/integrations/supabase/client";
+import { useToast } from "@/hooks/use-toast";
+import { Document } from "./useDocuments";
+import { matchesSearch, parseSearchParams } from "./useLibrarySearch";
+
+export interface SavedSearch {
+  id: string;
+  user_id: string;
+  name: string;
+  params: string;
+  pinned: boolean;
+  is_smart_collection: boolean;
+  notify_on_match: boolean;
+  created_at: string;
+  updated_at: string;
+}
+
+// URL parameters that describe the view rather than the search itself
+const VIEW_ONLY_PARAMS = ['mode'];
+
+// Canonical form of Library URL parameters, so equal searches compare equal as strings
+export const toSavedSearchParams = (searchParams: URLSearchParams): string => {
+  const entries = Array.from(searchParams.entries())
+    .filter(([key, value]) => value && !VIEW_ONLY_PARAMS.includes(key))
+    .sort(([a], [b]) => a.localeCompare(b));
+  return new URLSearchParams(entries).toString();
+};
+
+export const savedSearchUrl = (search: Pick<SavedSearch, 'params'>) =>
+  search.params ? `/library?${search.params}` : '/library';
+
+export const countSavedSearchMatches = (search: SavedSearch, documents: Document[] | undefined): number => {
+  if (!documents) return 0;
+  const filters = parseSearchParams(new URLSearchParams(search.params));
+  return documents.filter(doc => matchesSearch(doc, filters)).length;
+};
+
+export const useSavedSearches = () => {
+  return useQuery({
+    queryKey: ["saved-searches"],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from("saved_searches")
+        .select("*")
+        .order("name");
+
+      if (error) throw error;
+      return data as SavedSearch[];
+    },
+  });
+};
+
+export const useCreateSavedSearch = () => {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async (search: Pick<SavedSearch, "name" | "params"> & Partial<SavedSearch>) => {
+      const { data: { user } } = await supabase.auth.getUser();
+      if (!user) throw new Error("Not authenticated");
+
+      const { data, error } = await supabase
+        .from("saved_searches")
+        .insert([{ ...search, user_id: user.id }])
+        .select()
+        .single();
+
+      if (error) throw error;
+      return data as SavedSearch;
+    },
+    onSuccess: (search) => {
+      queryClient.invalidateQueries({ queryKey: ["saved-searches"] });
+      toast({
+        title: search.is_smart_collection ? "Smart collection created" : "Search saved",
+        description: search.name,
+      });
+    },
+    onError: (error) => {
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to save search",
+        variant: "destructive",
+      });
+    },
+  });
+};
+
+export const useUpdateSavedSearch = () => {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async ({ id, ...updates }: Partial<SavedSearch> & { id: string }) => {
+      const { error } = await supabase
+        .from("saved_searches")
+        .update(updates)
+        .eq("id", id);
+
+      if (error) throw error;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["saved-searches"] });
+    },
+    onError: (error) => {
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to update saved search",
+        variant: "destructive",
+      });
+    },
+  });
+};
+
+export const useDeleteSavedSearch = () => {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async (id: string) => {
+      const { error } = await supabase
+        .from("saved_searches")
+        .delete()
+        .eq("id", id);
+
+      if (error) throw error;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["saved-searches"] });
+      toast({
+        title: "Saved search deleted",
+      });
+    },
+    onError: (error) => {
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to delete saved search",
+        variant: "destructive",
+      });
+    },
+  });
+};
+
+// Checks a newly added document against the user's smart collections and notifies for each
+// one it joins. Returns the names of the collections it matched.
+export const notifySmartCollections = async (document: Document): Promise<string[]> => {
+  const { data, error } = await supabase
+    .from("saved_searches")
+    .select("*")
+    .eq("is_smart_collection", true);
+
+  if (error) throw error;
+
+  const matched = (data as SavedSearch[]).filter(search =>
+    matchesSearch(document, parseSearchParams(new URLSearchParams(search.params)))
+  );
+
+  await Promise.all(
+    matched
+      .filter(search => search.notify_on_match)
+      .map(async search => {
+        const { error: rpcError } = await supabase.rpc("notify_smart_collection_match", {
+          p_saved_search_id: search.id,
+          p_document_id: document.id,
+        });
+        if (rpcError) throw rpcError;
+      })
+  );
+
+  return matched.map(search => search.name);
+};
@@ -0,0 +1,50 @@
+import { useMutation, useQueryClient } from "@tanstack/react-query";
+import { supabase } from "@/integrations/supabase/client";
+import { useToast } from "@/hooks/use-toast";
+
+type StoredObject = { path: string; size: number; createdAt: string | null };
+
+export interface StorageReconciliation {
+  scanned: number;
+  deleted: number;
+  // Stored files no document or version points to
+  orphanedObjects: StoredObject[];
+  // Files uploaded before stable keys that no document points to; listed for review, never deleted
+  unmatchedLegacyObjects: StoredObject[];
+  // Documents and versions whose file is gone; versionNumber is null for the current file
+  missingFiles: { documentId: string; title: string; storagePath: string; versionNumber: number | null }[];
+}
+
+export const useStorageReconciliation = () => {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    // keepPaths protects files of uploads that are still in the queue and have no document yet
+    mutationFn: async ({ dryRun = true, keepPaths = [] }: { dryRun?: boolean; keepPaths?: string[] }) => {
+      const { data, error } = await supabase.functions.invoke<StorageReconciliation>("reconcile-storage", {
+        body: { dryRun, keepPaths },
+      });
+
+      if (error) throw error;
+      if (!data) throw new Error("No reconciliation result returned");
+      return data;
+    },
+    onSuccess: (result) => {
+      if (result.deleted > 0) {
+        queryClient.invalidateQueries({ queryKey: ["documents"] });
+        toast({
+          title: "Storage cleaned up",
+          description: `Removed ${result.deleted} orphaned ${result.deleted === 1 ? "file" : "files"}`,
+        });
+      }
+    },
+    onError: (error) => {
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to check storage",
+        variant: "destructive",
+      });
+    },
+  });
+};
@@ -0,0 +1,23 @@
+import { useQuery } from "@tanstack/react-query";
+import { createSignedFileUrl, downloadStoredFile, SIGNED_URL_TTL_SECONDS } from "@/lib/documentStorage";
+import { Document } from "./useDocuments";
+
+// Stored files never change under a key, so one download serves every later preview
+export const useStoredFile = (document: Document, enabled = true) => {
+  return useQuery({
+    queryKey: ["stored-file", document.storage_path],
+    queryFn: () => downloadStoredFile(document.storage_path, document.file_name, document.file_type),
+    enabled,
+    staleTime: Infinity,
+  });
+};
+
+// Signed URLs are refreshed a minute before they expire
+export const useSignedFileUrl = (storagePath: string, enabled = true) => {
+  return useQuery({
+    queryKey: ["signed-file-url", storagePath],
+    queryFn: () => createSignedFileUrl(storagePath),
+    enabled,
+    staleTime: (SIGNED_URL_TTL_SECONDS - 60) * 1000,
+  });
+};
@@ -0,0 +1,23 @@
+import { createContext, useContext } from "react";
+import type { Document } from "@/hooks/useDocuments";
+import type { QueuedUpload } from "@/lib/uploadQueue";
+
+type UploadQueueContextType = {
+  uploads: QueuedUpload[];
+  enqueue: (files: File[], targetDocument?: Document) => void;
+  update: (id: string, changes: Partial<QueuedUpload>) => void;
+  remove: (id: string) => void;
+  discard: (id: string) => Promise<void>;
+  retry: (id: string) => void;
+};
+
+// Provided by UploadQueueProvider in src/contexts/UploadQueueContext.tsx
+export const UploadQueueContext = createContext<UploadQueueContextType | undefined>(undefined);
+
+export function useUploadQueue() {
+  const context = useContext(UploadQueueContext);
+  if (context === undefined) {
+    throw new Error("useUploadQueue must be used within an UploadQueueProvider");
+  }
+  return context;
+}
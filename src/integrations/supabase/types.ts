@@ -115,6 +115,102 @@ export type Database = {
           },
         ]
       }
+      ai_usage: {
+        Row: {
+          completion_tokens: number
+          created_at: string
+          function_name: string
+          id: string
+          model: string
+          prompt_tokens: number
+          total_tokens: number
+          user_id: string
+        }
+        Insert: {
+          completion_tokens?: number
+          created_at?: string
+          function_name: string
+          id?: string
+          model: string
+          prompt_tokens?: number
+          total_tokens?: number
+          user_id: string
+        }
+        Update: {
+          completion_tokens?: number
+          created_at?: string
+          function_name?: string
+          id?: string
+          model?: string
+          prompt_tokens?: number
+          total_tokens?: number
+          user_id?: string
+        }
+        Relationships: []
+      }
+      assistant_actions: {
+        Row: {
+          arguments: Json
+          created_at: string
+          error: string | null
+          id: string
+          message_id: string | null
+          resolved_at: string | null
+          result: Json | null
+          session_id: string
+          status: string
+          summary: string
+          tool: string
+          updated_at: string
+          user_id: string
+        }
+        Insert: {
+          arguments?: Json
+          created_at?: string
+          error?: string | null
+          id?: string
+          message_id?: string | null
+          resolved_at?: string | null
+          result?: Json | null
+          session_id: string
+          status?: string
+          summary: string
+          tool: string
+          updated_at?: string
+          user_id: string
+        }
+        Update: {
+          arguments?: Json
+          created_at?: string
+          error?: string | null
+          id?: string
+          message_id?: string | null
+          resolved_at?: string | null
+          result?: Json | null
+          session_id?: string
+          status?: string
+          summary?: string
+          tool?: string
+          updated_at?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "assistant_actions_message_id_fkey"
+            columns: ["message_id"]
+            isOneToOne: false
+            referencedRelation: "chat_history"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "assistant_actions_session_id_fkey"
+            columns: ["session_id"]
+            isOneToOne: false
+            referencedRelation: "chat_sessions"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       chat_feedback: {
         Row: {
           comment: string | null
@@ -122,6 +218,8 @@ export type Database = {
           feedback_type: string
           id: string
           message_id: string
+          reasons: string[]
+          updated_at: string
           user_id: string
         }
         Insert: {
@@ -130,6 +228,8 @@ export type Database = {
           feedback_type: string
           id?: string
           message_id: string
+          reasons?: string[]
+          updated_at?: string
           user_id: string
         }
         Update: {
@@ -138,6 +238,8 @@ export type Database = {
           feedback_type?: string
           id?: string
           message_id?: string
+          reasons?: string[]
+          updated_at?: string
           user_id?: string
         }
         Relationships: [
@@ -190,30 +292,45 @@ export type Database = {
       }
       chat_sessions: {
         Row: {
+          archived_at: string | null
           context_id: string | null
           context_type: string
           created_at: string
           id: string
           last_active: string
+          pinned: boolean
           started_at: string
+          summary: string | null
+          summary_through: string | null
+          title: string | null
           user_id: string
         }
         Insert: {
+          archived_at?: string | null
           context_id?: string | null
           context_type?: string
           created_at?: string
           id?: string
           last_active?: string
+          pinned?: boolean
           started_at?: string
+          summary?: string | null
+          summary_through?: string | null
+          title?: string | null
           user_id: string
         }
         Update: {
+          archived_at?: string | null
           context_id?: string | null
           context_type?: string
           created_at?: string
           id?: string
           last_active?: string
+          pinned?: boolean
           started_at?: string
+          summary?: string | null
+          summary_through?: string | null
+          title?: string | null
           user_id?: string
         }
         Relationships: []
@@ -298,25 +415,365 @@ export type Database = {
         }
         Relationships: []
       }
+      document_annotations: {
+        Row: {
+          color: string
+          comment: string | null
+          created_at: string
+          document_id: string
+          end_offset: number
+          id: string
+          insight_id: string | null
+          prefix: string
+          quote: string
+          start_offset: number
+          suffix: string
+          task_id: string | null
+          updated_at: string
+          user_id: string
+        }
+        Insert: {
+          color?: string
+          comment?: string | null
+          created_at?: string
+          document_id: string
+          end_offset: number
+          id?: string
+          insight_id?: string | null
+          prefix?: string
+          quote: string
+          start_offset: number
+          suffix?: string
+          task_id?: string | null
+          updated_at?: string
+          user_id: string
+        }
+        Update: {
+          color?: string
+          comment?: string | null
+          created_at?: string
+          document_id?: string
+          end_offset?: number
+          id?: string
+          insight_id?: string | null
+          prefix?: string
+          quote?: string
+          start_offset?: number
+          suffix?: string
+          task_id?: string | null
+          updated_at?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "document_annotations_document_id_fkey"
+            columns: ["document_id"]
+            isOneToOne: false
+            referencedRelation: "documents"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "document_annotations_insight_id_fkey"
+            columns: ["insight_id"]
+            isOneToOne: false
+            referencedRelation: "insights"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "document_annotations_task_id_fkey"
+            columns: ["task_id"]
+            isOneToOne: false
+            referencedRelation: "tasks"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      document_chunks: {
+        Row: {
+          chunk_index: number
+          content: string
+          content_tsv: unknown | null
+          created_at: string
+          document_id: string
+          embedding: string | null
+          embedding_model: string
+          end_offset: number
+          id: string
+          page: number | null
+          start_offset: number
+          user_id: string
+        }
+        Insert: {
+          chunk_index: number
+          content: string
+          content_tsv?: unknown | null
+          created_at?: string
+          document_id: string
+          embedding?: string | null
+          embedding_model: string
+          end_offset: number
+          id?: string
+          page?: number | null
+          start_offset: number
+          user_id: string
+        }
+        Update: {
+          chunk_index?: number
+          content?: string
+          content_tsv?: unknown | null
+          created_at?: string
+          document_id?: string
+          embedding?: string | null
+          embedding_model?: string
+          end_offset?: number
+          id?: string
+          page?: number | null
+          start_offset?: number
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "document_chunks_document_id_fkey"
+            columns: ["document_id"]
+            isOneToOne: false
+            referencedRelation: "documents"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      document_links: {
+        Row: {
+          created_at: string
+          id: string
+          link_type: string
+          source_document_id: string
+          target_document_id: string
+          user_id: string
+        }
+        Insert: {
+          created_at?: string
+          id?: string
+          link_type?: string
+          source_document_id: string
+          target_document_id: string
+          user_id: string
+        }
+        Update: {
+          created_at?: string
+          id?: string
+          link_type?: string
+          source_document_id?: string
+          target_document_id?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "document_links_source_document_id_fkey"
+            columns: ["source_document_id"]
+            isOneToOne: false
+            referencedRelation: "documents"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "document_links_target_document_id_fkey"
+            columns: ["target_document_id"]
+            isOneToOne: false
+            referencedRelation: "documents"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      document_relations: {
+        Row: {
+          confidence: number | null
+          created_at: string
+          document_id: string
+          id: string
+          reason: string | null
+          related_document_id: string | null
+          related_sop_id: string | null
+          status: string
+          updated_at: string
+          user_id: string
+        }
+        Insert: {
+          confidence?: number | null
+          created_at?: string
+          document_id: string
+          id?: string
+          reason?: string | null
+          related_document_id?: string | null
+          related_sop_id?: string | null
+          status?: string
+          updated_at?: string
+          user_id: string
+        }
+        Update: {
+          confidence?: number | null
+          created_at?: string
+          document_id?: string
+          id?: string
+          reason?: string | null
+          related_document_id?: string | null
+          related_sop_id?: string | null
+          status?: string
+          updated_at?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "document_relations_document_id_fkey"
+            columns: ["document_id"]
+            isOneToOne: false
+            referencedRelation: "documents"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "document_relations_related_document_id_fkey"
+            columns: ["related_document_id"]
+            isOneToOne: false
+            referencedRelation: "documents"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "document_relations_related_sop_id_fkey"
+            columns: ["related_sop_id"]
+            isOneToOne: false
+            referencedRelation: "sops"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      document_versions: {
+        Row: {
+          ai_confidence: number | null
+          ai_reasoning: string | null
+          category: string | null
+          content_hash: string | null
+          created_at: string
+          data_description: string | null
+          data_schema: Json | null
+          document_id: string
+          extracted_text: string | null
+          file_name: string
+          file_size: number
+          file_type: string
+          file_url: string | null
+          id: string
+          note: string | null
+          page_offsets: Json | null
+          primary_principle_id: string | null
+          principle_alignment_score: number | null
+          source_metadata: Json | null
+          storage_path: string
+          summary: string | null
+          tags: string[] | null
+          text_fingerprint: number[] | null
+          title: string
+          user_id: string
+          version_number: number
+        }
+        Insert: {
+          ai_confidence?: number | null
+          ai_reasoning?: string | null
+          category?: string | null
+          content_hash?: string | null
+          created_at?: string
+          data_description?: string | null
+          data_schema?: Json | null
+          document_id: string
+          extracted_text?: string | null
+          file_name: string
+          file_size: number
+          file_type: string
+          file_url?: string | null
+          id?: string
+          note?: string | null
+          page_offsets?: Json | null
+          primary_principle_id?: string | null
+          principle_alignment_score?: number | null
+          source_metadata?: Json | null
+          storage_path: string
+          summary?: string | null
+          tags?: string[] | null
+          text_fingerprint?: number[] | null
+          title: string
+          user_id: string
+          version_number: number
+        }
+        Update: {
+          ai_confidence?: number | null
+          ai_reasoning?: string | null
+          category?: string | null
+          content_hash?: string | null
+          created_at?: string
+          data_description?: string | null
+          data_schema?: Json | null
+          document_id?: string
+          extracted_text?: string | null
+          file_name?: string
+          file_size?: number
+          file_type?: string
+          file_url?: string | null
+          id?: string
+          note?: string | null
+          page_offsets?: Json | null
+          primary_principle_id?: string | null
+          principle_alignment_score?: number | null
+          source_metadata?: Json | null
+          storage_path?: string
+          summary?: string | null
+          tags?: string[] | null
+          text_fingerprint?: number[] | null
+          title?: string
+          user_id?: string
+          version_number?: number
+        }
+        Relationships: [
+          {
+            foreignKeyName: "document_versions_document_id_fkey"
+            columns: ["document_id"]
+            isOneToOne: false
+            referencedRelation: "documents"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "document_versions_primary_principle_id_fkey"
+            columns: ["primary_principle_id"]
+            isOneToOne: false
+            referencedRelation: "principles"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       documents: {
         Row: {
           ai_confidence: number | null
           ai_reasoning: string | null
           category: string | null
+          content_hash: string | null
           created_at: string
+          current_version: number
           data_description: string | null
+          data_schema: Json | null
+          extracted_text: string | null
           file_name: string
           file_size: number
           file_type: string
-          file_url: string
+          file_url: string | null
           id: string
           linked_principle_id: string | null
           linked_project_id: string | null
           linked_sop_id: string | null
+          page_offsets: Json | null
           primary_principle_id: string | null
           principle_alignment_score: number | null
+          related_items: Json | null
+          source_metadata: Json | null
+          storage_path: string
           summary: string | null
           tags: string[] | null
+          text_fingerprint: number[] | null
           title: string
           updated_at: string
           user_id: string
@@ -326,20 +783,29 @@ export type Database = {
           ai_confidence?: number | null
           ai_reasoning?: string | null
           category?: string | null
+          content_hash?: string | null
           created_at?: string
+          current_version?: number
           data_description?: string | null
+          data_schema?: Json | null
+          extracted_text?: string | null
           file_name: string
           file_size: number
           file_type: string
-          file_url: string
+          file_url?: string | null
           id?: string
           linked_principle_id?: string | null
           linked_project_id?: string | null
           linked_sop_id?: string | null
+          page_offsets?: Json | null
           primary_principle_id?: string | null
           principle_alignment_score?: number | null
+          related_items?: Json | null
+          source_metadata?: Json | null
+          storage_path: string
           summary?: string | null
           tags?: string[] | null
+          text_fingerprint?: number[] | null
           title: string
           updated_at?: string
           user_id: string
@@ -349,20 +815,29 @@ export type Database = {
           ai_confidence?: number | null
           ai_reasoning?: string | null
           category?: string | null
+          content_hash?: string | null
           created_at?: string
+          current_version?: number
           data_description?: string | null
+          data_schema?: Json | null
+          extracted_text?: string | null
           file_name?: string
           file_size?: number
           file_type?: string
-          file_url?: string
+          file_url?: string | null
           id?: string
           linked_principle_id?: string | null
           linked_project_id?: string | null
           linked_sop_id?: string | null
+          page_offsets?: Json | null
           primary_principle_id?: string | null
           principle_alignment_score?: number | null
+          related_items?: Json | null
+          source_metadata?: Json | null
+          storage_path?: string
           summary?: string | null
           tags?: string[] | null
+          text_fingerprint?: number[] | null
           title?: string
           updated_at?: string
           user_id?: string
@@ -536,6 +1011,36 @@ export type Database = {
         }
         Relationships: []
       }
+      graph_layouts: {
+        Row: {
+          created_at: string
+          filters: Json
+          graph: Json
+          id: string
+          name: string
+          updated_at: string
+          user_id: string
+        }
+        Insert: {
+          created_at?: string
+          filters?: Json
+          graph?: Json
+          id?: string
+          name: string
+          updated_at?: string
+          user_id: string
+        }
+        Update: {
+          created_at?: string
+          filters?: Json
+          graph?: Json
+          id?: string
+          name?: string
+          updated_at?: string
+          user_id?: string
+        }
+        Relationships: []
+      }
       insights: {
         Row: {
           category: string | null
@@ -908,6 +1413,42 @@ export type Database = {
           },
         ]
       }
+      saved_searches: {
+        Row: {
+          created_at: string
+          id: string
+          is_smart_collection: boolean
+          name: string
+          notify_on_match: boolean
+          params: string
+          pinned: boolean
+          updated_at: string
+          user_id: string
+        }
+        Insert: {
+          created_at?: string
+          id?: string
+          is_smart_collection?: boolean
+          name: string
+          notify_on_match?: boolean
+          params?: string
+          pinned?: boolean
+          updated_at?: string
+          user_id: string
+        }
+        Update: {
+          created_at?: string
+          id?: string
+          is_smart_collection?: boolean
+          name?: string
+          notify_on_match?: boolean
+          params?: string
+          pinned?: boolean
+          updated_at?: string
+          user_id?: string
+        }
+        Relationships: []
+      }
       sops: {
         Row: {
           category: string | null
@@ -1155,6 +1696,76 @@ export type Database = {
         }
         Returns: boolean
       }
+      match_document_chunks: {
+        Args: {
+          match_count?: number
+          p_embedding_model: string
+          query_embedding: string
+          query_text?: string
+        }
+        Returns: {
+          chunk_index: number
+          content: string
+          document_id: string
+          id: string
+          keyword_rank: number
+          page: number
+          similarity: number
+        }[]
+      }
+      notify_smart_collection_match: {
+        Args: {
+          p_document_id: string
+          p_saved_search_id: string
+        }
+        Returns: boolean
+      }
+      replace_document_chunks: {
+        Args: {
+          p_chunks: Json
+          p_document_id: string
+        }
+        Returns: number
+      }
+      restore_document_version: {
+        Args: {
+          p_document_id: string
+          p_version_number: number
+        }
+        Returns: number
+      }
+      search_knowledge: {
+        Args: {
+          match_count?: number
+          query_text: string
+        }
+        Returns: {
+          content: string
+          rank: number
+          source_id: string
+          source_type: string
+          title: string
+        }[]
+      }
+      search_chat_sessions: {
+        Args: {
+          match_count?: number
+          query_text: string
+        }
+        Returns: {
+          matched_at: string
+          rank: number
+          session_id: string
+          snippet: string
+        }[]
+      }
+      snapshot_document_version: {
+        Args: {
+          p_document_id: string
+          p_note?: string
+        }
+        Returns: number
+      }
     }
     Enums: {
       app_role: "admin" | "user" | "viewer"
@@ -0,0 +1,105 @@
+// How often categorize-document's suggestions survive review. Every reviewed upload is logged to
+// ai_learning_log, as "accepted" when saved unchanged and "categorization" when edited first;
+// bulk edits made later are logged as "bulk_*" corrections.
+
+import { format, startOfWeek, subWeeks } from 'date-fns';
+import type { Json } from '@/integrations/supabase/types';
+
+export const ACCEPTED_CORRECTION = 'accepted';
+export const REVIEW_CORRECTION = 'categorization';
+
+export type CorrectedField = 'category' | 'tags' | 'principle';
+
+export type SuggestionFields = {
+  category: string | null;
+  tags: string[];
+  primary_principle_id: string | null;
+};
+
+export type LearningLogEntry = {
+  ai_suggestion: Json;
+  user_choice: Json;
+  correction_type: string | null;
+  created_at: string | null;
+};
+
+export type AccuracyWeek = {
+  week: string;
+  reviewed: number;
+  accepted: number;
+  // Percent of reviewed suggestions saved unchanged, or null for a week without reviews
+  acceptance: number | null;
+  corrections: Record<CorrectedField, number>;
+  laterCorrections: number;
+};
+
+const asRecord = (value: Json): Record<string, Json | undefined> =>
+  value && typeof value === 'object' && !Array.isArray(value) ? value : {};
+
+const asTags = (value: Json | undefined): string[] => {
+  // The review form keeps tags as a comma-separated string; suggestions and bulk edits use arrays
+  const tags = typeof value === 'string' ? value.split(',') : Array.isArray(value) ? value : [];
+  return tags.filter((tag): tag is string => typeof tag === 'string').map(tag => tag.trim().toLowerCase()).filter(Boolean);
+};
+
+// Reads either side of a log entry: a raw categorize-document response, the review form or a bulk change
+export const readSuggestionFields = (value: Json): SuggestionFields => {
+  const record = asRecord(value);
+  const alignment = asRecord(record.principle_alignment ?? null);
+  const principle = record.primary_principle_id ?? alignment.primary_principle_id;
+  return {
+    category: typeof record.category === 'string' ? record.category : null,
+    tags: asTags(record.tags),
+    primary_principle_id: typeof principle === 'string' && principle ? principle : null,
+  };
+};
+
+// Fields the user changed; a bulk change only records the fields it touched, so absent ones count as kept
+export const correctedFields = (entry: LearningLogEntry): CorrectedField[] => {
+  const suggested = readSuggestionFields(entry.ai_suggestion);
+  const choice = asRecord(entry.user_choice);
+  const chosen = readSuggestionFields(entry.user_choice);
+  const fields: CorrectedField[] = [];
+
+  if ('category' in choice && chosen.category !== suggested.category) fields.push('category');
+  if ('tags' in choice) {
+    const same = chosen.tags.length === suggested.tags.length && chosen.tags.every(tag => suggested.tags.includes(tag));
+    if (!same) fields.push('tags');
+  }
+  if ('primary_principle_id' in choice && chosen.primary_principle_id !== suggested.primary_principle_id) {
+    fields.push('principle');
+  }
+  return fields;
+};
+
+export const accuracyByWeek = (entries: LearningLogEntry[], weeks: number, now = new Date()): AccuracyWeek[] => {
+  const firstWeek = startOfWeek(subWeeks(now, weeks - 1), { weekStartsOn: 1 });
+  const buckets = Array.from({ length: weeks }, (_, i): AccuracyWeek => ({
+    week: format(startOfWeek(subWeeks(now, weeks - 1 - i), { weekStartsOn: 1 }), 'MMM d'),
+    reviewed: 0,
+    accepted: 0,
+    acceptance: null,
+    corrections: { category: 0, tags: 0, principle: 0 },
+    laterCorrections: 0,
+  }));
+
+  entries.forEach(entry => {
+    if (!entry.created_at) return;
+    const index = Math.floor((new Date(entry.created_at).getTime() - firstWeek.getTime()) / (7 * 24 * 60 * 60 * 1000));
+    const bucket = buckets[index];
+    if (!bucket) return;
+
+    if (entry.correction_type === ACCEPTED_CORRECTION || entry.correction_type === REVIEW_CORRECTION) {
+      bucket.reviewed++;
+      if (entry.correction_type === ACCEPTED_CORRECTION) bucket.accepted++;
+    } else {
+      bucket.laterCorrections++;
+    }
+    correctedFields(entry).forEach(field => { bucket.corrections[field]++; });
+  });
+
+  buckets.forEach(bucket => {
+    bucket.acceptance = bucket.reviewed > 0 ? Math.round((bucket.accepted / bucket.reviewed) * 100) : null;
+  });
+  return buckets;
+};
@@ -0,0 +1,99 @@
+// Text-quote anchors for annotations on extracted document text. An anchor keeps the selected text,
+// a little context on either side and the offsets it had when created; when a new version changes
+// the text, the quote is looked up again and the occurrence with the best matching context wins.
+
+export const ANCHOR_CONTEXT_CHARS = 32;
+
+export type TextAnchor = {
+  quote: string;
+  prefix: string;
+  suffix: string;
+  start_offset: number;
+  end_offset: number;
+};
+
+export type TextRange = {
+  start: number;
+  end: number;
+};
+
+// A run of text covered by the same set of annotations
+export type AnnotatedSegment = {
+  text: string;
+  start: number;
+  annotationIds: string[];
+};
+
+export const createAnchor = (text: string, start: number, end: number): TextAnchor => ({
+  quote: text.slice(start, end),
+  prefix: text.slice(Math.max(0, start - ANCHOR_CONTEXT_CHARS), start),
+  suffix: text.slice(end, end + ANCHOR_CONTEXT_CHARS),
+  start_offset: start,
+  end_offset: end,
+});
+
+const commonSuffixLength = (a: string, b: string) => {
+  let n = 0;
+  while (n < a.length && n < b.length && a[a.length - 1 - n] === b[b.length - 1 - n]) n++;
+  return n;
+};
+
+const commonPrefixLength = (a: string, b: string) => {
+  let n = 0;
+  while (n < a.length && n < b.length && a[n] === b[n]) n++;
+  return n;
+};
+
+// Every place the quote's words appear, allowing for whitespace that changed on re-extraction
+const occurrences = (text: string, anchor: TextAnchor): TextRange[] => {
+  const words = anchor.quote.trim().split(/\s+/).filter(Boolean);
+  if (words.length === 0) return [];
+  const pattern = new RegExp(words.map(w => w.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')).join('\\s+'), 'g');
+  return Array.from(text.matchAll(pattern), match => ({
+    start: match.index ?? 0,
+    end: (match.index ?? 0) + match[0].length,
+  }));
+};
+
+// Where the anchor sits in the given text, or null when its quote no longer appears
+export const resolveAnchor = (text: string, anchor: TextAnchor): TextRange | null => {
+  if (!anchor.quote) return null;
+  if (text.slice(anchor.start_offset, anchor.end_offset) === anchor.quote) {
+    return { start: anchor.start_offset, end: anchor.end_offset };
+  }
+
+  let best: TextRange | null = null;
+  let bestScore = -Infinity;
+  occurrences(text, anchor).forEach(range => {
+    const context =
+      commonSuffixLength(text.slice(Math.max(0, range.start - anchor.prefix.length), range.start), anchor.prefix) +
+      commonPrefixLength(text.slice(range.end, range.end + anchor.suffix.length), anchor.suffix);
+    // Context decides; distance from the old position only breaks ties
+    const score = context - Math.abs(range.start - anchor.start_offset) / (text.length + 1);
+    if (score > bestScore) {
+      best = range;
+      bestScore = score;
+    }
+  });
+
+  return best;
+};
+
+// Splits text at every annotation boundary so overlapping highlights can be rendered as flat runs
+export const segmentAnnotatedText = (text: string, ranges: (TextRange & { id: string })[]): AnnotatedSegment[] => {
+  const boundaries = new Set([0, text.length]);
+  ranges.forEach(range => {
+    boundaries.add(Math.max(0, Math.min(text.length, range.start)));
+    boundaries.add(Math.max(0, Math.min(text.length, range.end)));
+  });
+
+  const points = Array.from(boundaries).sort((a, b) => a - b);
+  return points.slice(0, -1).map((start, i) => {
+    const end = points[i + 1];
+    return {
+      text: text.slice(start, end),
+      start,
+      annotationIds: ranges.filter(range => range.start <= start && range.end >= end).map(range => range.id),
+    };
+  }).filter(segment => segment.text.length > 0);
+};
@@ -0,0 +1,39 @@
+// Feedback on assistant answers. Reasons tagged on recent unhelpful answers steer chat-assistant; the rule
+// lives in supabase/functions/_shared/chatFeedback.ts, and the review page asks feedback-steering which
+// reasons are in effect.
+
+export type FeedbackType = 'helpful' | 'not_helpful';
+
+export type FeedbackReason =
+  | 'too_long'
+  | 'too_short'
+  | 'generic'
+  | 'inaccurate'
+  | 'ignored_context'
+  | 'bad_sources'
+  | 'not_actionable'
+  | 'wrong_tone';
+
+export const FEEDBACK_REASONS: { value: FeedbackReason; label: string; effect: string }[] = [
+  { value: 'too_long', label: 'Too long', effect: 'Keeps answers short' },
+  { value: 'too_short', label: 'Too short', effect: 'Gives fuller answers' },
+  { value: 'generic', label: 'Generic advice', effect: 'Ties advice to your own work' },
+  { value: 'inaccurate', label: 'Inaccurate', effect: 'Sticks to what the sources support' },
+  { value: 'ignored_context', label: 'Missed my context', effect: 'Builds on the conversation and your workspace' },
+  { value: 'bad_sources', label: 'Wrong sources', effect: 'Cites only supporting sources' },
+  { value: 'not_actionable', label: 'Not actionable', effect: 'Ends with concrete next steps' },
+  { value: 'wrong_tone', label: 'Tone', effect: 'Keeps a direct, professional tone' },
+];
+
+export const reasonLabel = (reason: string) => FEEDBACK_REASONS.find(r => r.value === reason)?.label ?? reason;
+
+type FeedbackEntry = { feedback_type: string; reasons: string[] | null };
+
+// Reasons tagged on unhelpful answers, counted over the whole list
+export const countReasons = (entries: FeedbackEntry[]) => {
+  const counts = new Map<string, number>();
+  entries
+    .filter(entry => entry.feedback_type === 'not_helpful')
+    .forEach(entry => (entry.reasons || []).forEach(reason => counts.set(reason, (counts.get(reason) ?? 0) + 1)));
+  return counts;
+};
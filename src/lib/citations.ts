@@ -0,0 +1,92 @@
+// Sources the assistant retrieved for an answer, and the [n] markers that cite them. chat-assistant
+// sends the numbered sources ahead of the answer; they are kept in the message's context_snapshot.
+
+export type CitationSourceType = 'document' | 'sop' | 'principle' | 'task' | 'insight' | 'chat';
+
+export interface CitationSource {
+  n: number;
+  type: CitationSourceType;
+  id: string;
+  title: string;
+  page: number | null;
+  excerpt: string;
+}
+
+const SOURCE_TYPES: CitationSourceType[] = ['document', 'sop', 'principle', 'task', 'insight', 'chat'];
+
+export const SOURCE_TYPE_LABELS: Record<CitationSourceType, string> = {
+  document: 'Document',
+  sop: 'SOP',
+  principle: 'Principle',
+  task: 'Task',
+  insight: 'Insight',
+  chat: 'Codex chat',
+};
+
+// Where a citation leads; pages without a way to open one item get the page itself
+export const citationHref = (source: CitationSource): string => {
+  switch (source.type) {
+    case 'document':
+      return `/library?doc=${source.id}`;
+    case 'task':
+      return `/workflow?task=${source.id}`;
+    case 'sop':
+      return '/sops';
+    case 'principle':
+      return '/principles';
+    case 'insight':
+      return '/insights';
+    case 'chat':
+      return '/codex';
+  }
+};
+
+const isSource = (value: unknown): value is CitationSource => {
+  if (!value || typeof value !== 'object') return false;
+  const source = value as Record<string, unknown>;
+  return typeof source.n === 'number'
+    && typeof source.id === 'string'
+    && typeof source.title === 'string'
+    && SOURCE_TYPES.includes(source.type as CitationSourceType);
+};
+
+// Reads the sources from a stream event or a stored context_snapshot, dropping anything malformed
+export const sourcesOf = (value: unknown): CitationSource[] => {
+  const sources = value && typeof value === 'object' ? (value as { sources?: unknown }).sources : undefined;
+  if (!Array.isArray(sources)) return [];
+  return sources.filter(isSource).map(source => ({
+    ...source,
+    page: typeof source.page === 'number' ? source.page : null,
+    excerpt: typeof source.excerpt === 'string' ? source.excerpt : '',
+  }));
+};
+
+// [1], [2, 3] and [1][2], but not a markdown link's text
+const CITATION_PATTERN = /\[(\d+(?:\s*,\s*\d+)*)\](?!\()/g;
+
+const citedNumbers = (marker: string) => marker.split(',').map(n => Number(n.trim()));
+
+// Turns citation markers into markdown links to the cited items. The link title carries the
+// source's title; numbers that match no source are left as written.
+export const linkCitations = (text: string, sources: CitationSource[]): string => {
+  if (sources.length === 0) return text;
+  const byNumber = new Map(sources.map(source => [source.n, source]));
+
+  return text.replace(CITATION_PATTERN, (marker, numbers: string) => {
+    const wanted = citedNumbers(numbers);
+    const cited = wanted.flatMap(n => byNumber.get(n) ?? []);
+    if (cited.length !== wanted.length) return marker;
+    return cited
+      .map(source => `[${source.n}](${citationHref(source)} "${source.title.replace(/"/g, "'")}")`)
+      .join('');
+  });
+};
+
+// The sources an answer actually cites, in the order of their numbers
+export const citedSources = (text: string, sources: CitationSource[]): CitationSource[] => {
+  const cited = new Set<number>();
+  for (const match of text.matchAll(CITATION_PATTERN)) {
+    citedNumbers(match[1]).forEach(n => cited.add(n));
+  }
+  return sources.filter(source => cited.has(source.n)).sort((a, b) => a.n - b.n);
+};
@@ -0,0 +1,117 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+
+const calls = vi.hoisted(() => ({
+  rpc: [] as { name: string; args: Record<string, unknown> }[],
+  replaceError: null as { message: string } | null,
+}));
+
+vi.mock("@/integrations/supabase/client", () => ({
+  supabase: {
+    rpc: async (name: string, args: Record<string, unknown>) => {
+      calls.rpc.push({ name, args });
+      if (name !== "replace_document_chunks") return { data: [], error: null };
+      return calls.replaceError
+        ? { data: null, error: calls.replaceError }
+        : { data: (args.p_chunks as unknown[]).length, error: null };
+    },
+  },
+}));
+
+// pdf.js only loads in a browser; nothing here parses files
+vi.mock("./pdfParser", () => ({ extractPdfContent: vi.fn() }));
+
+import { chunkText, indexDocumentChunks, searchDocumentChunks } from "./documentChunks";
+import { createHashEmbeddingProvider, setEmbeddingProvider, toVectorLiteral } from "./embeddings";
+
+const paragraph = (n: number) => `Paragraph ${n} talks about the supplier contract and its renewal terms. `.repeat(6);
+
+describe("chunkText", () => {
+  it("keeps short text in one chunk", () => {
+    expect(chunkText("Just a note.")).toEqual([{ index: 0, content: "Just a note.", start: 0, end: 12, page: null }]);
+  });
+
+  it("splits long text into overlapping chunks that cover all of it", () => {
+    const text = [1, 2, 3, 4, 5].map(paragraph).join("\n\n");
+    const chunks = chunkText(text);
+
+    expect(chunks.length).toBeGreaterThan(1);
+    expect(chunks[0].start).toBe(0);
+    expect(chunks[chunks.length - 1].end).toBe(text.length);
+    chunks.slice(1).forEach((chunk, i) => {
+      expect(chunk.start).toBeLessThan(chunks[i].end);
+      expect(chunk.content.length).toBeLessThanOrEqual(1200);
+    });
+  });
+
+  it("cites the page each chunk starts on", () => {
+    const text = `${paragraph(1)}\n\n${paragraph(2)}\n\n${paragraph(3)}`;
+    const half = Math.floor(text.length / 2);
+    const chunks = chunkText(text, [
+      { page: 1, start: 0, end: half },
+      { page: 2, start: half + 1, end: text.length },
+    ]);
+
+    expect(chunks[0].page).toBe(1);
+    expect(chunks[chunks.length - 1].page).toBe(2);
+  });
+});
+
+describe("with the deterministic embedding provider", () => {
+  const provider = createHashEmbeddingProvider();
+
+  beforeEach(() => {
+    calls.rpc.length = 0;
+    calls.replaceError = null;
+    setEmbeddingProvider(provider);
+  });
+  afterEach(() => setEmbeddingProvider(null));
+
+  it("swaps in each chunk with its vector and the model that produced it", async () => {
+    const text = [1, 2, 3].map(paragraph).join("\n\n");
+
+    const count = await indexDocumentChunks("doc-1", text);
+
+    const { vectors } = await provider.embed(chunkText(text).map(chunk => chunk.content));
+    expect(count).toBe(vectors.length);
+    expect(calls.rpc).toHaveLength(1);
+    const [{ name, args }] = calls.rpc;
+    expect(name).toBe("replace_document_chunks");
+    expect(args.p_document_id).toBe("doc-1");
+    const rows = args.p_chunks as Record<string, unknown>[];
+    expect(rows).toHaveLength(count);
+    rows.forEach((row, i) => {
+      expect(row).toMatchObject({
+        chunk_index: i,
+        embedding: toVectorLiteral(vectors[i]),
+        embedding_model: "hash-v1-768",
+      });
+    });
+  });
+
+  it("clears a document's chunks when it has no text", async () => {
+    expect(await indexDocumentChunks("doc-2", "")).toBe(0);
+    expect(calls.rpc).toEqual([{ name: "replace_document_chunks", args: { p_document_id: "doc-2", p_chunks: [] } }]);
+  });
+
+  it("fails without a separate delete, so the old chunks stay when the swap fails", async () => {
+    calls.replaceError = { message: "insert failed" };
+
+    await expect(indexDocumentChunks("doc-3", paragraph(1))).rejects.toEqual({ message: "insert failed" });
+    expect(calls.rpc.map(call => call.name)).toEqual(["replace_document_chunks"]);
+  });
+
+  it("searches only chunks embedded by the model that embedded the query", async () => {
+    await searchDocumentChunks("contract renewal", 10);
+
+    const { vectors: [expected] } = await provider.embed(["contract renewal"]);
+    expect(calls.rpc).toEqual([{
+      name: "match_document_chunks",
+      args: {
+        query_embedding: toVectorLiteral(expected),
+        p_embedding_model: "hash-v1-768",
+        query_text: "contract renewal",
+        match_count: 10,
+      },
+    }]);
+  });
+});
@@ -0,0 +1,138 @@
+// Splits extracted document text into overlapping chunks, embeds them and stores them in
+// document_chunks so Library search can match on what is inside a file
+
+import { supabase } from "@/integrations/supabase/client";
+import { findPageForOffset, PageOffset } from "./fileParser";
+import { getEmbeddingProvider, toVectorLiteral } from "./embeddings";
+
+export interface TextChunk {
+  index: number;
+  content: string;
+  start: number;
+  end: number;
+  page: number | null;
+}
+
+export interface ChunkMatch {
+  id: string;
+  document_id: string;
+  chunk_index: number;
+  content: string;
+  page: number | null;
+  similarity: number;
+  keyword_rank: number;
+}
+
+const CHUNK_SIZE = 1200;
+const CHUNK_OVERLAP = 200;
+const EMBED_BATCH_SIZE = 32;
+
+// Prefers to end a chunk at a paragraph break, then a sentence end, then a word boundary
+const findChunkEnd = (text: string, start: number): number => {
+  const hardEnd = Math.min(start + CHUNK_SIZE, text.length);
+  if (hardEnd === text.length) return hardEnd;
+
+  const window = text.slice(start, hardEnd);
+  const minEnd = Math.floor(CHUNK_SIZE * 0.5);
+
+  for (const pattern of [/\n\s*\n/g, /[.!?]\s/g, /\s/g]) {
+    let best = -1;
+    for (const match of window.matchAll(pattern)) {
+      if (match.index! >= minEnd) best = match.index! + match[0].length;
+    }
+    if (best > 0) return start + best;
+  }
+
+  return hardEnd;
+};
+
+export const chunkText = (text: string, pages?: PageOffset[]): TextChunk[] => {
+  const chunks: TextChunk[] = [];
+  let start = 0;
+
+  while (start < text.length) {
+    const end = findChunkEnd(text, start);
+    const content = text.slice(start, end).trim();
+
+    if (content) {
+      // Cite the page where the chunk's text begins, skipping leading whitespace
+      const leading = text.slice(start, end).search(/\S/);
+      chunks.push({
+        index: chunks.length,
+        content,
+        start,
+        end,
+        page: findPageForOffset(pages, start + Math.max(leading, 0)),
+      });
+    }
+
+    if (end >= text.length) break;
+    start = Math.max(end - CHUNK_OVERLAP, start + 1);
+    // Start the overlap on a word boundary
+    const nextSpace = text.slice(start, end).search(/\s/);
+    if (nextSpace > 0) start += nextSpace + 1;
+  }
+
+  return chunks;
+};
+
+// Replaces all stored chunks for a document with freshly embedded ones. The swap happens in one
+// transaction, so if it fails the document keeps its old chunks and stays searchable.
+export const indexDocumentChunks = async (
+  documentId: string,
+  text: string | null | undefined,
+  pages?: PageOffset[] | null
+): Promise<number> => {
+  const provider = getEmbeddingProvider();
+  const chunks = text ? chunkText(text, pages || undefined) : [];
+
+  const rows = [];
+  for (let i = 0; i < chunks.length; i += EMBED_BATCH_SIZE) {
+    const batch = chunks.slice(i, i + EMBED_BATCH_SIZE);
+    const { model, vectors } = await provider.embed(batch.map(chunk => chunk.content));
+
+    batch.forEach((chunk, j) => {
+      rows.push({
+        chunk_index: chunk.index,
+        content: chunk.content,
+        page: chunk.page,
+        start_offset: chunk.start,
+        end_offset: chunk.end,
+        embedding: toVectorLiteral(vectors[j]),
+        embedding_model: model,
+      });
+    });
+  }
+
+  const { data: count, error } = await supabase.rpc('replace_document_chunks', {
+    p_document_id: documentId,
+    p_chunks: rows,
+  });
+  if (error) throw error;
+
+  return count;
+};
+
+export const searchDocumentChunks = async (query: string, matchCount = 40): Promise<ChunkMatch[]> => {
+  const provider = getEmbeddingProvider();
+  const { model, vectors: [queryEmbedding] } = await provider.embed([query]);
+
+  const { data, error } = await supabase.rpc('match_document_chunks', {
+    query_embedding: toVectorLiteral(queryEmbedding),
+    p_embedding_model: model,
+    query_text: query,
+    match_count: matchCount,
+  });
+
+  if (error) throw error;
+  return (data || []) as ChunkMatch[];
+};
+
+// Semantic search is available once the chunk table exists and holds at least one chunk
+export const hasIndexedChunks = async (): Promise<boolean> => {
+  const { count, error } = await supabase
+    .from('document_chunks')
+    .select('id', { count: 'exact', head: true });
+
+  return !error && (count || 0) > 0;
+};
@@ -0,0 +1,207 @@
+// Content-based clustering for the Library's cluster view: TF-IDF vectors over each document's
+// title, summary, tags and extracted text, grouped with spherical k-means. Labels and keywords
+// come from the terms that weigh most in a cluster relative to the others.
+
+import { tokenize } from './embeddings';
+
+export interface ClusterableDocument {
+  id: string;
+  title: string;
+  summary?: string | null;
+  tags?: string[] | null;
+  extracted_text?: string | null;
+}
+
+export interface DocumentCluster<T> {
+  id: string;
+  label: string;
+  keywords: string[];
+  documents: T[];
+}
+
+export const MIN_CLUSTERS = 2;
+export const MAX_CLUSTERS = 20;
+export const UNCLUSTERED_ID = 'unclustered';
+
+// Enough text to characterise a document without tokenizing whole books on every render
+const MAX_TEXT_CHARS = 20000;
+const MAX_VOCABULARY = 3000;
+const MAX_ITERATIONS = 25;
+const KEYWORD_COUNT = 5;
+
+const STOP_WORDS = new Set(
+  ('the and for are but not you all any can had her was one our out day get has him his how man new now old see ' +
+    'two way who boy did its let put say she too use that with have this will your from they know want been good ' +
+    'much some time very when come here just like long make many more only over such take than them well were what ' +
+    'which their there these those would could should about after again also because before being between both each ' +
+    'into most other same then through under until while where within without onto upon per via etc may might must ' +
+    'shall does done doing going page pages http https www com org pdf doc docx file')
+    .split(' ')
+);
+
+type SparseVector = Map<number, number>;
+
+const isTerm = (token: string) => token.length > 2 && !STOP_WORDS.has(token) && !/^\d+$/.test(token);
+
+const documentTerms = (doc: ClusterableDocument): string[] => {
+  const text = [
+    // Titles and tags say more about a document than any single sentence of its body
+    doc.title, doc.title,
+    (doc.tags || []).join(' '), (doc.tags || []).join(' '),
+    doc.summary || '',
+    (doc.extracted_text || '').slice(0, MAX_TEXT_CHARS),
+  ].join(' ');
+  return tokenize(text).filter(isTerm);
+};
+
+const normalize = (vector: SparseVector): SparseVector => {
+  let norm = 0;
+  vector.forEach(value => { norm += value * value; });
+  norm = Math.sqrt(norm);
+  if (norm > 0) vector.forEach((value, key) => vector.set(key, value / norm));
+  return vector;
+};
+
+const buildVectors = (docs: ClusterableDocument[]) => {
+  const termCounts = docs.map(doc => {
+    const counts = new Map<string, number>();
+    documentTerms(doc).forEach(term => counts.set(term, (counts.get(term) || 0) + 1));
+    return counts;
+  });
+
+  const documentFrequency = new Map<string, number>();
+  termCounts.forEach(counts => counts.forEach((_, term) => documentFrequency.set(term, (documentFrequency.get(term) || 0) + 1)));
+
+  // Terms in a single document can't link it to anything, and terms in most documents can't separate them
+  const maxFrequency = docs.length >= 5 ? docs.length * 0.6 : docs.length;
+  const vocabulary = Array.from(documentFrequency.entries())
+    .filter(([, df]) => df >= 2 && df <= maxFrequency)
+    .sort((a, b) => b[1] - a[1] || a[0].localeCompare(b[0]))
+    .slice(0, MAX_VOCABULARY)
+    .map(([term]) => term);
+  const termIndex = new Map(vocabulary.map((term, i) => [term, i]));
+
+  const vectors = termCounts.map(counts => {
+    const vector: SparseVector = new Map();
+    counts.forEach((count, term) => {
+      const index = termIndex.get(term);
+      if (index === undefined) return;
+      const idf = Math.log(docs.length / (documentFrequency.get(term) || 1));
+      vector.set(index, (1 + Math.log(count)) * idf);
+    });
+    return normalize(vector);
+  });
+
+  return { vocabulary, vectors };
+};
+
+const similarity = (vector: SparseVector, centroid: Float64Array) => {
+  let sum = 0;
+  vector.forEach((value, index) => { sum += value * centroid[index]; });
+  return sum;
+};
+
+const centroidOf = (members: SparseVector[], dimensions: number) => {
+  const centroid = new Float64Array(dimensions);
+  members.forEach(vector => vector.forEach((value, index) => { centroid[index] += value; }));
+  const norm = Math.sqrt(centroid.reduce((sum, value) => sum + value * value, 0));
+  if (norm > 0) centroid.forEach((value, index) => { centroid[index] = value / norm; });
+  return centroid;
+};
+
+// Farthest-first seeding: deterministic, so the same library always clusters the same way
+const seedCentroids = (vectors: SparseVector[], k: number, dimensions: number) => {
+  const first = vectors.reduce((best, vector, i) => (vector.size > vectors[best].size ? i : best), 0);
+  const centroids = [centroidOf([vectors[first]], dimensions)];
+  const closest = vectors.map(vector => similarity(vector, centroids[0]));
+
+  while (centroids.length < k) {
+    const next = closest.reduce((best, value, i) => (value < closest[best] ? i : best), 0);
+    const centroid = centroidOf([vectors[next]], dimensions);
+    centroids.push(centroid);
+    vectors.forEach((vector, i) => { closest[i] = Math.max(closest[i], similarity(vector, centroid)); });
+  }
+  return centroids;
+};
+
+const assign = (vectors: SparseVector[], centroids: Float64Array[]) =>
+  vectors.map(vector => {
+    let best = 0;
+    let bestScore = -Infinity;
+    centroids.forEach((centroid, i) => {
+      const score = similarity(vector, centroid);
+      if (score > bestScore) {
+        best = i;
+        bestScore = score;
+      }
+    });
+    return best;
+  });
+
+const titleCase = (term: string) => term.charAt(0).toUpperCase() + term.slice(1);
+
+// A reasonable starting granularity for a library of this size
+export const suggestedClusterCount = (documentCount: number) =>
+  Math.max(MIN_CLUSTERS, Math.min(MAX_CLUSTERS, Math.round(Math.sqrt(documentCount / 2))));
+
+export const clusterDocuments = <T extends ClusterableDocument>(docs: T[], clusterCount: number): DocumentCluster<T>[] => {
+  const { vocabulary, vectors } = buildVectors(docs);
+  const clusterable = docs.map((doc, i) => ({ doc, vector: vectors[i] })).filter(({ vector }) => vector.size > 0);
+  const unclustered = docs.filter((_, i) => vectors[i].size === 0);
+
+  const clusters: DocumentCluster<T>[] = [];
+  const k = Math.min(clusterCount, clusterable.length);
+
+  if (k > 0) {
+    const members = clusterable.map(({ vector }) => vector);
+    let centroids = seedCentroids(members, k, vocabulary.length);
+    let assignments = assign(members, centroids);
+
+    for (let iteration = 0; iteration < MAX_ITERATIONS; iteration++) {
+      centroids = centroids.map((centroid, c) => {
+        const assigned = members.filter((_, i) => assignments[i] === c);
+        // An emptied cluster keeps its old centroid rather than collapsing to zero
+        return assigned.length > 0 ? centroidOf(assigned, vocabulary.length) : centroid;
+      });
+      const next = assign(members, centroids);
+      const changed = next.some((c, i) => c !== assignments[i]);
+      assignments = next;
+      if (!changed) break;
+    }
+
+    // Rank terms by how much more they weigh in this cluster than on average across the others
+    const mean = new Float64Array(vocabulary.length);
+    centroids.forEach(centroid => centroid.forEach((value, index) => { mean[index] += value / centroids.length; }));
+
+    centroids.forEach((centroid, c) => {
+      const documents = clusterable.filter((_, i) => assignments[i] === c).map(({ doc }) => doc);
+      if (documents.length === 0) return;
+
+      const keywords = Array.from(centroid.keys())
+        .filter(index => centroid[index] > 0)
+        .sort((a, b) => (centroid[b] - mean[b]) - (centroid[a] - mean[a]))
+        .slice(0, KEYWORD_COUNT)
+        .map(index => vocabulary[index]);
+
+      clusters.push({
+        id: `cluster-${c}-${keywords[0] ?? ''}`,
+        label: keywords.slice(0, 2).map(titleCase).join(' & ') || 'Miscellaneous',
+        keywords,
+        documents,
+      });
+    });
+  }
+
+  clusters.sort((a, b) => b.documents.length - a.documents.length);
+
+  if (unclustered.length > 0) {
+    clusters.push({
+      id: UNCLUSTERED_ID,
+      label: 'Not enough shared text',
+      keywords: [],
+      documents: unclustered,
+    });
+  }
+
+  return clusters;
+};
@@ -0,0 +1,50 @@
+// Access to the private documents bucket. Every stored file has one key, fixed when its upload is
+// queued and saved on the document as storage_path; links are short-lived signed URLs made on demand.
+
+import { supabase } from '@/integrations/supabase/client';
+
+export const DOCUMENTS_BUCKET = 'documents';
+export const SIGNED_URL_TTL_SECONDS = 300;
+
+// "<user id>/<document id>/<upload id>-<file name>". The first segment is what the bucket's RLS
+// policies check; the document folder keeps every version of a document together.
+export const buildStoragePath = (userId: string, documentId: string, uploadId: string, fileName: string) =>
+  `${userId}/${documentId}/${uploadId}-${fileName.replace(/[^\w.-]+/g, '_')}`;
+
+export const createSignedFileUrl = async (storagePath: string, download?: string) => {
+  const { data, error } = await supabase.storage
+    .from(DOCUMENTS_BUCKET)
+    .createSignedUrl(storagePath, SIGNED_URL_TTL_SECONDS, download ? { download } : undefined);
+
+  if (error) throw error;
+  return data.signedUrl;
+};
+
+// Opens the window before the URL is signed, so popup blockers still see it as a user action
+export const openStoredFile = async (storagePath: string) => {
+  const tab = window.open('', '_blank');
+  try {
+    const url = await createSignedFileUrl(storagePath);
+    if (tab) {
+      tab.location.href = url;
+    } else {
+      window.location.href = url;
+    }
+  } catch (error) {
+    tab?.close();
+    throw error;
+  }
+};
+
+// Fetches a stored file for in-app previews, typed and named like the original upload
+export const downloadStoredFile = async (storagePath: string, fileName: string, fileType: string) => {
+  const { data, error } = await supabase.storage.from(DOCUMENTS_BUCKET).download(storagePath);
+  if (error) throw error;
+  return new File([data], fileName, { type: fileType });
+};
+
+export const removeStoredFiles = async (storagePaths: string[]) => {
+  if (storagePaths.length === 0) return;
+  const { error } = await supabase.storage.from(DOCUMENTS_BUCKET).remove(storagePaths);
+  if (error) throw error;
+};
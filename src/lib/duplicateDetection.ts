@@ -0,0 +1,171 @@
+// Exact and near-duplicate detection: a SHA-256 hash of the file bytes catches identical uploads,
+// and a MinHash fingerprint over word shingles estimates how much text two documents share.
+
+import { tokenize } from './embeddings';
+
+export const FINGERPRINT_SIZE = 64;
+const SHINGLE_SIZE = 5;
+// Estimated Jaccard similarity at which two documents count as near-duplicates
+export const NEAR_DUPLICATE_THRESHOLD = 0.7;
+
+export interface FingerprintedDocument {
+  id: string;
+  content_hash?: string | null;
+  text_fingerprint?: number[] | null;
+  extracted_text?: string | null;
+}
+
+export interface DuplicateMatch<T> {
+  document: T;
+  kind: 'exact' | 'near';
+  similarity: number;
+}
+
+export const hashFileContent = async (file: Blob): Promise<string> => {
+  const digest = await crypto.subtle.digest('SHA-256', await file.arrayBuffer());
+  return Array.from(new Uint8Array(digest), byte => byte.toString(16).padStart(2, '0')).join('');
+};
+
+const fnv1a = (text: string) => {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < text.length; i++) {
+    hash ^= text.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+};
+
+// Murmur3 finaliser, used to derive one independent hash function per fingerprint slot
+const mix = (value: number, seed: number) => {
+  let h = (value ^ Math.imul(seed + 1, 0x9e3779b9)) >>> 0;
+  h ^= h >>> 16;
+  h = Math.imul(h, 0x85ebca6b);
+  h ^= h >>> 13;
+  h = Math.imul(h, 0xc2b2ae35);
+  h ^= h >>> 16;
+  return h >>> 0;
+};
+
+// MinHash signature of the text's word shingles, stored as signed 32-bit integers for Postgres.
+// Returns null when the text is too short to say anything useful about similarity.
+export const computeFingerprint = (text: string | null | undefined): number[] | null => {
+  const words = tokenize(text || '');
+  if (words.length < SHINGLE_SIZE) return null;
+
+  const shingles = new Set<number>();
+  for (let i = 0; i <= words.length - SHINGLE_SIZE; i++) {
+    shingles.add(fnv1a(words.slice(i, i + SHINGLE_SIZE).join(' ')));
+  }
+
+  const signature = new Array<number>(FINGERPRINT_SIZE).fill(0xffffffff);
+  shingles.forEach(shingle => {
+    for (let seed = 0; seed < FINGERPRINT_SIZE; seed++) {
+      const h = mix(shingle, seed);
+      if (h < signature[seed]) signature[seed] = h;
+    }
+  });
+
+  return signature.map(h => h | 0);
+};
+
+export const estimateSimilarity = (a: number[], b: number[]) => {
+  if (a.length !== b.length || a.length === 0) return 0;
+  let same = 0;
+  for (let i = 0; i < a.length; i++) {
+    if (a[i] === b[i]) same++;
+  }
+  return same / a.length;
+};
+
+// Documents saved before fingerprinting existed fall back to a fingerprint of their extracted text
+const fingerprintOf = (document: Omit<FingerprintedDocument, 'id'>) =>
+  document.text_fingerprint?.length === FINGERPRINT_SIZE
+    ? document.text_fingerprint
+    : computeFingerprint(document.extracted_text);
+
+const compare = (
+  a: { hash?: string | null; fingerprint: number[] | null },
+  b: { hash?: string | null; fingerprint: number[] | null },
+  threshold: number
+): Pick<DuplicateMatch<unknown>, 'kind' | 'similarity'> | null => {
+  if (a.hash && a.hash === b.hash) return { kind: 'exact', similarity: 1 };
+  if (!a.fingerprint || !b.fingerprint) return null;
+
+  const similarity = estimateSimilarity(a.fingerprint, b.fingerprint);
+  return similarity >= threshold ? { kind: 'near', similarity } : null;
+};
+
+// Existing documents that match the candidate, exact matches first, then by similarity
+export const findDuplicates = <T extends FingerprintedDocument>(
+  candidate: Omit<FingerprintedDocument, 'id'>,
+  documents: T[],
+  threshold = NEAR_DUPLICATE_THRESHOLD
+): DuplicateMatch<T>[] => {
+  const candidateKey = { hash: candidate.content_hash, fingerprint: fingerprintOf(candidate) };
+
+  return documents
+    .flatMap(document => {
+      const match = compare(
+        candidateKey,
+        { hash: document.content_hash, fingerprint: fingerprintOf(document) },
+        threshold
+      );
+      return match ? [{ document, ...match }] : [];
+    })
+    .sort((a, b) => (a.kind === b.kind ? b.similarity - a.similarity : a.kind === 'exact' ? -1 : 1));
+};
+
+// Groups documents into clusters of mutual duplicates (transitively), largest clusters first
+export const clusterDuplicates = <T extends FingerprintedDocument>(
+  documents: T[],
+  threshold = NEAR_DUPLICATE_THRESHOLD
+): { documents: T[]; exact: boolean; similarity: number }[] => {
+  const keys = documents.map(document => ({ hash: document.content_hash, fingerprint: fingerprintOf(document) }));
+  const parent = documents.map((_, index) => index);
+  const find = (i: number): number => {
+    while (parent[i] !== i) {
+      parent[i] = parent[parent[i]];
+      i = parent[i];
+    }
+    return i;
+  };
+
+  // Lowest similarity seen inside each cluster, and whether every link was an exact match
+  const minSimilarity = new Map<number, number>();
+  const allExact = new Map<number, boolean>();
+
+  for (let i = 0; i < documents.length; i++) {
+    for (let j = i + 1; j < documents.length; j++) {
+      const match = compare(keys[i], keys[j], threshold);
+      if (!match) continue;
+
+      const rootI = find(i);
+      const rootJ = find(j);
+      const similarity = Math.min(
+        match.similarity,
+        minSimilarity.get(rootI) ?? 1,
+        minSimilarity.get(rootJ) ?? 1
+      );
+      const exact = match.kind === 'exact' && (allExact.get(rootI) ?? true) && (allExact.get(rootJ) ?? true);
+
+      parent[rootJ] = rootI;
+      minSimilarity.set(rootI, similarity);
+      allExact.set(rootI, exact);
+    }
+  }
+
+  const clusters = new Map<number, T[]>();
+  documents.forEach((document, index) => {
+    const root = find(index);
+    clusters.set(root, [...(clusters.get(root) || []), document]);
+  });
+
+  return Array.from(clusters.entries())
+    .filter(([, members]) => members.length > 1)
+    .map(([root, members]) => ({
+      documents: members,
+      exact: allExact.get(root) ?? false,
+      similarity: minSimilarity.get(root) ?? 1,
+    }))
+    .sort((a, b) => b.documents.length - a.documents.length || b.similarity - a.similarity);
+};
@@ -0,0 +1,105 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+
+const invoke = vi.fn();
+vi.mock("@/integrations/supabase/client", () => ({
+  supabase: { functions: { invoke: (...args: unknown[]) => invoke(...args) } },
+}));
+
+import {
+  createHashEmbeddingProvider,
+  createRemoteEmbeddingProvider,
+  EMBEDDING_DIMENSIONS,
+  getEmbeddingProvider,
+  setEmbeddingProvider,
+  tokenize,
+} from "./embeddings";
+
+const cosine = (a: number[], b: number[]) => a.reduce((sum, v, i) => sum + v * b[i], 0);
+
+describe("tokenize", () => {
+  it("lowercases, strips accents and drops single characters", () => {
+    expect(tokenize("Café Résumé: a Q3 plan")).toEqual(["cafe", "resume", "q3", "plan"]);
+  });
+
+  it("keeps words of every script", () => {
+    expect(tokenize("Отчёт о продажах, Αθήνα 2026; 東京 会議")).toEqual(["отчет", "продажах", "αθηνα", "2026", "東京", "会議"]);
+  });
+});
+
+describe("createHashEmbeddingProvider", () => {
+  const provider = createHashEmbeddingProvider();
+
+  it("returns unit vectors of the configured size under a stable model id", async () => {
+    const { model, vectors } = await provider.embed(["quarterly budget review", "hiring plan"]);
+
+    expect(model).toBe(`hash-v1-${EMBEDDING_DIMENSIONS}`);
+    expect(vectors).toHaveLength(2);
+    vectors.forEach(vector => {
+      expect(vector).toHaveLength(EMBEDDING_DIMENSIONS);
+      expect(cosine(vector, vector)).toBeCloseTo(1);
+    });
+  });
+
+  it("is deterministic", async () => {
+    const first = await provider.embed(["the same text"]);
+    const second = await createHashEmbeddingProvider().embed(["the same text"]);
+    expect(second.vectors).toEqual(first.vectors);
+  });
+
+  it("places texts that share words closer than unrelated ones", async () => {
+    const { vectors: [query, related, unrelated] } = await provider.embed([
+      "supplier contract renewal",
+      "renewal terms for the supplier contract",
+      "team offsite agenda and travel",
+    ]);
+    expect(cosine(query, related)).toBeGreaterThan(cosine(query, unrelated));
+  });
+
+  it("names its model after the dimensions, since vectors of different sizes never compare", async () => {
+    const { model, vectors } = await createHashEmbeddingProvider(16).embed(["short"]);
+    expect(model).toBe("hash-v1-16");
+    expect(vectors[0]).toHaveLength(16);
+  });
+
+  it("leaves a text without tokens as a zero vector", async () => {
+    const { vectors: [vector] } = await provider.embed(["- !"]);
+    expect(vector.every(v => v === 0)).toBe(true);
+  });
+});
+
+describe("createRemoteEmbeddingProvider", () => {
+  beforeEach(() => invoke.mockReset());
+
+  it("reports the model embed-text used", async () => {
+    invoke.mockResolvedValue({ data: { embeddings: [[3, 4]], model: "openai/text-embedding-3-small" }, error: null });
+
+    const result = await createRemoteEmbeddingProvider(2).embed(["hello"]);
+
+    expect(invoke).toHaveBeenCalledWith("embed-text", { body: { texts: ["hello"], dimensions: 2 } });
+    expect(result.model).toBe("openai/text-embedding-3-small");
+    expect(result.vectors[0][0]).toBeCloseTo(0.6);
+    expect(result.vectors[0][1]).toBeCloseTo(0.8);
+  });
+
+  it("rejects a reply without the model or with the wrong number of vectors", async () => {
+    invoke.mockResolvedValue({ data: { embeddings: [[1, 0]] }, error: null });
+    await expect(createRemoteEmbeddingProvider(2).embed(["a"])).rejects.toThrow("unexpected response");
+
+    invoke.mockResolvedValue({ data: { embeddings: [], model: "m" }, error: null });
+    await expect(createRemoteEmbeddingProvider(2).embed(["a"])).rejects.toThrow("unexpected response");
+  });
+
+  it("passes on errors from the function", async () => {
+    invoke.mockResolvedValue({ data: null, error: new Error("Unauthorized") });
+    await expect(createRemoteEmbeddingProvider().embed(["a"])).rejects.toThrow("Unauthorized");
+  });
+});
+
+describe("setEmbeddingProvider", () => {
+  it("swaps the provider indexing and search use", () => {
+    const provider = createHashEmbeddingProvider(8);
+    setEmbeddingProvider(provider);
+    expect(getEmbeddingProvider()).toBe(provider);
+    setEmbeddingProvider(null);
+  });
+});
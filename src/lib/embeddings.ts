@@ -0,0 +1,102 @@
+// Pluggable embedding providers for document chunks and search queries.
+// Vectors from different models are not comparable, so every stored chunk records the model
+// it was embedded with and searches only match chunks from the model that embedded the query.
+
+import { supabase } from "@/integrations/supabase/client";
+
+// Must match the vector column dimension of document_chunks.embedding
+export const EMBEDDING_DIMENSIONS = 768;
+
+export interface Embeddings {
+  // The model that produced the vectors, as reported by whoever computed them
+  model: string;
+  vectors: number[][];
+}
+
+export interface EmbeddingProvider {
+  dimensions: number;
+  embed: (texts: string[]) => Promise<Embeddings>;
+}
+
+const normalize = (vector: number[]): number[] => {
+  const norm = Math.sqrt(vector.reduce((sum, v) => sum + v * v, 0));
+  return norm === 0 ? vector : vector.map(v => v / norm);
+};
+
+// 32-bit FNV-1a, used to map tokens onto vector dimensions
+const hashToken = (token: string): number => {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < token.length; i++) {
+    hash ^= token.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+};
+
+// Words are runs of letters and digits of any script, as tags are keyed; Latin accents are dropped
+export const tokenize = (text: string): string[] =>
+  text
+    .toLowerCase()
+    .normalize('NFKD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .split(/[^\p{L}\p{M}\p{N}]+/u)
+    .filter(token => token.length > 1);
+
+// Deterministic, offline provider using the hashing trick over words and word bigrams.
+// It captures lexical overlap rather than meaning, which makes it suitable for tests
+// and local development where no embedding API is available.
+export const createHashEmbeddingProvider = (dimensions = EMBEDDING_DIMENSIONS): EmbeddingProvider => ({
+  dimensions,
+  embed: async (texts) => ({
+    model: `hash-v1-${dimensions}`,
+    vectors: texts.map(text => {
+      const vector = new Array<number>(dimensions).fill(0);
+      const tokens = tokenize(text);
+      const features = [...tokens, ...tokens.slice(1).map((token, i) => `${tokens[i]}_${token}`)];
+
+      features.forEach(feature => {
+        const hash = hashToken(feature);
+        // The top bit picks the sign so unrelated features cancel out instead of piling up
+        vector[hash % dimensions] += hash & 0x80000000 ? -1 : 1;
+      });
+
+      return normalize(vector);
+    }),
+  }),
+});
+
+// Provider backed by the embed-text edge function, which calls the configured embedding API and
+// reports the model it used
+export const createRemoteEmbeddingProvider = (dimensions = EMBEDDING_DIMENSIONS): EmbeddingProvider => ({
+  dimensions,
+  embed: async (texts) => {
+    const { data, error } = await supabase.functions.invoke('embed-text', {
+      body: { texts, dimensions },
+    });
+
+    if (error) throw error;
+    if (!Array.isArray(data?.embeddings) || data.embeddings.length !== texts.length || typeof data.model !== 'string') {
+      throw new Error('Embedding service returned an unexpected response');
+    }
+
+    return { model: data.model, vectors: (data.embeddings as number[][]).map(normalize) };
+  },
+});
+
+let activeProvider: EmbeddingProvider | null = null;
+
+export const getEmbeddingProvider = (): EmbeddingProvider => {
+  if (!activeProvider) {
+    activeProvider = import.meta.env.VITE_EMBEDDING_PROVIDER === 'hash'
+      ? createHashEmbeddingProvider()
+      : createRemoteEmbeddingProvider();
+  }
+  return activeProvider;
+};
+
+// Swaps the provider used by indexing and search, e.g. for a deterministic one in tests
+export const setEmbeddingProvider = (provider: EmbeddingProvider | null) => {
+  activeProvider = provider;
+};
+
+export const toVectorLiteral = (vector: number[]): string => `[${vector.join(',')}]`;
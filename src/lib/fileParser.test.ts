@@ -0,0 +1,83 @@
+import { beforeAll, describe, expect, it, vi } from "vitest";
+
+// Each parser answers with its own name, so the test sees which one a type was routed to
+const parsers = vi.hoisted(() => {
+  const named = (name: string) => async () => ({ text: name });
+  return {
+    extractPdfContent: named("pdf"),
+    extractDocxContent: named("docx"),
+    extractOdtContent: named("odt"),
+    extractRtfContent: named("rtf"),
+    extractPptxContent: named("pptx"),
+    extractOdpContent: named("odp"),
+    extractCsvContent: named("csv"),
+    extractWorkbookContent: named("workbook"),
+  };
+});
+
+vi.mock("./pdfParser", () => ({ extractPdfContent: parsers.extractPdfContent }));
+vi.mock("./officeParser", () => ({
+  extractDocxContent: parsers.extractDocxContent,
+  extractOdtContent: parsers.extractOdtContent,
+  extractRtfContent: parsers.extractRtfContent,
+  extractPptxContent: parsers.extractPptxContent,
+  extractOdpContent: parsers.extractOdpContent,
+}));
+vi.mock("./spreadsheetParser", () => ({
+  extractCsvContent: parsers.extractCsvContent,
+  extractWorkbookContent: parsers.extractWorkbookContent,
+}));
+
+import { extractStructuredContent, SUPPORTED_FILE_TYPES } from "./fileParser";
+
+// Read as text: the file's own contents come back
+const TEXT = "file contents";
+// Left to the AI: a description of the file comes back
+const DESCRIBED = "described";
+
+const ROUTES: Record<keyof typeof SUPPORTED_FILE_TYPES, string> = {
+  "application/pdf": "pdf",
+  "application/msword": DESCRIBED,
+  "application/vnd.openxmlformats-officedocument.wordprocessingml.document": "docx",
+  "text/plain": TEXT,
+  "text/rtf": "rtf",
+  "application/rtf": "rtf",
+  "application/vnd.oasis.opendocument.text": "odt",
+  "application/vnd.ms-excel": "workbook",
+  "application/vnd.openxmlformats-officedocument.spreadsheetml.sheet": "workbook",
+  "text/csv": "csv",
+  "application/vnd.oasis.opendocument.spreadsheet": "workbook",
+  "application/json": TEXT,
+  "application/xml": TEXT,
+  "text/xml": TEXT,
+  "application/x-yaml": TEXT,
+  "text/yaml": TEXT,
+  "text/markdown": TEXT,
+  "application/vnd.ms-powerpoint": DESCRIBED,
+  "application/vnd.openxmlformats-officedocument.presentationml.presentation": "pptx",
+  "application/vnd.oasis.opendocument.presentation": "odp",
+  "image/png": DESCRIBED,
+  "image/jpeg": DESCRIBED,
+  "image/gif": DESCRIBED,
+  "image/webp": DESCRIBED,
+};
+
+beforeAll(() => {
+  // Node has File but not FileReader
+  vi.stubGlobal("FileReader", class {
+    onload: ((event: { target: { result: string } }) => void) | null = null;
+    onerror: ((event: unknown) => void) | null = null;
+    readAsText(file: File) {
+      file.text().then(result => this.onload?.({ target: { result } }), error => this.onerror?.(error));
+    }
+  });
+});
+
+describe("extractStructuredContent", () => {
+  it.each(Object.entries(ROUTES))("routes %s to its parser", async (type, route) => {
+    const { text } = await extractStructuredContent(new File([TEXT], "upload", { type }));
+
+    if (route === DESCRIBED) expect(text).toContain("This file type will be analyzed by AI");
+    else expect(text).toBe(route);
+  });
+});
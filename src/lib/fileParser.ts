@@ -1,5 +1,42 @@
 // File parser utilities for extracting text from various file types
 
+import { extractPdfContent } from './pdfParser';
+import {
+  extractDocxContent,
+  extractOdpContent,
+  extractOdtContent,
+  extractPptxContent,
+  extractRtfContent,
+} from './officeParser';
+import { extractCsvContent, extractWorkbookContent, SheetSchema } from './spreadsheetParser';
+
+// Declared as type aliases so they stay assignable to the Json columns they are stored in
+
+// Character range of a single page within ExtractedContent.text
+export type PageOffset = {
+  page: number;
+  start: number;
+  end: number;
+};
+
+export type DocumentMetadata = {
+  title?: string;
+  author?: string;
+  subject?: string;
+  keywords?: string;
+  creator?: string;
+  createdAt?: string;
+  modifiedAt?: string;
+  pageCount?: number;
+};
+
+export interface ExtractedContent {
+  text: string;
+  pages?: PageOffset[];
+  metadata?: DocumentMetadata;
+  tables?: SheetSchema[];
+}
+
 export const SUPPORTED_FILE_TYPES = {
   // Documents
   'application/pdf': { ext: '.pdf', label: 'PDF' },
@@ -30,6 +67,12 @@ export const SUPPORTED_FILE_TYPES = {
   'application/vnd.ms-powerpoint': { ext: '.ppt', label: 'PowerPoint (PPT)' },
   'application/vnd.openxmlformats-officedocument.presentationml.presentation': { ext: '.pptx', label: 'PowerPoint (PPTX)' },
   'application/vnd.oasis.opendocument.presentation': { ext: '.odp', label: 'OpenDocument Presentation' },
+
+  // Images
+  'image/png': { ext: '.png', label: 'Image (PNG)' },
+  'image/jpeg': { ext: '.jpg', label: 'Image (JPEG)' },
+  'image/gif': { ext: '.gif', label: 'Image (GIF)' },
+  'image/webp': { ext: '.webp', label: 'Image (WebP)' },
 };
 
 export const isFileTypeSupported = (mimeType: string): boolean => {
@@ -59,29 +102,33 @@ export const parseJSONFile = async (file: File): Promise<string> => {
   }
 };
 
-export const parseCSVFile = async (file: File): Promise<string> => {
-  const text = await parseTextFile(file);
-  const lines = text.split('\n');
-  const preview = lines.slice(0, 10).join('\n');
-  return `CSV File (${lines.length} rows)\n\nPreview:\n${preview}`;
+export const parseCSVFile = async (file: File): Promise<ExtractedContent> => {
+  return extractCsvContent(file);
 };
 
-export const parsePDFFile = async (file: File): Promise<string> => {
-  // For PDF files, we'll need a library like pdf.js
-  // For now, return a placeholder that indicates the file type
-  return `PDF Document: ${file.name}\nSize: ${formatFileSize(file.size)}\n\nNote: Full text extraction from PDF requires additional processing. This file has been uploaded and will be analyzed by AI.`;
+export const parsePDFFile = async (file: File): Promise<ExtractedContent> => {
+  return extractPdfContent(file);
 };
 
-export const parseDocxFile = async (file: File): Promise<string> => {
-  // For DOCX files, we'll need a library like mammoth
-  // For now, return a placeholder
-  return `Word Document: ${file.name}\nSize: ${formatFileSize(file.size)}\n\nNote: Full text extraction from DOCX requires additional processing. This file has been uploaded and will be analyzed by AI.`;
+export const parseDocxFile = async (file: File): Promise<ExtractedContent> => {
+  return extractDocxContent(file);
 };
 
-export const parseExcelFile = async (file: File): Promise<string> => {
-  // For Excel files, we'll need a library like xlsx
-  // For now, return a placeholder
-  return `Excel Spreadsheet: ${file.name}\nSize: ${formatFileSize(file.size)}\n\nNote: Full data extraction from Excel requires additional processing. This file has been uploaded and will be analyzed by AI.`;
+// Office formats with structured extraction, keyed by MIME type.
+// Legacy binary formats (DOC, PPT) are not listed and fall through to AI-only analysis.
+const OFFICE_PARSERS: Record<string, (file: File) => Promise<ExtractedContent>> = {
+  'application/vnd.openxmlformats-officedocument.wordprocessingml.document': parseDocxFile,
+  'application/vnd.oasis.opendocument.text': extractOdtContent,
+  'text/rtf': extractRtfContent,
+  'application/rtf': extractRtfContent,
+  'application/vnd.openxmlformats-officedocument.presentationml.presentation': extractPptxContent,
+  'application/vnd.oasis.opendocument.presentation': extractOdpContent,
+};
+
+const XML_YAML_TYPES = new Set(['application/xml', 'text/xml', 'application/x-yaml', 'text/yaml']);
+
+export const parseExcelFile = async (file: File): Promise<ExtractedContent> => {
+  return extractWorkbookContent(file);
 };
 
 export const formatFileSize = (bytes: number): string => {
@@ -92,18 +139,18 @@ export const formatFileSize = (bytes: number): string => {
   return Math.round((bytes / Math.pow(k, i)) * 100) / 100 + ' ' + sizes[i];
 };
 
-export const extractFileContent = async (file: File): Promise<string> => {
+export const extractStructuredContent = async (file: File): Promise<ExtractedContent> => {
   const mimeType = file.type;
   
   try {
     // Text-based files
     if (mimeType === 'text/plain' || mimeType === 'text/markdown') {
-      return await parseTextFile(file);
+      return { text: await parseTextFile(file) };
     }
     
     // JSON
     if (mimeType === 'application/json') {
-      return await parseJSONFile(file);
+      return { text: await parseJSONFile(file) };
     }
     
     // CSV
@@ -111,9 +158,9 @@ export const extractFileContent = async (file: File): Promise<string> => {
       return await parseCSVFile(file);
     }
     
-    // XML/YAML
-    if (mimeType.includes('xml') || mimeType.includes('yaml')) {
-      return await parseTextFile(file);
+    // XML/YAML, by exact type: the OOXML types of DOCX, XLSX and PPTX also contain "xml"
+    if (XML_YAML_TYPES.has(mimeType)) {
+      return { text: await parseTextFile(file) };
     }
     
     // PDF
@@ -121,9 +168,9 @@ export const extractFileContent = async (file: File): Promise<string> => {
       return await parsePDFFile(file);
     }
     
-    // Word documents
-    if (mimeType.includes('word') || mimeType.includes('document')) {
-      return await parseDocxFile(file);
+    // Word processing documents and presentations
+    if (mimeType in OFFICE_PARSERS) {
+      return await OFFICE_PARSERS[mimeType](file);
     }
     
     // Excel/Spreadsheets
@@ -132,10 +179,22 @@ export const extractFileContent = async (file: File): Promise<string> => {
     }
     
     // Default fallback
-    return `${file.name}\nSize: ${formatFileSize(file.size)}\nType: ${getFileTypeLabel(mimeType)}\n\nThis file type will be analyzed by AI for categorization.`;
+    return { text: `${file.name}\nSize: ${formatFileSize(file.size)}\nType: ${getFileTypeLabel(mimeType)}\n\nThis file type will be analyzed by AI for categorization.` };
     
   } catch (error) {
     console.error('Error extracting file content:', error);
-    return `Error extracting content from ${file.name}. File will be uploaded for AI analysis.`;
+    return { text: `Error extracting content from ${file.name}. File will be uploaded for AI analysis.` };
   }
-};
\ No newline at end of file
+};
+
+export const extractFileContent = async (file: File): Promise<string> => {
+  const { text } = await extractStructuredContent(file);
+  return text;
+};
+
+// Returns the 1-based page containing a character offset, if page offsets are known
+export const findPageForOffset = (pages: PageOffset[] | undefined, offset: number): number | null => {
+  if (!pages || pages.length === 0) return null;
+  const page = pages.find(p => offset >= p.start && offset <= p.end);
+  return page ? page.page : null;
+};
@@ -0,0 +1,75 @@
+// Hybrid ranking: blends metadata keyword scores (title, summary, tags) with chunk-level
+// vector similarity and full-text rank into a single 0-100 relevance score per document
+
+import type { ChunkMatch } from "./documentChunks";
+
+export interface HybridOptions {
+  // Weight of vector similarity; the remainder goes to keyword evidence
+  vectorWeight?: number;
+  // Similarities below this are treated as noise rather than weak matches
+  minSimilarity?: number;
+}
+
+export interface HybridResult {
+  documentId: string;
+  score: number;
+  vectorScore: number;
+  keywordScore: number;
+  bestChunk?: ChunkMatch;
+}
+
+const DEFAULT_OPTIONS: Required<HybridOptions> = {
+  vectorWeight: 0.6,
+  minSimilarity: 0.25,
+};
+
+export const rankHybrid = (
+  metadataScores: Map<string, number>,
+  chunks: ChunkMatch[],
+  options: HybridOptions = {}
+): HybridResult[] => {
+  const { vectorWeight, minSimilarity } = { ...DEFAULT_OPTIONS, ...options };
+
+  const maxMetadata = Math.max(0, ...metadataScores.values());
+  const maxKeywordRank = Math.max(0, ...chunks.map(c => c.keyword_rank));
+
+  // Rescale similarity so minSimilarity maps to 0 and a perfect match to 1
+  const vectorOf = (chunk: ChunkMatch) =>
+    Math.max(0, (chunk.similarity - minSimilarity) / (1 - minSimilarity));
+  const keywordOf = (chunk: ChunkMatch) => (maxKeywordRank > 0 ? chunk.keyword_rank / maxKeywordRank : 0);
+  const chunkScore = (chunk: ChunkMatch) => vectorWeight * vectorOf(chunk) + (1 - vectorWeight) * keywordOf(chunk);
+
+  const results = new Map<string, HybridResult>();
+  const resultFor = (documentId: string) => {
+    if (!results.has(documentId)) {
+      results.set(documentId, { documentId, score: 0, vectorScore: 0, keywordScore: 0 });
+    }
+    return results.get(documentId)!;
+  };
+
+  metadataScores.forEach((score, documentId) => {
+    if (score <= 0 || maxMetadata === 0) return;
+    resultFor(documentId).keywordScore = score / maxMetadata;
+  });
+
+  chunks.forEach(chunk => {
+    const vector = vectorOf(chunk);
+    const keyword = keywordOf(chunk);
+    if (vector === 0 && keyword === 0) return;
+
+    const result = resultFor(chunk.document_id);
+    result.vectorScore = Math.max(result.vectorScore, vector);
+    result.keywordScore = Math.max(result.keywordScore, keyword);
+    if (!result.bestChunk || chunkScore(chunk) > chunkScore(result.bestChunk)) {
+      result.bestChunk = chunk;
+    }
+  });
+
+  return Array.from(results.values())
+    .map(result => ({
+      ...result,
+      score: Math.round(100 * (vectorWeight * result.vectorScore + (1 - vectorWeight) * result.keywordScore)),
+    }))
+    .filter(result => result.score > 0)
+    .sort((a, b) => b.score - a.score);
+};
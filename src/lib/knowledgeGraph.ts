@@ -0,0 +1,367 @@
+// Knowledge graph data: typed nodes and edges built from library, workflow and codex rows, and
+// on-demand loading of a node's neighbourhood. Edges may point at nodes that are not loaded yet;
+// they are kept and drawn once both ends are on the graph.
+
+import { supabase } from '@/integrations/supabase/client';
+import type { Tables } from '@/integrations/supabase/types';
+import type { RelatedItems } from '@/hooks/useDocuments';
+
+export const GRAPH_NODE_TYPES = ['document', 'principle', 'project', 'sop', 'task', 'insight', 'chat', 'tag'] as const;
+export type GraphNodeType = typeof GRAPH_NODE_TYPES[number];
+
+export const GRAPH_EDGE_TYPES = ['aligned_with', 'belongs_to', 'follows_sop', 'ai_related', 'linked', 'tagged'] as const;
+export type GraphEdgeType = typeof GRAPH_EDGE_TYPES[number];
+
+// Per relation, when a node is expanded; expanding a neighbour reaches further
+export const NEIGHBOUR_LIMIT = 25;
+
+export type GraphNode = {
+  id: string;
+  type: GraphNodeType;
+  entityId: string;
+  name: string;
+  createdAt?: string | null;
+};
+
+export type GraphEdge = {
+  id: string;
+  source: string;
+  target: string;
+  type: GraphEdgeType;
+};
+
+export type GraphFragment = {
+  nodes: GraphNode[];
+  edges: GraphEdge[];
+};
+
+export const graphNodeId = (type: GraphNodeType, entityId: string) => `${type}-${entityId}`;
+
+const edge = (source: string, target: string, type: GraphEdgeType): GraphEdge => ({
+  id: `${type}:${source}->${target}`,
+  source,
+  target,
+  type,
+});
+
+const merge = (...fragments: GraphFragment[]): GraphFragment => ({
+  nodes: fragments.flatMap(fragment => fragment.nodes),
+  edges: fragments.flatMap(fragment => fragment.edges),
+});
+
+// ---------- Rows to fragments ----------
+
+const DOCUMENT_COLUMNS = 'id, title, created_at, tags, primary_principle_id, linked_project_id, linked_sop_id, related_items';
+const PRINCIPLE_COLUMNS = 'id, title, created_at';
+const PROJECT_COLUMNS = 'id, name, created_at, primary_principle_id';
+const SOP_COLUMNS = 'id, title, created_at, tags, linked_principle_id, project_id';
+const TASK_COLUMNS = 'id, title, created_at, tags, project_id, sop_id, primary_principle_id';
+const INSIGHT_COLUMNS = 'id, title, created_at, tags';
+const CHAT_COLUMNS = 'id, title, created_at, tags, project_id';
+
+type DocumentRow = Pick<Tables<'documents'>, 'id' | 'title' | 'created_at' | 'tags' | 'primary_principle_id' | 'linked_project_id' | 'linked_sop_id' | 'related_items'>;
+type PrincipleRow = Pick<Tables<'principles'>, 'id' | 'title' | 'created_at'>;
+type ProjectRow = Pick<Tables<'projects'>, 'id' | 'name' | 'created_at' | 'primary_principle_id'>;
+type SopRow = Pick<Tables<'sops'>, 'id' | 'title' | 'created_at' | 'tags' | 'linked_principle_id' | 'project_id'>;
+type TaskRow = Pick<Tables<'tasks'>, 'id' | 'title' | 'created_at' | 'tags' | 'project_id' | 'sop_id' | 'primary_principle_id'>;
+type InsightRow = Pick<Tables<'insights'>, 'id' | 'title' | 'created_at' | 'tags'>;
+type ChatRow = Pick<Tables<'ai_chats'>, 'id' | 'title' | 'created_at' | 'tags' | 'project_id'>;
+
+const tagEdges = (source: string, tags: string[] | null) =>
+  (tags || []).map(tag => edge(source, graphNodeId('tag', tag), 'tagged'));
+
+const relatedItemsOf = (value: DocumentRow['related_items']): RelatedItems | null => {
+  if (!value || typeof value !== 'object' || Array.isArray(value)) return null;
+  const items = value as Partial<RelatedItems>;
+  return {
+    sop_ids: Array.isArray(items.sop_ids) ? items.sop_ids : [],
+    document_ids: Array.isArray(items.document_ids) ? items.document_ids : [],
+    reasoning: items.reasoning ?? '',
+  };
+};
+
+export const documentFragment = (row: DocumentRow): GraphFragment => {
+  const id = graphNodeId('document', row.id);
+  const related = relatedItemsOf(row.related_items);
+  const edges = [
+    ...(row.primary_principle_id ? [edge(id, graphNodeId('principle', row.primary_principle_id), 'aligned_with')] : []),
+    ...(row.linked_project_id ? [edge(id, graphNodeId('project', row.linked_project_id), 'belongs_to')] : []),
+    ...(row.linked_sop_id ? [edge(id, graphNodeId('sop', row.linked_sop_id), 'follows_sop')] : []),
+    ...(related?.sop_ids || []).map(sopId => edge(id, graphNodeId('sop', sopId), 'ai_related')),
+    ...(related?.document_ids || [])
+      .filter(docId => docId !== row.id)
+      .map(docId => edge(id, graphNodeId('document', docId), 'ai_related')),
+    ...tagEdges(id, row.tags),
+  ];
+  return { nodes: [{ id, type: 'document', entityId: row.id, name: row.title, createdAt: row.created_at }], edges };
+};
+
+export const principleFragment = (row: PrincipleRow): GraphFragment => ({
+  nodes: [{ id: graphNodeId('principle', row.id), type: 'principle', entityId: row.id, name: row.title, createdAt: row.created_at }],
+  edges: [],
+});
+
+export const projectFragment = (row: ProjectRow): GraphFragment => {
+  const id = graphNodeId('project', row.id);
+  return {
+    nodes: [{ id, type: 'project', entityId: row.id, name: row.name, createdAt: row.created_at }],
+    edges: row.primary_principle_id ? [edge(id, graphNodeId('principle', row.primary_principle_id), 'aligned_with')] : [],
+  };
+};
+
+const sopFragment = (row: SopRow): GraphFragment => {
+  const id = graphNodeId('sop', row.id);
+  return {
+    nodes: [{ id, type: 'sop', entityId: row.id, name: row.title, createdAt: row.created_at }],
+    edges: [
+      ...(row.linked_principle_id ? [edge(id, graphNodeId('principle', row.linked_principle_id), 'aligned_with')] : []),
+      ...(row.project_id ? [edge(id, graphNodeId('project', row.project_id), 'belongs_to')] : []),
+      ...tagEdges(id, row.tags),
+    ],
+  };
+};
+
+const taskFragment = (row: TaskRow): GraphFragment => {
+  const id = graphNodeId('task', row.id);
+  return {
+    nodes: [{ id, type: 'task', entityId: row.id, name: row.title, createdAt: row.created_at }],
+    edges: [
+      edge(id, graphNodeId('project', row.project_id), 'belongs_to'),
+      ...(row.sop_id ? [edge(id, graphNodeId('sop', row.sop_id), 'follows_sop')] : []),
+      ...(row.primary_principle_id ? [edge(id, graphNodeId('principle', row.primary_principle_id), 'aligned_with')] : []),
+      ...tagEdges(id, row.tags),
+    ],
+  };
+};
+
+const insightFragment = (row: InsightRow): GraphFragment => {
+  const id = graphNodeId('insight', row.id);
+  return {
+    nodes: [{ id, type: 'insight', entityId: row.id, name: row.title, createdAt: row.created_at }],
+    edges: tagEdges(id, row.tags),
+  };
+};
+
+const chatFragment = (row: ChatRow): GraphFragment => {
+  const id = graphNodeId('chat', row.id);
+  return {
+    nodes: [{ id, type: 'chat', entityId: row.id, name: row.title, createdAt: row.created_at }],
+    edges: [edge(id, graphNodeId('project', row.project_id), 'belongs_to'), ...tagEdges(id, row.tags)],
+  };
+};
+
+const tagFragment = (tag: string): GraphFragment => ({
+  nodes: [{ id: graphNodeId('tag', tag), type: 'tag', entityId: tag, name: `#${tag}` }],
+  edges: [],
+});
+
+// ---------- Neighbourhoods ----------
+
+const rows = async <T>(query: PromiseLike<{ data: T[] | null; error: unknown }>): Promise<T[]> => {
+  const { data, error } = await query;
+  if (error) throw error;
+  return data || [];
+};
+
+const principlesById = (ids: string[]) =>
+  ids.length === 0 ? Promise.resolve([]) : rows(supabase.from('principles').select(PRINCIPLE_COLUMNS).in('id', ids));
+
+const projectsById = (ids: string[]) =>
+  ids.length === 0 ? Promise.resolve([]) : rows(supabase.from('projects').select(PROJECT_COLUMNS).in('id', ids));
+
+const sopsById = (ids: string[]) =>
+  ids.length === 0 ? Promise.resolve([]) : rows(supabase.from('sops').select(SOP_COLUMNS).in('id', ids));
+
+const documentsById = (ids: string[]) =>
+  ids.length === 0 ? Promise.resolve([]) : rows(supabase.from('documents').select(DOCUMENT_COLUMNS).in('id', ids));
+
+const documentNeighbourhood = async (documentId: string): Promise<GraphFragment> => {
+  const { data: doc, error } = await supabase.from('documents').select(DOCUMENT_COLUMNS).eq('id', documentId).single();
+  if (error) throw error;
+
+  const related = relatedItemsOf(doc.related_items);
+  const links = await rows(
+    supabase
+      .from('document_links')
+      .select('source_document_id, target_document_id')
+      .or(`source_document_id.eq.${documentId},target_document_id.eq.${documentId}`)
+  );
+  const linkedIds = links.map(link =>
+    link.source_document_id === documentId ? link.target_document_id : link.source_document_id
+  );
+
+  const [principles, projects, sops, documents] = await Promise.all([
+    principlesById(doc.primary_principle_id ? [doc.primary_principle_id] : []),
+    projectsById(doc.linked_project_id ? [doc.linked_project_id] : []),
+    sopsById([...(doc.linked_sop_id ? [doc.linked_sop_id] : []), ...(related?.sop_ids || [])]),
+    documentsById([...new Set([...linkedIds, ...(related?.document_ids || [])])].filter(id => id !== documentId)),
+  ]);
+
+  const self = graphNodeId('document', documentId);
+  return merge(
+    documentFragment(doc),
+    ...principles.map(principleFragment),
+    ...projects.map(projectFragment),
+    ...sops.map(sopFragment),
+    ...documents.map(documentFragment),
+    ...(doc.tags || []).map(tagFragment),
+    { nodes: [], edges: linkedIds.map(id => edge(self, graphNodeId('document', id), 'linked')) },
+  );
+};
+
+const principleNeighbourhood = async (principleId: string): Promise<GraphFragment> => {
+  const [principles, documents, projects, sops, tasks] = await Promise.all([
+    principlesById([principleId]),
+    rows(supabase.from('documents').select(DOCUMENT_COLUMNS).eq('primary_principle_id', principleId)
+      .order('created_at', { ascending: false }).limit(NEIGHBOUR_LIMIT)),
+    rows(supabase.from('projects').select(PROJECT_COLUMNS).eq('primary_principle_id', principleId)
+      .order('created_at', { ascending: false }).limit(NEIGHBOUR_LIMIT)),
+    rows(supabase.from('sops').select(SOP_COLUMNS).eq('linked_principle_id', principleId)
+      .order('created_at', { ascending: false }).limit(NEIGHBOUR_LIMIT)),
+    rows(supabase.from('tasks').select(TASK_COLUMNS).eq('primary_principle_id', principleId)
+      .order('created_at', { ascending: false }).limit(NEIGHBOUR_LIMIT)),
+  ]);
+
+  return merge(
+    ...principles.map(principleFragment),
+    ...documents.map(documentFragment),
+    ...projects.map(projectFragment),
+    ...sops.map(sopFragment),
+    ...tasks.map(taskFragment),
+  );
+};
+
+const projectNeighbourhood = async (projectId: string): Promise<GraphFragment> => {
+  const [projects, documents, tasks, sops, chats] = await Promise.all([
+    projectsById([projectId]),
+    rows(supabase.from('documents').select(DOCUMENT_COLUMNS).eq('linked_project_id', projectId)
+      .order('created_at', { ascending: false }).limit(NEIGHBOUR_LIMIT)),
+    rows(supabase.from('tasks').select(TASK_COLUMNS).eq('project_id', projectId)
+      .order('created_at', { ascending: false }).limit(NEIGHBOUR_LIMIT)),
+    rows(supabase.from('sops').select(SOP_COLUMNS).eq('project_id', projectId)
+      .order('created_at', { ascending: false }).limit(NEIGHBOUR_LIMIT)),
+    rows(supabase.from('ai_chats').select(CHAT_COLUMNS).eq('project_id', projectId)
+      .order('created_at', { ascending: false }).limit(NEIGHBOUR_LIMIT)),
+  ]);
+  const principleIds = projects.flatMap(project => (project.primary_principle_id ? [project.primary_principle_id] : []));
+
+  return merge(
+    ...projects.map(projectFragment),
+    ...(await principlesById(principleIds)).map(principleFragment),
+    ...documents.map(documentFragment),
+    ...tasks.map(taskFragment),
+    ...sops.map(sopFragment),
+    ...chats.map(chatFragment),
+  );
+};
+
+const sopNeighbourhood = async (sopId: string): Promise<GraphFragment> => {
+  const [sops, linkedDocuments, relatedDocuments, tasks] = await Promise.all([
+    sopsById([sopId]),
+    rows(supabase.from('documents').select(DOCUMENT_COLUMNS).eq('linked_sop_id', sopId)
+      .order('created_at', { ascending: false }).limit(NEIGHBOUR_LIMIT)),
+    rows(supabase.from('documents').select(DOCUMENT_COLUMNS).contains('related_items', { sop_ids: [sopId] })
+      .order('created_at', { ascending: false }).limit(NEIGHBOUR_LIMIT)),
+    rows(supabase.from('tasks').select(TASK_COLUMNS).eq('sop_id', sopId)
+      .order('created_at', { ascending: false }).limit(NEIGHBOUR_LIMIT)),
+  ]);
+  const sop = sops[0];
+
+  const [principles, projects] = await Promise.all([
+    principlesById(sop?.linked_principle_id ? [sop.linked_principle_id] : []),
+    projectsById(sop?.project_id ? [sop.project_id] : []),
+  ]);
+
+  return merge(
+    ...sops.map(sopFragment),
+    ...principles.map(principleFragment),
+    ...projects.map(projectFragment),
+    ...linkedDocuments.map(documentFragment),
+    ...relatedDocuments.map(documentFragment),
+    ...tasks.map(taskFragment),
+    ...(sop?.tags || []).map(tagFragment),
+  );
+};
+
+const taskNeighbourhood = async (taskId: string): Promise<GraphFragment> => {
+  const tasks = await rows(supabase.from('tasks').select(TASK_COLUMNS).eq('id', taskId));
+  const task = tasks[0];
+  if (!task) return { nodes: [], edges: [] };
+
+  const [principles, projects, sops] = await Promise.all([
+    principlesById(task.primary_principle_id ? [task.primary_principle_id] : []),
+    projectsById([task.project_id]),
+    sopsById(task.sop_id ? [task.sop_id] : []),
+  ]);
+
+  return merge(
+    taskFragment(task),
+    ...principles.map(principleFragment),
+    ...projects.map(projectFragment),
+    ...sops.map(sopFragment),
+    ...(task.tags || []).map(tagFragment),
+  );
+};
+
+const insightNeighbourhood = async (insightId: string): Promise<GraphFragment> => {
+  const insights = await rows(supabase.from('insights').select(INSIGHT_COLUMNS).eq('id', insightId));
+  return merge(...insights.map(insightFragment), ...insights.flatMap(insight => (insight.tags || []).map(tagFragment)));
+};
+
+const chatNeighbourhood = async (chatId: string): Promise<GraphFragment> => {
+  const chats = await rows(supabase.from('ai_chats').select(CHAT_COLUMNS).eq('id', chatId));
+  const projects = await projectsById(chats.map(chat => chat.project_id));
+  return merge(
+    ...chats.map(chatFragment),
+    ...projects.map(projectFragment),
+    ...chats.flatMap(chat => (chat.tags || []).map(tagFragment)),
+  );
+};
+
+const tagNeighbourhood = async (tag: string): Promise<GraphFragment> => {
+  const [documents, sops, tasks, insights, chats] = await Promise.all([
+    rows(supabase.from('documents').select(DOCUMENT_COLUMNS).contains('tags', [tag])
+      .order('created_at', { ascending: false }).limit(NEIGHBOUR_LIMIT)),
+    rows(supabase.from('sops').select(SOP_COLUMNS).contains('tags', [tag])
+      .order('created_at', { ascending: false }).limit(NEIGHBOUR_LIMIT)),
+    rows(supabase.from('tasks').select(TASK_COLUMNS).contains('tags', [tag])
+      .order('created_at', { ascending: false }).limit(NEIGHBOUR_LIMIT)),
+    rows(supabase.from('insights').select(INSIGHT_COLUMNS).contains('tags', [tag])
+      .order('created_at', { ascending: false }).limit(NEIGHBOUR_LIMIT)),
+    rows(supabase.from('ai_chats').select(CHAT_COLUMNS).contains('tags', [tag])
+      .order('created_at', { ascending: false }).limit(NEIGHBOUR_LIMIT)),
+  ]);
+
+  return merge(
+    tagFragment(tag),
+    ...documents.map(documentFragment),
+    ...sops.map(sopFragment),
+    ...tasks.map(taskFragment),
+    ...insights.map(insightFragment),
+    ...chats.map(chatFragment),
+  );
+};
+
+const NEIGHBOURHOODS: Record<GraphNodeType, (entityId: string) => Promise<GraphFragment>> = {
+  document: documentNeighbourhood,
+  principle: principleNeighbourhood,
+  project: projectNeighbourhood,
+  sop: sopNeighbourhood,
+  task: taskNeighbourhood,
+  insight: insightNeighbourhood,
+  chat: chatNeighbourhood,
+  tag: tagNeighbourhood,
+};
+
+// The node itself plus everything directly connected to it, with those nodes' own edges
+export const fetchNeighbourhood = (node: Pick<GraphNode, 'type' | 'entityId'>): Promise<GraphFragment> =>
+  NEIGHBOURHOODS[node.type](node.entityId);
+
+// Principles and projects are the hubs most documents hang off, so the graph starts with them loaded
+export const fetchGraphHubs = async (): Promise<GraphFragment> => {
+  const [principles, projects] = await Promise.all([
+    rows(supabase.from('principles').select(PRINCIPLE_COLUMNS).order('title')),
+    rows(supabase.from('projects').select(PROJECT_COLUMNS).order('name')),
+  ]);
+  return merge(...principles.map(principleFragment), ...projects.map(projectFragment));
+};
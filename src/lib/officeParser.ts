@@ -0,0 +1,582 @@
+// Text extraction for office formats: OOXML (DOCX, PPTX), OpenDocument (ODT, ODP) and RTF.
+// Output is lightly structured Markdown: headings, paragraphs, list items, pipe tables,
+// slide titles and speaker notes.
+
+import JSZip from 'jszip';
+import type { DocumentMetadata, ExtractedContent, PageOffset } from './fileParser';
+
+const RELATIONSHIPS_NS = 'http://schemas.openxmlformats.org/officeDocument/2006/relationships';
+
+const parseXml = (xml: string): Document => new DOMParser().parseFromString(xml, 'application/xml');
+
+const childElements = (el: Element, localName?: string): Element[] =>
+  Array.from(el.children).filter(child => !localName || child.localName === localName);
+
+const descendants = (el: Element | Document, localName: string): Element[] =>
+  Array.from(el.getElementsByTagNameNS('*', localName));
+
+// Attribute lookup by local name, so callers don't depend on the document's namespace prefixes
+const attr = (el: Element | undefined, localName: string): string | undefined => {
+  if (!el) return undefined;
+  return Array.from(el.attributes).find(a => a.localName === localName)?.value;
+};
+
+const readZipText = async (zip: JSZip, path: string): Promise<string | null> => {
+  const entry = zip.file(path);
+  return entry ? entry.async('string') : null;
+};
+
+const toIsoDate = (value: string | undefined): string | undefined => {
+  if (!value) return undefined;
+  const date = new Date(value);
+  return isNaN(date.getTime()) ? undefined : date.toISOString();
+};
+
+const cleanText = (text: string): string => text.replace(/[ \t\u00a0]+/g, ' ').trim();
+
+export const formatMarkdownTable = (rows: string[][]): string => {
+  const nonEmpty = rows.filter(row => row.some(cell => cell.trim()));
+  if (nonEmpty.length === 0) return '';
+
+  const width = Math.max(...nonEmpty.map(row => row.length));
+  const escape = (cell: string) => cleanText(cell.replace(/\n/g, ' ')).replace(/\|/g, '\\|');
+  const lines = nonEmpty.map(row => {
+    const cells = Array.from({ length: width }, (_, i) => escape(row[i] || ''));
+    return `| ${cells.join(' | ')} |`;
+  });
+  lines.splice(1, 0, `| ${Array(width).fill('---').join(' | ')} |`);
+
+  return lines.join('\n');
+};
+
+// Joins blocks into text, recording the character range of each numbered section
+// (slides for presentations) so they can be cited like PDF pages
+const joinSections = (sections: { blocks: string[] }[], header = ''): { text: string; pages: PageOffset[] } => {
+  let text = header;
+  const pages: PageOffset[] = [];
+
+  sections.forEach((section, i) => {
+    const start = text.length;
+    text += section.blocks.filter(Boolean).join('\n\n');
+    pages.push({ page: i + 1, start, end: text.length });
+    text += '\n\n';
+  });
+
+  return { text: text.trimEnd(), pages };
+};
+
+// ---------- OOXML ----------
+
+const readOoxmlMetadata = async (zip: JSZip): Promise<DocumentMetadata> => {
+  const metadata: DocumentMetadata = {};
+
+  const coreXml = await readZipText(zip, 'docProps/core.xml');
+  if (coreXml) {
+    const core = parseXml(coreXml);
+    const field = (name: string) => descendants(core, name)[0]?.textContent?.trim() || undefined;
+    metadata.title = field('title');
+    metadata.author = field('creator');
+    metadata.subject = field('subject');
+    metadata.keywords = field('keywords');
+    metadata.createdAt = toIsoDate(field('created'));
+    metadata.modifiedAt = toIsoDate(field('modified'));
+  }
+
+  const appXml = await readZipText(zip, 'docProps/app.xml');
+  if (appXml) {
+    const app = parseXml(appXml);
+    const count = descendants(app, 'Pages')[0]?.textContent || descendants(app, 'Slides')[0]?.textContent;
+    if (count && !isNaN(Number(count))) metadata.pageCount = Number(count);
+    metadata.creator = descendants(app, 'Application')[0]?.textContent?.trim() || undefined;
+  }
+
+  return metadata;
+};
+
+const resolveZipPath = (baseDir: string, target: string): string => {
+  if (target.startsWith('/')) return target.slice(1);
+
+  const parts = baseDir.split('/').filter(Boolean);
+  for (const segment of target.split('/')) {
+    if (segment === '..') parts.pop();
+    else if (segment !== '.') parts.push(segment);
+  }
+  return parts.join('/');
+};
+
+const readRelationships = async (zip: JSZip, relsPath: string, baseDir: string) => {
+  const xml = await readZipText(zip, relsPath);
+  if (!xml) return [];
+
+  return descendants(parseXml(xml), 'Relationship').map(rel => ({
+    id: attr(rel, 'Id') || '',
+    type: attr(rel, 'Type') || '',
+    path: resolveZipPath(baseDir, attr(rel, 'Target') || ''),
+  }));
+};
+
+const docxRunText = (el: Element): string => {
+  let text = '';
+  for (const child of childElements(el)) {
+    switch (child.localName) {
+      case 't':
+        text += child.textContent || '';
+        break;
+      case 'tab':
+        text += '\t';
+        break;
+      case 'br':
+      case 'cr':
+        text += '\n';
+        break;
+      // Properties, field codes and tracked deletions carry no visible text
+      case 'pPr':
+      case 'rPr':
+      case 'instrText':
+      case 'del':
+        break;
+      default:
+        text += docxRunText(child);
+    }
+  }
+  return text;
+};
+
+const docxHeadingLevel = (styleId?: string, styleName?: string, outlineLevel?: string): number | null => {
+  for (const candidate of [styleName, styleId]) {
+    if (!candidate) continue;
+    const heading = candidate.match(/^heading\s*(\d)$/i);
+    if (heading) return Math.min(Number(heading[1]), 6);
+    if (/^title$/i.test(candidate)) return 1;
+    if (/^subtitle$/i.test(candidate)) return 2;
+  }
+  if (outlineLevel !== undefined && !isNaN(Number(outlineLevel)) && Number(outlineLevel) < 9) {
+    return Math.min(Number(outlineLevel) + 1, 6);
+  }
+  return null;
+};
+
+const docxParagraph = (p: Element, styleNames: Map<string, string>): string => {
+  const text = cleanText(docxRunText(p));
+  if (!text) return '';
+
+  const pPr = childElements(p, 'pPr')[0];
+  const styleId = attr(pPr && childElements(pPr, 'pStyle')[0], 'val');
+  const outlineLevel = attr(pPr && childElements(pPr, 'outlineLvl')[0], 'val');
+  const level = docxHeadingLevel(styleId, styleId && styleNames.get(styleId), outlineLevel);
+
+  if (level) return `${'#'.repeat(level)} ${text}`;
+  if (pPr && childElements(pPr, 'numPr').length > 0) return `- ${text}`;
+  return text;
+};
+
+const docxTable = (tbl: Element): string => {
+  const rows = childElements(tbl, 'tr').map(tr =>
+    childElements(tr, 'tc').map(tc =>
+      descendants(tc, 'p').map(p => cleanText(docxRunText(p))).filter(Boolean).join(' ')
+    )
+  );
+  return formatMarkdownTable(rows);
+};
+
+const walkDocxBody = (el: Element, blocks: string[], styleNames: Map<string, string>) => {
+  for (const child of childElements(el)) {
+    if (child.localName === 'p') {
+      blocks.push(docxParagraph(child, styleNames));
+    } else if (child.localName === 'tbl') {
+      blocks.push(docxTable(child));
+    } else if (child.localName === 'sdt') {
+      const content = childElements(child, 'sdtContent')[0];
+      if (content) walkDocxBody(content, blocks, styleNames);
+    }
+  }
+};
+
+export const extractDocxContent = async (file: File): Promise<ExtractedContent> => {
+  const zip = await JSZip.loadAsync(await file.arrayBuffer());
+  const documentXml = await readZipText(zip, 'word/document.xml');
+  if (!documentXml) throw new Error('Not a valid DOCX file');
+
+  const styleNames = new Map<string, string>();
+  const stylesXml = await readZipText(zip, 'word/styles.xml');
+  if (stylesXml) {
+    descendants(parseXml(stylesXml), 'style').forEach(style => {
+      const id = attr(style, 'styleId');
+      const name = attr(childElements(style, 'name')[0], 'val');
+      if (id && name) styleNames.set(id, name);
+    });
+  }
+
+  const body = descendants(parseXml(documentXml), 'body')[0];
+  const blocks: string[] = [];
+  if (body) walkDocxBody(body, blocks, styleNames);
+
+  return {
+    text: blocks.filter(Boolean).join('\n\n'),
+    metadata: await readOoxmlMetadata(zip),
+  };
+};
+
+const pptxParagraphs = (el: Element): string[] =>
+  descendants(el, 'p')
+    .map(p => cleanText(childElements(p).map(run => {
+      if (run.localName === 'br') return '\n';
+      return descendants(run, 't').map(t => t.textContent || '').join('');
+    }).join('')))
+    .filter(Boolean);
+
+const pptxPlaceholderType = (shape: Element): string | undefined => {
+  const ph = descendants(shape, 'ph')[0];
+  if (!ph) return undefined;
+  return attr(ph, 'type') || 'body';
+};
+
+const pptxSlidePaths = async (zip: JSZip): Promise<string[]> => {
+  const presentationXml = await readZipText(zip, 'ppt/presentation.xml');
+  const relationships = await readRelationships(zip, 'ppt/_rels/presentation.xml.rels', 'ppt');
+
+  if (presentationXml && relationships.length > 0) {
+    const targets = new Map(relationships.map(rel => [rel.id, rel.path]));
+    const ordered = descendants(parseXml(presentationXml), 'sldId')
+      .map(sldId => targets.get(sldId.getAttributeNS(RELATIONSHIPS_NS, 'id') || ''))
+      .filter((path): path is string => !!path && !!zip.file(path));
+    if (ordered.length > 0) return ordered;
+  }
+
+  // Fall back to file numbering when the presentation part is missing or unreadable
+  return Object.keys(zip.files)
+    .filter(path => /^ppt\/slides\/slide\d+\.xml$/.test(path))
+    .sort((a, b) => Number(a.match(/(\d+)\.xml$/)![1]) - Number(b.match(/(\d+)\.xml$/)![1]));
+};
+
+export const extractPptxContent = async (file: File): Promise<ExtractedContent> => {
+  const zip = await JSZip.loadAsync(await file.arrayBuffer());
+  const slidePaths = await pptxSlidePaths(zip);
+  if (slidePaths.length === 0) throw new Error('Not a valid PPTX file');
+
+  const sections: { blocks: string[] }[] = [];
+
+  for (const [index, slidePath] of slidePaths.entries()) {
+    const slide = parseXml((await readZipText(zip, slidePath)) || '');
+    const shapes = descendants(slide, 'sp');
+
+    const titleShape = shapes.find(shape => ['title', 'ctrTitle'].includes(pptxPlaceholderType(shape) || ''));
+    const title = titleShape ? pptxParagraphs(titleShape).join(' ') : '';
+    const body = shapes
+      .filter(shape => shape !== titleShape && !['sldNum', 'dt', 'ftr', 'hdr'].includes(pptxPlaceholderType(shape) || ''))
+      .flatMap(pptxParagraphs);
+    const tables = descendants(slide, 'tbl').map(tbl =>
+      formatMarkdownTable(descendants(tbl, 'tr').map(tr => descendants(tr, 'tc').map(tc => pptxParagraphs(tc).join(' '))))
+    );
+
+    const blocks = [`## Slide ${index + 1}${title ? `: ${title}` : ''}`, body.join('\n'), ...tables];
+
+    const slideDir = slidePath.slice(0, slidePath.lastIndexOf('/'));
+    const slideFile = slidePath.slice(slidePath.lastIndexOf('/') + 1);
+    const slideRels = await readRelationships(zip, `${slideDir}/_rels/${slideFile}.rels`, slideDir);
+    const notesPath = slideRels.find(rel => rel.type.endsWith('/notesSlide'))?.path;
+    const notesXml = notesPath ? await readZipText(zip, notesPath) : null;
+
+    if (notesXml) {
+      const notes = descendants(parseXml(notesXml), 'sp')
+        .filter(shape => pptxPlaceholderType(shape) === 'body')
+        .flatMap(pptxParagraphs);
+      if (notes.length > 0) blocks.push(`Speaker notes:\n${notes.join('\n')}`);
+    }
+
+    sections.push({ blocks });
+  }
+
+  const metadata = await readOoxmlMetadata(zip);
+  return { ...joinSections(sections), metadata: { ...metadata, pageCount: sections.length } };
+};
+
+// ---------- OpenDocument ----------
+
+const readOdfMetadata = async (zip: JSZip): Promise<DocumentMetadata> => {
+  const xml = await readZipText(zip, 'meta.xml');
+  if (!xml) return {};
+
+  const meta = parseXml(xml);
+  const field = (name: string) => descendants(meta, name)[0]?.textContent?.trim() || undefined;
+  const keywords = descendants(meta, 'keyword').map(k => k.textContent?.trim()).filter(Boolean);
+  const pageCount = attr(descendants(meta, 'document-statistic')[0], 'page-count');
+
+  return {
+    title: field('title'),
+    author: field('initial-creator') || field('creator'),
+    subject: field('subject'),
+    keywords: keywords.length > 0 ? keywords.join(', ') : undefined,
+    creator: field('generator'),
+    createdAt: toIsoDate(field('creation-date')),
+    modifiedAt: toIsoDate(field('date')),
+    pageCount: pageCount ? Number(pageCount) : undefined,
+  };
+};
+
+const odfInlineText = (el: Element): string => {
+  let text = '';
+  el.childNodes.forEach(node => {
+    if (node.nodeType === Node.TEXT_NODE) {
+      text += node.textContent || '';
+      return;
+    }
+    if (node.nodeType !== Node.ELEMENT_NODE) return;
+
+    const child = node as Element;
+    switch (child.localName) {
+      case 's':
+        text += ' '.repeat(Number(attr(child, 'c') || 1));
+        break;
+      case 'tab':
+        text += '\t';
+        break;
+      case 'line-break':
+        text += '\n';
+        break;
+      // Footnote bodies and annotations would interrupt the sentence they are anchored in
+      case 'note':
+      case 'annotation':
+        break;
+      default:
+        text += odfInlineText(child);
+    }
+  });
+  return text;
+};
+
+const odfTable = (table: Element): string => {
+  const rows = descendants(table, 'table-row').map(row =>
+    childElements(row, 'table-cell').map(cell =>
+      childElements(cell).map(odfInlineText).map(cleanText).filter(Boolean).join(' ')
+    )
+  );
+  return formatMarkdownTable(rows);
+};
+
+const ODF_CONTAINERS = new Set(['section', 'table-of-content', 'index-body', 'frame', 'text-box', 'g']);
+
+const walkOdfBlocks = (el: Element, blocks: string[]) => {
+  for (const child of childElements(el)) {
+    const name = child.localName;
+
+    if (name === 'h') {
+      const text = cleanText(odfInlineText(child));
+      const level = Math.min(Number(attr(child, 'outline-level') || 1), 6);
+      if (text) blocks.push(`${'#'.repeat(level)} ${text}`);
+    } else if (name === 'p') {
+      blocks.push(cleanText(odfInlineText(child)));
+    } else if (name === 'list') {
+      for (const item of childElements(child, 'list-item')) {
+        const itemBlocks: string[] = [];
+        walkOdfBlocks(item, itemBlocks);
+        itemBlocks.filter(Boolean).forEach(block => {
+          blocks.push(block.startsWith('- ') ? `  ${block}` : `- ${block}`);
+        });
+      }
+    } else if (name === 'table') {
+      blocks.push(odfTable(child));
+    } else if (ODF_CONTAINERS.has(name)) {
+      walkOdfBlocks(child, blocks);
+    }
+  }
+};
+
+const readOdfContent = async (zip: JSZip): Promise<Document> => {
+  const xml = await readZipText(zip, 'content.xml');
+  if (!xml) throw new Error('Not a valid OpenDocument file');
+  return parseXml(xml);
+};
+
+export const extractOdtContent = async (file: File): Promise<ExtractedContent> => {
+  const zip = await JSZip.loadAsync(await file.arrayBuffer());
+  const content = await readOdfContent(zip);
+
+  const blocks: string[] = [];
+  const body = descendants(content, 'text')[0];
+  if (body) walkOdfBlocks(body, blocks);
+
+  return {
+    text: blocks.filter(Boolean).join('\n\n'),
+    metadata: await readOdfMetadata(zip),
+  };
+};
+
+export const extractOdpContent = async (file: File): Promise<ExtractedContent> => {
+  const zip = await JSZip.loadAsync(await file.arrayBuffer());
+  const content = await readOdfContent(zip);
+
+  const sections = descendants(content, 'page').map((page, index) => {
+    const notesEl = childElements(page, 'notes')[0];
+    const frames = childElements(page).filter(el => el.localName === 'frame' || el.localName === 'g');
+
+    const titleFrame = frames.find(frame => attr(frame, 'class') === 'title');
+    const titleBlocks: string[] = [];
+    if (titleFrame) walkOdfBlocks(titleFrame, titleBlocks);
+    const title = titleBlocks.filter(Boolean).join(' ');
+
+    const bodyBlocks: string[] = [];
+    frames
+      .filter(frame => frame !== titleFrame && !['page-number', 'date-time', 'footer', 'header'].includes(attr(frame, 'class') || ''))
+      .forEach(frame => walkOdfBlocks(frame, bodyBlocks));
+
+    const blocks = [`## Slide ${index + 1}${title ? `: ${title}` : ''}`, ...bodyBlocks];
+
+    if (notesEl) {
+      const noteBlocks: string[] = [];
+      childElements(notesEl, 'frame')
+        .filter(frame => attr(frame, 'class') === 'notes')
+        .forEach(frame => walkOdfBlocks(frame, noteBlocks));
+      const notes = noteBlocks.filter(Boolean);
+      if (notes.length > 0) blocks.push(`Speaker notes:\n${notes.join('\n')}`);
+    }
+
+    return { blocks };
+  });
+
+  const metadata = await readOdfMetadata(zip);
+  return { ...joinSections(sections), metadata: { ...metadata, pageCount: sections.length } };
+};
+
+// ---------- RTF ----------
+
+// Destination groups whose content is formatting data rather than document text
+const RTF_IGNORED_DESTINATIONS = new Set([
+  'fonttbl', 'colortbl', 'stylesheet', 'listtable', 'listoverridetable', 'revtbl', 'rsidtbl',
+  'generator', 'pict', 'object', 'themedata', 'colorschememapping', 'latentstyles', 'datastore',
+  'xmlnstbl', 'filetbl', 'header', 'headerl', 'headerr', 'headerf', 'footer', 'footerl', 'footerr',
+  'footerf', 'footnote', 'fldinst', 'bkmkstart', 'bkmkend', 'docvar', 'pgdsctbl', 'operator',
+  'company', 'doccomm', 'comment', 'hlinkbase', 'category', 'manager',
+]);
+
+const RTF_INFO_FIELDS = new Set(['title', 'author', 'subject', 'keywords', 'creatim', 'revtim']);
+
+const RTF_SYMBOLS: Record<string, string> = {
+  par: '\n', line: '\n', sect: '\n\n', page: '\n\n', tab: '\t', cell: ' | ', row: '\n',
+  emdash: '—', endash: '–', bullet: '•', lquote: '‘', rquote: '’',
+  ldblquote: '“', rdblquote: '”', emspace: ' ', enspace: ' ', qmspace: ' ',
+};
+
+interface RtfState {
+  skip: boolean;
+  field?: string;
+  unicodeSkip: number;
+}
+
+export const rtfToText = (rtf: string): { text: string; metadata: DocumentMetadata } => {
+  const cp1252 = new TextDecoder('windows-1252');
+  const fields: Record<string, string> = {};
+  const dates: Record<string, Record<string, number>> = {};
+
+  let state: RtfState = { skip: false, unicodeSkip: 1 };
+  const stack: RtfState[] = [];
+  let text = '';
+  let pendingSkip = 0;
+
+  const emit = (value: string) => {
+    if (state.skip) return;
+    if (state.field) {
+      fields[state.field] = (fields[state.field] || '') + value;
+    } else {
+      text += value;
+    }
+  };
+
+  let i = 0;
+  while (i < rtf.length) {
+    const ch = rtf[i];
+
+    if (ch === '{') {
+      stack.push(state);
+      state = { ...state };
+      i++;
+    } else if (ch === '}') {
+      state = stack.pop() || state;
+      i++;
+    } else if (ch === '\\') {
+      const next = rtf[i + 1];
+
+      if (next === "'") {
+        const code = parseInt(rtf.slice(i + 2, i + 4), 16);
+        i += 4;
+        if (pendingSkip > 0) {
+          pendingSkip--;
+        } else if (!isNaN(code)) {
+          emit(cp1252.decode(Uint8Array.of(code)));
+        }
+      } else if (next && /[a-z]/i.test(next)) {
+        const match = rtf.slice(i + 1).match(/^([a-z]+)(-?\d+)? ?/i)!;
+        const [whole, word, param] = match;
+        i += 1 + whole.length;
+        pendingSkip = 0;
+
+        if (word === 'bin' && param) {
+          i += Number(param);
+        } else if (RTF_IGNORED_DESTINATIONS.has(word)) {
+          state.skip = true;
+        } else if (RTF_INFO_FIELDS.has(word)) {
+          state.field = word;
+        } else if (state.field && ['yr', 'mo', 'dy', 'hr', 'min'].includes(word) && param) {
+          dates[state.field] = { ...dates[state.field], [word]: Number(param) };
+        } else if (word === 'uc' && param) {
+          state.unicodeSkip = Number(param);
+        } else if (word === 'u' && param) {
+          const code = Number(param) < 0 ? Number(param) + 65536 : Number(param);
+          emit(String.fromCharCode(code));
+          pendingSkip = state.unicodeSkip;
+        } else if (RTF_SYMBOLS[word]) {
+          emit(RTF_SYMBOLS[word]);
+        }
+      } else {
+        i += 2;
+        if (next === '*') {
+          state.skip = true;
+        } else if (next === '~') {
+          emit(' ');
+        } else if (next === '_') {
+          emit('-');
+        } else if (next === '\n' || next === '\r') {
+          emit('\n');
+        } else if (next === '\\' || next === '{' || next === '}') {
+          emit(next);
+        }
+      }
+    } else {
+      i++;
+      if (ch === '\n' || ch === '\r') continue;
+      if (pendingSkip > 0) {
+        pendingSkip--;
+        continue;
+      }
+      emit(ch);
+    }
+  }
+
+  const toDate = (parts?: Record<string, number>) => {
+    if (!parts?.yr) return undefined;
+    const date = new Date(parts.yr, (parts.mo || 1) - 1, parts.dy || 1, parts.hr || 0, parts.min || 0);
+    return isNaN(date.getTime()) ? undefined : date.toISOString();
+  };
+  const field = (name: string) => fields[name]?.trim() || undefined;
+
+  return {
+    text: text
+      .split('\n')
+      .map(line => line.replace(/[ \t]+$/, ''))
+      .join('\n')
+      .replace(/\n{3,}/g, '\n\n')
+      .trim(),
+    metadata: {
+      title: field('title'),
+      author: field('author'),
+      subject: field('subject'),
+      keywords: field('keywords'),
+      createdAt: toDate(dates.creatim),
+      modifiedAt: toDate(dates.revtim),
+    },
+  };
+};
+
+export const extractRtfContent = async (file: File): Promise<ExtractedContent> => {
+  return rtfToText(await file.text());
+};
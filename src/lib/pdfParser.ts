@@ -0,0 +1,243 @@
+// PDF text extraction built on pdf.js, with column-aware reading order
+
+import * as pdfjsLib from 'pdfjs-dist';
+import type { TextItem } from 'pdfjs-dist/types/src/display/api';
+import pdfWorkerUrl from 'pdfjs-dist/build/pdf.worker.min.mjs?url';
+import type { DocumentMetadata, ExtractedContent, PageOffset } from './fileParser';
+
+pdfjsLib.GlobalWorkerOptions.workerSrc = pdfWorkerUrl;
+
+interface PositionedItem {
+  text: string;
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+interface Line {
+  y: number;
+  height: number;
+  items: PositionedItem[];
+}
+
+// Columns narrower than this share of the region are treated as noise (e.g. margin notes)
+const MIN_COLUMN_SHARE = 0.15;
+// A gutter may be crossed by a few spanning items such as headings or footers
+const MAX_GUTTER_CROSSINGS = 0.05;
+const MAX_COLUMN_DEPTH = 2;
+
+const toPositionedItems = (items: TextItem[]): PositionedItem[] => {
+  return items
+    .filter(item => item.str && item.str.trim().length > 0)
+    .map(item => ({
+      text: item.str,
+      x: item.transform[4],
+      y: item.transform[5],
+      width: item.width,
+      height: item.height || Math.abs(item.transform[3]) || 10,
+    }));
+};
+
+const groupLines = (items: PositionedItem[]): Line[] => {
+  const sorted = [...items].sort((a, b) => b.y - a.y || a.x - b.x);
+  const lines: Line[] = [];
+
+  for (const item of sorted) {
+    const line = lines[lines.length - 1];
+    if (line && Math.abs(line.y - item.y) <= Math.min(line.height, item.height) / 2) {
+      line.items.push(item);
+      line.height = Math.max(line.height, item.height);
+    } else {
+      lines.push({ y: item.y, height: item.height, items: [item] });
+    }
+  }
+
+  lines.forEach(line => line.items.sort((a, b) => a.x - b.x));
+  return lines;
+};
+
+const lineToText = (line: Line): string => {
+  let text = '';
+  let prevEnd: number | null = null;
+
+  for (const item of line.items) {
+    if (prevEnd !== null) {
+      const gap = item.x - prevEnd;
+      const needsSpace = gap > item.height * 0.15 && !/\s$/.test(text) && !/^\s/.test(item.text);
+      if (needsSpace) text += ' ';
+    }
+    text += item.text;
+    prevEnd = item.x + item.width;
+  }
+
+  return text.trim();
+};
+
+const linesToText = (lines: Line[]): string => {
+  const parts: string[] = [];
+
+  lines.forEach((line, i) => {
+    const prev = lines[i - 1];
+    // A vertical gap well beyond the line height marks a paragraph break
+    if (prev && prev.y - line.y > Math.max(prev.height, line.height) * 1.8) {
+      parts.push('');
+    }
+    parts.push(lineToText(line));
+  });
+
+  return parts.join('\n');
+};
+
+// Finds the x position of a vertical whitespace channel separating two columns, if any
+const findGutter = (items: PositionedItem[]): number | null => {
+  if (items.length < 10) return null;
+
+  const minX = Math.min(...items.map(i => i.x));
+  const maxX = Math.max(...items.map(i => i.x + i.width));
+  const regionWidth = maxX - minX;
+  if (regionWidth <= 0) return null;
+
+  const totalChars = items.reduce((sum, i) => sum + i.text.length, 0);
+  let best: { x: number; crossings: number } | null = null;
+
+  for (let x = minX + regionWidth * 0.2; x <= minX + regionWidth * 0.8; x += 2) {
+    const leftChars = items
+      .filter(i => i.x + i.width <= x)
+      .reduce((sum, i) => sum + i.text.length, 0);
+    const rightChars = items
+      .filter(i => i.x >= x)
+      .reduce((sum, i) => sum + i.text.length, 0);
+
+    if (leftChars < totalChars * MIN_COLUMN_SHARE || rightChars < totalChars * MIN_COLUMN_SHARE) continue;
+
+    const crossings = items.filter(i => i.x < x && i.x + i.width > x).length;
+    if (!best || crossings < best.crossings) {
+      best = { x, crossings };
+    }
+  }
+
+  if (!best || best.crossings > items.length * MAX_GUTTER_CROSSINGS) return null;
+  return best.x;
+};
+
+// Orders a region in reading order: full-width lines split the page into bands,
+// and each band is read column by column
+const layoutRegion = (items: PositionedItem[], depth: number): string => {
+  const gutter = depth < MAX_COLUMN_DEPTH ? findGutter(items) : null;
+  if (gutter === null) return linesToText(groupLines(items));
+
+  const blocks: string[] = [];
+  let band: PositionedItem[] = [];
+
+  const flushBand = () => {
+    if (band.length === 0) return;
+    const left = band.filter(i => i.x + i.width / 2 < gutter);
+    const right = band.filter(i => i.x + i.width / 2 >= gutter);
+    if (left.length > 0) blocks.push(layoutRegion(left, depth + 1));
+    if (right.length > 0) blocks.push(layoutRegion(right, depth + 1));
+    band = [];
+  };
+
+  for (const line of groupLines(items)) {
+    const spansGutter = line.items.some(i => i.x < gutter && i.x + i.width > gutter);
+    if (spansGutter) {
+      flushBand();
+      blocks.push(lineToText(line));
+    } else {
+      band.push(...line.items);
+    }
+  }
+  flushBand();
+
+  return blocks.filter(Boolean).join('\n\n');
+};
+
+// PDF dates look like D:20240131120000+10'00'
+export const parsePdfDate = (value: unknown): string | undefined => {
+  if (typeof value !== 'string') return undefined;
+  const match = value.match(/^(?:D:)?(\d{4})(\d{2})?(\d{2})?(\d{2})?(\d{2})?(\d{2})?([Zz+-])?(\d{2})?'?(\d{2})?'?/);
+  if (!match) return undefined;
+
+  const [, year, month = '01', day = '01', hour = '00', minute = '00', second = '00', tz, tzHour = '00', tzMinute = '00'] = match;
+  const offset = !tz || tz.toUpperCase() === 'Z' ? 'Z' : `${tz}${tzHour}:${tzMinute}`;
+  const date = new Date(`${year}-${month}-${day}T${hour}:${minute}:${second}${offset}`);
+
+  return isNaN(date.getTime()) ? undefined : date.toISOString();
+};
+
+const readMetadata = async (pdf: pdfjsLib.PDFDocumentProxy): Promise<DocumentMetadata> => {
+  try {
+    const { info } = await pdf.getMetadata();
+    const fields = (info || {}) as Record<string, unknown>;
+    const str = (value: unknown) => (typeof value === 'string' && value.trim() ? value.trim() : undefined);
+
+    return {
+      title: str(fields.Title),
+      author: str(fields.Author),
+      subject: str(fields.Subject),
+      keywords: str(fields.Keywords),
+      creator: str(fields.Creator) || str(fields.Producer),
+      createdAt: parsePdfDate(fields.CreationDate),
+      modifiedAt: parsePdfDate(fields.ModDate),
+      pageCount: pdf.numPages,
+    };
+  } catch {
+    return { pageCount: pdf.numPages };
+  }
+};
+
+export const formatMetadataHeader = (metadata: DocumentMetadata): string => {
+  const lines = [
+    metadata.title && `Title: ${metadata.title}`,
+    metadata.author && `Author: ${metadata.author}`,
+    metadata.subject && `Subject: ${metadata.subject}`,
+    metadata.keywords && `Keywords: ${metadata.keywords}`,
+    metadata.createdAt && `Created: ${metadata.createdAt.slice(0, 10)}`,
+    metadata.modifiedAt && `Modified: ${metadata.modifiedAt.slice(0, 10)}`,
+    metadata.pageCount && `Pages: ${metadata.pageCount}`,
+  ].filter(Boolean);
+
+  return lines.length > 0 ? `${lines.join('\n')}\n\n` : '';
+};
+
+// Opens a PDF for rendering in the preview; going through this module guarantees the worker is set up
+export const openPdfDocument = async (file: Blob) => {
+  const data = new Uint8Array(await file.arrayBuffer());
+  return pdfjsLib.getDocument({ data }).promise;
+};
+
+export const extractPdfContent = async (file: File): Promise<ExtractedContent> => {
+  const data = new Uint8Array(await file.arrayBuffer());
+  const pdf = await pdfjsLib.getDocument({ data }).promise;
+
+  try {
+    const metadata = await readMetadata(pdf);
+    let text = formatMetadataHeader(metadata);
+    const pages: PageOffset[] = [];
+
+    for (let pageNumber = 1; pageNumber <= pdf.numPages; pageNumber++) {
+      const page = await pdf.getPage(pageNumber);
+      const textContent = await page.getTextContent();
+      const items = toPositionedItems(textContent.items.filter((item): item is TextItem => 'str' in item));
+      page.cleanup();
+
+      const pageText = layoutRegion(items, 0);
+      const marker = `[Page ${pageNumber}]\n`;
+
+      text += marker;
+      const start = text.length;
+      text += pageText;
+      pages.push({ page: pageNumber, start, end: text.length });
+      text += '\n\n';
+    }
+
+    if (pages.every(p => p.end === p.start)) {
+      text += 'No extractable text found. This PDF may be scanned or image-based.';
+    }
+
+    return { text: text.trimEnd(), pages, metadata };
+  } finally {
+    await pdf.destroy();
+  }
+};
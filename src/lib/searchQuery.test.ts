@@ -0,0 +1,93 @@
+import { describe, expect, it } from "vitest";
+import { parseTextQuery, resolveQuery, serializeQuery, tokenizeQuery } from "./searchQuery";
+
+const lookups = {
+  principles: [{ id: "p-1", title: "Clarity" }, { id: "p-2", title: "Craft" }],
+  projects: [{ id: "proj-1", name: "Apollo" }],
+  categories: ["SOP", "Finance"],
+};
+
+describe("tokenizeQuery", () => {
+  it("splits filters, phrases and terms and keeps their offsets", () => {
+    const tokens = tokenizeQuery('tag:finance "exact phrase" -draft');
+
+    expect(tokens.map(({ kind, value, negated, start, end }) => ({ kind, value, negated, start, end }))).toEqual([
+      { kind: "filter", value: "finance", negated: false, start: 0, end: 11 },
+      { kind: "phrase", value: "exact phrase", negated: false, start: 12, end: 26 },
+      { kind: "term", value: "draft", negated: true, start: 27, end: 33 },
+    ]);
+  });
+
+  it("keeps quoted filter values together", () => {
+    const [token] = tokenizeQuery('principle:"Clear thinking"');
+    expect(token).toMatchObject({ kind: "filter", key: "principle", value: "Clear thinking" });
+  });
+
+  it("treats words with an unknown prefix as plain text", () => {
+    const tokens = tokenizeQuery("https://example.com/report Note:draft 10:30");
+
+    expect(tokens.map(({ kind, value, error }) => ({ kind, value, error }))).toEqual([
+      { kind: "term", value: "https://example.com/report", error: undefined },
+      { kind: "term", value: "Note:draft", error: undefined },
+      { kind: "term", value: "10:30", error: undefined },
+    ]);
+  });
+
+  it("flags filter mistakes", () => {
+    expect(tokenizeQuery("tag:")[0].error).toBe("tag: needs a value");
+    expect(tokenizeQuery("-tag:x")[0].error).toBe("Excluding by tag: isn't supported");
+    expect(tokenizeQuery("before:yesterday")[0].error).toBe("before: expects a date like 2026-01-01");
+    expect(tokenizeQuery("category:SOP category:Finance")[1].error).toBe("Only one category: filter is allowed");
+    expect(tokenizeQuery('"open phrase')[0].error).toBe("Missing closing quote");
+  });
+});
+
+describe("parseTextQuery", () => {
+  it("collects lowercased terms, phrases and exclusions and skips filters", () => {
+    expect(parseTextQuery('Budget "Q3 Plan" -Draft tag:finance https://Example.com')).toEqual({
+      terms: ["budget", "https://example.com"],
+      phrases: ["q3 plan"],
+      excluded: ["draft"],
+    });
+  });
+});
+
+describe("resolveQuery", () => {
+  it("maps filters onto the search filters by name, prefix or id", () => {
+    const { filters, errors } = resolveQuery(
+      "tag:finance tag:Finance principle:clar project:proj-1 category:sop after:2026-01-01 budget",
+      lookups
+    );
+
+    expect(errors).toEqual([]);
+    expect(filters).toEqual({
+      query: "budget",
+      tags: ["finance"],
+      category: "SOP",
+      principleId: "p-1",
+      projectId: "proj-1",
+      before: "",
+      after: "2026-01-01",
+    });
+  });
+
+  it("reports values that match nothing and leaves them out", () => {
+    const { filters, errors } = resolveQuery("principle:c project:Zeus", lookups);
+
+    expect(filters.principleId).toBe("All");
+    expect(filters.projectId).toBe("All");
+    expect(errors.map(token => token.error)).toEqual(['No principle matches "c"', 'No project matches "Zeus"']);
+  });
+
+  it("keeps a URL in the free-text query", () => {
+    const { filters, errors } = resolveQuery("tag:ops https://example.com/runbook", lookups);
+    expect(errors).toEqual([]);
+    expect(filters.query).toBe("https://example.com/runbook");
+  });
+
+  it("round-trips through serializeQuery", () => {
+    const input = 'tag:"cash flow" principle:Clarity project:Apollo category:Finance before:2026-03-01 forecast';
+    const { filters } = resolveQuery(input, lookups);
+    expect(serializeQuery(filters, lookups)).toBe(input);
+  });
+});
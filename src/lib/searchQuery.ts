@@ -0,0 +1,253 @@
+// Inline query language for the Library search bar, e.g.
+//   tag:finance principle:"Clarity" project:Apollo category:SOP before:2026-01-01 -draft "exact phrase"
+// Filter tokens map onto the existing search filters; everything else stays in the free-text query.
+
+export const QUERY_FILTER_KEYS = ['tag', 'principle', 'project', 'category', 'before', 'after'] as const;
+
+export type QueryFilterKey = typeof QUERY_FILTER_KEYS[number];
+
+export type QueryToken = {
+  kind: 'term' | 'phrase' | 'filter';
+  raw: string;
+  start: number;
+  end: number;
+  value: string;
+  key?: QueryFilterKey;
+  negated: boolean;
+  error?: string;
+};
+
+export type TextQuery = {
+  terms: string[];
+  phrases: string[];
+  excluded: string[];
+};
+
+export type QueryFilters = {
+  query: string;
+  tags: string[];
+  category: string;
+  principleId: string;
+  projectId: string;
+  before: string;
+  after: string;
+};
+
+export type QueryLookups = {
+  principles: { id: string; title: string }[];
+  projects: { id: string; name: string }[];
+  categories: string[];
+};
+
+const SINGLE_VALUE_KEYS: QueryFilterKey[] = ['principle', 'project', 'category', 'before', 'after'];
+const DATE_VALUE = /^\d{4}-\d{2}-\d{2}$/;
+
+const isFilterKey = (key: string): key is QueryFilterKey =>
+  (QUERY_FILTER_KEYS as readonly string[]).includes(key);
+
+const unquote = (value: string) => value.replace(/^"/, '').replace(/"$/, '');
+
+export const quoteValue = (value: string) => (/[\s"]/.test(value) ? `"${value.replace(/"/g, '')}"` : value);
+
+export const isValidDateValue = (value: string) => DATE_VALUE.test(value) && !isNaN(Date.parse(value));
+
+// Splits the input on whitespace outside double quotes, keeping character offsets for highlighting
+export const tokenizeQuery = (input: string): QueryToken[] => {
+  const tokens: QueryToken[] = [];
+  let i = 0;
+
+  while (i < input.length) {
+    if (/\s/.test(input[i])) {
+      i++;
+      continue;
+    }
+
+    const start = i;
+    let unterminated = false;
+    while (i < input.length && !/\s/.test(input[i])) {
+      if (input[i] === '"') {
+        const close = input.indexOf('"', i + 1);
+        if (close === -1) {
+          unterminated = true;
+          i = input.length;
+          break;
+        }
+        i = close + 1;
+      } else {
+        i++;
+      }
+    }
+
+    const raw = input.slice(start, i);
+    const negated = raw.length > 1 && raw.startsWith('-');
+    const body = negated ? raw.slice(1) : raw;
+    const filterMatch = body.match(/^([A-Za-z]+):(.*)$/s);
+    const filterKey = filterMatch?.[1].toLowerCase();
+    const token: QueryToken = { kind: 'term', raw, start, end: i, value: body, negated };
+
+    // Only known keys make a filter; anything else with a colon, like a URL, stays plain text
+    if (filterMatch && isFilterKey(filterKey)) {
+      token.kind = 'filter';
+      token.key = filterKey;
+      token.value = unquote(filterMatch[2]).trim();
+    } else if (body.startsWith('"')) {
+      token.kind = 'phrase';
+      token.value = unquote(body).trim();
+      if (!token.value && !unterminated) token.error = 'Empty phrase';
+    }
+
+    if (unterminated) {
+      token.error = 'Missing closing quote';
+    } else if (token.kind === 'filter' && !token.error) {
+      if (!token.value) {
+        token.error = `${token.key}: needs a value`;
+      } else if (negated) {
+        token.error = `Excluding by ${token.key}: isn't supported`;
+      } else if ((token.key === 'before' || token.key === 'after') && !isValidDateValue(token.value)) {
+        token.error = `${token.key}: expects a date like 2026-01-01`;
+      }
+    }
+
+    tokens.push(token);
+  }
+
+  // Single-valued filters may only appear once
+  const seen = new Set<QueryFilterKey>();
+  tokens.forEach(token => {
+    if (token.kind !== 'filter' || !token.key || token.error || !SINGLE_VALUE_KEYS.includes(token.key)) return;
+    if (seen.has(token.key)) token.error = `Only one ${token.key}: filter is allowed`;
+    seen.add(token.key);
+  });
+
+  return tokens;
+};
+
+// Free-text part of a query, lowercased for matching
+export const parseTextQuery = (query: string): TextQuery => {
+  const text: TextQuery = { terms: [], phrases: [], excluded: [] };
+
+  tokenizeQuery(query).forEach(token => {
+    if (token.kind === 'filter' || !token.value) return;
+    const value = token.kind === 'phrase' ? token.value : token.value.replace(/"/g, '');
+    if (!value) return;
+    if (token.negated) {
+      text.excluded.push(value.toLowerCase());
+    } else if (token.kind === 'phrase') {
+      text.phrases.push(value.toLowerCase());
+    } else {
+      text.terms.push(value.toLowerCase());
+    }
+  });
+
+  return text;
+};
+
+// Case-insensitive pattern matching any term or phrase of a query, with the match as its one
+// capture group, so String.split puts matches at odd indexes
+export const highlightPattern = (query: string): RegExp | null => {
+  const { terms, phrases } = parseTextQuery(query);
+  const escaped = [...phrases, ...terms]
+    .filter(Boolean)
+    .map(t => t.replace(/[.*+?^${}()|[\]\\]/g, '\\$&'));
+  return escaped.length > 0 ? new RegExp(`(${escaped.join('|')})`, 'gi') : null;
+};
+
+const findByName = <T>(items: T[], value: string, name: (item: T) => string, id?: (item: T) => string) => {
+  const lower = value.toLowerCase();
+  if (id) {
+    const byId = items.find(item => id(item) === value);
+    if (byId) return byId;
+  }
+  const exact = items.find(item => name(item).toLowerCase() === lower);
+  if (exact) return exact;
+  const prefixed = items.filter(item => name(item).toLowerCase().startsWith(lower));
+  return prefixed.length === 1 ? prefixed[0] : undefined;
+};
+
+// Maps parsed tokens onto search filters. Tokens with errors, including values that match no
+// principle, project or category, are left out and returned so the search bar can highlight them.
+export const resolveQuery = (
+  input: string,
+  lookups: QueryLookups
+): { filters: QueryFilters; tokens: QueryToken[]; errors: QueryToken[] } => {
+  const filters: QueryFilters = {
+    query: '',
+    tags: [],
+    category: 'All',
+    principleId: 'All',
+    projectId: 'All',
+    before: '',
+    after: '',
+  };
+  const textParts: string[] = [];
+
+  const tokens = tokenizeQuery(input).map(token => {
+    if (token.error) return token;
+    if (token.kind !== 'filter') {
+      textParts.push(token.raw);
+      return token;
+    }
+
+    switch (token.key) {
+      case 'tag':
+        if (!filters.tags.some(t => t.toLowerCase() === token.value.toLowerCase())) filters.tags.push(token.value);
+        break;
+      case 'principle': {
+        // principle:none selects documents not aligned to any principle
+        if (token.value.toLowerCase() === 'none') {
+          filters.principleId = 'none';
+          break;
+        }
+        const principle = findByName(lookups.principles, token.value, p => p.title, p => p.id);
+        if (!principle) return { ...token, error: `No principle matches "${token.value}"` };
+        filters.principleId = principle.id;
+        break;
+      }
+      case 'project': {
+        const project = findByName(lookups.projects, token.value, p => p.name, p => p.id);
+        if (!project) return { ...token, error: `No project matches "${token.value}"` };
+        filters.projectId = project.id;
+        break;
+      }
+      case 'category': {
+        const category = findByName(lookups.categories, token.value, c => c);
+        if (!category) return { ...token, error: `Unknown category "${token.value}"` };
+        filters.category = category;
+        break;
+      }
+      case 'before':
+        filters.before = token.value;
+        break;
+      case 'after':
+        filters.after = token.value;
+        break;
+    }
+    return token;
+  });
+
+  filters.query = textParts.join(' ');
+  return { filters, tokens, errors: tokens.filter(token => token.error) };
+};
+
+// Inverse of resolveQuery: renders the current filters back into query syntax
+export const serializeQuery = (filters: QueryFilters, lookups: QueryLookups): string => {
+  const parts: string[] = [];
+
+  filters.tags.forEach(tag => parts.push(`tag:${quoteValue(tag)}`));
+  if (filters.principleId === 'none') {
+    parts.push('principle:none');
+  } else if (filters.principleId !== 'All') {
+    const principle = lookups.principles.find(p => p.id === filters.principleId);
+    parts.push(`principle:${quoteValue(principle?.title || filters.principleId)}`);
+  }
+  if (filters.projectId !== 'All') {
+    const project = lookups.projects.find(p => p.id === filters.projectId);
+    parts.push(`project:${quoteValue(project?.name || filters.projectId)}`);
+  }
+  if (filters.category !== 'All') parts.push(`category:${quoteValue(filters.category)}`);
+  if (filters.before) parts.push(`before:${filters.before}`);
+  if (filters.after) parts.push(`after:${filters.after}`);
+  if (filters.query.trim()) parts.push(filters.query.trim());
+
+  return parts.join(' ');
+};
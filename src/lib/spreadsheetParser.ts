@@ -0,0 +1,311 @@
+// Tabular parsing for CSV and workbook formats (XLSX, XLS, ODS) with per-sheet schema detection
+
+import * as XLSX from 'xlsx';
+import type { DocumentMetadata, ExtractedContent, PageOffset } from './fileParser';
+import { formatMarkdownTable } from './officeParser';
+
+export type CellValue = string | number | boolean | null;
+
+export type ColumnType = 'integer' | 'number' | 'boolean' | 'date' | 'text' | 'empty';
+
+export type ColumnSchema = {
+  name: string;
+  type: ColumnType;
+  nullCount: number;
+  distinctCount: number;
+  min?: number | string;
+  max?: number | string;
+};
+
+export type SheetSchema = {
+  name: string;
+  rowCount: number;
+  columnCount: number;
+  hasHeader: boolean;
+  columns: ColumnSchema[];
+  previewRows: CellValue[][];
+};
+
+const PREVIEW_ROW_LIMIT = 50;
+const PROMPT_ROW_LIMIT = 15;
+// Share of non-empty values that must parse as a type for the column to be given that type
+const TYPE_THRESHOLD = 0.95;
+
+const DATE_PATTERN = /^(\d{4}-\d{1,2}-\d{1,2}([T ]\d{1,2}:\d{2}(:\d{2})?(\.\d+)?(Z|[+-]\d{2}:?\d{2})?)?|\d{1,2}[/.-]\d{1,2}[/.-]\d{2,4})$/;
+const NUMBER_PATTERN = /^[-+]?[$€£¥]?\s?\d{1,3}(,\d{3})*(\.\d+)?%?$|^[-+]?[$€£¥]?\s?\d*\.?\d+([eE][-+]?\d+)?%?$/;
+const BOOLEAN_VALUES = new Set(['true', 'false', 'yes', 'no', 'y', 'n']);
+
+// ---------- CSV ----------
+
+const detectDelimiter = (text: string): string => {
+  const sample = text.split(/\r?\n/).slice(0, 10).join('\n');
+  const candidates = [',', ';', '\t', '|'];
+  let best = ',';
+  let bestCount = 0;
+
+  for (const delimiter of candidates) {
+    // Count only delimiters outside quoted sections
+    const count = sample.replace(/"[^"]*"/g, '').split(delimiter).length - 1;
+    if (count > bestCount) {
+      best = delimiter;
+      bestCount = count;
+    }
+  }
+
+  return best;
+};
+
+// RFC 4180 parser: quoted fields may contain delimiters, escaped quotes ("") and line breaks
+export const parseCSV = (text: string, delimiter = detectDelimiter(text)): string[][] => {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let inQuotes = false;
+  const input = text.charCodeAt(0) === 0xfeff ? text.slice(1) : text;
+
+  for (let i = 0; i < input.length; i++) {
+    const ch = input[i];
+
+    if (inQuotes) {
+      if (ch === '"' && input[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (ch === '"') {
+        inQuotes = false;
+      } else {
+        field += ch;
+      }
+    } else if (ch === '"' && field === '') {
+      inQuotes = true;
+    } else if (ch === delimiter) {
+      row.push(field);
+      field = '';
+    } else if (ch === '\n' || ch === '\r') {
+      if (ch === '\r' && input[i + 1] === '\n') i++;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = '';
+    } else {
+      field += ch;
+    }
+  }
+
+  if (field !== '' || row.length > 0) {
+    row.push(field);
+    rows.push(row);
+  }
+
+  return rows.filter(r => r.some(cell => cell.trim() !== ''));
+};
+
+// ---------- Schema detection ----------
+
+const isEmpty = (value: CellValue) => value === null || (typeof value === 'string' && value.trim() === '');
+
+const parseNumber = (value: CellValue): number | null => {
+  if (typeof value === 'number') return value;
+  if (typeof value !== 'string') return null;
+  const trimmed = value.trim();
+  if (!NUMBER_PATTERN.test(trimmed)) return null;
+  const num = Number(trimmed.replace(/[$€£¥,%\s]/g, ''));
+  return isNaN(num) ? null : num;
+};
+
+const valueType = (value: CellValue): ColumnType => {
+  if (typeof value === 'boolean') return 'boolean';
+  if (typeof value === 'number') return Number.isInteger(value) ? 'integer' : 'number';
+
+  const trimmed = String(value).trim();
+  if (BOOLEAN_VALUES.has(trimmed.toLowerCase())) return 'boolean';
+  const num = parseNumber(trimmed);
+  if (num !== null) return Number.isInteger(num) && !/[.eE]/.test(trimmed) ? 'integer' : 'number';
+  if (DATE_PATTERN.test(trimmed) && !isNaN(Date.parse(trimmed.replace(/[/.]/g, '-')))) return 'date';
+  return 'text';
+};
+
+const inferColumnType = (values: CellValue[]): ColumnType => {
+  const present = values.filter(v => !isEmpty(v));
+  if (present.length === 0) return 'empty';
+
+  const counts: Partial<Record<ColumnType, number>> = {};
+  present.forEach(v => {
+    const type = valueType(v);
+    counts[type] = (counts[type] || 0) + 1;
+  });
+
+  const share = (...types: ColumnType[]) => types.reduce((sum, t) => sum + (counts[t] || 0), 0) / present.length;
+
+  if (share('integer') >= TYPE_THRESHOLD) return 'integer';
+  if (share('integer', 'number') >= TYPE_THRESHOLD) return 'number';
+  if (share('boolean') >= TYPE_THRESHOLD) return 'boolean';
+  if (share('date') >= TYPE_THRESHOLD) return 'date';
+  return 'text';
+};
+
+// The first row is a header when it is all distinct text while the rows below it are not,
+// or when every column is text and the first row has no blanks or duplicates
+const detectHeader = (rows: CellValue[][]): boolean => {
+  if (rows.length < 2) return false;
+
+  const first = rows[0];
+  const labels = first.filter(v => !isEmpty(v)).map(v => String(v).trim().toLowerCase());
+  if (labels.length === 0) return false;
+  if (first.some(v => !isEmpty(v) && valueType(v) !== 'text')) return false;
+  if (new Set(labels).size !== labels.length) return false;
+
+  const body = rows.slice(1, 200);
+  const bodyTypes = first.map((_, col) => inferColumnType(body.map(r => r[col] ?? null)));
+  if (bodyTypes.some(t => t !== 'text' && t !== 'empty')) return true;
+
+  return labels.length === first.length;
+};
+
+const buildColumnSchema = (name: string, values: CellValue[]): ColumnSchema => {
+  const type = inferColumnType(values);
+  const present = values.filter(v => !isEmpty(v));
+  const schema: ColumnSchema = {
+    name,
+    type,
+    nullCount: values.length - present.length,
+    distinctCount: new Set(present.map(v => String(v))).size,
+  };
+
+  if (type === 'integer' || type === 'number') {
+    const nums = present.map(parseNumber).filter((n): n is number => n !== null);
+    if (nums.length > 0) {
+      schema.min = nums.reduce((a, b) => Math.min(a, b));
+      schema.max = nums.reduce((a, b) => Math.max(a, b));
+    }
+  } else if (type === 'date') {
+    const sorted = present.map(v => String(v).trim()).sort();
+    schema.min = sorted[0];
+    schema.max = sorted[sorted.length - 1];
+  }
+
+  return schema;
+};
+
+export const buildSheetSchema = (name: string, rawRows: CellValue[][]): SheetSchema => {
+  const columnCount = rawRows.reduce((max, r) => Math.max(max, r.length), 0);
+  const rows = rawRows.map(r => Array.from({ length: columnCount }, (_, i) => r[i] ?? null));
+  const hasHeader = detectHeader(rows);
+  const header = hasHeader ? rows[0] : [];
+  const body = hasHeader ? rows.slice(1) : rows;
+
+  const columns = Array.from({ length: columnCount }, (_, col) => {
+    const label = !isEmpty(header[col] ?? null) ? String(header[col]).trim() : `Column ${col + 1}`;
+    return buildColumnSchema(label, body.map(r => r[col]));
+  });
+
+  return {
+    name,
+    rowCount: body.length,
+    columnCount,
+    hasHeader,
+    columns,
+    previewRows: body.slice(0, PREVIEW_ROW_LIMIT),
+  };
+};
+
+// One-line-per-sheet summary used for documents.data_description
+export const describeSheets = (sheets: SheetSchema[]): string => {
+  return sheets
+    .map(sheet => {
+      const columns = sheet.columns
+        .filter(c => c.type !== 'empty')
+        .map(c => `${c.name} (${c.type})`)
+        .join(', ');
+      const label = sheets.length > 1 ? `${sheet.name}: ` : '';
+      return `${label}${sheet.rowCount.toLocaleString()} rows × ${sheet.columnCount} columns${columns ? ` — ${columns}` : ''}`;
+    })
+    .join('\n');
+};
+
+const formatSheet = (sheet: SheetSchema): string => {
+  const columnLines = sheet.columns.map(c => {
+    const range = c.min !== undefined ? `, ${c.min} to ${c.max}` : '';
+    const empty = c.nullCount > 0 ? `, ${c.nullCount} empty` : '';
+    return `- ${c.name}: ${c.type}${range}${empty}, ${c.distinctCount} distinct`;
+  });
+  const preview = formatMarkdownTable([
+    sheet.columns.map(c => c.name),
+    ...sheet.previewRows.slice(0, PROMPT_ROW_LIMIT).map(r => r.map(v => (v === null ? '' : String(v)))),
+  ]);
+
+  return [
+    `## Sheet: ${sheet.name} (${sheet.rowCount} rows × ${sheet.columnCount} columns${sheet.hasHeader ? '' : ', no header row'})`,
+    `Columns:\n${columnLines.join('\n')}`,
+    `Preview:\n${preview}`,
+  ].join('\n\n');
+};
+
+const toExtractedContent = (sheets: SheetSchema[], metadata?: DocumentMetadata): ExtractedContent => {
+  let text = '';
+  const pages: PageOffset[] = [];
+
+  sheets.forEach((sheet, i) => {
+    const start = text.length;
+    text += formatSheet(sheet);
+    pages.push({ page: i + 1, start, end: text.length });
+    text += '\n\n';
+  });
+
+  return { text: text.trimEnd(), pages, metadata, tables: sheets };
+};
+
+// ---------- Entry points ----------
+
+export const extractCsvContent = async (file: File): Promise<ExtractedContent> => {
+  const rows = parseCSV(await file.text());
+  const name = file.name.replace(/\.[^.]+$/, '');
+  return toExtractedContent([buildSheetSchema(name, rows)]);
+};
+
+const normalizeCell = (value: unknown): CellValue => {
+  if (value === null || value === undefined) return null;
+  if (value instanceof Date) {
+    return isNaN(value.getTime()) ? null : value.toISOString().replace(/T00:00:00\.000Z$/, '');
+  }
+  if (typeof value === 'number' || typeof value === 'boolean' || typeof value === 'string') return value;
+  return String(value);
+};
+
+const sheetRows = (sheet: XLSX.WorkSheet): CellValue[][] => {
+  const rows = XLSX.utils.sheet_to_json<unknown[]>(sheet, {
+    header: 1,
+    raw: true,
+    defval: null,
+    blankrows: false,
+  });
+  return rows.map(r => r.map(normalizeCell));
+};
+
+export const extractWorkbookContent = async (file: File): Promise<ExtractedContent> => {
+  const workbook = XLSX.read(await file.arrayBuffer(), { type: 'array', cellDates: true });
+
+  const sheets = workbook.SheetNames.map(name => buildSheetSchema(name, sheetRows(workbook.Sheets[name])));
+
+  const props = workbook.Props;
+  const metadata: DocumentMetadata = {
+    title: props?.Title || undefined,
+    author: props?.Author || undefined,
+    subject: props?.Subject || undefined,
+    keywords: props?.Keywords || undefined,
+    createdAt: props?.CreatedDate ? new Date(props.CreatedDate).toISOString() : undefined,
+    modifiedAt: props?.ModifiedDate ? new Date(props.ModifiedDate).toISOString() : undefined,
+    pageCount: sheets.length,
+  };
+
+  return toExtractedContent(sheets, metadata);
+};
+
+// Every row of every sheet, for the document preview; the schema only keeps a sample
+export const readSheetRows = async (file: File): Promise<{ name: string; rows: CellValue[][] }[]> => {
+  if (file.type === 'text/csv') {
+    return [{ name: file.name.replace(/\.[^.]+$/, ''), rows: parseCSV(await file.text()) }];
+  }
+
+  const workbook = XLSX.read(await file.arrayBuffer(), { type: 'array', cellDates: true });
+  return workbook.SheetNames.map(name => ({ name, rows: sheetRows(workbook.Sheets[name]) }));
+};
@@ -0,0 +1,304 @@
+// Parsing and syntax highlighting for the JSON, YAML and XML previews
+
+export type StructuredFormat = 'json' | 'yaml' | 'xml';
+
+// A node of the collapsible tree view. Objects, arrays and XML elements have children; scalars,
+// text content and attributes carry a value.
+export type TreeNode = {
+  key: string;
+  kind: 'object' | 'array' | 'element' | 'value';
+  value?: string;
+  valueType?: 'string' | 'number' | 'boolean' | 'null';
+  attributes?: { name: string; value: string }[];
+  children?: TreeNode[];
+};
+
+export type SyntaxTokenType = 'key' | 'string' | 'number' | 'literal' | 'comment' | 'tag' | 'attribute' | 'punctuation' | 'plain';
+
+export type SyntaxToken = {
+  text: string;
+  type: SyntaxTokenType;
+};
+
+export const structuredFormatOf = (mimeType: string): StructuredFormat | null => {
+  if (mimeType === 'application/json') return 'json';
+  if (mimeType.includes('yaml')) return 'yaml';
+  if (mimeType.includes('xml')) return 'xml';
+  return null;
+};
+
+// ---------- Trees ----------
+
+const valueTree = (key: string, value: unknown): TreeNode => {
+  if (Array.isArray(value)) {
+    return { key, kind: 'array', children: value.map((item, i) => valueTree(String(i), item)) };
+  }
+  if (value !== null && typeof value === 'object') {
+    return {
+      key,
+      kind: 'object',
+      children: Object.entries(value as Record<string, unknown>).map(([k, v]) => valueTree(k, v)),
+    };
+  }
+  if (value === null || value === undefined) return { key, kind: 'value', value: 'null', valueType: 'null' };
+  if (typeof value === 'number') return { key, kind: 'value', value: String(value), valueType: 'number' };
+  if (typeof value === 'boolean') return { key, kind: 'value', value: String(value), valueType: 'boolean' };
+  return { key, kind: 'value', value: String(value), valueType: 'string' };
+};
+
+const elementTree = (element: Element): TreeNode => {
+  const children: TreeNode[] = [];
+  element.childNodes.forEach(node => {
+    if (node.nodeType === Node.ELEMENT_NODE) {
+      children.push(elementTree(node as Element));
+    } else if (node.nodeType === Node.TEXT_NODE || node.nodeType === Node.CDATA_SECTION_NODE) {
+      const text = node.textContent?.trim();
+      if (text) children.push({ key: '#text', kind: 'value', value: text, valueType: 'string' });
+    }
+  });
+
+  return {
+    key: element.tagName,
+    kind: 'element',
+    attributes: Array.from(element.attributes).map(attr => ({ name: attr.name, value: attr.value })),
+    children,
+  };
+};
+
+const parseXml = (text: string): TreeNode => {
+  const doc = new DOMParser().parseFromString(text, 'application/xml');
+  const error = doc.querySelector('parsererror');
+  if (error) throw new Error(error.textContent?.split('\n')[0] || 'Invalid XML');
+  return elementTree(doc.documentElement);
+};
+
+// Throws when the text isn't valid in its format; the preview then shows only the source
+export const parseStructuredTree = (text: string, format: StructuredFormat): TreeNode => {
+  switch (format) {
+    case 'json':
+      return valueTree('root', JSON.parse(text));
+    case 'yaml':
+      return valueTree('root', parseYaml(text));
+    case 'xml':
+      return parseXml(text);
+  }
+};
+
+// ---------- YAML ----------
+
+// The block-style subset config files use: nested mappings and sequences, plain and quoted scalars,
+// literal (|) and folded (>) block scalars, and flow collections that are flat or valid JSON.
+// Anchors, tags and multiple documents are not supported.
+
+type YamlLine = { indent: number; text: string; line: number };
+
+const YAML_KEY = /^("(?:[^"\\]|\\.)*"|'(?:[^']|'')*'|[^\s#'"{[][^:#]*?)\s*:(?:\s+(.*))?$/;
+
+const stripComment = (text: string) => {
+  let quote: string | null = null;
+  for (let i = 0; i < text.length; i++) {
+    const ch = text[i];
+    if (quote) {
+      if (ch === quote) quote = null;
+    } else if (ch === '"' || ch === "'") {
+      quote = ch;
+    } else if (ch === '#' && (i === 0 || /\s/.test(text[i - 1]))) {
+      return text.slice(0, i).trimEnd();
+    }
+  }
+  return text.trimEnd();
+};
+
+const unquote = (value: string) => {
+  if (value.startsWith('"')) return JSON.parse(value) as string;
+  return value.slice(1, -1).replace(/''/g, "'");
+};
+
+const yamlKey = (raw: string) => (/^["']/.test(raw) ? unquote(raw) : raw.trim());
+
+// Flat flow collections with plain scalars, e.g. "[a, b]" or "{ x: 1, y: 2 }"; anything nested is kept as text
+const parseFlowCollection = (value: string): unknown => {
+  const inner = value.slice(1, -1);
+  if (/[[\]{}]/.test(inner) || !/^(\[.*\]|\{.*\})$/.test(value)) return value;
+  const items = inner.trim() ? inner.split(',').map(item => item.trim()) : [];
+
+  if (value.startsWith('[')) return items.map(parseScalar);
+  const entries: [string, unknown][] = [];
+  for (const item of items) {
+    const match = item.match(YAML_KEY);
+    if (!match) return value;
+    entries.push([yamlKey(match[1]), parseScalar(match[2] ?? '')]);
+  }
+  return Object.fromEntries(entries);
+};
+
+const parseScalar = (raw: string): unknown => {
+  const value = raw.trim();
+  if (value === '' || value === '~' || value === 'null') return null;
+  if (value === 'true' || value === 'false') return value === 'true';
+  if (/^[-+]?(\d+\.?\d*|\.\d+)([eE][-+]?\d+)?$/.test(value)) return Number(value);
+  if (/^(".*"|'.*')$/.test(value)) return unquote(value);
+  if (/^[[{]/.test(value)) {
+    try {
+      return JSON.parse(value);
+    } catch {
+      return parseFlowCollection(value);
+    }
+  }
+  return value;
+};
+
+const isSequenceItem = (text: string) => text === '-' || text.startsWith('- ');
+
+const parseYamlBlock = (lines: YamlLine[], start: number, indent: number): [unknown, number] => {
+  if (isSequenceItem(lines[start].text)) return parseYamlSequence(lines, start, indent);
+  return parseYamlMapping(lines, start, indent);
+};
+
+const parseYamlSequence = (lines: YamlLine[], start: number, indent: number): [unknown[], number] => {
+  const items: unknown[] = [];
+  let i = start;
+
+  while (i < lines.length && lines[i].indent === indent && isSequenceItem(lines[i].text)) {
+    const content = lines[i].text.slice(1).trimStart();
+
+    if (!content) {
+      const next = lines[i + 1];
+      if (next && next.indent > indent) {
+        const [value, end] = parseYamlBlock(lines, i + 1, next.indent);
+        items.push(value);
+        i = end;
+      } else {
+        items.push(null);
+        i++;
+      }
+    } else if (YAML_KEY.test(content) || isSequenceItem(content)) {
+      // "- key: value" opens a nested block whose indent is where the content starts
+      const contentIndent = indent + lines[i].text.length - content.length;
+      lines[i] = { ...lines[i], indent: contentIndent, text: content };
+      const [value, end] = parseYamlBlock(lines, i, contentIndent);
+      items.push(value);
+      i = end;
+    } else {
+      items.push(parseScalar(content));
+      i++;
+    }
+  }
+
+  return [items, i];
+};
+
+const parseBlockScalar = (lines: YamlLine[], start: number, indent: number, style: string): [string, number] => {
+  let i = start;
+  const body: YamlLine[] = [];
+  while (i < lines.length && lines[i].indent > indent) body.push(lines[i++]);
+
+  const base = body.length > 0 ? Math.min(...body.map(line => line.indent)) : 0;
+  const texts = body.map(line => ' '.repeat(line.indent - base) + line.text);
+  return [style.startsWith('>') ? texts.join(' ') : texts.join('\n'), i];
+};
+
+const parseYamlMapping = (lines: YamlLine[], start: number, indent: number): [Record<string, unknown>, number] => {
+  const result: Record<string, unknown> = {};
+  let i = start;
+
+  while (i < lines.length && lines[i].indent === indent) {
+    const match = lines[i].text.match(YAML_KEY);
+    if (!match) throw new Error(`Unexpected content on line ${lines[i].line}`);
+
+    const key = yamlKey(match[1]);
+    const rest = match[2]?.trim() ?? '';
+    const next = lines[i + 1];
+
+    if (/^[|>][-+]?$/.test(rest)) {
+      [result[key], i] = parseBlockScalar(lines, i + 1, indent, rest);
+    } else if (rest) {
+      result[key] = parseScalar(rest);
+      i++;
+    } else if (next && next.indent > indent) {
+      [result[key], i] = parseYamlBlock(lines, i + 1, next.indent);
+    } else if (next && next.indent === indent && isSequenceItem(next.text)) {
+      // A sequence may sit at the same indent as its key
+      [result[key], i] = parseYamlSequence(lines, i + 1, indent);
+    } else {
+      result[key] = null;
+      i++;
+    }
+  }
+
+  return [result, i];
+};
+
+export const parseYaml = (text: string): unknown => {
+  const lines: YamlLine[] = [];
+  text.split(/\r?\n/).forEach((raw, index) => {
+    const trimmed = stripComment(raw.replace(/\t/g, '  '));
+    if (!trimmed.trim() || /^(---|\.\.\.)\s*$/.test(trimmed)) return;
+    const indent = trimmed.length - trimmed.trimStart().length;
+    lines.push({ indent, text: trimmed.trim(), line: index + 1 });
+  });
+
+  if (lines.length === 0) return null;
+  if (lines.length === 1 && !YAML_KEY.test(lines[0].text) && !isSequenceItem(lines[0].text)) {
+    return parseScalar(lines[0].text);
+  }
+
+  const [value, end] = parseYamlBlock(lines, 0, lines[0].indent);
+  if (end < lines.length) throw new Error(`Unexpected indentation on line ${lines[end].line}`);
+  return value;
+};
+
+// ---------- Syntax highlighting ----------
+
+type TokenRule = [SyntaxTokenType, string];
+
+// Alternatives are tried left to right at each position, so longer constructs come first
+const TOKEN_RULES: Record<StructuredFormat, TokenRule[]> = {
+  json: [
+    ['key', '"(?:[^"\\\\]|\\\\.)*"(?=\\s*:)'],
+    ['string', '"(?:[^"\\\\]|\\\\.)*"'],
+    ['number', '-?\\d+(?:\\.\\d+)?(?:[eE][-+]?\\d+)?'],
+    ['literal', '\\b(?:true|false|null)\\b'],
+    ['punctuation', '[{}\\[\\],:]'],
+  ],
+  yaml: [
+    ['comment', '(?:^|(?<=\\s))#.*'],
+    ['key', '(?<=^[ \\t]*(?:- )?)(?!-\\s)[^\\s#:\'"][^:\\n#]*?(?=:(?:\\s|$))'],
+    ['string', '"(?:[^"\\\\\\n]|\\\\.)*"|\'(?:[^\'\\n]|\'\')*\''],
+    ['number', '(?<=[:\\-]\\s+)-?\\d+(?:\\.\\d+)?(?=\\s*$)'],
+    ['literal', '(?<=[:\\-]\\s+)(?:true|false|null|~)(?=\\s*$)'],
+    ['punctuation', '^[ \\t]*-(?=\\s)|:(?=\\s|$)|[|>][-+]?(?=\\s*$)'],
+  ],
+  xml: [
+    ['comment', '<!--[\\s\\S]*?-->'],
+    ['tag', '<\\/?[\\w:.-]+|\\/?>|<\\?[\\w:.-]+|\\?>'],
+    ['attribute', '[\\w:.-]+(?==)'],
+    ['string', '"[^"]*"|\'[^\']*\''],
+  ],
+};
+
+const TOKEN_PATTERNS = Object.fromEntries(
+  Object.entries(TOKEN_RULES).map(([format, rules]) => [
+    format,
+    new RegExp(rules.map(([, source]) => `(${source})`).join('|'), 'gm'),
+  ])
+) as Record<StructuredFormat, RegExp>;
+
+export const tokenizeSource = (text: string, format: StructuredFormat): SyntaxToken[] => {
+  const rules = TOKEN_RULES[format];
+  const pattern = new RegExp(TOKEN_PATTERNS[format]);
+  const tokens: SyntaxToken[] = [];
+  let last = 0;
+
+  for (const match of text.matchAll(pattern)) {
+    if (!match[0]) continue;
+    const index = match.index ?? 0;
+    if (index > last) tokens.push({ text: text.slice(last, index), type: 'plain' });
+    const rule = rules.findIndex((_, i) => match[i + 1] !== undefined);
+    tokens.push({ text: match[0], type: rules[rule][0] });
+    last = index + match[0].length;
+  }
+
+  if (last < text.length) tokens.push({ text: text.slice(last), type: 'plain' });
+  return tokens;
+};
@@ -0,0 +1,151 @@
+// Line-based text diff (Myers' O(ND) algorithm) for comparing document versions
+
+export type DiffLine = {
+  op: 'equal' | 'insert' | 'delete';
+  text: string;
+  oldLine?: number;
+  newLine?: number;
+};
+
+export type DiffRow = DiffLine | { op: 'skip'; count: number };
+
+// Beyond this many edits the texts are treated as rewritten rather than searched for a minimal diff
+const MAX_EDITS = 2000;
+
+const splitLines = (text: string) => (text === '' ? [] : text.replace(/\r\n?/g, '\n').split('\n'));
+
+// Shortest edit script between a and b as equal/insert/delete ops, or null if it exceeds maxEdits
+const myers = (a: string[], b: string[], maxEdits: number): DiffLine['op'][] | null => {
+  const n = a.length;
+  const m = b.length;
+  const max = Math.min(n + m, maxEdits);
+  const offset = max + 1;
+  const v = new Int32Array(2 * max + 3);
+  // trace[d] holds v for diagonals -d-1..d+1 as it was before step d
+  const trace: Int32Array[] = [];
+
+  v[offset + 1] = 0;
+  for (let d = 0; d <= max; d++) {
+    trace.push(v.slice(offset - d - 1, offset + d + 2));
+
+    for (let k = -d; k <= d; k += 2) {
+      let x = k === -d || (k !== d && v[offset + k - 1] < v[offset + k + 1])
+        ? v[offset + k + 1]
+        : v[offset + k - 1] + 1;
+      let y = x - k;
+      while (x < n && y < m && a[x] === b[y]) {
+        x++;
+        y++;
+      }
+      v[offset + k] = x;
+
+      if (x >= n && y >= m) return backtrack(trace, n, m);
+    }
+  }
+
+  return null;
+};
+
+const backtrack = (trace: Int32Array[], n: number, m: number): DiffLine['op'][] => {
+  const ops: DiffLine['op'][] = [];
+  let x = n;
+  let y = m;
+
+  for (let d = trace.length - 1; d >= 0; d--) {
+    const v = trace[d];
+    const at = (k: number) => v[k + d + 1];
+    const k = x - y;
+    const prevK = k === -d || (k !== d && at(k - 1) < at(k + 1)) ? k + 1 : k - 1;
+    const prevX = d === 0 ? 0 : at(prevK);
+    const prevY = d === 0 ? 0 : prevX - prevK;
+
+    while (x > prevX && y > prevY) {
+      ops.push('equal');
+      x--;
+      y--;
+    }
+    if (d > 0) {
+      ops.push(x === prevX ? 'insert' : 'delete');
+      x = prevX;
+      y = prevY;
+    }
+  }
+
+  return ops.reverse();
+};
+
+export const diffLines = (oldText: string, newText: string): DiffLine[] => {
+  const a = splitLines(oldText);
+  const b = splitLines(newText);
+
+  // Common prefix and suffix are matched directly, which keeps the search small for typical revisions
+  let prefix = 0;
+  while (prefix < a.length && prefix < b.length && a[prefix] === b[prefix]) prefix++;
+  let suffix = 0;
+  while (
+    suffix < a.length - prefix &&
+    suffix < b.length - prefix &&
+    a[a.length - 1 - suffix] === b[b.length - 1 - suffix]
+  ) suffix++;
+
+  const midA = a.slice(prefix, a.length - suffix);
+  const midB = b.slice(prefix, b.length - suffix);
+  const ops = myers(midA, midB, MAX_EDITS) ?? [
+    ...midA.map((): DiffLine['op'] => 'delete'),
+    ...midB.map((): DiffLine['op'] => 'insert'),
+  ];
+
+  const lines: DiffLine[] = [];
+  let i = 0;
+  let j = 0;
+  const push = (op: DiffLine['op']) => {
+    if (op === 'equal') {
+      lines.push({ op, text: a[i], oldLine: i + 1, newLine: j + 1 });
+      i++;
+      j++;
+    } else if (op === 'delete') {
+      lines.push({ op, text: a[i], oldLine: i + 1 });
+      i++;
+    } else {
+      lines.push({ op, text: b[j], newLine: j + 1 });
+      j++;
+    }
+  };
+
+  for (let p = 0; p < prefix; p++) push('equal');
+  ops.forEach(push);
+  for (let s = 0; s < suffix; s++) push('equal');
+
+  return lines;
+};
+
+export const diffStats = (lines: DiffLine[]) => ({
+  added: lines.filter(line => line.op === 'insert').length,
+  removed: lines.filter(line => line.op === 'delete').length,
+});
+
+// Collapses unchanged runs to a few lines of context around each change, like a unified diff
+export const collapseUnchanged = (lines: DiffLine[], context = 3): DiffRow[] => {
+  const keep = lines.map(line => line.op !== 'equal');
+  lines.forEach((line, index) => {
+    if (line.op === 'equal') return;
+    for (let c = Math.max(0, index - context); c <= Math.min(lines.length - 1, index + context); c++) {
+      keep[c] = true;
+    }
+  });
+
+  const rows: DiffRow[] = [];
+  let skipped = 0;
+  lines.forEach((line, index) => {
+    if (keep[index]) {
+      if (skipped > 0) rows.push({ op: 'skip', count: skipped });
+      skipped = 0;
+      rows.push(line);
+    } else {
+      skipped++;
+    }
+  });
+  if (skipped > 0) rows.push({ op: 'skip', count: skipped });
+
+  return rows;
+};
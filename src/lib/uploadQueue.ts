@@ -0,0 +1,175 @@
+// Persistence and retry policy for the upload queue. Queued uploads, including the File itself,
+// are kept in IndexedDB so a reload can pick up where processing left off.
+
+import type { Document, RelatedItems } from '@/hooks/useDocuments';
+import type { ExtractedContent } from './fileParser';
+
+export const MAX_CONCURRENT_UPLOADS = 3;
+export const MAX_UPLOAD_ATTEMPTS = 5;
+const BASE_RETRY_DELAY_MS = 2000;
+const MAX_RETRY_DELAY_MS = 60000;
+
+export type UploadStatus =
+  | 'queued'
+  | 'uploading'
+  | 'processing'
+  | 'categorizing'
+  | 'reviewing'
+  | 'complete'
+  | 'error';
+
+export interface AiSuggestion {
+  principle_alignment?: {
+    primary_principle_id: string | null;
+    primary_principle_name: string;
+    alignment_explanation: string;
+    serves_goal: string;
+  };
+  category: string;
+  confidence: number;
+  reasoning: string;
+  title: string;
+  summary: string;
+  tags: string[];
+  related_items?: RelatedItems;
+  suggested_actions?: string[];
+  data_description?: string;
+}
+
+export interface UploadEditedData {
+  category: string;
+  title: string;
+  summary: string;
+  tags: string;
+  primary_principle_id: string | null;
+}
+
+export interface QueuedUpload {
+  id: string;
+  userId: string;
+  file: File;
+  createdAt: number;
+  status: UploadStatus;
+  progress: number;
+  error?: string;
+  attempts: number;
+  // Earliest time (epoch ms) a queued retry may start
+  retryAt?: number;
+  // Fixed when the upload is queued, so retries and the saved document all use the same object
+  storagePath: string;
+  // Results of finished steps, so a resumed upload skips them
+  uploaded?: boolean;
+  extracted?: ExtractedContent;
+  contentHash?: string;
+  fingerprint?: number[] | null;
+  aiSuggestion?: AiSuggestion;
+  editedData?: UploadEditedData;
+  // Set when the upload is a new version of an existing document
+  targetDocument?: Document;
+  // Set once the user has decided what to do about matching documents
+  duplicatesResolved?: boolean;
+  // Set when the user chose to keep the upload and link it to a matching document
+  relatedDocument?: Document;
+  // Set once confirming has written the document or its new version, so retrying the review doesn't write it again
+  savedDocument?: Document;
+}
+
+// Statuses that only mean something while a worker is running; after a reload they go back in the queue
+export const IN_FLIGHT_STATUSES: UploadStatus[] = ['uploading', 'processing', 'categorizing'];
+
+const DB_NAME = 'lumen-uploads';
+const STORE_NAME = 'uploads';
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+const openDb = () => {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, 1);
+      request.onupgradeneeded = () => {
+        request.result.createObjectStore(STORE_NAME, { keyPath: 'id' });
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => {
+        dbPromise = null;
+        reject(request.error);
+      };
+    });
+  }
+  return dbPromise;
+};
+
+const withStore = async <T>(
+  mode: IDBTransactionMode,
+  run: (store: IDBObjectStore) => IDBRequest<T>
+): Promise<T> => {
+  const db = await openDb();
+  return new Promise((resolve, reject) => {
+    const request = run(db.transaction(STORE_NAME, mode).objectStore(STORE_NAME));
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+};
+
+export const loadUploads = async (userId: string): Promise<QueuedUpload[]> => {
+  const uploads = await withStore<QueuedUpload[]>('readonly', store => store.getAll());
+  return uploads
+    .filter(upload => upload.userId === userId)
+    .sort((a, b) => a.createdAt - b.createdAt);
+};
+
+export const saveUpload = (upload: QueuedUpload) =>
+  withStore('readwrite', store => store.put(upload)).then(() => undefined);
+
+export const deleteUpload = (id: string) =>
+  withStore('readwrite', store => store.delete(id)).then(() => undefined);
+
+// HTTP status carried by a Supabase functions, storage or PostgREST error, if any
+const errorStatus = (error: unknown): number | undefined => {
+  if (!error || typeof error !== 'object') return undefined;
+  const { context, status, statusCode } = error as {
+    context?: unknown;
+    status?: unknown;
+    statusCode?: unknown;
+  };
+  if (context instanceof Response) return context.status;
+  if (typeof status === 'number') return status;
+  if (typeof statusCode === 'string' || typeof statusCode === 'number') return Number(statusCode);
+  return undefined;
+};
+
+// Rate limits, server errors and dropped connections are worth retrying; anything else is permanent
+export const isRetryableError = (error: unknown) => {
+  const status = errorStatus(error);
+  if (status !== undefined) return status === 429 || status >= 500;
+
+  const name = error instanceof Error ? error.name : '';
+  return name === 'FunctionsFetchError' || name === 'FunctionsRelayError' || error instanceof TypeError;
+};
+
+// Exponential backoff, jittered so parallel uploads that hit a rate limit together don't retry together
+export const retryDelay = (attempt: number) => {
+  const ceiling = Math.min(MAX_RETRY_DELAY_MS, BASE_RETRY_DELAY_MS * 2 ** (attempt - 1));
+  return Math.round(ceiling / 2 + Math.random() * (ceiling / 2));
+};
+
+export const describeUpload = (upload: QueuedUpload) => {
+  switch (upload.status) {
+    case 'queued':
+      return upload.attempts > 0
+        ? `Retrying (attempt ${upload.attempts + 1} of ${MAX_UPLOAD_ATTEMPTS})...`
+        : 'Waiting to upload...';
+    case 'uploading':
+      return 'Uploading...';
+    case 'processing':
+      return 'Processing file...';
+    case 'categorizing':
+      return 'AI analyzing document...';
+    case 'reviewing':
+      return 'Ready for review';
+    case 'complete':
+      return 'Saved';
+    case 'error':
+      return `Error: ${upload.error}`;
+  }
+};
@@ -1,14 +1,48 @@
-import { useState, useRef, useEffect } from "react";
+import { useState, useRef, useEffect, useMemo } from "react";
+import { Link, useSearchParams } from "react-router-dom";
 import { useChat } from "@/hooks/useChat";
+import { AssistantAction, useAssistantActions } from "@/hooks/useAssistantActions";
 import { Button } from "@/components/ui/button";
 import { Textarea } from "@/components/ui/textarea";
 import { Card } from "@/components/ui/card";
 import { ScrollArea } from "@/components/ui/scroll-area";
-import { Send, Sparkles, User, Loader2 } from "lucide-react";
-import ReactMarkdown from "react-markdown";
+import { Send, Sparkles, User, Loader2, MessageSquareHeart } from "lucide-react";
+import { CitedAnswer } from "@/components/assistant/CitedAnswer";
+import { ActionCard } from "@/components/assistant/ActionCard";
+import { ChatSessionSidebar } from "@/components/assistant/ChatSessionSidebar";
+import { ConversationMemory } from "@/components/assistant/ConversationMemory";
+import { MessageFeedback } from "@/components/assistant/MessageFeedback";
+import { useSessionFeedback } from "@/hooks/useChatFeedback";
+import { sessionTitle, useChatSessions } from "@/hooks/useChatSessions";
+import { sourcesOf } from "@/lib/citations";
 
 const Assistant = () => {
-  const { messages, isLoading, isStreaming, sendMessage } = useChat();
+  const { messages, isLoading, isStreaming, sendMessage, session, openSession, startNewSession } = useChat();
+  const { data: sessions } = useChatSessions();
+  // The listed copy reflects renames made in the sidebar
+  const activeSession = sessions?.find(s => s.id === session?.id) ?? session;
+  const { data: actions } = useAssistantActions(session?.id);
+  const actionsByMessage = useMemo(() => {
+    const grouped = new Map<string, AssistantAction[]>();
+    (actions || []).forEach(action => {
+      if (!action.message_id) return;
+      grouped.set(action.message_id, [...(grouped.get(action.message_id) || []), action]);
+    });
+    return grouped;
+  }, [actions]);
+  const { data: feedbackByMessage } = useSessionFeedback(session?.id);
+
+  // ?session=<id> opens that conversation, as links from the feedback page do
+  const [searchParams, setSearchParams] = useSearchParams();
+  const linkedSessionId = searchParams.get("session");
+  useEffect(() => {
+    if (!linkedSessionId || !sessions) return;
+    const linked = sessions.find(s => s.id === linkedSessionId);
+    if (linked) openSession(linked);
+    const next = new URLSearchParams(searchParams);
+    next.delete("session");
+    setSearchParams(next, { replace: true });
+  }, [linkedSessionId, sessions, openSession, searchParams, setSearchParams]);
   const [input, setInput] = useState("");
   const scrollRef = useRef<HTMLDivElement>(null);
   const textareaRef = useRef<HTMLTextAreaElement>(null);
@@ -60,131 +94,159 @@ const Assistant = () => {
           <div>
             <h1 className="text-2xl font-bold">Lumen Assistant</h1>
             <p className="text-sm text-muted-foreground">
-              Your intelligent flow thought communication system
+              {activeSession ? sessionTitle(activeSession) : "Your intelligent flow thought communication system"}
             </p>
           </div>
+          <div className="ml-auto flex gap-2">
+            {activeSession && <ConversationMemory session={activeSession} />}
+            <Button variant="outline" size="sm" asChild>
+              <Link to="/assistant/feedback">
+                <MessageSquareHeart className="h-4 w-4 mr-2" />
+                Feedback
+              </Link>
+            </Button>
+          </div>
         </div>
       </div>
 
-      {/* Messages Area */}
-      <ScrollArea className="flex-1 p-4">
-        <div className="max-w-3xl mx-auto space-y-6">
-          {messages.length === 0 ? (
-            <div className="flex flex-col items-center justify-center py-12 space-y-6">
-              <div className="p-4 rounded-full bg-primary/10">
-                <Sparkles className="h-12 w-12 text-primary" />
-              </div>
-              <div className="text-center space-y-2">
-                <h2 className="text-2xl font-semibold">Welcome to Lumen Assistant</h2>
-                <p className="text-muted-foreground max-w-md">
-                  I understand your principles, documents, and projects. Ask me anything!
-                </p>
-              </div>
+      <div className="flex-1 flex min-h-0">
+        <ChatSessionSidebar
+          activeSessionId={session?.id}
+          onOpen={openSession}
+          onNew={() => {
+            startNewSession();
+            textareaRef.current?.focus();
+          }}
+        />
 
-              {/* Suggested Prompts */}
-              <div className="grid grid-cols-1 md:grid-cols-2 gap-3 w-full max-w-2xl">
-                {suggestedPrompts.map((prompt, index) => (
-                  <Button
-                    key={index}
-                    variant="outline"
-                    className="h-auto p-4 text-left justify-start hover:bg-accent"
-                    onClick={() => handleSuggestedPrompt(prompt)}
-                  >
-                    {prompt}
-                  </Button>
-                ))}
-              </div>
-            </div>
-          ) : (
-            <>
-              {messages.map((message) => (
-                <div
-                  key={message.id}
-                  className={`flex gap-3 ${
-                    message.role === "user" ? "justify-end" : "justify-start"
-                  }`}
-                >
-                  {message.role === "assistant" && (
-                    <div className="flex-shrink-0 p-2 rounded-lg bg-gradient-to-br from-primary to-primary/50 h-fit">
-                      <Sparkles className="h-4 w-4 text-primary-foreground" />
+        <div className="flex-1 flex flex-col min-w-0">
+          {/* Messages Area */}
+          <ScrollArea className="flex-1 p-4">
+            <div className="max-w-3xl mx-auto space-y-6">
+              {messages.length === 0 ? (
+                <div className="flex flex-col items-center justify-center py-12 space-y-6">
+                  <div className="p-4 rounded-full bg-primary/10">
+                    <Sparkles className="h-12 w-12 text-primary" />
+                  </div>
+                  <div className="text-center space-y-2">
+                    <h2 className="text-2xl font-semibold">Welcome to Lumen Assistant</h2>
+                    <p className="text-muted-foreground max-w-md">
+                      I understand your principles, documents, and projects. Ask me anything!
+                    </p>
+                  </div>
+
+                  {/* Suggested Prompts */}
+                  <div className="grid grid-cols-1 md:grid-cols-2 gap-3 w-full max-w-2xl">
+                    {suggestedPrompts.map((prompt, index) => (
+                      <Button
+                        key={index}
+                        variant="outline"
+                        className="h-auto p-4 text-left justify-start hover:bg-accent"
+                        onClick={() => handleSuggestedPrompt(prompt)}
+                      >
+                        {prompt}
+                      </Button>
+                    ))}
+                  </div>
+                </div>
+              ) : (
+                <>
+                  {messages.map((message) => (
+                    <div
+                      key={message.id}
+                      className={`flex gap-3 ${
+                        message.role === "user" ? "justify-end" : "justify-start"
+                      }`}
+                    >
+                      {message.role === "assistant" && (
+                        <div className="flex-shrink-0 p-2 rounded-lg bg-gradient-to-br from-primary to-primary/50 h-fit">
+                          <Sparkles className="h-4 w-4 text-primary-foreground" />
+                        </div>
+                      )}
+
+                      <Card
+                        className={`max-w-[80%] p-4 ${
+                          message.role === "user"
+                            ? "bg-primary text-primary-foreground"
+                            : "bg-muted"
+                        }`}
+                      >
+                        {message.role === "assistant" ? (
+                          <>
+                            <CitedAnswer text={message.message} sources={sourcesOf(message.context_snapshot)} />
+                            {actionsByMessage.get(message.id)?.map(action => (
+                              <ActionCard key={action.id} action={action} />
+                            ))}
+                            {!message.id.startsWith("temp-") && (
+                              <MessageFeedback messageId={message.id} feedback={feedbackByMessage?.get(message.id)} />
+                            )}
+                          </>
+                        ) : (
+                          <p className="whitespace-pre-wrap">{message.message}</p>
+                        )}
+                      </Card>
+
+                      {message.role === "user" && (
+                        <div className="flex-shrink-0 p-2 rounded-lg bg-primary h-fit">
+                          <User className="h-4 w-4 text-primary-foreground" />
+                        </div>
+                      )}
                     </div>
-                  )}
+                  ))}
 
-                  <Card
-                    className={`max-w-[80%] p-4 ${
-                      message.role === "user"
-                        ? "bg-primary text-primary-foreground"
-                        : "bg-muted"
-                    }`}
-                  >
-                    {message.role === "assistant" ? (
-                      <div className="prose prose-sm dark:prose-invert max-w-none">
-                        <ReactMarkdown>{message.message}</ReactMarkdown>
+                  {/* Typing Indicator */}
+                  {isStreaming && (
+                    <div className="flex gap-3 justify-start">
+                      <div className="flex-shrink-0 p-2 rounded-lg bg-gradient-to-br from-primary to-primary/50 h-fit">
+                        <Sparkles className="h-4 w-4 text-primary-foreground" />
                       </div>
-                    ) : (
-                      <p className="whitespace-pre-wrap">{message.message}</p>
-                    )}
-                  </Card>
-
-                  {message.role === "user" && (
-                    <div className="flex-shrink-0 p-2 rounded-lg bg-primary h-fit">
-                      <User className="h-4 w-4 text-primary-foreground" />
+                      <Card className="bg-muted p-4">
+                        <div className="flex gap-1">
+                          <span className="w-2 h-2 bg-primary rounded-full animate-bounce" style={{ animationDelay: "0ms" }} />
+                          <span className="w-2 h-2 bg-primary rounded-full animate-bounce" style={{ animationDelay: "150ms" }} />
+                          <span className="w-2 h-2 bg-primary rounded-full animate-bounce" style={{ animationDelay: "300ms" }} />
+                        </div>
+                      </Card>
                     </div>
                   )}
-                </div>
-              ))}
-
-              {/* Typing Indicator */}
-              {isStreaming && (
-                <div className="flex gap-3 justify-start">
-                  <div className="flex-shrink-0 p-2 rounded-lg bg-gradient-to-br from-primary to-primary/50 h-fit">
-                    <Sparkles className="h-4 w-4 text-primary-foreground" />
-                  </div>
-                  <Card className="bg-muted p-4">
-                    <div className="flex gap-1">
-                      <span className="w-2 h-2 bg-primary rounded-full animate-bounce" style={{ animationDelay: "0ms" }} />
-                      <span className="w-2 h-2 bg-primary rounded-full animate-bounce" style={{ animationDelay: "150ms" }} />
-                      <span className="w-2 h-2 bg-primary rounded-full animate-bounce" style={{ animationDelay: "300ms" }} />
-                    </div>
-                  </Card>
-                </div>
-              )}
-            </>
-          )}
-          <div ref={scrollRef} />
-        </div>
-      </ScrollArea>
-
-      {/* Input Area */}
-      <div className="border-t bg-background/95 backdrop-blur supports-[backdrop-filter]:bg-background/60 p-4">
-        <form onSubmit={handleSubmit} className="max-w-3xl mx-auto">
-          <div className="flex gap-2">
-            <Textarea
-              ref={textareaRef}
-              value={input}
-              onChange={(e) => setInput(e.target.value)}
-              onKeyDown={handleKeyDown}
-              placeholder="Ask me anything about your work..."
-              className="min-h-[60px] max-h-[200px] resize-none"
-              disabled={isLoading}
-            />
-            <Button
-              type="submit"
-              size="icon"
-              className="h-[60px] w-[60px]"
-              disabled={!input.trim() || isLoading}
-            >
-              {isLoading ? (
-                <Loader2 className="h-5 w-5 animate-spin" />
-              ) : (
-                <Send className="h-5 w-5" />
+                </>
               )}
-            </Button>
+              <div ref={scrollRef} />
+            </div>
+          </ScrollArea>
+
+          {/* Input Area */}
+          <div className="border-t bg-background/95 backdrop-blur supports-[backdrop-filter]:bg-background/60 p-4">
+            <form onSubmit={handleSubmit} className="max-w-3xl mx-auto">
+              <div className="flex gap-2">
+                <Textarea
+                  ref={textareaRef}
+                  value={input}
+                  onChange={(e) => setInput(e.target.value)}
+                  onKeyDown={handleKeyDown}
+                  placeholder="Ask me anything about your work..."
+                  className="min-h-[60px] max-h-[200px] resize-none"
+                  disabled={isLoading}
+                />
+                <Button
+                  type="submit"
+                  size="icon"
+                  className="h-[60px] w-[60px]"
+                  disabled={!input.trim() || isLoading}
+                >
+                  {isLoading ? (
+                    <Loader2 className="h-5 w-5 animate-spin" />
+                  ) : (
+                    <Send className="h-5 w-5" />
+                  )}
+                </Button>
+              </div>
+              <p className="text-xs text-muted-foreground mt-2 text-center">
+                Press Enter to send, Shift+Enter for new line
+              </p>
+            </form>
           </div>
-          <p className="text-xs text-muted-foreground mt-2 text-center">
-            Press Enter to send, Shift+Enter for new line
-          </p>
-        </form>
+        </div>
       </div>
     </div>
   );
@@ -0,0 +1,205 @@
+import { useMemo, useState } from "react";
+import { Link } from "react-router-dom";
+import { format } from "date-fns";
+import { ArrowLeft, ExternalLink, Loader2, ThumbsDown, ThumbsUp, Trash2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Tabs, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { useChatFeedback, useDeleteChatFeedback, useFeedbackSteering } from "@/hooks/useChatFeedback";
+import { countReasons, FEEDBACK_REASONS, reasonLabel } from "@/lib/chatFeedback";
+
+type Filter = "all" | "helpful" | "not_helpful";
+
+const excerpt = (text: string, length = 220) => text.length > length ? `${text.slice(0, length).trimEnd()}…` : text;
+
+export default function AssistantFeedback() {
+  const { data: feedback, isLoading } = useChatFeedback();
+  const { data: steering = [] } = useFeedbackSteering();
+  const deleteFeedback = useDeleteChatFeedback();
+  const [filter, setFilter] = useState<Filter>("all");
+
+  const entries = useMemo(() => feedback || [], [feedback]);
+  const helpfulCount = entries.filter(f => f.feedback_type === "helpful").length;
+  const notHelpfulCount = entries.length - helpfulCount;
+  const reasonCounts = useMemo(() => countReasons(entries), [entries]);
+  const maxReasonCount = Math.max(1, ...reasonCounts.values());
+  const visible = filter === "all" ? entries : entries.filter(f => f.feedback_type === filter);
+
+  const handleDelete = (id: string) => {
+    if (confirm("Remove this feedback? The assistant stops taking it into account.")) {
+      deleteFeedback.mutate(id);
+    }
+  };
+
+  if (isLoading) {
+    return (
+      <div className="flex items-center justify-center py-24">
+        <Loader2 className="h-8 w-8 animate-spin text-muted-foreground" />
+      </div>
+    );
+  }
+
+  return (
+    <div className="container mx-auto p-6 max-w-5xl space-y-6">
+      {/* Header */}
+      <div className="flex items-center justify-between">
+        <div>
+          <h1 className="text-3xl font-bold">Assistant Feedback</h1>
+          <p className="text-muted-foreground mt-1">
+            How you've rated the assistant's answers, and what it adjusts for as a result
+          </p>
+        </div>
+        <Button variant="outline" asChild>
+          <Link to="/assistant">
+            <ArrowLeft className="h-4 w-4 mr-2" />
+            Back to Assistant
+          </Link>
+        </Button>
+      </div>
+
+      {/* Stats */}
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+        <Card>
+          <CardHeader className="pb-2">
+            <CardDescription>Helpful</CardDescription>
+            <CardTitle className="text-3xl">{helpfulCount}</CardTitle>
+          </CardHeader>
+        </Card>
+        <Card>
+          <CardHeader className="pb-2">
+            <CardDescription>Not helpful</CardDescription>
+            <CardTitle className="text-3xl">{notHelpfulCount}</CardTitle>
+          </CardHeader>
+        </Card>
+        <Card>
+          <CardHeader className="pb-2">
+            <CardDescription>Helpful rate</CardDescription>
+            <CardTitle className="text-3xl">
+              {entries.length > 0 ? `${Math.round((helpfulCount / entries.length) * 100)}%` : "—"}
+            </CardTitle>
+          </CardHeader>
+        </Card>
+      </div>
+
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+        <Card>
+          <CardHeader>
+            <CardTitle className="text-lg">What the assistant is adjusting for</CardTitle>
+            <CardDescription>
+              Reasons given on at least two of your 50 most recent ratings. They fade out as answers improve.
+            </CardDescription>
+          </CardHeader>
+          <CardContent>
+            {steering.length === 0 ? (
+              <p className="text-sm text-muted-foreground">
+                Nothing yet. Give a thumbs down with a reason when an answer misses the mark.
+              </p>
+            ) : (
+              <ul className="space-y-2">
+                {steering.map(({ reason, count }) => (
+                  <li key={reason} className="flex items-center justify-between text-sm">
+                    <span>{FEEDBACK_REASONS.find(r => r.value === reason)?.effect}</span>
+                    <Badge variant="secondary">{reasonLabel(reason)} · {count}</Badge>
+                  </li>
+                ))}
+              </ul>
+            )}
+          </CardContent>
+        </Card>
+
+        <Card>
+          <CardHeader>
+            <CardTitle className="text-lg">Reasons given</CardTitle>
+            <CardDescription>Across all answers you marked not helpful</CardDescription>
+          </CardHeader>
+          <CardContent>
+            {reasonCounts.size === 0 ? (
+              <p className="text-sm text-muted-foreground">No reasons given yet.</p>
+            ) : (
+              <ul className="space-y-2">
+                {FEEDBACK_REASONS.filter(({ value }) => reasonCounts.has(value)).map(({ value, label }) => (
+                  <li key={value} className="space-y-1">
+                    <div className="flex justify-between text-sm">
+                      <span>{label}</span>
+                      <span className="text-muted-foreground">{reasonCounts.get(value)}</span>
+                    </div>
+                    <div className="h-1.5 rounded-full bg-muted">
+                      <div
+                        className="h-1.5 rounded-full bg-primary"
+                        style={{ width: `${((reasonCounts.get(value) ?? 0) / maxReasonCount) * 100}%` }}
+                      />
+                    </div>
+                  </li>
+                ))}
+              </ul>
+            )}
+          </CardContent>
+        </Card>
+      </div>
+
+      {/* Feedback list */}
+      <div className="space-y-4">
+        <Tabs value={filter} onValueChange={(value) => setFilter(value as Filter)}>
+          <TabsList>
+            <TabsTrigger value="all">All ({entries.length})</TabsTrigger>
+            <TabsTrigger value="helpful">Helpful ({helpfulCount})</TabsTrigger>
+            <TabsTrigger value="not_helpful">Not helpful ({notHelpfulCount})</TabsTrigger>
+          </TabsList>
+        </Tabs>
+
+        {visible.length === 0 ? (
+          <Card className="p-8 text-center text-muted-foreground">
+            No feedback here yet. Rate answers in the Assistant with the thumbs under each reply.
+          </Card>
+        ) : (
+          visible.map(entry => (
+            <Card key={entry.id} className="p-4 space-y-3">
+              <div className="flex items-start gap-3">
+                {entry.feedback_type === "helpful" ? (
+                  <ThumbsUp className="h-4 w-4 mt-1 text-primary flex-shrink-0" />
+                ) : (
+                  <ThumbsDown className="h-4 w-4 mt-1 text-destructive flex-shrink-0" />
+                )}
+                <div className="flex-1 min-w-0 space-y-2">
+                  <p className="text-sm text-muted-foreground whitespace-pre-wrap">
+                    {entry.message ? excerpt(entry.message.message) : "The answer has been deleted."}
+                  </p>
+                  {entry.reasons.length > 0 && (
+                    <div className="flex flex-wrap gap-1">
+                      {entry.reasons.map(reason => (
+                        <Badge key={reason} variant="outline">{reasonLabel(reason)}</Badge>
+                      ))}
+                    </div>
+                  )}
+                  {entry.comment && <p className="text-sm">"{entry.comment}"</p>}
+                  <p className="text-xs text-muted-foreground">
+                    {format(new Date(entry.updated_at), "MMM d, yyyy HH:mm")}
+                  </p>
+                </div>
+                <div className="flex gap-1 flex-shrink-0">
+                  {entry.message && (
+                    <Button variant="ghost" size="icon" asChild title="Open conversation">
+                      <Link to={`/assistant?session=${entry.message.session_id}`}>
+                        <ExternalLink className="h-4 w-4" />
+                      </Link>
+                    </Button>
+                  )}
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    title="Remove feedback"
+                    disabled={deleteFeedback.isPending}
+                    onClick={() => handleDelete(entry.id)}
+                  >
+                    <Trash2 className="h-4 w-4" />
+                  </Button>
+                </div>
+              </div>
+            </Card>
+          ))
+        )}
+      </div>
+    </div>
+  );
+}
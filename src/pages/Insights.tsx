@@ -39,6 +39,7 @@ import {
   PieChart,
   Activity,
   Lightbulb,
+  Sparkles,
 } from "lucide-react";
 import { useQuery } from "@tanstack/react-query";
 import { supabase } from "@/integrations/supabase/client";
@@ -55,7 +56,11 @@ import {
   Legend,
   ResponsiveContainer,
 } from "recharts";
-import { format, subDays, startOfWeek, endOfWeek, isWithinInterval } from "date-fns";
+import { format, subDays, subWeeks, startOfWeek, endOfWeek, isWithinInterval } from "date-fns";
+import { accuracyByWeek } from "@/lib/aiAccuracy";
+
+// The accuracy report looks further back than the page's range: reviews are too sparse for a week
+const ACCURACY_WEEKS = 12;
 
 type DateRange = "7" | "14" | "30";
 
@@ -141,6 +146,20 @@ export default function Insights() {
     },
   });
 
+  const { data: learningLog = [] } = useQuery({
+    queryKey: ["ai-learning-log-insights"],
+    queryFn: async () => {
+      const { data: { user } } = await supabase.auth.getUser();
+      if (!user) return [];
+      const { data } = await supabase
+        .from("ai_learning_log")
+        .select("ai_suggestion, user_choice, correction_type, created_at")
+        .eq("user_id", user.id)
+        .gte("created_at", startOfWeek(subWeeks(new Date(), ACCURACY_WEEKS - 1), { weekStartsOn: 1 }).toISOString());
+      return data || [];
+    },
+  });
+
   // Compute KPIs
   const kpis = useMemo(() => {
     const prevStartDate = subDays(startDate, rangeInDays);
@@ -203,6 +222,28 @@ export default function Insights() {
     return data;
   }, [documents, rangeInDays]);
 
+  // AI suggestion accuracy
+  const aiAccuracy = useMemo(() => {
+    const weeks = accuracyByWeek(learningLog, ACCURACY_WEEKS);
+    const reviewed = weeks.reduce((sum, week) => sum + week.reviewed, 0);
+    const accepted = weeks.reduce((sum, week) => sum + week.accepted, 0);
+    const corrections = weeks.reduce(
+      (totals, week) => ({
+        category: totals.category + week.corrections.category,
+        tags: totals.tags + week.corrections.tags,
+        principle: totals.principle + week.corrections.principle,
+      }),
+      { category: 0, tags: 0, principle: 0 }
+    );
+    return {
+      weeks,
+      reviewed,
+      acceptance: reviewed > 0 ? Math.round((accepted / reviewed) * 100) : null,
+      corrections,
+      laterCorrections: weeks.reduce((sum, week) => sum + week.laterCorrections, 0),
+    };
+  }, [learningLog]);
+
   // Productivity Patterns
   const productivityPatterns = useMemo(() => {
     const byWeekday = Array(7).fill(0).map(() => ({ manual: 0, assistant: 0, daily_focus: 0 }));
@@ -491,6 +532,57 @@ export default function Insights() {
         </Card>
       </div>
 
+      {/* AI Suggestion Accuracy */}
+      <Card className="rounded-2xl shadow-sm">
+        <CardHeader>
+          <CardTitle className="text-base flex items-center gap-2">
+            <Sparkles className="w-5 h-5 text-primary" />
+            AI Suggestion Accuracy
+          </CardTitle>
+          <CardDescription className="text-xs">
+            % of categorization suggestions accepted unchanged at review, last {ACCURACY_WEEKS} weeks
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          <div className="grid grid-cols-2 md:grid-cols-5 gap-4 mb-4">
+            <div>
+              <div className="text-2xl font-bold">
+                {aiAccuracy.acceptance === null ? "—" : `${aiAccuracy.acceptance}%`}
+              </div>
+              <div className="text-xs text-muted-foreground">Accepted unchanged ({aiAccuracy.reviewed} reviewed)</div>
+            </div>
+            <div>
+              <div className="text-2xl font-bold">{aiAccuracy.corrections.category}</div>
+              <div className="text-xs text-muted-foreground">Category corrections</div>
+            </div>
+            <div>
+              <div className="text-2xl font-bold">{aiAccuracy.corrections.tags}</div>
+              <div className="text-xs text-muted-foreground">Tag corrections</div>
+            </div>
+            <div>
+              <div className="text-2xl font-bold">{aiAccuracy.corrections.principle}</div>
+              <div className="text-xs text-muted-foreground">Principle corrections</div>
+            </div>
+            <div>
+              <div className="text-2xl font-bold">{aiAccuracy.laterCorrections}</div>
+              <div className="text-xs text-muted-foreground">Later bulk corrections</div>
+            </div>
+          </div>
+          <ResponsiveContainer width="100%" height={250}>
+            <LineChart data={aiAccuracy.weeks}>
+              <CartesianGrid strokeDasharray="3 3" className="stroke-muted" />
+              <XAxis dataKey="week" className="text-xs" />
+              <YAxis yAxisId="rate" domain={[0, 100]} className="text-xs" />
+              <YAxis yAxisId="count" orientation="right" allowDecimals={false} className="text-xs" />
+              <Tooltip />
+              <Legend />
+              <Line yAxisId="rate" type="monotone" dataKey="acceptance" stroke="hsl(var(--primary))" strokeWidth={2} name="Accepted %" connectNulls />
+              <Line yAxisId="count" type="monotone" dataKey="reviewed" stroke="hsl(var(--chart-2))" strokeWidth={2} name="Reviewed" />
+            </LineChart>
+          </ResponsiveContainer>
+        </CardContent>
+      </Card>
+
       {/* Project Health */}
       <Card className="rounded-2xl shadow-sm">
         <CardHeader>
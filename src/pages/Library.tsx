@@ -1,4 +1,5 @@
 import { useState, useEffect, useMemo } from "react";
+import { useSearchParams } from "react-router-dom";
 import { Layout } from "@/components/layout/Layout";
 import { Button } from "@/components/ui/button";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
@@ -7,82 +8,88 @@ import { Label } from "@/components/ui/label";
 import { Textarea } from "@/components/ui/textarea";
 import { Badge } from "@/components/ui/badge";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Checkbox } from "@/components/ui/checkbox";
 import { Progress } from "@/components/ui/progress";
 import { useToast } from "@/hooks/use-toast";
 import { useDocuments, useCreateDocument, useDeleteDocument, Document } from "@/hooks/useDocuments";
 import { supabase } from "@/integrations/supabase/client";
-import { extractFileContent, isFileTypeSupported, getFileTypeLabel, formatFileSize, SUPPORTED_FILE_TYPES } from "@/lib/fileParser";
-import { Upload, FileText, X, CheckCircle, Loader2, Sparkles, AlertCircle, Grid3x3, Network, List } from "lucide-react";
+import type { Json } from "@/integrations/supabase/types";
+import { isFileTypeSupported, getFileTypeLabel, formatFileSize, SUPPORTED_FILE_TYPES } from "@/lib/fileParser";
+import { Upload, FileText, X, CheckCircle, Loader2, Sparkles, AlertCircle, Grid3x3, Network, List, Copy, RotateCcw, Highlighter } from "lucide-react";
 import { SimpleSkeleton } from "@/components/ui/SimpleSkeleton";
 import { Alert, AlertDescription } from "@/components/ui/alert";
 import { useLibrarySearch } from "@/hooks/useLibrarySearch";
 import { DocumentSearchBar } from "@/components/library/DocumentSearchBar";
 import { DocumentDetailPanel } from "@/components/library/DocumentDetailPanel";
+import { SavedSearches } from "@/components/library/SavedSearches";
 import { ClusterView } from "@/components/library/ClusterView";
 import { KnowledgeGraph } from "@/components/library/KnowledgeGraph";
+import { DuplicateClusters } from "@/components/library/DuplicateClusters";
+import { BulkActionBar } from "@/components/library/BulkActionBar";
+import { DuplicateResolution, DuplicateWarning } from "@/components/library/DuplicateWarning";
+import { StorageCheckDialog } from "@/components/library/StorageCheckDialog";
+import { describeSheets } from "@/lib/spreadsheetParser";
+import { indexDocumentChunks } from "@/lib/documentChunks";
+import { ACCEPTED_CORRECTION, REVIEW_CORRECTION } from "@/lib/aiAccuracy";
+import { notifySmartCollections } from "@/hooks/useSavedSearches";
+import { useAddDocumentVersion, VersionedFields } from "@/hooks/useDocumentVersions";
+import { useCreateDocumentLink } from "@/hooks/useDocumentLinks";
+import { saveSuggestedRelations } from "@/hooks/useDocumentRelations";
+import { usePendingDeletion } from "@/hooks/useBulkDocumentActions";
+import { useAnnotations } from "@/hooks/useDocumentAnnotations";
+import { DuplicateMatch, findDuplicates } from "@/lib/duplicateDetection";
+import { useUploadQueue } from "@/hooks/useUploadQueue";
+import { describeUpload, IN_FLIGHT_STATUSES, QueuedUpload, UploadEditedData } from "@/lib/uploadQueue";
 import { formatInTimeZone } from "date-fns-tz";
 
-interface UploadingFile {
-  file: File;
-  progress: number;
-  status: 'uploading' | 'processing' | 'categorizing' | 'reviewing' | 'complete' | 'error';
-  error?: string;
-  aiSuggestion?: {
-    principle_alignment?: {
-      primary_principle_id: string | null;
-      primary_principle_name: string;
-      alignment_explanation: string;
-      serves_goal: string;
-    };
-    category: string;
-    confidence: number;
-    reasoning: string;
-    title: string;
-    summary: string;
-    tags: string[];
-    related_items?: {
-      sop_ids: string[];
-      document_ids: string[];
-      reasoning: string;
-    };
-    suggested_actions?: string[];
-    data_description?: string;
-  };
-  editedData?: {
-    category: string;
-    title: string;
-    summary: string;
-    tags: string;
-    primary_principle_id: string | null;
-  };
-}
-
 const categories = ["All", "SOP", "Principle", "Project Note", "General Reference"];
 
-type ViewMode = 'grid' | 'cluster' | 'graph';
+type ViewMode = 'grid' | 'cluster' | 'graph' | 'duplicates';
 
 export default function Library() {
   const { toast } = useToast();
-  const { data: documents, isLoading } = useDocuments();
+  const { data: allDocuments, isLoading } = useDocuments();
+  const { data: annotations } = useAnnotations();
+  const { pendingIds, scheduleDelete } = usePendingDeletion();
+  // Documents awaiting a bulk delete are hidden until the undo window closes
+  const documents = useMemo(
+    () => allDocuments?.filter(doc => !pendingIds.has(doc.id)),
+    [allDocuments, pendingIds]
+  );
   const createDocument = useCreateDocument();
   const deleteDocument = useDeleteDocument();
+  const addDocumentVersion = useAddDocumentVersion();
+  const createDocumentLink = useCreateDocumentLink();
   
-  const [uploadingFiles, setUploadingFiles] = useState<UploadingFile[]>([]);
+  const {
+    uploads: uploadingFiles,
+    enqueue,
+    update: updateUpload,
+    remove: removeUpload,
+    discard: discardUpload,
+    retry: retryUpload,
+  } = useUploadQueue();
   const [principles, setPrinciples] = useState<any[]>([]);
   const [noPrinciples, setNoPrinciples] = useState(false);
   const [viewMode, setViewMode] = useState<ViewMode>('grid');
   const [selectedDocument, setSelectedDocument] = useState<Document | null>(null);
   const [detailPanelOpen, setDetailPanelOpen] = useState(false);
+  const [selectedIds, setSelectedIds] = useState<Set<string>>(new Set());
+  // Uploads whose review is being saved, so a second click can't save them twice
+  const [confirmingIds, setConfirmingIds] = useState<Set<string>>(new Set());
 
   // Use search hook
   const {
     filters,
     updateFilter,
+    updateFilters,
     filteredDocuments,
     semanticMode,
+    semanticAvailable,
+    setSemanticEnabled,
     isSearching,
     highlightMatches,
-  } = useLibrarySearch(documents);
+  } = useLibrarySearch(documents, annotations);
 
   // Calculate related documents for detail panel
   const relatedDocuments = useMemo(() => {
@@ -122,6 +129,36 @@ export default function Library() {
       .map(({ doc }) => doc);
   }, [selectedDocument, documents]);
 
+  // Matches against the library for uploads awaiting review. Versions of a document are expected to
+  // resemble it, so only plain uploads are checked, and only until the user has decided what to do.
+  const duplicatesByUpload = useMemo(() => {
+    const matches = new Map<string, DuplicateMatch<Document>[]>();
+    uploadingFiles.forEach(upload => {
+      if (upload.status !== 'reviewing' || upload.targetDocument || upload.duplicatesResolved) return;
+      const found = findDuplicates(
+        { content_hash: upload.contentHash, text_fingerprint: upload.fingerprint },
+        documents || []
+      );
+      if (found.length > 0) matches.set(upload.id, found);
+    });
+    return matches;
+  }, [uploadingFiles, documents]);
+
+  // ?doc=<id> opens that document, as copied links and assistant citations do
+  const [searchParams, setSearchParams] = useSearchParams();
+  const linkedDocumentId = searchParams.get('doc');
+  useEffect(() => {
+    if (!linkedDocumentId || !documents) return;
+    const doc = documents.find(d => d.id === linkedDocumentId);
+    if (doc) {
+      setSelectedDocument(doc);
+      setDetailPanelOpen(true);
+    }
+    const next = new URLSearchParams(searchParams);
+    next.delete('doc');
+    setSearchParams(next, { replace: true });
+  }, [linkedDocumentId, documents, searchParams, setSearchParams]);
+
   // Fetch principles on mount
   useEffect(() => {
     const fetchPrinciples = async () => {
@@ -141,11 +178,11 @@ export default function Library() {
     fetchPrinciples();
   }, []);
 
-  const handleFileSelect = async (files: FileList | null) => {
+  const handleFileSelect = (files: FileList | File[] | null, targetDocument?: Document) => {
     if (!files || files.length === 0) return;
 
     const fileArray = Array.from(files);
-    const validFiles: UploadingFile[] = [];
+    const validFiles: File[] = [];
 
     for (const file of fileArray) {
       if (!isFileTypeSupported(file.type)) {
@@ -166,117 +203,40 @@ export default function Library() {
         continue;
       }
 
-      validFiles.push({
-        file,
-        progress: 0,
-        status: 'uploading',
-      });
+      validFiles.push(file);
     }
 
-    setUploadingFiles(prev => [...prev, ...validFiles]);
-
-    for (let i = 0; i < validFiles.length; i++) {
-      await processFile(validFiles[i], uploadingFiles.length + i);
-    }
+    enqueue(validFiles, targetDocument);
   };
 
-  const processFile = async (uploadingFile: UploadingFile, index: number) => {
-    const { file } = uploadingFile;
-    
-    try {
-      updateFileStatus(index, { progress: 10, status: 'uploading' });
-
-      const { data: { user } } = await supabase.auth.getUser();
-      if (!user) throw new Error("Not authenticated");
-
-      const filePath = `${user.id}/${Date.now()}-${file.name}`;
-      const { error: uploadError } = await supabase.storage
-        .from('documents')
-        .upload(filePath, file);
-
-      if (uploadError) throw uploadError;
-
-      updateFileStatus(index, { progress: 40, status: 'processing' });
-
-      const { data: { publicUrl } } = supabase.storage
-        .from('documents')
-        .getPublicUrl(filePath);
-
-      const content = await extractFileContent(file);
-      
-      updateFileStatus(index, { progress: 60, status: 'categorizing' });
-
-      const { data: aiData, error: aiError } = await supabase.functions.invoke('categorize-document', {
-        body: { 
-          content, 
-          fileName: file.name,
-          fileType: file.type,
-          userId: user.id,
-          projectId: null
-        }
-      });
-
-      if (aiError) throw aiError;
-
-      updateFileStatus(index, { 
-        progress: 90, 
-        status: 'reviewing',
-        aiSuggestion: aiData,
-        editedData: {
-          category: aiData.category,
-          title: aiData.title,
-          summary: aiData.summary,
-          tags: aiData.tags.join(', '),
-          primary_principle_id: aiData.principle_alignment?.primary_principle_id || null,
-        }
-      });
-
-    } catch (error) {
-      console.error('Error processing file:', error);
-      updateFileStatus(index, { 
-        status: 'error',
-        error: error instanceof Error ? error.message : 'Failed to process file'
-      });
-    }
+  const handleEditField = (upload: QueuedUpload, field: keyof UploadEditedData, value: string | null) => {
+    if (!upload.editedData) return;
+    updateUpload(upload.id, { editedData: { ...upload.editedData, [field]: value } });
   };
 
-  const updateFileStatus = (index: number, updates: Partial<UploadingFile>) => {
-    setUploadingFiles(prev => {
-      const newFiles = [...prev];
-      newFiles[index] = { ...newFiles[index], ...updates };
-      return newFiles;
+  const handleResolveDuplicate = (upload: QueuedUpload, resolution: DuplicateResolution, match?: Document) => {
+    updateUpload(upload.id, {
+      duplicatesResolved: true,
+      targetDocument: resolution === 'version' ? match : undefined,
+      relatedDocument: resolution === 'link' ? match : undefined,
     });
   };
 
-  const handleEditField = (index: number, field: keyof UploadingFile['editedData'], value: string | null) => {
-    setUploadingFiles(prev => {
-      const newFiles = [...prev];
-      newFiles[index] = {
-        ...newFiles[index],
-        editedData: {
-          ...newFiles[index].editedData!,
-          [field]: value
-        }
-      };
-      return newFiles;
-    });
+  const handleUploadVersion = (doc: Document, file: File) => {
+    setDetailPanelOpen(false);
+    handleFileSelect([file], doc);
   };
 
-  const handleConfirmDocument = async (index: number) => {
-    const uploadingFile = uploadingFiles[index];
-    const { file, editedData, aiSuggestion } = uploadingFile;
+  const handleConfirmDocument = async (uploadingFile: QueuedUpload) => {
+    const { file, editedData, aiSuggestion, extracted, targetDocument, relatedDocument, contentHash, fingerprint, storagePath, savedDocument } = uploadingFile;
 
-    if (!editedData) return;
+    if (!editedData || confirmingIds.has(uploadingFile.id)) return;
+    setConfirmingIds(prev => new Set(prev).add(uploadingFile.id));
 
     try {
       const { data: { user } } = await supabase.auth.getUser();
       if (!user) throw new Error("Not authenticated");
 
-      const filePath = `${user.id}/${Date.now()}-${file.name}`;
-      const { data: { publicUrl } } = supabase.storage
-        .from('documents')
-        .getPublicUrl(filePath);
-
       const userOverride = 
         editedData.category !== aiSuggestion?.category ||
         editedData.title !== aiSuggestion?.title ||
@@ -284,66 +244,125 @@ export default function Library() {
         editedData.tags !== aiSuggestion?.tags.join(', ') ||
         editedData.primary_principle_id !== aiSuggestion?.principle_alignment?.primary_principle_id;
 
-      const result = await createDocument.mutateAsync({
+      const fields: VersionedFields = {
         file_name: file.name,
         file_type: file.type,
-        file_url: publicUrl,
+        storage_path: storagePath,
         file_size: file.size,
+        content_hash: contentHash,
+        text_fingerprint: fingerprint ?? undefined,
         category: editedData.category,
         title: editedData.title,
         summary: editedData.summary,
         tags: editedData.tags.split(',').map(t => t.trim()).filter(Boolean),
-        data_description: aiSuggestion?.data_description,
+        data_description: [
+          extracted?.tables ? describeSheets(extracted.tables) : null,
+          aiSuggestion?.data_description,
+        ].filter(Boolean).join('\n\n') || undefined,
+        data_schema: extracted?.tables,
+        extracted_text: extracted?.text,
+        page_offsets: extracted?.pages,
+        source_metadata: extracted?.metadata,
         primary_principle_id: editedData.primary_principle_id || null,
         principle_alignment_score: aiSuggestion?.principle_alignment ? 
           Math.round((aiSuggestion.confidence / 100) * 100) : null,
         ai_confidence: aiSuggestion?.confidence || null,
         ai_reasoning: aiSuggestion?.reasoning || null,
-        user_override: userOverride,
-      });
+      };
+
+      // A retry after a later step failed finds the document already written and carries on from there
+      let result = savedDocument;
+      if (!result) {
+        // A new version updates the existing document, which re-indexes its chunks itself
+        if (targetDocument) {
+          await addDocumentVersion.mutateAsync({
+            documentId: targetDocument.id,
+            fields,
+            note: `Uploaded ${file.name}`,
+          });
+        }
+
+        result = targetDocument ?? await createDocument.mutateAsync({
+          ...fields,
+          id: uploadingFile.id,
+          user_override: userOverride,
+          related_items: aiSuggestion?.related_items ?? null,
+        });
+        updateUpload(uploadingFile.id, { savedDocument: result });
+
+        // Index the extracted text for semantic search; a failure here must not block the save
+        if (!targetDocument && extracted?.text) {
+          indexDocumentChunks(result.id, extracted.text, extracted.pages).catch(error => {
+            console.error('Error indexing document chunks:', error);
+          });
+        }
 
-      if (userOverride && aiSuggestion && result) {
+        // Suggested relations wait in the detail panel for the user to accept or reject; a new version
+        // replaces the document's pending ones
+        if (aiSuggestion?.related_items) {
+          saveSuggestedRelations(result.id, aiSuggestion.related_items).catch(error => {
+            console.error('Error saving suggested relations:', error);
+          });
+        }
+
+        // Let smart collections pick up the new document; notifications are best-effort too
+        if (!targetDocument) {
+          notifySmartCollections(result).catch(error => {
+            console.error('Error checking smart collections:', error);
+          });
+        }
+      }
+
+      if (!targetDocument && relatedDocument) {
+        await createDocumentLink.mutateAsync({
+          sourceDocumentId: result.id,
+          targetDocumentId: relatedDocument.id,
+        });
+      }
+
+      // Accepted suggestions are logged too, so categorization accuracy can be measured over time
+      if (aiSuggestion && result) {
         await supabase.from('ai_learning_log').insert([{
           user_id: user.id,
           document_id: result.id,
-          ai_suggestion: aiSuggestion as any,
-          user_choice: editedData as any,
-          correction_type: 'categorization',
+          ai_suggestion: aiSuggestion as unknown as Json,
+          user_choice: editedData as unknown as Json,
+          correction_type: userOverride ? REVIEW_CORRECTION : ACCEPTED_CORRECTION,
         }]);
-        
-        toast({
-          title: "Learning applied",
-          description: "Thanks! I'll learn from your corrections.",
-        });
+
+        if (userOverride) {
+          toast({
+            title: "Learning applied",
+            description: "Thanks! I'll learn from your corrections.",
+          });
+        }
       }
 
-      updateFileStatus(index, { status: 'complete' });
+      updateUpload(uploadingFile.id, { status: 'complete' });
 
-      setTimeout(() => {
-        setUploadingFiles(prev => prev.filter((_, i) => i !== index));
-      }, 2000);
+      setTimeout(() => removeUpload(uploadingFile.id), 2000);
 
     } catch (error) {
-      updateFileStatus(index, { 
-        status: 'error',
-        error: error instanceof Error ? error.message : 'Failed to save document'
+      // Back to review rather than the queue's error state, which would retry the whole pipeline
+      updateUpload(uploadingFile.id, { status: 'reviewing' });
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : 'Failed to save document',
+        variant: "destructive",
+      });
+    } finally {
+      setConfirmingIds(prev => {
+        const next = new Set(prev);
+        next.delete(uploadingFile.id);
+        return next;
       });
     }
   };
 
-  const handleRejectDocument = async (index: number) => {
-    const uploadingFile = uploadingFiles[index];
-    const { file } = uploadingFile;
-
+  const handleRejectDocument = async (uploadingFile: QueuedUpload) => {
     try {
-      const { data: { user } } = await supabase.auth.getUser();
-      if (!user) throw new Error("Not authenticated");
+      await discardUpload(uploadingFile.id);
 
-      const filePath = `${user.id}/${Date.now()}-${file.name}`;
-      await supabase.storage.from('documents').remove([filePath]);
-      
-      setUploadingFiles(prev => prev.filter((_, i) => i !== index));
-      
       toast({
         title: "Document rejected",
         description: "The file has been removed",
@@ -364,6 +383,27 @@ export default function Library() {
     setDetailPanelOpen(true);
   };
 
+  const handleOpenDocument = (documentId: string) => {
+    const doc = documents?.find(d => d.id === documentId);
+    if (doc) handleDocumentClick(doc);
+  };
+
+  const toggleSelected = (doc: Document) => {
+    setSelectedIds(prev => {
+      const next = new Set(prev);
+      if (next.has(doc.id)) {
+        next.delete(doc.id);
+      } else {
+        next.add(doc.id);
+      }
+      return next;
+    });
+  };
+
+  // Bulk actions only apply to selected documents the current filters still show
+  const selectedDocuments = filteredDocuments.filter(doc => selectedIds.has(doc.id));
+  const allVisibleSelected = filteredDocuments.length > 0 && selectedDocuments.length === filteredDocuments.length;
+
   return (
     <Layout>
       <div className="container mx-auto p-6 space-y-6">
@@ -375,8 +415,15 @@ export default function Library() {
               <p className="text-muted-foreground">
                 Smart search • Knowledge clustering • Visual connections
                 {semanticMode === false && " • Keyword mode"}
+                {semanticMode === true && " • Semantic mode"}
               </p>
             </div>
+            <StorageCheckDialog
+              onOpenDocument={(id) => {
+                const doc = documents?.find(d => d.id === id);
+                if (doc) handleDocumentClick(doc);
+              }}
+            />
           </div>
           
           {noPrinciples && (
@@ -431,8 +478,8 @@ export default function Library() {
         {uploadingFiles.length > 0 && (
           <div className="space-y-4">
             <h2 className="text-xl font-semibold">Processing Files</h2>
-            {uploadingFiles.map((uploadFile, index) => (
-              <Card key={index} className="bg-card">
+            {uploadingFiles.map(uploadFile => (
+              <Card key={uploadFile.id} className="bg-card">
                 <CardHeader>
                   <div className="flex items-start justify-between">
                     <div className="flex-1 min-w-0">
@@ -444,32 +491,38 @@ export default function Library() {
                       </CardTitle>
                       <CardDescription>
                         {formatFileSize(uploadFile.file.size)} • {getFileTypeLabel(uploadFile.file.type)}
+                        {uploadFile.targetDocument && ` • New version of "${uploadFile.targetDocument.title}"`}
+                        {uploadFile.relatedDocument && ` • Linked to "${uploadFile.relatedDocument.title}"`}
                       </CardDescription>
                     </div>
-                    {uploadFile.status === 'reviewing' && (
-                      <Button variant="ghost" size="sm" onClick={() => handleRejectDocument(index)}>
+                    {(uploadFile.status === 'reviewing' || uploadFile.status === 'error') && (
+                      <Button variant="ghost" size="sm" onClick={() => handleRejectDocument(uploadFile)}>
                         <X className="w-4 h-4" />
                       </Button>
                     )}
                   </div>
                 </CardHeader>
                 <CardContent className="space-y-4">
-                  {(uploadFile.status === 'uploading' || uploadFile.status === 'processing' || uploadFile.status === 'categorizing') && (
+                  {(uploadFile.status === 'queued' || IN_FLIGHT_STATUSES.includes(uploadFile.status)) && (
                     <div className="space-y-2">
                       <div className="flex items-center gap-2">
                         <Loader2 className="w-4 h-4 animate-spin" />
-                        <span className="text-sm text-muted-foreground">
-                          {uploadFile.status === 'uploading' && 'Uploading...'}
-                          {uploadFile.status === 'processing' && 'Processing file...'}
-                          {uploadFile.status === 'categorizing' && 'AI analyzing document...'}
-                        </span>
+                        <span className="text-sm text-muted-foreground">{describeUpload(uploadFile)}</span>
                       </div>
+                      {uploadFile.status === 'queued' && uploadFile.error && (
+                        <p className="text-xs text-muted-foreground">Last error: {uploadFile.error}</p>
+                      )}
                       <Progress value={uploadFile.progress} />
                     </div>
                   )}
 
                   {uploadFile.status === 'reviewing' && uploadFile.editedData && (
                     <div className="space-y-4">
+                      <DuplicateWarning
+                        matches={duplicatesByUpload.get(uploadFile.id) ?? []}
+                        onResolve={(resolution, match) => handleResolveDuplicate(uploadFile, resolution, match)}
+                      />
+
                       {noPrinciples && (
                         <Alert className="border-amber-500/50 bg-amber-500/10">
                           <AlertCircle className="h-4 w-4 text-amber-500" />
@@ -553,7 +606,7 @@ export default function Library() {
                           <Label>Primary Principle</Label>
                           <Select
                             value={uploadFile.editedData.primary_principle_id || 'none'}
-                            onValueChange={(value) => handleEditField(index, 'primary_principle_id', value === 'none' ? null : value)}
+                            onValueChange={(value) => handleEditField(uploadFile, 'primary_principle_id', value === 'none' ? null : value)}
                           >
                             <SelectTrigger>
                               <SelectValue placeholder="Select a principle" />
@@ -574,7 +627,7 @@ export default function Library() {
                         <Label>Category</Label>
                         <Select
                           value={uploadFile.editedData.category}
-                          onValueChange={(value) => handleEditField(index, 'category', value)}
+                          onValueChange={(value) => handleEditField(uploadFile, 'category', value)}
                         >
                           <SelectTrigger>
                             <SelectValue />
@@ -591,7 +644,7 @@ export default function Library() {
                         <Label>Title</Label>
                         <Input
                           value={uploadFile.editedData.title}
-                          onChange={(e) => handleEditField(index, 'title', e.target.value)}
+                          onChange={(e) => handleEditField(uploadFile, 'title', e.target.value)}
                         />
                       </div>
 
@@ -599,7 +652,7 @@ export default function Library() {
                         <Label>Summary</Label>
                         <Textarea
                           value={uploadFile.editedData.summary}
-                          onChange={(e) => handleEditField(index, 'summary', e.target.value)}
+                          onChange={(e) => handleEditField(uploadFile, 'summary', e.target.value)}
                           rows={3}
                         />
                       </div>
@@ -608,17 +661,27 @@ export default function Library() {
                         <Label>Tags (comma-separated)</Label>
                         <Input
                           value={uploadFile.editedData.tags}
-                          onChange={(e) => handleEditField(index, 'tags', e.target.value)}
+                          onChange={(e) => handleEditField(uploadFile, 'tags', e.target.value)}
                           placeholder="tag1, tag2, tag3"
                         />
                       </div>
 
                       <div className="flex gap-2 pt-2">
-                        <Button onClick={() => handleConfirmDocument(index)} className="flex-1">
-                          <CheckCircle className="w-4 h-4 mr-2" />
-                          Confirm & Save
+                        <Button
+                          onClick={() => handleConfirmDocument(uploadFile)}
+                          className="flex-1"
+                          disabled={confirmingIds.has(uploadFile.id)}
+                        >
+                          {confirmingIds.has(uploadFile.id)
+                            ? <Loader2 className="w-4 h-4 mr-2 animate-spin" />
+                            : <CheckCircle className="w-4 h-4 mr-2" />}
+                          {uploadFile.targetDocument ? 'Save as New Version' : 'Confirm & Save'}
                         </Button>
-                        <Button variant="outline" onClick={() => handleRejectDocument(index)}>
+                        <Button
+                          variant="outline"
+                          onClick={() => handleRejectDocument(uploadFile)}
+                          disabled={confirmingIds.has(uploadFile.id)}
+                        >
                           <X className="w-4 h-4 mr-2" />
                           Reject
                         </Button>
@@ -627,8 +690,12 @@ export default function Library() {
                   )}
 
                   {uploadFile.status === 'error' && (
-                    <div className="text-sm text-destructive">
-                      Error: {uploadFile.error}
+                    <div className="flex items-center justify-between gap-2">
+                      <span className="text-sm text-destructive">{describeUpload(uploadFile)}</span>
+                      <Button size="sm" variant="outline" onClick={() => retryUpload(uploadFile.id)}>
+                        <RotateCcw className="w-4 h-4 mr-2" />
+                        Retry
+                      </Button>
                     </div>
                   )}
 
@@ -652,18 +719,36 @@ export default function Library() {
           projectId={filters.projectId}
           tags={filters.tags}
           dateRange={filters.dateRange}
+          before={filters.before}
+          after={filters.after}
           sortBy={filters.sortBy}
-          onQueryChange={(value) => updateFilter('query', value)}
+          semanticAvailable={semanticAvailable}
+          semanticMode={!!semanticMode}
+          onSemanticModeChange={setSemanticEnabled}
           onCategoryChange={(value) => updateFilter('category', value)}
           onPrincipleChange={(value) => updateFilter('principleId', value)}
           onProjectChange={(value) => updateFilter('projectId', value)}
           onTagsChange={(value) => updateFilter('tags', value)}
           onDateRangeChange={(value) => updateFilter('dateRange', value)}
           onSortChange={(value) => updateFilter('sortBy', value)}
+          onFiltersChange={updateFilters}
         />
 
+        <SavedSearches documents={documents} />
+
         {/* View Mode Toggle */}
         <div className="flex gap-2 justify-end">
+          {(viewMode === 'grid' || viewMode === 'cluster') && filteredDocuments.length > 0 && (
+            <label className="flex items-center gap-2 mr-auto text-sm text-muted-foreground cursor-pointer">
+              <Checkbox
+                checked={allVisibleSelected}
+                onCheckedChange={() =>
+                  setSelectedIds(allVisibleSelected ? new Set() : new Set(filteredDocuments.map(doc => doc.id)))
+                }
+              />
+              Select all
+            </label>
+          )}
           <Button
             variant={viewMode === 'grid' ? 'default' : 'outline'}
             size="sm"
@@ -688,8 +773,24 @@ export default function Library() {
             <Network className="w-4 h-4 mr-2" />
             Graph
           </Button>
+          <Button
+            variant={viewMode === 'duplicates' ? 'default' : 'outline'}
+            size="sm"
+            onClick={() => setViewMode('duplicates')}
+          >
+            <Copy className="w-4 h-4 mr-2" />
+            Duplicates
+          </Button>
         </div>
 
+        {selectedDocuments.length > 0 && (
+          <BulkActionBar
+            documents={selectedDocuments}
+            onClearSelection={() => setSelectedIds(new Set())}
+            onDelete={scheduleDelete}
+          />
+        )}
+
         {/* Results Count */}
         {filteredDocuments.length > 0 && (
           <div className="text-sm text-muted-foreground">
@@ -712,11 +813,17 @@ export default function Library() {
                 {filteredDocuments.map(doc => (
                   <Card 
                     key={doc.id} 
-                    className="bg-card hover:shadow-lg transition-shadow cursor-pointer"
+                    className={`bg-card hover:shadow-lg transition-shadow cursor-pointer ${selectedIds.has(doc.id) ? 'ring-2 ring-primary' : ''}`}
                     onClick={() => handleDocumentClick(doc)}
                   >
                     <CardHeader>
-                      <div className="flex items-start justify-between">
+                      <div className="flex items-start justify-between gap-3">
+                        <Checkbox
+                          className="mt-1"
+                          checked={selectedIds.has(doc.id)}
+                          onClick={(e) => e.stopPropagation()}
+                          onCheckedChange={() => toggleSelected(doc)}
+                        />
                         <div className="flex-1 min-w-0">
                           <CardTitle className="text-base flex items-center gap-2 mb-2">
                             <FileText className="w-4 h-4 flex-shrink-0" />
@@ -742,6 +849,24 @@ export default function Library() {
                           {highlightMatches(doc.summary, filters.query)}
                         </div>
                       )}
+
+                      {doc._matchedChunk && (
+                        <div className="text-xs text-muted-foreground border-l-2 border-primary/40 pl-2 line-clamp-3">
+                          {doc._matchedChunk.page && (
+                            <span className="font-medium">p. {doc._matchedChunk.page} · </span>
+                          )}
+                          {highlightMatches(doc._matchedChunk.content.slice(0, 240), filters.query)}
+                        </div>
+                      )}
+
+                      {doc._matchedAnnotation && (
+                        <div className="flex gap-1.5 text-xs text-muted-foreground line-clamp-2">
+                          <Highlighter className="w-3 h-3 mt-0.5 shrink-0 text-primary" />
+                          <span>
+                            {highlightMatches(doc._matchedAnnotation.comment || doc._matchedAnnotation.quote, filters.query)}
+                          </span>
+                        </div>
+                      )}
                       
                       {doc.tags && doc.tags.length > 0 && (
                         <div className="flex gap-1 flex-wrap">
@@ -768,12 +893,21 @@ export default function Library() {
             )}
 
             {viewMode === 'cluster' && (
-              <ClusterView documents={filteredDocuments} onDocumentClick={handleDocumentClick} />
+              <ClusterView
+                documents={filteredDocuments}
+                onDocumentClick={handleDocumentClick}
+                selectedIds={selectedIds}
+                onToggleSelect={toggleSelected}
+              />
             )}
 
             {viewMode === 'graph' && (
               <KnowledgeGraph documents={filteredDocuments} onDocumentClick={handleDocumentClick} />
             )}
+
+            {viewMode === 'duplicates' && (
+              <DuplicateClusters documents={filteredDocuments} onDocumentClick={handleDocumentClick} onDelete={handleDelete} />
+            )}
           </>
         ) : (
           <Card className="bg-card">
@@ -781,7 +915,7 @@ export default function Library() {
               <FileText className="w-16 h-16 text-muted-foreground mb-4" />
               <h3 className="text-lg font-semibold mb-2">No documents found</h3>
               <p className="text-muted-foreground text-center">
-                {filters.query || filters.category !== 'All' || filters.principleId !== 'All' || filters.projectId !== 'All' || filters.tags.length > 0
+                {filters.query || filters.category !== 'All' || filters.principleId !== 'All' || filters.projectId !== 'All' || filters.tags.length > 0 || filters.before || filters.after
                   ? "Try adjusting your search or filters"
                   : "Upload your first document to get started"}
               </p>
@@ -791,11 +925,14 @@ export default function Library() {
 
         {/* Document Detail Panel */}
         <DocumentDetailPanel
-          document={selectedDocument}
+          document={documents?.find(doc => doc.id === selectedDocument?.id) ?? selectedDocument}
+          documents={documents ?? []}
           relatedDocs={relatedDocuments}
           open={detailPanelOpen}
           onOpenChange={setDetailPanelOpen}
           onDelete={handleDelete}
+          onUploadVersion={handleUploadVersion}
+          onOpenDocument={handleOpenDocument}
           highlightMatches={highlightMatches}
           searchQuery={filters.query}
         />
@@ -1,4 +1,5 @@
-import React, { useState, useMemo } from "react";
+import React, { useState, useMemo, useEffect } from "react";
+import { useSearchParams } from "react-router-dom";
 import { motion } from "framer-motion";
 import { DragDropContext, Droppable, Draggable } from "@hello-pangea/dnd";
 import {
@@ -111,6 +112,21 @@ export default function Workflow() {
     },
   });
 
+  // ?task=<id> opens that task, as assistant citations do
+  const [searchParams, setSearchParams] = useSearchParams();
+  const linkedTaskId = searchParams.get("task");
+  useEffect(() => {
+    if (!linkedTaskId || tasksLoading) return;
+    const task = allTasks.find((t) => t.id === linkedTaskId);
+    if (task) {
+      setEditingTask(task);
+      setTaskDialogOpen(true);
+    }
+    const next = new URLSearchParams(searchParams);
+    next.delete("task");
+    setSearchParams(next, { replace: true });
+  }, [linkedTaskId, tasksLoading, allTasks, searchParams, setSearchParams]);
+
   const createTask = useCreateTask();
   const updateTask = useUpdateTask();
   const deleteTask = useDeleteTask();
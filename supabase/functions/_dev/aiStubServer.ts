@@ -0,0 +1,59 @@
+// A local OpenAI-compatible stub for exercising the edge functions without a real provider.
+//
+//   deno run --allow-net --allow-env supabase/functions/_dev/aiStubServer.ts
+//   AI_BASE_URL=http://localhost:8787/v1 supabase functions serve
+//
+// Chat completions answer with AI_STUB_REPLY (default "{}"), streamed or not as requested.
+// Embeddings are deterministic unit vectors derived from the text. Every response reports usage.
+
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+
+const PORT = Number(Deno.env.get('AI_STUB_PORT') || 8787);
+
+const json = (body: unknown, status = 200) =>
+  new Response(JSON.stringify(body), { status, headers: { 'Content-Type': 'application/json' } });
+
+// Roughly four characters per token, which is all the accounting needs
+const countTokens = (text: string) => Math.ceil(text.length / 4);
+
+const embed = (text: string, dimensions: number) => {
+  const vector = new Array<number>(dimensions).fill(0);
+  for (let i = 0; i < text.length; i++) {
+    vector[(text.charCodeAt(i) * 31 + i) % dimensions] += 1;
+  }
+  const norm = Math.sqrt(vector.reduce((sum, v) => sum + v * v, 0)) || 1;
+  return vector.map(v => v / norm);
+};
+
+serve(async (req) => {
+  const { pathname } = new URL(req.url);
+  const body = await req.json().catch(() => ({}));
+
+  if (pathname.endsWith('/chat/completions')) {
+    const reply = Deno.env.get('AI_STUB_REPLY') ?? '{}';
+    const promptTokens = countTokens(JSON.stringify(body.messages ?? []));
+    const usage = { prompt_tokens: promptTokens, completion_tokens: countTokens(reply), total_tokens: promptTokens + countTokens(reply) };
+
+    if (!body.stream) {
+      return json({ choices: [{ index: 0, message: { role: 'assistant', content: reply }, finish_reason: 'stop' }], usage });
+    }
+
+    // Content in small deltas, then the usage-only chunk that stream_options.include_usage asks for
+    const events: unknown[] = (reply.match(/.{1,20}/gs) ?? []).map(content => ({ choices: [{ index: 0, delta: { content } }] }));
+    events.push({ choices: [], usage });
+    const stream = events.map(event => `data: ${JSON.stringify(event)}\n\n`).join('') + 'data: [DONE]\n\n';
+    return new Response(stream, { headers: { 'Content-Type': 'text/event-stream' } });
+  }
+
+  if (pathname.endsWith('/embeddings')) {
+    const input: string[] = Array.isArray(body.input) ? body.input : [String(body.input ?? '')];
+    const dimensions = Number(body.dimensions) || 768;
+    const promptTokens = input.reduce((sum, text) => sum + countTokens(text), 0);
+    return json({
+      data: input.map((text, index) => ({ index, embedding: embed(text, dimensions) })),
+      usage: { prompt_tokens: promptTokens, total_tokens: promptTokens },
+    });
+  }
+
+  return json({ error: `Not found: ${pathname}` }, 404);
+}, { port: PORT });
@@ -0,0 +1,162 @@
+// Validation and repair for JSON replies from the AI gateway. Each function describes the shape it
+// expects with a zod schema; a reply that isn't valid JSON or doesn't match is sent back to the model
+// once with the problems listed, and only then reported as an error.
+
+import { z } from "https://esm.sh/zod@4.1.12";
+import { AiCallContext, AiOutputError, chatCompletion, ChatMessage } from "./aiProvider.ts";
+
+// The first balanced {...} in a reply, skipping code fences and any prose around it
+const extractJsonObject = (text: string): string | null => {
+  const start = text.indexOf('{');
+  if (start === -1) return null;
+
+  let depth = 0;
+  let inString = false;
+  for (let i = start; i < text.length; i++) {
+    const char = text[i];
+    if (inString) {
+      if (char === '\\') i++;
+      else if (char === '"') inString = false;
+    } else if (char === '"') {
+      inString = true;
+    } else if (char === '{') {
+      depth++;
+    } else if (char === '}' && --depth === 0) {
+      return text.slice(start, i + 1);
+    }
+  }
+  // Truncated reply: hand back what there is and let the parse fail
+  return text.slice(start);
+};
+
+const CURLY_QUOTES = '“”';
+
+// Whether only whitespace stands between the comma at i and a closing bracket
+const trailingComma = (text: string, i: number) => {
+  let next = i + 1;
+  while (/\s/.test(text[next] ?? '')) next++;
+  return text[next] === '}' || text[next] === ']';
+};
+
+// Mechanical fixes for the mistakes models make most: curly quotes around keys and values, and
+// trailing commas. Only the JSON structure is touched; string contents are copied as they are.
+const repairJsonText = (text: string) => {
+  let repaired = '';
+  // The kind of quote that opened the string being copied, or null outside strings
+  let openedBy: 'straight' | 'curly' | null = null;
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+    if (openedBy) {
+      if (char === '\\') {
+        repaired += char + (text[i + 1] ?? '');
+        i++;
+      } else if (openedBy === 'straight' ? char === '"' : CURLY_QUOTES.includes(char)) {
+        repaired += '"';
+        openedBy = null;
+      } else {
+        // A straight quote inside a curly-quoted string is content
+        repaired += char === '"' ? '\\"' : char;
+      }
+    } else if (char === '"' || CURLY_QUOTES.includes(char)) {
+      repaired += '"';
+      openedBy = char === '"' ? 'straight' : 'curly';
+    } else if (char !== ',' || !trailingComma(text, i)) {
+      repaired += char;
+    }
+  }
+  return repaired;
+};
+
+export const parseJsonReply = (reply: string): unknown => {
+  const candidate = extractJsonObject(reply);
+  if (!candidate) throw new SyntaxError('No JSON object found in the reply');
+  try {
+    return JSON.parse(candidate);
+  } catch {
+    return JSON.parse(repairJsonText(candidate));
+  }
+};
+
+const describeIssues = (error: z.ZodError) =>
+  error.issues.map(issue => `${issue.path.join('.') || '(root)'}: ${issue.message}`);
+
+// Asks for a reply, validates it against the schema and, if it fails, asks the model once more to fix it
+export const generateValidated = async <T extends z.ZodType>(
+  context: AiCallContext,
+  schema: T,
+  messages: ChatMessage[],
+  options: { temperature?: number; attempts?: number } = {}
+): Promise<z.infer<T>> => {
+  const attempts = options.attempts ?? 2;
+  const conversation = [...messages];
+  let issues: string[] = [];
+
+  for (let attempt = 1; attempt <= attempts; attempt++) {
+    const reply = await chatCompletion(context, conversation, options);
+
+    try {
+      const result = schema.safeParse(parseJsonReply(reply));
+      if (result.success) return result.data;
+      issues = describeIssues(result.error);
+    } catch (error) {
+      issues = [`Invalid JSON: ${error instanceof Error ? error.message : String(error)}`];
+    }
+
+    console.warn(`AI reply failed validation (attempt ${attempt}/${attempts}):`, issues);
+    conversation.push(
+      { role: 'assistant', content: reply },
+      {
+        role: 'user',
+        content: `Your reply could not be used:\n${issues.map(issue => `- ${issue}`).join('\n')}\n\nReply again with the corrected JSON only, in the format requested above.`,
+      }
+    );
+  }
+
+  throw new AiOutputError('The AI returned an invalid response', issues);
+};
+
+// Schema building blocks that accept the harmless variations models produce, such as numbers as
+// strings or a single tag instead of a list. A value of the wrong kind fails validation, so the
+// model is asked again rather than having its answer replaced. A field with a fallback may be left out.
+
+const orFallback = (value: unknown, fallback: unknown) => (value === undefined || value === null ? fallback : value);
+
+// A number from 0 to 100, accepting numeric strings and pulling out-of-range values back in
+export const score = (fallback?: number) =>
+  z.preprocess(
+    value => {
+      const present = orFallback(value, fallback);
+      return typeof present === 'string' && present.trim() !== '' ? Number(present) : present;
+    },
+    z.number().finite()
+  ).transform(value => Math.min(100, Math.max(0, Math.round(value))));
+
+export const text = (fallback?: string) =>
+  z.preprocess(value => {
+    const present = orFallback(value, fallback);
+    return typeof present === 'number' ? String(present) : present;
+  }, z.string());
+
+// Missing, empty and "null" all mean there is no value
+export const optionalText = () =>
+  z.preprocess(value => (value === undefined || value === '' || value === 'null' ? null : value), z.string().nullable());
+
+export const textList = () =>
+  z.preprocess(
+    value => {
+      const present = orFallback(value, []);
+      return typeof present === 'string' ? [present] : present;
+    },
+    z.array(z.string())
+  ).transform(items => items.filter(item => item.trim() !== ''));
+
+export const choice = <const V extends readonly [string, ...string[]]>(values: V, fallback?: V[number]) =>
+  z.preprocess(value => {
+    const present = orFallback(value, fallback);
+    return typeof present === 'string' ? present.toLowerCase().trim() : present;
+  }, z.enum(values));
+
+// Keeps ids the user actually owns; models invent plausible-looking UUIDs
+export const ownedIds = (ids: string[], allowed: Set<string>) => ids.filter(id => allowed.has(id));
+
+export const ownedId = (id: string | null | undefined, allowed: Set<string>) => (id && allowed.has(id) ? id : null);
@@ -0,0 +1,256 @@
+// One place for talking to the AI provider. Any OpenAI-compatible endpoint works, including a local
+// stub server (see ../_dev/aiStubServer.ts). Configuration comes from the environment, with optional
+// per-function overrides using the function name in upper snake case:
+//
+//   AI_BASE_URL / AI_BASE_URL_CATEGORIZE_DOCUMENT   default https://ai.gateway.lovable.dev/v1
+//   AI_API_KEY  / AI_API_KEY_CATEGORIZE_DOCUMENT    default LOVABLE_API_KEY
+//   AI_MODEL    / AI_MODEL_CATEGORIZE_DOCUMENT      default google/gemini-2.5-flash
+//   AI_TIMEOUT_MS (default 60000), AI_MAX_RETRIES (default 2)
+//
+// Embeddings read EMBEDDING_API_URL, EMBEDDING_API_KEY and EMBEDDING_MODEL first, then the unsuffixed
+// AI_BASE_URL and AI_API_KEY. They have no per-function overrides: document chunks (via embed-text)
+// and assistant questions (via chat-assistant) must be embedded by the same model to be comparable.
+// Token usage of every call is recorded in ai_usage against the user it was made for.
+
+const DEFAULT_BASE_URL = 'https://ai.gateway.lovable.dev/v1';
+const DEFAULT_CHAT_MODEL = 'google/gemini-2.5-flash';
+const DEFAULT_EMBEDDING_MODEL = 'openai/text-embedding-3-small';
+const DEFAULT_TIMEOUT_MS = 60000;
+const DEFAULT_MAX_RETRIES = 2;
+
+export type ChatMessage = { role: 'system' | 'user' | 'assistant'; content: string };
+
+export type TokenUsage = { prompt_tokens: number; completion_tokens: number; total_tokens: number };
+
+// Who a call is for, so its usage can be attributed; userId is null for calls made on nobody's behalf
+export type AiCallContext = { functionName: string; userId: string | null };
+
+// A non-2xx reply from the provider, or no reply in time (status 504)
+export class AiGatewayError extends Error {
+  constructor(public status: number, message: string) {
+    super(message);
+    this.name = 'AiGatewayError';
+  }
+}
+
+// The model kept replying with something that doesn't match the expected schema
+export class AiOutputError extends Error {
+  constructor(message: string, public issues: string[]) {
+    super(message);
+    this.name = 'AiOutputError';
+  }
+}
+
+const env = (name: string, functionName: string) => {
+  const suffix = functionName.toUpperCase().replace(/[^A-Z0-9]+/g, '_');
+  return Deno.env.get(`${name}_${suffix}`) || Deno.env.get(name) || undefined;
+};
+
+const chatConfig = (functionName: string) => {
+  const apiKey = env('AI_API_KEY', functionName) || Deno.env.get('LOVABLE_API_KEY');
+  if (!apiKey) throw new Error('AI_API_KEY is not configured');
+  return {
+    baseUrl: (env('AI_BASE_URL', functionName) || DEFAULT_BASE_URL).replace(/\/$/, ''),
+    apiKey,
+    model: env('AI_MODEL', functionName) || DEFAULT_CHAT_MODEL,
+  };
+};
+
+const embeddingConfig = () => {
+  const apiKey = Deno.env.get('EMBEDDING_API_KEY') || Deno.env.get('AI_API_KEY') || Deno.env.get('LOVABLE_API_KEY');
+  if (!apiKey) throw new Error('EMBEDDING_API_KEY is not configured');
+  const baseUrl = (Deno.env.get('AI_BASE_URL') || DEFAULT_BASE_URL).replace(/\/$/, '');
+  return {
+    url: Deno.env.get('EMBEDDING_API_URL') || `${baseUrl}/embeddings`,
+    apiKey,
+    model: Deno.env.get('EMBEDDING_MODEL') || DEFAULT_EMBEDDING_MODEL,
+  };
+};
+
+const numberEnv = (name: string, fallback: number) => {
+  const value = Number(Deno.env.get(name));
+  return Number.isFinite(value) && value >= 0 ? value : fallback;
+};
+
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+// Rate limits and provider hiccups are worth another try; a bad request or missing credits are not
+const isRetryable = (status: number) => status === 429 || status >= 500;
+
+const postWithRetries = async (url: string, apiKey: string, body: unknown): Promise<Response> => {
+  const timeoutMs = numberEnv('AI_TIMEOUT_MS', DEFAULT_TIMEOUT_MS);
+  const maxRetries = numberEnv('AI_MAX_RETRIES', DEFAULT_MAX_RETRIES);
+
+  for (let attempt = 0; ; attempt++) {
+    // The timeout covers waiting for the response headers; a stream can run longer once it starts
+    const controller = new AbortController();
+    const timer = setTimeout(() => controller.abort(), timeoutMs);
+    let response: Response;
+    try {
+      response = await fetch(url, {
+        method: 'POST',
+        headers: {
+          'Authorization': `Bearer ${apiKey}`,
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify(body),
+        signal: controller.signal,
+      });
+    } catch {
+      if (attempt < maxRetries) {
+        await sleep(500 * 2 ** attempt);
+        continue;
+      }
+      throw new AiGatewayError(504, controller.signal.aborted ? 'AI request timed out' : 'AI provider unreachable');
+    } finally {
+      clearTimeout(timer);
+    }
+
+    if (response.ok) return response;
+
+    const errorText = await response.text();
+    console.error('AI API error:', response.status, errorText);
+    if (attempt < maxRetries && isRetryable(response.status)) {
+      const retryAfter = Number(response.headers.get('Retry-After'));
+      await sleep(Number.isFinite(retryAfter) && retryAfter > 0 ? Math.min(retryAfter, 10) * 1000 : 500 * 2 ** attempt);
+      continue;
+    }
+    throw new AiGatewayError(response.status, `AI request failed (${response.status})`);
+  }
+};
+
+const recordUsage = async (context: AiCallContext, model: string, usage: Partial<TokenUsage> | undefined) => {
+  const SUPABASE_URL = Deno.env.get('SUPABASE_URL');
+  const SUPABASE_SERVICE_ROLE_KEY = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY');
+  if (!context.userId || !usage || !SUPABASE_URL || !SUPABASE_SERVICE_ROLE_KEY) return;
+
+  const promptTokens = usage.prompt_tokens ?? 0;
+  const completionTokens = usage.completion_tokens ?? 0;
+  try {
+    const response = await fetch(`${SUPABASE_URL}/rest/v1/ai_usage`, {
+      method: 'POST',
+      headers: {
+        'apikey': SUPABASE_SERVICE_ROLE_KEY,
+        'Authorization': `Bearer ${SUPABASE_SERVICE_ROLE_KEY}`,
+        'Content-Type': 'application/json',
+        'Prefer': 'return=minimal',
+      },
+      body: JSON.stringify({
+        user_id: context.userId,
+        function_name: context.functionName,
+        model,
+        prompt_tokens: promptTokens,
+        completion_tokens: completionTokens,
+        total_tokens: usage.total_tokens ?? promptTokens + completionTokens,
+      }),
+    });
+    if (!response.ok) console.error('Error recording AI usage:', response.status, await response.text());
+  } catch (error) {
+    // Accounting must never fail the request it accounts for
+    console.error('Error recording AI usage:', error);
+  }
+};
+
+export const chatCompletion = async (
+  context: AiCallContext,
+  messages: ChatMessage[],
+  options: { temperature?: number } = {}
+): Promise<string> => {
+  const config = chatConfig(context.functionName);
+  const response = await postWithRetries(`${config.baseUrl}/chat/completions`, config.apiKey, {
+    model: config.model,
+    messages,
+    temperature: options.temperature,
+  });
+
+  const data = await response.json();
+  await recordUsage(context, config.model, data.usage);
+
+  const content = data.choices?.[0]?.message?.content;
+  if (typeof content !== 'string' || !content.trim()) {
+    throw new Error('No response from AI');
+  }
+  return content;
+};
+
+// Streams the provider's server-sent events through unchanged, reading the final usage chunk on the side.
+// With tools, calls to them arrive as delta.tool_calls in the same stream.
+export const streamChatCompletion = async (
+  context: AiCallContext,
+  messages: ChatMessage[],
+  options: { tools?: unknown[] } = {}
+): Promise<ReadableStream<Uint8Array>> => {
+  const config = chatConfig(context.functionName);
+  const response = await postWithRetries(`${config.baseUrl}/chat/completions`, config.apiKey, {
+    model: config.model,
+    messages,
+    tools: options.tools?.length ? options.tools : undefined,
+    stream: true,
+    stream_options: { include_usage: true },
+  });
+  if (!response.body) throw new AiGatewayError(502, 'AI provider returned no stream');
+
+  const [client, accounting] = response.body.tee();
+  (async () => {
+    const reader = accounting.pipeThrough(new TextDecoderStream()).getReader();
+    let buffer = '';
+    let usage: TokenUsage | undefined;
+    for (;;) {
+      const { done, value } = await reader.read();
+      if (done) break;
+      buffer += value;
+      const lines = buffer.split('\n');
+      buffer = lines.pop() ?? '';
+      lines.forEach(line => {
+        if (!line.startsWith('data: ') || line.includes('[DONE]')) return;
+        try {
+          usage = JSON.parse(line.slice(6)).usage ?? usage;
+        } catch {
+          // Partial or non-JSON lines carry no usage
+        }
+      });
+    }
+    await recordUsage(context, config.model, usage);
+  })().catch(error => console.error('Error reading AI usage from stream:', error));
+
+  return client;
+};
+
+// Size of the vectors in document_chunks.embedding
+export const CHUNK_EMBEDDING_DIMENSIONS = 768;
+
+// Returns the model alongside the vectors; stored chunks carry it, and only vectors from the same
+// model are compared
+export const createEmbeddings = async (
+  context: AiCallContext,
+  input: string[],
+  dimensions: number
+): Promise<{ embeddings: number[][]; model: string }> => {
+  const config = embeddingConfig();
+  const response = await postWithRetries(config.url, config.apiKey, { model: config.model, input, dimensions });
+
+  const data = await response.json();
+  await recordUsage(context, config.model, data.usage);
+
+  const embeddings = (data.data || [])
+    .sort((a: { index: number }, b: { index: number }) => a.index - b.index)
+    .map((item: { embedding: number[] }) => item.embedding);
+  return { embeddings, model: config.model };
+};
+
+// The same responses for provider failures in every function
+export const aiErrorResponse = (error: unknown, headers: Record<string, string>): Response | null => {
+  const respond = (status: number, body: Record<string, unknown>) =>
+    new Response(JSON.stringify(body), { status, headers: { ...headers, 'Content-Type': 'application/json' } });
+
+  if (error instanceof AiGatewayError) {
+    if (error.status === 429) return respond(429, { error: 'Rate limit exceeded. Please try again later.' });
+    if (error.status === 402) return respond(402, { error: 'AI credits exhausted. Please add credits to continue.' });
+    if (error.status === 504) return respond(504, { error: error.message });
+    return respond(502, { error: error.message });
+  }
+  if (error instanceof AiOutputError) {
+    return respond(502, { error: error.message, issues: error.issues });
+  }
+  return null;
+};
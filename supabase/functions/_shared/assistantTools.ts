@@ -0,0 +1,319 @@
+// The tools chat-assistant offers the model. A tool call is never carried out straight away: it is
+// validated against what the user owns, stored in assistant_actions as a proposal with a one-line
+// summary, and only applied by apply-assistant-action once the user confirms it.
+
+import { SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { z } from "https://esm.sh/zod@4.1.12";
+import { choice } from "./aiOutput.ts";
+
+export type ToolName =
+  | 'create_task'
+  | 'update_task_status'
+  | 'create_project_goal'
+  | 'add_insight'
+  | 'link_document_to_principle'
+  | 'draft_sop';
+
+// What tool calls may refer to, by id, with the names the summaries show
+export type Workspace = {
+  projects: Map<string, string>;
+  tasks: Map<string, string>;
+  principles: Map<string, string>;
+  documents: Map<string, string>;
+};
+
+export type Proposal = { tool: ToolName; arguments: Record<string, unknown>; summary: string };
+
+// What was created or changed, so the confirm card can link to it
+export type ActionResult = { type: 'task' | 'goal' | 'insight' | 'document' | 'sop'; id: string; project_id?: string };
+
+type ToolSpec<S extends z.ZodType> = {
+  description: string;
+  // JSON schema of the arguments, as the provider expects it
+  parameters: Record<string, unknown>;
+  schema: S;
+  // null when the call refers to something that isn't in the user's workspace
+  summarize: (args: z.infer<S>, workspace: Workspace) => string | null;
+  apply: (supabase: SupabaseClient, userId: string, args: z.infer<S>) => Promise<ActionResult>;
+};
+
+type AssistantTool = {
+  definition: { type: 'function'; function: { name: ToolName; description: string; parameters: Record<string, unknown> } };
+  propose: (args: unknown, workspace: Workspace) => Proposal | null;
+  apply: (supabase: SupabaseClient, userId: string, args: unknown) => Promise<ActionResult>;
+};
+
+const defineTool = <S extends z.ZodType>(name: ToolName, spec: ToolSpec<S>): AssistantTool => ({
+  definition: { type: 'function', function: { name, description: spec.description, parameters: spec.parameters } },
+  propose: (args, workspace) => {
+    const parsed = spec.schema.safeParse(args);
+    if (!parsed.success) return null;
+    const summary = spec.summarize(parsed.data, workspace);
+    return summary ? { tool: name, arguments: parsed.data as Record<string, unknown>, summary } : null;
+  },
+  // Arguments are parsed again: they come back from the database, not from this process
+  apply: (supabase, userId, args) => spec.apply(supabase, userId, spec.schema.parse(args)),
+});
+
+// The values the tasks.status CHECK constraint allows (see the initial schema migration)
+const TASK_STATUSES = ['pending', 'in_progress', 'blocked', 'completed', 'cancelled'] as const;
+const TASK_PRIORITIES = ['low', 'medium', 'high', 'urgent'] as const;
+
+const id = z.string().uuid();
+const title = z.string().trim().min(1).max(200);
+// Leaving out an optional field, or getting it wrong, shouldn't cost the whole proposal
+const optional = (schema: z.ZodType<string>) =>
+  z.preprocess(value => (value === '' ? null : value), schema.nullish().catch(null)).transform(value => value ?? null);
+const date = z.string().regex(/^\d{4}-\d{2}-\d{2}$/);
+
+const nameIn = (map: Map<string, string>, key: string) => map.get(key) ?? null;
+
+const logTaskActivity = async (supabase: SupabaseClient, taskId: string, event: string, meta: Record<string, unknown> = {}) => {
+  const { error } = await supabase.from('task_activity').insert({ task_id: taskId, event, meta: { ...meta, via: 'assistant' } });
+  // The change itself went through; a missing activity entry only costs the learning signal
+  if (error) console.error('Error logging task activity:', error);
+};
+
+const TOOLS: Record<ToolName, AssistantTool> = {
+  create_task: defineTool('create_task', {
+    description: 'Create a task in one of the user\'s projects.',
+    parameters: {
+      type: 'object',
+      properties: {
+        project_id: { type: 'string', description: 'Id of the project the task belongs to' },
+        title: { type: 'string' },
+        description: { type: 'string' },
+        priority: { type: 'string', enum: TASK_PRIORITIES },
+        due_date: { type: 'string', description: 'YYYY-MM-DD' },
+      },
+      required: ['project_id', 'title'],
+    },
+    schema: z.object({
+      project_id: id,
+      title,
+      description: optional(z.string()),
+      priority: choice(TASK_PRIORITIES, 'medium').catch('medium'),
+      due_date: optional(date),
+    }),
+    summarize: (args, workspace) => {
+      const project = nameIn(workspace.projects, args.project_id);
+      return project ? `Create task "${args.title}" in ${project}` : null;
+    },
+    apply: async (supabase, _userId, args) => {
+      const { data, error } = await supabase
+        .from('tasks')
+        .insert({ ...args, status: 'pending', source: 'assistant' })
+        .select('id, project_id')
+        .single();
+      if (error) throw error;
+      await logTaskActivity(supabase, data.id, 'created');
+      return { type: 'task', id: data.id, project_id: data.project_id };
+    },
+  }),
+
+  update_task_status: defineTool('update_task_status', {
+    description: 'Move an existing task to another status.',
+    parameters: {
+      type: 'object',
+      properties: {
+        task_id: { type: 'string' },
+        status: { type: 'string', enum: TASK_STATUSES },
+      },
+      required: ['task_id', 'status'],
+    },
+    schema: z.object({
+      task_id: id,
+      status: z.preprocess(value => (typeof value === 'string' ? value.toLowerCase().trim() : value), z.enum(TASK_STATUSES)),
+    }),
+    summarize: (args, workspace) => {
+      const task = nameIn(workspace.tasks, args.task_id);
+      return task ? `Mark task "${task}" as ${args.status.replace('_', ' ')}` : null;
+    },
+    apply: async (supabase, _userId, args) => {
+      const { data, error } = await supabase
+        .from('tasks')
+        .update({
+          status: args.status,
+          completed_at: args.status === 'completed' ? new Date().toISOString() : null,
+        })
+        .eq('id', args.task_id)
+        .select('id, project_id')
+        .single();
+      if (error) throw error;
+      await logTaskActivity(
+        supabase,
+        data.id,
+        args.status === 'completed' ? 'completed' : 'status_changed',
+        { newStatus: args.status }
+      );
+      return { type: 'task', id: data.id, project_id: data.project_id };
+    },
+  }),
+
+  create_project_goal: defineTool('create_project_goal', {
+    description: 'Add a goal to one of the user\'s projects.',
+    parameters: {
+      type: 'object',
+      properties: {
+        project_id: { type: 'string' },
+        title: { type: 'string' },
+        description: { type: 'string' },
+        target_date: { type: 'string', description: 'YYYY-MM-DD' },
+      },
+      required: ['project_id', 'title'],
+    },
+    schema: z.object({
+      project_id: id,
+      title,
+      description: optional(z.string()),
+      target_date: optional(date),
+    }),
+    summarize: (args, workspace) => {
+      const project = nameIn(workspace.projects, args.project_id);
+      return project ? `Add goal "${args.title}" to ${project}` : null;
+    },
+    apply: async (supabase, _userId, args) => {
+      const { data, error } = await supabase
+        .from('project_goals')
+        .insert(args)
+        .select('id, project_id')
+        .single();
+      if (error) throw error;
+      return { type: 'goal', id: data.id, project_id: data.project_id };
+    },
+  }),
+
+  add_insight: defineTool('add_insight', {
+    description: 'Save an insight worth keeping from the conversation.',
+    parameters: {
+      type: 'object',
+      properties: {
+        title: { type: 'string' },
+        content: { type: 'string' },
+        category: { type: 'string' },
+        tags: { type: 'array', items: { type: 'string' } },
+      },
+      required: ['title', 'content'],
+    },
+    schema: z.object({
+      title,
+      content: z.string().trim().min(1),
+      category: optional(z.string()),
+      tags: z.array(z.string()).catch([]),
+    }),
+    summarize: (args) => `Save insight "${args.title}"`,
+    apply: async (supabase, userId, args) => {
+      const { data, error } = await supabase
+        .from('insights')
+        .insert({ ...args, user_id: userId })
+        .select('id')
+        .single();
+      if (error) throw error;
+      return { type: 'insight', id: data.id };
+    },
+  }),
+
+  link_document_to_principle: defineTool('link_document_to_principle', {
+    description: 'Set the guiding principle a document serves.',
+    parameters: {
+      type: 'object',
+      properties: {
+        document_id: { type: 'string' },
+        principle_id: { type: 'string' },
+      },
+      required: ['document_id', 'principle_id'],
+    },
+    schema: z.object({ document_id: id, principle_id: id }),
+    summarize: (args, workspace) => {
+      const document = nameIn(workspace.documents, args.document_id);
+      const principle = nameIn(workspace.principles, args.principle_id);
+      return document && principle ? `Link "${document}" to the principle "${principle}"` : null;
+    },
+    apply: async (supabase, _userId, args) => {
+      const { data, error } = await supabase
+        .from('documents')
+        .update({ primary_principle_id: args.principle_id })
+        .eq('id', args.document_id)
+        .select('id')
+        .single();
+      if (error) throw error;
+      return { type: 'document', id: data.id };
+    },
+  }),
+
+  draft_sop: defineTool('draft_sop', {
+    description: 'Draft a standard operating procedure. It is saved with status draft for the user to review.',
+    parameters: {
+      type: 'object',
+      properties: {
+        title: { type: 'string' },
+        description: { type: 'string' },
+        content: { type: 'string', description: 'The procedure in markdown' },
+        steps: { type: 'array', items: { type: 'string' } },
+        project_id: { type: 'string' },
+        principle_id: { type: 'string' },
+      },
+      required: ['title', 'content'],
+    },
+    schema: z.object({
+      title,
+      description: optional(z.string()),
+      content: z.string().trim().min(1),
+      steps: z.array(z.string()).catch([]),
+      project_id: optional(id),
+      principle_id: optional(id),
+    }),
+    summarize: (args, workspace) => {
+      if (args.project_id && !workspace.projects.has(args.project_id)) return null;
+      if (args.principle_id && !workspace.principles.has(args.principle_id)) return null;
+      return `Draft SOP "${args.title}"`;
+    },
+    apply: async (supabase, userId, { principle_id, ...args }) => {
+      const { data, error } = await supabase
+        .from('sops')
+        .insert({ ...args, linked_principle_id: principle_id, user_id: userId, status: 'draft' })
+        .select('id')
+        .single();
+      if (error) throw error;
+      return { type: 'sop', id: data.id };
+    },
+  }),
+};
+
+export const toolDefinitions = () => Object.values(TOOLS).map(tool => tool.definition);
+
+const isToolName = (name: string): name is ToolName => name in TOOLS;
+
+// A tool call as the model made it: arguments are a JSON string, possibly malformed
+export const proposeAction = (name: string, argumentsJson: string, workspace: Workspace): Proposal | null => {
+  if (!isToolName(name)) return null;
+  try {
+    return TOOLS[name].propose(JSON.parse(argumentsJson || '{}'), workspace);
+  } catch {
+    return null;
+  }
+};
+
+export const applyAction = (supabase: SupabaseClient, userId: string, tool: string, args: unknown) => {
+  if (!isToolName(tool)) throw new Error(`Unknown tool: ${tool}`);
+  return TOOLS[tool].apply(supabase, userId, args);
+};
+
+type ToolCallDelta = { index?: number; function?: { name?: string; arguments?: string } };
+
+// Streamed tool calls arrive in pieces: the name first, then the arguments a few characters at a time
+export const collectToolCalls = () => {
+  const calls = new Map<number, { name: string; arguments: string }>();
+  return {
+    add: (deltas: ToolCallDelta[] | undefined) => {
+      (deltas || []).forEach(delta => {
+        const index = delta.index ?? 0;
+        const call = calls.get(index) ?? { name: '', arguments: '' };
+        call.name += delta.function?.name ?? '';
+        call.arguments += delta.function?.arguments ?? '';
+        calls.set(index, call);
+      });
+    },
+    calls: () => [...calls.values()],
+  };
+};
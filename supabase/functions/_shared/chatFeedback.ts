@@ -0,0 +1,86 @@
+// What the user's feedback on earlier answers says about how they want to be answered. A reason tagged on
+// enough recent unhelpful answers becomes an instruction in chat-assistant's prompt, along with the latest
+// comments. The window is recent feedback only, so once answers improve the instruction fades out.
+// This is the only copy of the rule: the review page asks feedback-steering which reasons are in effect.
+
+import { SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2";
+
+const FEEDBACK_WINDOW = 50;
+const MIN_REASON_COUNT = 2;
+const COMMENT_EXAMPLES = 3;
+
+const REASON_INSTRUCTIONS: Record<string, string> = {
+  too_long: 'Keep answers short: lead with the answer and stay under about 150 words unless asked for detail',
+  too_short: 'Give fuller answers: explain the reasoning and include the relevant detail',
+  generic: 'Avoid generic advice: tie every suggestion to the user\'s own principles, projects, documents or tasks',
+  inaccurate: 'Be careful with facts: state only what the sources or the conversation support, and say when you are unsure',
+  ignored_context: 'Build on what the user already said in this conversation and what their workspace holds before asking',
+  bad_sources: 'Cite a source only where it supports the statement, and say so when nothing relevant was found',
+  not_actionable: 'End with concrete next steps the user can take',
+  wrong_tone: 'Keep a direct, professional tone without filler or flattery',
+};
+
+// Reasons that pull in opposite directions; only the more frequent of a pair is followed
+const OPPOSITES: [string, string][] = [['too_long', 'too_short']];
+
+type FeedbackRow = { feedback_type: string; reasons: string[] | null; comment: string | null };
+
+export type SteeringReason = { reason: string; count: number };
+
+// The reasons answers are currently adjusted for, most frequent first, given the recent feedback newest first
+export const steeringReasons = (rows: FeedbackRow[]): SteeringReason[] => {
+  const counts = new Map<string, number>();
+  rows
+    .filter(row => row.feedback_type === 'not_helpful')
+    .forEach(row => (row.reasons || []).forEach(reason => counts.set(reason, (counts.get(reason) ?? 0) + 1)));
+  OPPOSITES.forEach(([a, b]) => {
+    const countA = counts.get(a) ?? 0;
+    const countB = counts.get(b) ?? 0;
+    if (countA && countB) counts.delete(countA >= countB ? b : a);
+  });
+
+  return [...counts.entries()]
+    .filter(([reason, count]) => count >= MIN_REASON_COUNT && REASON_INSTRUCTIONS[reason])
+    .sort((a, b) => b[1] - a[1])
+    .map(([reason, count]) => ({ reason, count }));
+};
+
+export const feedbackGuidance = (rows: FeedbackRow[]): string => {
+  const instructions = steeringReasons(rows).map(({ reason }) => `- ${REASON_INSTRUCTIONS[reason]}`);
+  const comments = rows
+    .filter(row => row.feedback_type === 'not_helpful')
+    .map(row => row.comment?.trim())
+    .filter((comment): comment is string => !!comment)
+    .slice(0, COMMENT_EXAMPLES)
+    .map(comment => `- "${comment.slice(0, 200)}"`);
+
+  if (instructions.length === 0 && comments.length === 0) return '';
+  return [
+    '\nUSER PREFERENCES (learned from their feedback on earlier answers; follow them):',
+    ...instructions,
+    ...(comments.length > 0 ? ['Their latest comments on answers they found unhelpful:', ...comments] : []),
+    '',
+  ].join('\n');
+};
+
+// The user's most recent feedback, newest first: the window the rule looks at
+export const loadRecentFeedback = async (supabase: SupabaseClient, userId: string): Promise<FeedbackRow[]> => {
+  const { data, error } = await supabase
+    .from('chat_feedback')
+    .select('feedback_type, reasons, comment')
+    .eq('user_id', userId)
+    .order('updated_at', { ascending: false })
+    .limit(FEEDBACK_WINDOW);
+  if (error) throw error;
+  return data || [];
+};
+
+export const loadFeedbackGuidance = async (supabase: SupabaseClient, userId: string): Promise<string> => {
+  try {
+    return feedbackGuidance(await loadRecentFeedback(supabase, userId));
+  } catch (error) {
+    // Answers are still worth giving without the preferences
+    console.error('Error loading chat feedback:', error);
+    return '';
+  }
+};
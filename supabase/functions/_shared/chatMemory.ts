@@ -0,0 +1,164 @@
+// Keeps long conversations within the model's context. Turns that no longer fit are folded into a running
+// summary stored on the session (chat_sessions.summary, covering everything up to summary_through), and
+// every request is budgeted: the fixed prompt first, then retrieved sources and recent turns share the rest.
+// The user can read and edit the summary in the Assistant; folding builds on whatever it currently says.
+
+import { SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { AiCallContext, chatCompletion } from "./aiProvider.ts";
+import { formatSources, Source } from "./retrieval.ts";
+
+// Input tokens per request, leaving the rest of the model's window for the answer
+const INPUT_BUDGET = 24000;
+// Sources get at least this share of what the fixed prompt leaves, and more when the history is short
+const MIN_SOURCES_SHARE = 0.4;
+// When turns overflow, fold down to this share of the history budget, so folding happens every few
+// turns rather than on every request
+const FOLD_TARGET_SHARE = 0.5;
+// Most turns folded in one go; a long backlog is worked through over several requests
+const MAX_FOLD_TOKENS = 12000;
+const SUMMARY_WORDS = 250;
+
+export type Turn = { message: string; role: 'user' | 'assistant'; created_at: string };
+
+export type Conversation = {
+  title: string | null;
+  summary: string | null;
+  summaryThrough: string | null;
+  // Turns after summaryThrough, oldest first
+  turns: Turn[];
+};
+
+// Roughly four characters per token, which is close enough for budgeting
+export const estimateTokens = (text: string) => Math.ceil(text.length / 4);
+
+const turnTokens = (turns: Turn[]) => turns.reduce((sum, turn) => sum + estimateTokens(turn.message) + 4, 0);
+
+// The longest run of turns from the newest backwards that fits the budget
+const newestWithin = (turns: Turn[], budget: number) => {
+  let used = 0;
+  let start = turns.length;
+  while (start > 0 && used + turnTokens([turns[start - 1]]) <= budget) {
+    used += turnTokens([turns[start - 1]]);
+    start--;
+  }
+  return turns.slice(start);
+};
+
+// The longest run from the oldest forwards that fits the budget
+const oldestWithin = (turns: Turn[], budget: number) => {
+  let used = 0;
+  let end = 0;
+  while (end < turns.length && used + turnTokens([turns[end]]) <= budget) {
+    used += turnTokens([turns[end]]);
+    end++;
+  }
+  return turns.slice(0, end);
+};
+
+// Null when the session isn't the caller's: row level security hides anyone else's
+export const loadConversation = async (supabase: SupabaseClient, sessionId: string): Promise<Conversation | null> => {
+  const { data: session, error } = await supabase
+    .from('chat_sessions')
+    .select('title, summary, summary_through')
+    .eq('id', sessionId)
+    .maybeSingle();
+  if (error) throw error;
+  if (!session) return null;
+
+  let query = supabase
+    .from('chat_history')
+    .select('message, role, created_at')
+    .eq('session_id', sessionId)
+    .order('created_at', { ascending: true });
+  if (session.summary_through) query = query.gt('created_at', session.summary_through);
+  const { data: turns, error: historyError } = await query;
+  if (historyError) throw historyError;
+
+  return {
+    title: session.title,
+    summary: session.summary,
+    summaryThrough: session.summary_through,
+    turns: turns || [],
+  };
+};
+
+const summarize = async (context: AiCallContext, summary: string | null, turns: Turn[]) => {
+  const transcript = turns.map(turn => `${turn.role === 'user' ? 'User' : 'Assistant'}: ${turn.message}`).join('\n\n');
+  return (await chatCompletion(context, [
+    {
+      role: 'system',
+      content: `You maintain the memory of a conversation between a user and their assistant. Merge the new turns into the existing summary and reply with the updated summary only, in at most ${SUMMARY_WORDS} words. Keep decisions, facts about the user and their work, open questions and commitments; drop small talk. The user may have edited the existing summary: keep what they wrote unless the new turns contradict it.`,
+    },
+    {
+      role: 'user',
+      content: `Existing summary:\n${summary || '(none yet)'}\n\nNew turns:\n${transcript}`,
+    },
+  ], { temperature: 0.2 })).trim();
+};
+
+export type ContextPlan = {
+  sources: Source[];
+  summary: string | null;
+  turns: Turn[];
+  // Turns that fit neither the summary nor the budget this time
+  omitted: number;
+};
+
+// Decides what goes into the prompt besides its fixed part, folding overflowing turns into the summary
+export const planContext = async ({
+  supabase,
+  context,
+  sessionId,
+  conversation,
+  sources,
+  fixedTokens,
+}: {
+  supabase: SupabaseClient;
+  context: AiCallContext;
+  sessionId: string | null;
+  conversation: Conversation;
+  sources: Source[];
+  fixedTokens: number;
+}): Promise<ContextPlan> => {
+  let summary = conversation.summary;
+  const available = Math.max(0, INPUT_BUDGET - fixedTokens - estimateTokens(summary ?? ''));
+
+  // Sources are ranked, so the budget cuts from the end and the numbering stays unbroken
+  const historyNeed = turnTokens(conversation.turns);
+  const sourcesBudget = Math.max(available * MIN_SOURCES_SHARE, available - historyNeed);
+  let sourceTokens = 0;
+  const fitted = sources.filter(source => {
+    sourceTokens += estimateTokens(formatSources([source]));
+    return sourceTokens <= sourcesBudget;
+  });
+  const historyBudget = available - Math.min(sourceTokens, sourcesBudget);
+
+  if (historyNeed <= historyBudget) {
+    return { sources: fitted, summary, turns: conversation.turns, omitted: 0 };
+  }
+
+  const recent = newestWithin(conversation.turns, historyBudget * FOLD_TARGET_SHARE);
+  const older = conversation.turns.slice(0, conversation.turns.length - recent.length);
+  const toFold = oldestWithin(older, MAX_FOLD_TOKENS);
+
+  // Without a session there is nowhere to keep a summary
+  if (!sessionId) return { sources: fitted, summary, turns: recent, omitted: older.length };
+
+  if (toFold.length > 0) {
+    try {
+      const folded = await summarize(context, summary, toFold);
+      const { error } = await supabase
+        .from('chat_sessions')
+        .update({ summary: folded, summary_through: toFold[toFold.length - 1].created_at })
+        .eq('id', sessionId);
+      if (error) throw error;
+      summary = folded;
+    } catch (error) {
+      // The answer can still go ahead on the recent turns; folding is tried again next time
+      console.error('Error summarizing conversation:', error);
+      return { sources: fitted, summary, turns: recent, omitted: older.length };
+    }
+  }
+
+  return { sources: fitted, summary, turns: recent, omitted: older.length - toFold.length };
+};
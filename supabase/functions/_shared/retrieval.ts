@@ -0,0 +1,152 @@
+// Per-question retrieval for the assistant. Full-text matches across the user's documents, SOPs,
+// principles, tasks, insights and codex chats are blended with the document chunks nearest the
+// question, and the best are numbered so the answer can cite them as [1], [2], ...
+// Queries run through the caller's client, so row level security keeps them to the user's own data.
+
+import { SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { AiCallContext, CHUNK_EMBEDDING_DIMENSIONS, createEmbeddings } from "./aiProvider.ts";
+
+const MAX_SOURCES = 8;
+const MAX_CHUNKS_PER_DOCUMENT = 2;
+// The same blend the Library's hybrid search uses
+const VECTOR_WEIGHT = 0.6;
+const MIN_SIMILARITY = 0.25;
+const EXCERPT_LENGTH = 1200;
+
+export type SourceType = 'document' | 'sop' | 'principle' | 'task' | 'insight' | 'chat';
+
+export type Source = {
+  n: number;
+  type: SourceType;
+  id: string;
+  title: string;
+  page: number | null;
+  excerpt: string;
+};
+
+type Candidate = Omit<Source, 'n'> & { score: number };
+
+type KnowledgeRow = { source_type: SourceType; source_id: string; title: string; content: string; rank: number };
+type ChunkRow = { document_id: string; content: string; page: number | null; similarity: number; keyword_rank: number };
+
+const searchKnowledge = async (supabase: SupabaseClient, question: string): Promise<Candidate[]> => {
+  const { data, error } = await supabase.rpc('search_knowledge', { query_text: question, match_count: 12 });
+  if (error) {
+    console.error('Error searching knowledge:', error);
+    return [];
+  }
+  const rows = (data || []) as KnowledgeRow[];
+  const maxRank = Math.max(0, ...rows.map(row => row.rank));
+  return rows.map(row => ({
+    type: row.source_type,
+    id: row.source_id,
+    title: row.title,
+    page: null,
+    excerpt: row.content,
+    score: maxRank > 0 ? row.rank / maxRank : 0,
+  }));
+};
+
+const searchChunks = async (supabase: SupabaseClient, context: AiCallContext, question: string): Promise<Candidate[]> => {
+  // The question is embedded with the same configuration embed-text uses for chunks, and only chunks
+  // stored under the model that embedded it are matched
+  let embedding: number[];
+  let model: string;
+  try {
+    ({ embeddings: [embedding], model } = await createEmbeddings(context, [question], CHUNK_EMBEDDING_DIMENSIONS));
+  } catch (error) {
+    // Without an embedding the full-text matches still give the answer something to stand on
+    console.warn('Question embedding failed, answering from full-text matches only:', error);
+    return [];
+  }
+
+  const { data, error } = await supabase.rpc('match_document_chunks', {
+    query_embedding: `[${embedding.join(',')}]`,
+    p_embedding_model: model,
+    query_text: question,
+    match_count: 20,
+  });
+  if (error) {
+    console.error('Error matching document chunks:', error);
+    return [];
+  }
+
+  const chunks = (data || []) as ChunkRow[];
+  const maxKeywordRank = Math.max(0, ...chunks.map(chunk => chunk.keyword_rank));
+  const scored = chunks
+    .map(chunk => ({
+      chunk,
+      score:
+        VECTOR_WEIGHT * Math.max(0, (chunk.similarity - MIN_SIMILARITY) / (1 - MIN_SIMILARITY)) +
+        (1 - VECTOR_WEIGHT) * (maxKeywordRank > 0 ? chunk.keyword_rank / maxKeywordRank : 0),
+    }))
+    .filter(({ score }) => score > 0);
+
+  const documentIds = [...new Set(scored.map(({ chunk }) => chunk.document_id))];
+  const { data: documents } = documentIds.length > 0
+    ? await supabase.from('documents').select('id, title').in('id', documentIds)
+    : { data: [] };
+  const titles = new Map((documents || []).map((doc: { id: string; title: string }) => [doc.id, doc.title]));
+
+  return scored.map(({ chunk, score }) => ({
+    type: 'document' as const,
+    id: chunk.document_id,
+    title: titles.get(chunk.document_id) ?? 'Untitled document',
+    page: chunk.page,
+    excerpt: chunk.content,
+    score,
+  }));
+};
+
+export const retrieveSources = async (
+  supabase: SupabaseClient,
+  context: AiCallContext,
+  question: string
+): Promise<Source[]> => {
+  const [knowledge, chunks] = await Promise.all([
+    searchKnowledge(supabase, question),
+    searchChunks(supabase, context, question),
+  ]);
+
+  // A document's summary adds little once passages from inside it are already in
+  const chunkDocuments = new Set(chunks.map(chunk => chunk.id));
+  const candidates = [
+    ...chunks,
+    ...knowledge.filter(item => !(item.type === 'document' && chunkDocuments.has(item.id))),
+  ].sort((a, b) => b.score - a.score);
+
+  const perDocument = new Map<string, number>();
+  const picked = candidates.filter(candidate => {
+    if (candidate.type !== 'document') return true;
+    const count = perDocument.get(candidate.id) ?? 0;
+    perDocument.set(candidate.id, count + 1);
+    return count < MAX_CHUNKS_PER_DOCUMENT;
+  });
+
+  return picked.slice(0, MAX_SOURCES).map((candidate, index) => ({
+    n: index + 1,
+    type: candidate.type,
+    id: candidate.id,
+    title: candidate.title,
+    page: candidate.page,
+    excerpt: candidate.excerpt.slice(0, EXCERPT_LENGTH),
+  }));
+};
+
+const SOURCE_LABELS: Record<SourceType, string> = {
+  document: 'Document',
+  sop: 'SOP',
+  principle: 'Principle',
+  task: 'Task',
+  insight: 'Insight',
+  chat: 'Codex chat',
+};
+
+// The numbered sources as they appear in the system prompt; the ids let tool calls refer to them
+export const formatSources = (sources: Source[]) =>
+  sources
+    .map(source => {
+      const page = source.page ? ` (page ${source.page})` : '';
+      return `[${source.n}] ${SOURCE_LABELS[source.type]} "${source.title}"${page} (id: ${source.id})\n${source.excerpt}`;
+    })
+    .join('\n\n');
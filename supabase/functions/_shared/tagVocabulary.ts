@@ -0,0 +1,53 @@
+// A user's tag vocabulary, so suggested tags reuse the spelling the user already has instead of adding
+// near-duplicates next to it.
+
+export const asTags = (value: unknown): string[] => {
+  // The review form stores tags as a comma-separated string; suggestions and bulk edits use arrays
+  const tags = typeof value === 'string' ? value.split(',') : Array.isArray(value) ? value : [];
+  return tags.filter((tag): tag is string => typeof tag === 'string').map(tag => tag.trim()).filter(Boolean);
+};
+
+// Spelling-insensitive key, so "Meal-Prep", "meal prep" and "MEAL PREP" are the same tag. Letters and digits
+// of every script count, and Latin accents are dropped so "Café" matches "cafe". Plurals are left alone:
+// cutting a trailing "s" merged unrelated words such as "news" and "new".
+export const tagKey = (tag: string) =>
+  tag
+    .normalize('NFKD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .replace(/[^\p{L}\p{M}\p{N}]+/gu, '');
+
+export type TagVocabulary = {
+  // Normalized key to the spelling the user uses
+  spellings: Map<string, string>;
+  // Tags by how many documents use them, most used first
+  ranked: string[];
+};
+
+// Where documents spell a tag differently, the first spelling seen is kept
+export const buildVocabulary = (documents: { tags: string[] | null }[]): TagVocabulary => {
+  const counts = new Map<string, { tag: string; count: number }>();
+  documents.forEach(doc => (doc.tags || []).forEach(tag => {
+    const key = tagKey(tag);
+    if (!key) return;
+    const entry = counts.get(key) ?? { tag, count: 0 };
+    entry.count++;
+    counts.set(key, entry);
+  }));
+
+  return {
+    spellings: new Map(Array.from(counts.entries()).map(([key, { tag }]) => [key, tag])),
+    ranked: Array.from(counts.values()).sort((a, b) => b.count - a.count).map(({ tag }) => tag),
+  };
+};
+
+// Maps suggested tags onto the user's existing spelling and drops duplicates and ones they keep rejecting
+export const normalizeTags = (tags: unknown, spellings: Map<string, string>, rejected: Set<string>): string[] => {
+  const seen = new Set<string>();
+  return asTags(tags).flatMap(tag => {
+    const key = tagKey(tag);
+    if (!key || seen.has(key) || rejected.has(key)) return [];
+    seen.add(key);
+    return [spellings.get(key) ?? tag.toLowerCase()];
+  });
+};
@@ -0,0 +1,75 @@
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { authenticate, authErrorResponse } from "../_shared/auth.ts";
+import { applyAction } from "../_shared/assistantTools.ts";
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+};
+
+const json = (body: unknown, status = 200) =>
+  new Response(JSON.stringify(body), { status, headers: { ...corsHeaders, 'Content-Type': 'application/json' } });
+
+// A claim older than this belongs to a call that died before recording the outcome, and may be taken again
+const STALE_CLAIM_MS = 5 * 60 * 1000;
+
+// Database errors are plain objects with a message rather than Error instances
+const messageOf = (error: unknown) =>
+  error instanceof Error ? error.message : (error as { message?: string } | null)?.message ?? String(error);
+
+// Confirms or rejects a change the assistant proposed. A confirmed change is carried out as the caller,
+// so RLS decides what it may touch, and its outcome is recorded on the action either way.
+serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    const { supabase, user } = await authenticate(req);
+
+    const { actionId, decision } = await req.json();
+    if (!actionId || (decision !== 'confirm' && decision !== 'reject')) {
+      throw new Error('actionId and a decision of confirm or reject are required');
+    }
+
+    // Claiming the action only succeeds while it is still proposed, so it is applied at most once.
+    // A stale claim is the exception: its call never finished, and the action would otherwise be stuck.
+    const staleBefore = new Date(Date.now() - STALE_CLAIM_MS).toISOString();
+    const { data: action, error: claimError } = await supabase
+      .from('assistant_actions')
+      .update(decision === 'confirm'
+        ? { status: 'applying' }
+        : { status: 'rejected', resolved_at: new Date().toISOString() })
+      .eq('id', actionId)
+      .or(`status.eq.proposed,and(status.eq.applying,updated_at.lt."${staleBefore}")`)
+      .select('id, tool, arguments, status')
+      .maybeSingle();
+    if (claimError) throw claimError;
+    if (!action) return json({ error: 'This action was already handled' }, 409);
+    if (decision === 'reject') return json({ action });
+
+    let update;
+    try {
+      const result = await applyAction(supabase, user.id, action.tool, action.arguments);
+      update = { status: 'applied', result, error: null };
+    } catch (error) {
+      console.error(`Error applying ${action.tool} for ${user.id}:`, error);
+      update = { status: 'failed', result: null, error: messageOf(error) };
+    }
+
+    const { data: resolved, error: updateError } = await supabase
+      .from('assistant_actions')
+      .update({ ...update, resolved_at: new Date().toISOString() })
+      .eq('id', action.id)
+      .select('id, tool, status, result, error')
+      .single();
+    if (updateError) throw updateError;
+
+    return json({ action: resolved });
+  } catch (error) {
+    console.error('Error in apply-assistant-action:', error);
+    const authError = authErrorResponse(error, corsHeaders);
+    if (authError) return authError;
+    return json({ error: messageOf(error) }, 500);
+  }
+});
@@ -1,90 +1,173 @@
 import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { z } from "https://esm.sh/zod@4.1.12";
+import {
+  generateValidated,
+  optionalText,
+  ownedId,
+  score,
+  text,
+  textList,
+} from "../_shared/aiOutput.ts";
+import { aiErrorResponse } from "../_shared/aiProvider.ts";
+import { authenticate, authErrorResponse } from "../_shared/auth.ts";
+import { asTags, buildVocabulary, normalizeTags, tagKey } from "../_shared/tagVocabulary.ts";
 
 const corsHeaders = {
   'Access-Control-Allow-Origin': '*',
   'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
 };
 
+// How many of the user's recent corrections are shown to the model as examples
+const CORRECTION_EXAMPLES = 15;
+// Existing tags listed in the prompt, most used first
+const VOCABULARY_SIZE = 60;
+
+// One suggested relation; a bare id, as older replies gave, is read as a relation with no reason
+const RelationSchema = z.preprocess(
+  value => (typeof value === 'string' ? { id: value } : value),
+  z.object({ id: z.string().min(1), reason: text(''), confidence: score(50) })
+);
+
+const relationList = () => z.array(RelationSchema).default([]);
+
+type Relation = z.infer<typeof RelationSchema>;
+
+const CategorizationSchema = z.object({
+  principle_alignment: z.object({
+    primary_principle_id: optionalText(),
+    primary_principle_name: text(),
+    alignment_explanation: text(),
+    serves_goal: text(),
+  }).nullable().default(null),
+  category: z.string().min(1),
+  confidence: score(),
+  reasoning: text(),
+  title: text(),
+  summary: text(),
+  tags: textList(),
+  related_items: z.object({
+    sops: relationList(),
+    documents: relationList(),
+    reasoning: text(''),
+  }).default({ sops: [], documents: [], reasoning: '' }),
+  suggested_actions: textList(),
+  data_description: optionalText().optional(),
+});
+
+type Suggestion = { category: string | null; tags: string[]; principleId: string | null };
+
+type LearningLogRow = {
+  ai_suggestion: Record<string, unknown> | null;
+  user_choice: Record<string, unknown> | null;
+  correction_type: string | null;
+  documents: { title: string | null; file_name: string | null } | null;
+};
+
+const readSuggestion = (value: Record<string, unknown> | null): Suggestion => {
+  const record = value ?? {};
+  const alignment = (record.principle_alignment ?? {}) as Record<string, unknown>;
+  const principle = record.primary_principle_id ?? alignment.primary_principle_id;
+  return {
+    category: typeof record.category === 'string' ? record.category : null,
+    tags: asTags(record.tags),
+    principleId: typeof principle === 'string' && principle ? principle : null,
+  };
+};
+
+// One line per correction, naming only the fields the user changed; bulk edits record only what they touched
+const describeCorrection = (row: LearningLogRow, principleNames: Map<string, string>): string | null => {
+  const suggested = readSuggestion(row.ai_suggestion);
+  const choice = row.user_choice ?? {};
+  const chosen = readSuggestion(choice);
+  const principleName = (id: string | null) => (id ? principleNames.get(id) ?? 'unknown principle' : 'none');
+  const changes: string[] = [];
+
+  if ('category' in choice && chosen.category !== suggested.category) {
+    changes.push(`category "${suggested.category ?? 'none'}" -> "${chosen.category ?? 'none'}"`);
+  }
+  if ('tags' in choice) {
+    const suggestedKeys = new Set(suggested.tags.map(tagKey));
+    const chosenKeys = new Set(chosen.tags.map(tagKey));
+    const removed = suggested.tags.filter(tag => !chosenKeys.has(tagKey(tag)));
+    const added = chosen.tags.filter(tag => !suggestedKeys.has(tagKey(tag)));
+    if (removed.length > 0) changes.push(`removed tags ${removed.join(', ')}`);
+    if (added.length > 0) changes.push(`added tags ${added.join(', ')}`);
+  }
+  if ('primary_principle_id' in choice && chosen.principleId !== suggested.principleId) {
+    changes.push(`principle "${principleName(suggested.principleId)}" -> "${principleName(chosen.principleId)}"`);
+  }
+
+  if (changes.length === 0) return null;
+  const title = row.documents?.title || row.documents?.file_name || 'a document';
+  return `- "${title}": ${changes.join('; ')}`;
+};
+
+// Tags the user has removed from suggestions more than once and never uses themselves
+const rejectedTagKeys = (rows: LearningLogRow[], vocabulary: Map<string, string>) => {
+  const removals = new Map<string, number>();
+  rows.forEach(row => {
+    if (!row.user_choice || !('tags' in row.user_choice)) return;
+    const kept = new Set(readSuggestion(row.user_choice).tags.map(tagKey));
+    readSuggestion(row.ai_suggestion).tags.forEach(tag => {
+      const key = tagKey(tag);
+      if (!kept.has(key)) removals.set(key, (removals.get(key) || 0) + 1);
+    });
+  });
+  return new Set(Array.from(removals.entries()).filter(([key, count]) => count >= 2 && !vocabulary.has(key)).map(([key]) => key));
+};
+
 serve(async (req) => {
   if (req.method === 'OPTIONS') {
     return new Response(null, { headers: corsHeaders });
   }
 
   try {
-    const { content, fileName, fileType, userId, projectId } = await req.json();
+    // The caller is whoever the JWT says; every read below runs as them, under row level security
+    const { supabase, user } = await authenticate(req);
+    const { content, fileName, fileType, projectId } = await req.json();
     
     if (!content) {
       throw new Error('No content provided');
     }
 
-    const LOVABLE_API_KEY = Deno.env.get('LOVABLE_API_KEY');
-    if (!LOVABLE_API_KEY) {
-      throw new Error('LOVABLE_API_KEY is not configured');
-    }
-
-    const SUPABASE_URL = Deno.env.get('SUPABASE_URL');
-    const SUPABASE_SERVICE_ROLE_KEY = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY');
-    
-    if (!SUPABASE_URL || !SUPABASE_SERVICE_ROLE_KEY) {
-      throw new Error('Supabase configuration missing');
-    }
-
-    // Fetch user's guiding principles
-    const principlesResponse = await fetch(
-      `${SUPABASE_URL}/rest/v1/principles?user_id=eq.${userId}&select=id,title,description,priority`,
-      {
-        headers: {
-          'apikey': SUPABASE_SERVICE_ROLE_KEY,
-          'Authorization': `Bearer ${SUPABASE_SERVICE_ROLE_KEY}`,
-        },
-      }
-    );
-    const principles = await principlesResponse.json();
-
-    // Fetch project context if applicable
-    let projectContext = '';
-    if (projectId) {
-      const projectResponse = await fetch(
-        `${SUPABASE_URL}/rest/v1/projects?id=eq.${projectId}&select=name,description`,
-        {
-          headers: {
-            'apikey': SUPABASE_SERVICE_ROLE_KEY,
-            'Authorization': `Bearer ${SUPABASE_SERVICE_ROLE_KEY}`,
-          },
-        }
-      );
-      const projects = await projectResponse.json();
-      if (projects.length > 0) {
-        projectContext = `\nCurrent project: ${projects[0].name}${projects[0].description ? ' - ' + projects[0].description : ''}`;
-      }
-    }
-
-    // Fetch existing SOPs for context
-    const sopsResponse = await fetch(
-      `${SUPABASE_URL}/rest/v1/sops?user_id=eq.${userId}&select=id,title,category&limit=20`,
-      {
-        headers: {
-          'apikey': SUPABASE_SERVICE_ROLE_KEY,
-          'Authorization': `Bearer ${SUPABASE_SERVICE_ROLE_KEY}`,
-        },
-      }
-    );
-    const sops = await sopsResponse.json();
-
-    // Fetch existing documents for context
-    const docsResponse = await fetch(
-      `${SUPABASE_URL}/rest/v1/documents?user_id=eq.${userId}&select=id,title,category&limit=20`,
-      {
-        headers: {
-          'apikey': SUPABASE_SERVICE_ROLE_KEY,
-          'Authorization': `Bearer ${SUPABASE_SERVICE_ROLE_KEY}`,
-        },
-      }
-    );
-    const existingDocs = await docsResponse.json();
+    const [principlesRes, projectRes, sopsRes, docsRes, correctionsRes, tagsRes] = await Promise.all([
+      // The user's guiding principles
+      supabase.from('principles').select('id, title, description, priority').eq('user_id', user.id),
+      // Project context if applicable
+      projectId
+        ? supabase.from('projects').select('name, description').eq('user_id', user.id).eq('id', projectId).maybeSingle()
+        : Promise.resolve({ data: null }),
+      // Existing SOPs and documents for context
+      supabase.from('sops').select('id, title, category').eq('user_id', user.id).order('updated_at', { ascending: false }).limit(20),
+      // Newest first, so a document arriving now is related to what was added before it
+      supabase.from('documents').select('id, title, category').eq('user_id', user.id).order('created_at', { ascending: false }).limit(30),
+      // Recent corrections the user made to earlier suggestions
+      supabase
+        .from('ai_learning_log')
+        .select('ai_suggestion, user_choice, correction_type, documents(title, file_name)')
+        .eq('user_id', user.id)
+        .neq('correction_type', 'accepted')
+        .order('created_at', { ascending: false })
+        .limit(50),
+      // The user's tag vocabulary: every tag in use, keyed by its normalized form
+      supabase.from('documents').select('tags').eq('user_id', user.id).limit(1000),
+    ]);
+
+    const principles = principlesRes.data || [];
+    const sops = sopsRes.data || [];
+    const existingDocs = docsRes.data || [];
+    const corrections = (correctionsRes.data || []) as unknown as LearningLogRow[];
+
+    const project = projectRes.data;
+    const projectContext = project
+      ? `\nCurrent project: ${project.name}${project.description ? ' - ' + project.description : ''}`
+      : '';
+
+    const vocabulary = buildVocabulary(tagsRes.data || []);
+    const rejectedTags = rejectedTagKeys(corrections, vocabulary.spellings);
 
     // Determine if this is structured data
-    const isStructuredData = ['json', 'csv', 'xml', 'yaml', 'yml', 'xlsx', 'xls'].some(
+    const isStructuredData = ['json', 'csv', 'xml', 'yaml', 'yml', 'xlsx', 'xls', 'spreadsheet', 'excel'].some(
       ext => fileType.toLowerCase().includes(ext)
     );
 
@@ -93,13 +176,28 @@ serve(async (req) => {
       : 'No guiding principles defined yet.';
 
     const sopsText = sops.length > 0
-      ? sops.map((s: any) => `- ${s.title} (${s.category || 'uncategorized'})`).join('\n')
+      ? sops.map((s: any) => `- [${s.id}] ${s.title} (${s.category || 'uncategorized'})`).join('\n')
       : 'No SOPs defined yet.';
 
     const docsText = existingDocs.length > 0
-      ? existingDocs.map((d: any) => `- ${d.title} (${d.category || 'uncategorized'})`).join('\n')
+      ? existingDocs.map((d: any) => `- [${d.id}] ${d.title} (${d.category || 'uncategorized'})`).join('\n')
       : 'No documents uploaded yet.';
 
+    const principleNames = new Map<string, string>(
+      principles.map((p: { id: string; title: string }) => [p.id, p.title])
+    );
+    const correctionExamples = corrections
+      .map(row => describeCorrection(row, principleNames))
+      .filter((line): line is string => line !== null)
+      .slice(0, CORRECTION_EXAMPLES);
+    const correctionsText = correctionExamples.length > 0
+      ? `\nPAST CORRECTIONS (the user changed these earlier suggestions; follow the same preferences):\n${correctionExamples.join('\n')}\n`
+      : '';
+
+    const vocabularyText = vocabulary.ranked.length > 0
+      ? vocabulary.ranked.slice(0, VOCABULARY_SIZE).join(', ')
+      : 'No tags in use yet.';
+
     const prompt = `You are an AI that operates from foundational principles. Your job is to understand documents through the lens of these principles and organizational context.
 
 FOUNDATIONAL PRINCIPLES:
@@ -113,13 +211,16 @@ ${sopsText}
 Documents:
 ${docsText}
 
+Tags in use (reuse these exact spellings):
+${vocabularyText}
+${correctionsText}
 DOCUMENT TO ANALYZE:
 Filename: "${fileName}"
 Type: ${fileType}
 
 Content:
 ${content.substring(0, 8000)}
-
+${content.includes('[Page ') ? '\nMarkers like [Page 4] show where each page starts. When the summary refers to specific content, cite the page (e.g. "see page 4").\n' : ''}
 ANALYSIS INSTRUCTIONS:
 Interpret this document through our principles. Instead of just categorizing, understand its PURPOSE and PLACE.
 
@@ -140,6 +241,7 @@ Interpret this document through our principles. Instead of just categorizing, un
    - Which existing SOPs serve the same principle?
    - Which existing documents serve the same principle?
    - Suggest connections based on shared purpose
+   - Use the ids in square brackets from the lists above; give each relation a one-sentence reason and a confidence (0-100)
 
 5. **Metadata**:
    - Title (if unclear from filename)
@@ -162,8 +264,8 @@ Respond ONLY with valid JSON in this format:
   "summary": "string (purpose-driven)",
   "tags": ["string"],
   "related_items": {
-    "sop_ids": ["uuid"],
-    "document_ids": ["uuid"],
+    "sops": [{ "id": "uuid", "reason": "string", "confidence": number (0-100) }],
+    "documents": [{ "id": "uuid", "reason": "string", "confidence": number (0-100) }],
     "reasoning": "string (why these relate)"
   },
   "suggested_actions": ["string"]${isStructuredData ? ',\n  "data_description": "string"' : ''}
@@ -171,48 +273,51 @@ Respond ONLY with valid JSON in this format:
 
 DO NOT OUTPUT ANYTHING OTHER THAN VALID JSON.`;
 
-    const response = await fetch('https://ai.gateway.lovable.dev/v1/chat/completions', {
-      method: 'POST',
-      headers: {
-        'Authorization': `Bearer ${LOVABLE_API_KEY}`,
-        'Content-Type': 'application/json',
+    const categorization = await generateValidated({ functionName: 'categorize-document', userId: user.id }, CategorizationSchema, [
+      { role: 'system', content: 'You are a document categorization assistant. Always respond with valid JSON only.' },
+      { role: 'user', content: prompt }
+    ]);
+
+    // Only ids from the user's own library survive; anything else was made up by the model
+    const ownedIn = async (table: 'sops' | 'documents', ids: string[]) => {
+      if (ids.length === 0) return new Set<string>();
+      const { data: rows } = await supabase.from(table).select('id').eq('user_id', user.id).in('id', ids);
+      // A malformed id fails the whole filter, and then there is nothing to keep anyway
+      return new Set((rows || []).map((row: { id: string }) => row.id));
+    };
+    const [ownedSops, ownedDocs] = await Promise.all([
+      ownedIn('sops', categorization.related_items.sops.map(relation => relation.id)),
+      ownedIn('documents', categorization.related_items.documents.map(relation => relation.id)),
+    ]);
+
+    const ownedRelations = (relations: Relation[], owned: Set<string>) => {
+      const seen = new Set<string>();
+      return relations.filter(relation => {
+        if (!owned.has(relation.id) || seen.has(relation.id)) return false;
+        seen.add(relation.id);
+        return true;
+      });
+    };
+    const relatedSops = ownedRelations(categorization.related_items.sops, ownedSops);
+    const relatedDocs = ownedRelations(categorization.related_items.documents, ownedDocs);
+
+    const parsedResponse = {
+      ...categorization,
+      principle_alignment: categorization.principle_alignment && {
+        ...categorization.principle_alignment,
+        primary_principle_id: ownedId(categorization.principle_alignment.primary_principle_id, new Set(principleNames.keys())),
       },
-      body: JSON.stringify({
-        model: 'google/gemini-2.5-flash',
-        messages: [
-          { role: 'system', content: 'You are a document categorization assistant. Always respond with valid JSON only.' },
-          { role: 'user', content: prompt }
-        ],
-      }),
-    });
-
-    if (!response.ok) {
-      if (response.status === 429) {
-        return new Response(
-          JSON.stringify({ error: 'Rate limit exceeded. Please try again later.' }), 
-          { status: 429, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
-        );
-      }
-      if (response.status === 402) {
-        return new Response(
-          JSON.stringify({ error: 'AI credits exhausted. Please add credits to continue.' }), 
-          { status: 402, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
-        );
-      }
-      const errorText = await response.text();
-      console.error('AI API error:', response.status, errorText);
-      throw new Error('AI categorization failed');
-    }
-
-    const data = await response.json();
-    const aiResponse = data.choices?.[0]?.message?.content;
-    
-    if (!aiResponse) {
-      throw new Error('No response from AI');
-    }
-
-    // Parse the JSON response
-    const parsedResponse = JSON.parse(aiResponse);
+      title: categorization.title || fileName,
+      tags: normalizeTags(categorization.tags, vocabulary.spellings, rejectedTags),
+      // The id lists are what the knowledge graph draws; the relations carry each one's reason and confidence
+      related_items: {
+        sop_ids: relatedSops.map(relation => relation.id),
+        document_ids: relatedDocs.map(relation => relation.id),
+        reasoning: categorization.related_items.reasoning,
+        sops: relatedSops,
+        documents: relatedDocs,
+      },
+    };
 
     console.log('Categorization successful:', parsedResponse);
 
@@ -223,6 +328,10 @@ DO NOT OUTPUT ANYTHING OTHER THAN VALID JSON.`;
 
   } catch (error) {
     console.error('Error in categorize-document:', error);
+    const authError = authErrorResponse(error, corsHeaders);
+    if (authError) return authError;
+    const aiError = aiErrorResponse(error, corsHeaders);
+    if (aiError) return aiError;
     return new Response(
       JSON.stringify({ 
         error: error instanceof Error ? error.message : 'Unknown error',
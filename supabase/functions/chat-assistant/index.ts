@@ -1,10 +1,35 @@
 import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { AiCallContext, aiErrorResponse, chatCompletion, ChatMessage, streamChatCompletion } from "../_shared/aiProvider.ts";
+import { authenticate, authErrorResponse } from "../_shared/auth.ts";
+import { collectToolCalls, Proposal, proposeAction, toolDefinitions, Workspace } from "../_shared/assistantTools.ts";
+import { formatSources, retrieveSources } from "../_shared/retrieval.ts";
+import { Conversation, estimateTokens, loadConversation, planContext } from "../_shared/chatMemory.ts";
+import { loadFeedbackGuidance } from "../_shared/chatFeedback.ts";
 
 const corsHeaders = {
   'Access-Control-Allow-Origin': '*',
   'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
 };
 
+// A few words naming the conversation, from its first exchange; the question itself if that fails
+const generateTitle = async (context: AiCallContext, question: string, answer: string) => {
+  const fallback = question.replace(/\s+/g, ' ').trim().slice(0, 60);
+  try {
+    const reply = await chatCompletion(context, [
+      {
+        role: 'system',
+        content: 'Name this conversation in 3 to 6 words. Reply with the title only, without quotes or a trailing full stop.',
+      },
+      { role: 'user', content: `Question: ${question.slice(0, 1000)}\n\nAnswer: ${answer.slice(0, 1000)}` },
+    ], { temperature: 0.3 });
+    const title = reply.split('\n')[0].replace(/^["'#*\s]+|["'.*\s]+$/g, '').slice(0, 80);
+    return title || fallback;
+  } catch (error) {
+    console.warn('Title generation failed, using the question:', error);
+    return fallback;
+  }
+};
+
 serve(async (req) => {
   if (req.method === 'OPTIONS') {
     return new Response(null, { headers: corsHeaders });
@@ -17,115 +42,72 @@ serve(async (req) => {
       throw new Error('No message provided');
     }
 
-    const LOVABLE_API_KEY = Deno.env.get('LOVABLE_API_KEY');
-    if (!LOVABLE_API_KEY) {
-      throw new Error('LOVABLE_API_KEY is not configured');
-    }
-
-    const SUPABASE_URL = Deno.env.get('SUPABASE_URL');
-    const SUPABASE_SERVICE_ROLE_KEY = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY');
-    
-    if (!SUPABASE_URL || !SUPABASE_SERVICE_ROLE_KEY) {
-      throw new Error('Supabase configuration missing');
-    }
-
-    // Get authorization header
-    const authHeader = req.headers.get('Authorization');
-    if (!authHeader) {
-      throw new Error('No authorization header');
-    }
-
-    // Get user from auth header
-    const token = authHeader.replace('Bearer ', '');
-    const userResponse = await fetch(`${SUPABASE_URL}/auth/v1/user`, {
-      headers: {
-        'Authorization': `Bearer ${token}`,
-        'apikey': SUPABASE_SERVICE_ROLE_KEY,
-      },
-    });
-
-    if (!userResponse.ok) {
-      throw new Error('Unauthorized');
-    }
-
-    const { id: userId } = await userResponse.json();
-
-    // Fetch user's context
-    const headers = {
-      'apikey': SUPABASE_SERVICE_ROLE_KEY,
-      'Authorization': `Bearer ${SUPABASE_SERVICE_ROLE_KEY}`,
-    };
-
-    // Fetch principles
-    const principlesResponse = await fetch(
-      `${SUPABASE_URL}/rest/v1/principles?user_id=eq.${userId}&select=id,title,description,priority`,
-      { headers }
-    );
-    const principles = await principlesResponse.json();
-
-    // Fetch projects
-    const projectsResponse = await fetch(
-      `${SUPABASE_URL}/rest/v1/projects?user_id=eq.${userId}&select=id,name,description&limit=10`,
-      { headers }
-    );
-    const projects = await projectsResponse.json();
-
-    // Fetch recent documents
-    const docsResponse = await fetch(
-      `${SUPABASE_URL}/rest/v1/documents?user_id=eq.${userId}&select=id,title,summary,category,tags&order=created_at.desc&limit=10`,
-      { headers }
-    );
-    const documents = await docsResponse.json();
-
-    // Fetch SOPs
-    const sopsResponse = await fetch(
-      `${SUPABASE_URL}/rest/v1/sops?user_id=eq.${userId}&select=id,title,category&limit=10`,
-      { headers }
-    );
-    const sops = await sopsResponse.json();
-
-    // Fetch chat history for context
-    let chatHistory = [];
-    if (sessionId) {
-      const historyResponse = await fetch(
-        `${SUPABASE_URL}/rest/v1/chat_history?session_id=eq.${sessionId}&select=message,role&order=created_at.asc`,
-        { headers }
-      );
-      chatHistory = await historyResponse.json();
-    }
-
-    // Build context snapshot
-    const contextSnapshot = {
-      principles: principles.length,
-      projects: projects.length,
-      documents: documents.length,
-      sops: sops.length,
-      contextType,
-      contextId,
-    };
+    // Everything is read as the caller, so a session id from the body can only reach their own history
+    const { supabase, user } = await authenticate(req);
+
+    // Principles and project names frame every answer; everything else is retrieved for the question
+    const context: AiCallContext = { functionName: 'chat-assistant', userId: user.id };
+    const noConversation: Conversation = { title: null, summary: null, summaryThrough: null, turns: [] };
+    const [principlesRes, projectsRes, tasksRes, retrieved, actionsRes, loaded, feedbackText] = await Promise.all([
+      supabase.from('principles').select('id, title, description, priority').eq('user_id', user.id),
+      supabase.from('projects').select('id, name, description').eq('user_id', user.id).limit(10),
+      // Open tasks, so the assistant can move one along by id
+      supabase
+        .from('tasks')
+        .select('id, title, status, project_id')
+        .neq('status', 'completed')
+        .order('updated_at', { ascending: false })
+        .limit(25),
+      retrieveSources(supabase, context, message),
+      // What the assistant already proposed here, so it doesn't propose the same change twice
+      sessionId
+        ? supabase
+            .from('assistant_actions')
+            .select('summary, status')
+            .eq('session_id', sessionId)
+            .order('created_at', { ascending: true })
+        : Promise.resolve({ data: [] }),
+      // The session's summary and the turns it doesn't cover yet
+      sessionId ? loadConversation(supabase, sessionId) : Promise.resolve(null),
+      // How the user's feedback on earlier answers says they want to be answered
+      loadFeedbackGuidance(supabase, user.id),
+    ]);
+
+    // A session id that isn't the caller's is answered as no session, so nothing is stored against it
+    const session: string | null = loaded ? sessionId : null;
+    const conversation = loaded ?? noConversation;
+
+    const principles = principlesRes.data || [];
+    const projects = projectsRes.data || [];
+    const openTasks = tasksRes.data || [];
+    const earlierActions = actionsRes.data || [];
+
+    // The client saves the question before calling, so it is already the last turn of the history
+    const lastTurn = conversation.turns[conversation.turns.length - 1];
+    if (lastTurn?.role === 'user' && lastTurn.message === message) conversation.turns.pop();
 
     // Build system prompt
     const principlesText = principles.length > 0 
-      ? principles.map((p: any) => `- **${p.title}** (${p.priority}): ${p.description || 'No description'}`).join('\n')
+      ? principles.map((p: any) => `- **${p.title}** (${p.priority}, id: ${p.id}): ${p.description || 'No description'}`).join('\n')
       : 'No guiding principles defined yet. Encourage user to create some.';
 
     const projectsText = projects.length > 0
-      ? projects.map((p: any) => `- ${p.name}${p.description ? ': ' + p.description : ''}`).join('\n')
+      ? projects.map((p: any) => `- ${p.name} (id: ${p.id})${p.description ? ': ' + p.description : ''}`).join('\n')
       : 'No projects created yet.';
 
-    const docsText = documents.length > 0
-      ? documents.map((d: any) => `- "${d.title}" (${d.category || 'uncategorized'})${d.summary ? ': ' + d.summary : ''}`).join('\n')
-      : 'No documents uploaded yet.';
+    const tasksText = openTasks.length > 0
+      ? openTasks.map(t => `- ${t.title} (${t.status}, id: ${t.id})`).join('\n')
+      : 'No open tasks.';
 
-    const sopsText = sops.length > 0
-      ? sops.map((s: any) => `- ${s.title} (${s.category || 'uncategorized'})`).join('\n')
-      : 'No SOPs created yet.';
+    const actionsText = earlierActions.length > 0
+      ? `\nChanges already proposed in this conversation:\n${earlierActions.map(a => `- ${a.summary} (${a.status})`).join('\n')}\n`
+      : '';
 
     const contextInfo = contextType === 'project' && contextId
       ? `\nCurrent Context: Viewing specific project (ID: ${contextId})`
       : '\nCurrent Context: Global view';
 
-    const systemPrompt = `You are Lumen Assistant - an intelligent flow thought communication system.
+    const buildSystemPrompt = (sourcesText: string, memoryText: string) => `You are Lumen Assistant - an intelligent flow thought communication system.
 
 Your purpose: Help users navigate their knowledge, understand their work, and make principle-based decisions.
 
@@ -137,66 +119,164 @@ ${principlesText}
 Active Projects:
 ${projectsText}
 
-Recent Documents:
-${docsText}
+Open Tasks:
+${tasksText}
 
-Available SOPs:
-${sopsText}
 ${contextInfo}
+${memoryText}
+SOURCES (retrieved for this question from the user's documents, SOPs, principles, tasks, insights and codex chats):
+${sourcesText}
 
 RESPONSE GUIDELINES:
 1. Always ground your response in the user's principles when relevant
-2. Reference specific documents/SOPs/projects by name when relevant
+2. Reference specific documents/SOPs/projects by name when relevant, and cite the sources you use inline as [n] right after the statement they support, e.g. "Invoices are due in 30 days [2]." Only cite the numbered sources above, and never invent a number
 3. Provide actionable insights, not generic advice
 4. Be conversational but intelligent - think partner, not servant
 5. When suggesting actions, explain WHY based on principles/goals
 6. Use formatting: **bold** for emphasis, bullet points for lists, \`code\` for technical terms
 7. If you don't have enough context, ask clarifying questions
 8. Keep responses focused and structured
-
+9. When the user asks you to create or change something (a task, a task's status, a project goal, an insight, a document's principle, an SOP draft), call the matching tool instead of telling them to do it. Use only the ids listed above. Nothing changes until the user confirms, so say in a sentence what you are proposing
+${feedbackText}${actionsText}
 Response format: Natural conversation with clear structure when needed.`;
 
+    // Proposals are stored against the session, so tools are only offered in one
+    const tools = session ? toolDefinitions() : [];
+
+    // What's left after the fixed prompt, the question and the tools is shared by sources and history
+    const plan = await planContext({
+      supabase,
+      context,
+      sessionId: session,
+      conversation,
+      sources: retrieved,
+      fixedTokens:
+        estimateTokens(buildSystemPrompt('', '')) + estimateTokens(message) + estimateTokens(JSON.stringify(tools)),
+    });
+    const sources = plan.sources;
+    if (plan.omitted > 0) console.warn(`Left ${plan.omitted} turns of session ${session} out of the prompt`);
+
+    const systemPrompt = buildSystemPrompt(
+      sources.length > 0 ? formatSources(sources) : 'Nothing in the workspace matched this question.',
+      plan.summary ? `\nCONVERSATION SO FAR (a summary of the earlier turns of this conversation):\n${plan.summary}\n` : ''
+    );
+
+    // What tool calls may refer to; a call naming anything else is dropped
+    const workspace: Workspace = {
+      projects: new Map(projects.map(p => [p.id, p.name])),
+      tasks: new Map(openTasks.map(t => [t.id, t.title])),
+      principles: new Map(principles.map(p => [p.id, p.title])),
+      documents: new Map(sources.filter(source => source.type === 'document').map(source => [source.id, source.title])),
+    };
+
+    // Build context snapshot
+    const contextSnapshot = {
+      principles: principles.length,
+      projects: projects.length,
+      sources: sources.length,
+      history: plan.turns.length,
+      summarized: !!plan.summary,
+      contextType,
+      contextId,
+    };
+
     // Build messages array
-    const messages = [
+    const messages: ChatMessage[] = [
       { role: 'system', content: systemPrompt },
-      ...chatHistory.map((msg: any) => ({ role: msg.role, content: msg.message })),
+      // Earlier answers cited earlier sources; their numbers mean nothing against this question's
+      ...plan.turns.map(turn => ({
+        role: turn.role,
+        content: turn.role === 'assistant' ? turn.message.replace(/ ?\[\d+(?:,\s*\d+)*\]/g, '') : turn.message,
+      })),
       { role: 'user', content: message }
     ];
 
-    // Call AI API
-    const response = await fetch('https://ai.gateway.lovable.dev/v1/chat/completions', {
-      method: 'POST',
-      headers: {
-        'Authorization': `Bearer ${LOVABLE_API_KEY}`,
-        'Content-Type': 'application/json',
-      },
-      body: JSON.stringify({
-        model: 'google/gemini-2.5-flash',
-        messages,
-        stream: true,
-      }),
-    });
+    const stream = await streamChatCompletion(context, messages, { tools });
 
-    if (!response.ok) {
-      if (response.status === 429) {
-        return new Response(
-          JSON.stringify({ error: 'Rate limit exceeded. Please try again later.' }), 
-          { status: 429, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
-        );
+    // The sources go first, as an event of their own, so the client can resolve citations as they stream in
+    const sourcesEvent = new TextEncoder().encode(
+      `data: ${JSON.stringify({ sources: sources.map(({ excerpt, ...source }) => ({ ...source, excerpt: excerpt.slice(0, 200) })) })}\n\n`
+    );
+    // Stores the valid tool calls as proposals for the user to confirm, returning their ids and summaries
+    const storeProposals = async (calls: { name: string; arguments: string }[]): Promise<{ id: string; summary: string }[]> => {
+      const proposals = calls
+        .map(call => proposeAction(call.name, call.arguments, workspace))
+        .filter((proposal): proposal is Proposal => proposal !== null);
+      if (proposals.length === 0 || !session) return [];
+
+      const { data: actions, error } = await supabase
+        .from('assistant_actions')
+        .insert(proposals.map(proposal => ({
+          user_id: user.id,
+          session_id: session,
+          tool: proposal.tool,
+          arguments: proposal.arguments,
+          summary: proposal.summary,
+        })))
+        .select('id, summary');
+      if (error) {
+        console.error('Error storing proposed actions:', error);
+        return [];
       }
-      if (response.status === 402) {
-        return new Response(
-          JSON.stringify({ error: 'AI credits exhausted. Please add credits to continue.' }), 
-          { status: 402, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
-        );
+      return actions;
+    };
+
+    // Titles the session after its first exchange; a session the user renamed already has one
+    const nameSession = async (answer: string): Promise<string | null> => {
+      if (!session || conversation.title) return null;
+      const title = await generateTitle(context, message, answer);
+      const { error } = await supabase
+        .from('chat_sessions')
+        .update({ title })
+        .eq('id', session)
+        .is('title', null);
+      if (error) {
+        console.error('Error naming chat session:', error);
+        return null;
       }
-      const errorText = await response.text();
-      console.error('AI API error:', response.status, errorText);
-      throw new Error('AI request failed');
-    }
+      return title;
+    };
+
+    // The answer and any tool calls are collected on the way through. Once the answer is complete, the
+    // proposed changes and the session's new title follow as events of their own.
+    const encoder = new TextEncoder();
+    const decoder = new TextDecoder();
+    const toolCalls = collectToolCalls();
+    let answer = '';
+    let buffer = '';
+    const body = stream.pipeThrough(new TransformStream<Uint8Array, Uint8Array>({
+      start(controller) {
+        controller.enqueue(sourcesEvent);
+      },
+      transform(chunk, controller) {
+        controller.enqueue(chunk);
+        buffer += decoder.decode(chunk, { stream: true });
+        const lines = buffer.split('\n');
+        buffer = lines.pop() ?? '';
+        lines.forEach(line => {
+          if (!line.startsWith('data: ') || line.includes('[DONE]')) return;
+          try {
+            const delta = JSON.parse(line.slice(6)).choices?.[0]?.delta;
+            answer += delta?.content ?? '';
+            toolCalls.add(delta?.tool_calls);
+          } catch {
+            // Partial or non-JSON lines carry nothing to collect
+          }
+        });
+      },
+      async flush(controller) {
+        const send = (event: Record<string, unknown>) =>
+          controller.enqueue(encoder.encode(`data: ${JSON.stringify(event)}\n\n`));
+
+        const actions = await storeProposals(toolCalls.calls());
+        if (actions.length > 0) send({ actions });
+        const title = await nameSession(answer);
+        if (title) send({ title });
+      },
+    }));
 
     // Return streaming response
-    return new Response(response.body, {
+    return new Response(body, {
       headers: {
         ...corsHeaders,
         'Content-Type': 'text/event-stream',
@@ -206,6 +286,10 @@ Response format: Natural conversation with clear structure when needed.`;
 
   } catch (error) {
     console.error('Error in chat-assistant:', error);
+    const authError = authErrorResponse(error, corsHeaders);
+    if (authError) return authError;
+    const aiError = aiErrorResponse(error, corsHeaders);
+    if (aiError) return aiError;
     return new Response(
       JSON.stringify({ 
         error: error instanceof Error ? error.message : 'Unknown error',
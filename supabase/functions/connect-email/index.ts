@@ -1,4 +1,5 @@
 import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { authenticate, authErrorResponse } from "../_shared/auth.ts";
 
 const corsHeaders = {
   'Access-Control-Allow-Origin': '*',
@@ -12,6 +13,8 @@ serve(async (req) => {
   }
 
   try {
+    // Only signed-in users start an OAuth flow
+    await authenticate(req);
     const { provider } = await req.json();
     
     if (!provider || !['gmail', 'outlook'].includes(provider)) {
@@ -71,6 +74,8 @@ serve(async (req) => {
     );
   } catch (error) {
     console.error('Error in connect-email function:', error);
+    const authError = authErrorResponse(error, corsHeaders);
+    if (authError) return authError;
     const errorMessage = error instanceof Error ? error.message : 'Unknown error';
     return new Response(
       JSON.stringify({ error: errorMessage }),
@@ -0,0 +1,56 @@
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { aiErrorResponse, CHUNK_EMBEDDING_DIMENSIONS, createEmbeddings } from "../_shared/aiProvider.ts";
+import { authenticate, authErrorResponse } from "../_shared/auth.ts";
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+};
+
+const MAX_TEXTS = 64;
+const MAX_TEXT_LENGTH = 8000;
+
+serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    // Usage is attributed to the caller
+    const { user } = await authenticate(req);
+    const { texts, dimensions = CHUNK_EMBEDDING_DIMENSIONS } = await req.json();
+
+    if (!Array.isArray(texts) || texts.length === 0) {
+      throw new Error('No texts provided');
+    }
+    if (texts.length > MAX_TEXTS) {
+      throw new Error(`At most ${MAX_TEXTS} texts can be embedded per request`);
+    }
+
+    const { embeddings, model } = await createEmbeddings(
+      { functionName: 'embed-text', userId: user.id },
+      texts.map((text: unknown) => String(text ?? '').slice(0, MAX_TEXT_LENGTH)),
+      dimensions
+    );
+
+    if (embeddings.length !== texts.length || embeddings.some((e: number[]) => e.length !== dimensions)) {
+      throw new Error(`Embedding model did not return ${texts.length} vectors of ${dimensions} dimensions`);
+    }
+
+    return new Response(
+      JSON.stringify({ embeddings, model }),
+      { headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+    );
+
+  } catch (error) {
+    console.error('Error in embed-text:', error);
+    const authError = authErrorResponse(error, corsHeaders);
+    if (authError) return authError;
+    const aiError = aiErrorResponse(error, corsHeaders);
+    if (aiError) return aiError;
+    return new Response(
+      JSON.stringify({ error: error instanceof Error ? error.message : 'Unknown error' }),
+      { status: 500, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+    );
+  }
+});
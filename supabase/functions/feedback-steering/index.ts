@@ -0,0 +1,30 @@
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { authenticate, authErrorResponse } from "../_shared/auth.ts";
+import { loadRecentFeedback, steeringReasons } from "../_shared/chatFeedback.ts";
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+};
+
+const json = (body: unknown, status = 200) =>
+  new Response(JSON.stringify(body), { status, headers: { ...corsHeaders, 'Content-Type': 'application/json' } });
+
+// Which of the user's feedback reasons chat-assistant currently adjusts its answers for, with how often
+// each was given, worked out by the same rule that writes them into its prompt
+serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    const { supabase, user } = await authenticate(req);
+    const reasons = steeringReasons(await loadRecentFeedback(supabase, user.id));
+    return json({ reasons });
+  } catch (error) {
+    console.error('Error in feedback-steering:', error);
+    const authError = authErrorResponse(error, corsHeaders);
+    if (authError) return authError;
+    return json({ error: error instanceof Error ? error.message : 'Unknown error' }, 500);
+  }
+});
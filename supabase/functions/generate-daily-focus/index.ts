@@ -1,34 +1,65 @@
 import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
-import { createClient } from "https://esm.sh/@supabase/supabase-js@2.38.4";
+import { z } from "https://esm.sh/zod@4.1.12";
+import {
+  choice,
+  generateValidated,
+  optionalText,
+  ownedId,
+  ownedIds,
+  score,
+  text,
+  textList,
+} from "../_shared/aiOutput.ts";
+import { aiErrorResponse } from "../_shared/aiProvider.ts";
+import { authenticate, authErrorResponse } from "../_shared/auth.ts";
 
 const corsHeaders = {
   'Access-Control-Allow-Origin': '*',
   'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
 };
 
+const DailyFocusSchema = z.object({
+  focus_theme: z.object({
+    title: z.string().min(1),
+    description: text(),
+    priority_score: score(50),
+    aligned_principles: textList(),
+  }),
+  top_actions: z.array(z.object({
+    priority: choice(['high', 'medium', 'low'], 'medium'),
+    title: z.string().min(1),
+    why: text(),
+    impact: text(),
+    related_docs: textList(),
+    related_sops: textList(),
+    quick_action: text(),
+  })),
+  project_health: z.array(z.object({
+    project_id: optionalText(),
+    project_name: text(),
+    status: choice(['on_track', 'needs_attention', 'at_risk', 'blocked'], 'needs_attention'),
+    health_score: score(50),
+    next_milestone: text(),
+    blocking_issue: optionalText(),
+    principle_alignment: score(),
+    ai_recommendation: text(),
+  })).default([]),
+  insights: z.array(z.object({
+    type: choice(['pattern', 'risk', 'opportunity', 'connection'], 'pattern'),
+    title: text(),
+    description: text(),
+    action: text(),
+  })).default([]),
+  suggested_questions: textList(),
+});
+
 serve(async (req) => {
   if (req.method === 'OPTIONS') {
     return new Response(null, { headers: corsHeaders });
   }
 
   try {
-    const supabaseClient = createClient(
-      Deno.env.get('SUPABASE_URL') ?? '',
-      Deno.env.get('SUPABASE_ANON_KEY') ?? '',
-      {
-        global: {
-          headers: { Authorization: req.headers.get('Authorization')! },
-        },
-      }
-    );
-
-    const { data: { user } } = await supabaseClient.auth.getUser();
-    if (!user) {
-      return new Response(JSON.stringify({ error: 'Unauthorized' }), {
-        status: 401,
-        headers: { ...corsHeaders, 'Content-Type': 'application/json' },
-      });
-    }
+    const { supabase: supabaseClient, user } = await authenticate(req);
 
     console.log('Fetching user context for daily focus generation...');
 
@@ -138,66 +169,36 @@ Respond ONLY with valid JSON in this exact format:
 
 Generate my daily focus plan based on the context provided. Be specific, reference actual projects and documents by name, and ground all recommendations in my guiding principles.`;
 
-    // Call Lovable AI Gateway
-    const LOVABLE_API_KEY = Deno.env.get('LOVABLE_API_KEY');
-    if (!LOVABLE_API_KEY) {
-      throw new Error('LOVABLE_API_KEY not configured');
-    }
-
     console.log('Calling AI to generate daily focus...');
 
-    const aiResponse = await fetch('https://ai.gateway.lovable.dev/v1/chat/completions', {
-      method: 'POST',
-      headers: {
-        'Authorization': `Bearer ${LOVABLE_API_KEY}`,
-        'Content-Type': 'application/json',
-      },
-      body: JSON.stringify({
-        model: 'google/gemini-2.5-flash',
-        messages: [
-          { role: 'system', content: systemPrompt },
-          { role: 'user', content: userPrompt }
-        ],
-        temperature: 0.7,
+    const generated = await generateValidated({ functionName: 'generate-daily-focus', userId: user.id }, DailyFocusSchema, [
+      { role: 'system', content: systemPrompt },
+      { role: 'user', content: userPrompt }
+    ], { temperature: 0.7 });
+
+    // Drop ids the model made up: every reference has to be one of the user's own rows
+    const referencedDocs = generated.top_actions.flatMap(action => action.related_docs);
+    const { data: ownedDocRows } = referencedDocs.length > 0
+      ? await supabaseClient.from('documents').select('id').eq('user_id', user.id).in('id', referencedDocs)
+      : { data: [] };
+    const docIds = new Set((ownedDocRows || []).map((d: { id: string }) => d.id));
+    const sopIds = new Set(sops.map(s => s.id));
+    const projectIds = new Set(projects.map(p => p.id));
+    const projectIdsByName = new Map(projects.map(p => [p.name.toLowerCase(), p.id]));
+
+    const dailyFocus = {
+      ...generated,
+      top_actions: generated.top_actions.map(action => ({
+        ...action,
+        related_docs: ownedIds(action.related_docs, docIds),
+        related_sops: ownedIds(action.related_sops, sopIds),
+      })),
+      // A health entry has to be about a real project; a wrong id is recovered from the name when possible
+      project_health: generated.project_health.flatMap(health => {
+        const projectId = ownedId(health.project_id, projectIds) ?? projectIdsByName.get(health.project_name.toLowerCase()) ?? null;
+        return projectId ? [{ ...health, project_id: projectId }] : [];
       }),
-    });
-
-    if (!aiResponse.ok) {
-      const errorText = await aiResponse.text();
-      console.error('AI API error:', aiResponse.status, errorText);
-      
-      if (aiResponse.status === 429) {
-        return new Response(JSON.stringify({ error: 'Rate limit exceeded. Please try again later.' }), {
-          status: 429,
-          headers: { ...corsHeaders, 'Content-Type': 'application/json' },
-        });
-      }
-      if (aiResponse.status === 402) {
-        return new Response(JSON.stringify({ error: 'AI credits exhausted. Please add credits to your Lovable workspace.' }), {
-          status: 402,
-          headers: { ...corsHeaders, 'Content-Type': 'application/json' },
-        });
-      }
-
-      throw new Error(`AI API error: ${aiResponse.status}`);
-    }
-
-    const aiResult = await aiResponse.json();
-    const content = aiResult.choices?.[0]?.message?.content;
-
-    if (!content) {
-      throw new Error('No content in AI response');
-    }
-
-    console.log('AI response received, parsing JSON...');
-
-    // Parse the JSON response
-    const jsonMatch = content.match(/\{[\s\S]*\}/);
-    if (!jsonMatch) {
-      throw new Error('No JSON found in AI response');
-    }
-
-    const dailyFocus = JSON.parse(jsonMatch[0]);
+    };
 
     // Store in database
     const today = new Date().toISOString().split('T')[0];
@@ -224,7 +225,7 @@ Generate my daily focus plan based on the context provided. Be specific, referen
 
     // Create focus action records for top actions
     if (dailyFocus.top_actions && dailyFocus.top_actions.length > 0) {
-      const actionRecords = dailyFocus.top_actions.map((action: any, index: number) => ({
+      const actionRecords = dailyFocus.top_actions.map((action, index) => ({
         user_id: user.id,
         action_id: `${today}-${index}`,
         priority_level: action.priority,
@@ -246,6 +247,10 @@ Generate my daily focus plan based on the context provided. Be specific, referen
 
   } catch (error) {
     console.error('Error in generate-daily-focus:', error);
+    const authError = authErrorResponse(error, corsHeaders);
+    if (authError) return authError;
+    const aiError = aiErrorResponse(error, corsHeaders);
+    if (aiError) return aiError;
     return new Response(JSON.stringify({ 
       error: error instanceof Error ? error.message : 'Unknown error',
       details: error instanceof Error ? error.stack : undefined
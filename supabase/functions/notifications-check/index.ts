@@ -1,6 +1,7 @@
 import { createClient } from 'https://esm.sh/@supabase/supabase-js@2';
 import { toZonedTime, formatInTimeZone } from 'https://esm.sh/date-fns-tz@3.2.0';
 import { differenceInHours, differenceInDays, parseISO } from 'https://esm.sh/date-fns@3.6.0';
+import { authErrorResponse, authorizeScheduledCall } from '../_shared/auth.ts';
 
 const corsHeaders = {
   'Access-Control-Allow-Origin': '*',
@@ -96,6 +97,9 @@ Deno.serve(async (req) => {
   }
 
   try {
+    // Reads every user's settings with the service role, so only the scheduler may start it
+    authorizeScheduledCall(req);
+
     const supabase = createClient(
       Deno.env.get('SUPABASE_URL') ?? '',
       Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') ?? ''
@@ -330,6 +334,8 @@ Deno.serve(async (req) => {
     );
   } catch (error: any) {
     console.error('Error in notifications-check:', error);
+    const authError = authErrorResponse(error, corsHeaders);
+    if (authError) return authError;
     return new Response(
       JSON.stringify({ error: error?.message || 'Unknown error' }),
       {
@@ -1,5 +1,5 @@
 import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
-import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { authenticate, authErrorResponse } from "../_shared/auth.ts";
 
 const corsHeaders = {
   'Access-Control-Allow-Origin': '*',
@@ -12,18 +12,9 @@ serve(async (req) => {
   }
 
   try {
-    const authHeader = req.headers.get('Authorization');
-    if (!authHeader) {
-      throw new Error('No authorization header');
-    }
-
-    const supabase = createClient(
-      Deno.env.get('SUPABASE_URL') ?? '',
-      Deno.env.get('SUPABASE_ANON_KEY') ?? '',
-      { global: { headers: { Authorization: authHeader } } }
-    );
-
-    const { user_id } = await req.json();
+    // The user comes from the JWT; a user_id in the body is ignored
+    const { supabase, user } = await authenticate(req);
+    const user_id = user.id;
 
     console.log(`Parsing emails for user: ${user_id}`);
 
@@ -105,6 +96,8 @@ serve(async (req) => {
     );
   } catch (error) {
     console.error('Error in parse-emails:', error);
+    const authError = authErrorResponse(error, corsHeaders);
+    if (authError) return authError;
     const errorMessage = error instanceof Error ? error.message : 'Unknown error';
     return new Response(
       JSON.stringify({ error: errorMessage }),
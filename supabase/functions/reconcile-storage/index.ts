@@ -0,0 +1,123 @@
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { authenticate, authErrorResponse } from "../_shared/auth.ts";
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+};
+
+const BUCKET = 'documents';
+const PAGE_SIZE = 1000;
+// Objects younger than this may belong to an upload that is still being reviewed
+const ORPHAN_GRACE_PERIOD_MS = 24 * 60 * 60 * 1000;
+// Uploads from before stable keys sit directly in the user's folder as "<user id>/<ms>-<file name>".
+// One no document points to is a file the key backfill couldn't match, so it is kept for review.
+const isLegacyObject = (path: string) => /^[^/]+\/[0-9]+-[^/]+$/.test(path);
+
+interface StoredObject {
+  path: string;
+  size: number;
+  createdAt: string | null;
+}
+
+// Compares the caller's stored files with the documents that reference them. Runs as the caller,
+// so RLS limits it to their own folder and rows. With dryRun (the default) nothing is deleted, and
+// unmatched legacy uploads are never deleted.
+serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    const { supabase, user } = await authenticate(req);
+
+    const { dryRun = true, keepPaths = [] } = await req.json().catch(() => ({}));
+    if (!Array.isArray(keepPaths)) {
+      throw new Error('keepPaths must be an array of storage paths');
+    }
+
+    // Walk the user's folder; storage lists one level at a time and marks folders with a null id
+    const objects: StoredObject[] = [];
+    const folders = [user.id];
+    while (folders.length > 0) {
+      const folder = folders.pop()!;
+      for (let offset = 0; ; offset += PAGE_SIZE) {
+        const { data, error } = await supabase.storage
+          .from(BUCKET)
+          .list(folder, { limit: PAGE_SIZE, offset });
+        if (error) throw error;
+
+        for (const entry of data) {
+          const path = `${folder}/${entry.name}`;
+          if (entry.id === null) {
+            folders.push(path);
+          } else {
+            objects.push({ path, size: entry.metadata?.size ?? 0, createdAt: entry.created_at });
+          }
+        }
+        if (data.length < PAGE_SIZE) break;
+      }
+    }
+
+    const [documentsRes, versionsRes] = await Promise.all([
+      supabase.from('documents').select('id, title, storage_path').eq('user_id', user.id),
+      supabase.from('document_versions').select('document_id, version_number, storage_path').eq('user_id', user.id),
+    ]);
+    if (documentsRes.error) throw documentsRes.error;
+    if (versionsRes.error) throw versionsRes.error;
+
+    const referenced = new Set<string>([
+      ...documentsRes.data.map(doc => doc.storage_path),
+      ...versionsRes.data.map(version => version.storage_path),
+      ...keepPaths,
+    ]);
+    const stored = new Set(objects.map(object => object.path));
+    const cutoff = Date.now() - ORPHAN_GRACE_PERIOD_MS;
+
+    const unreferenced = objects.filter(object => !referenced.has(object.path));
+    const unmatchedLegacyObjects = unreferenced.filter(object => isLegacyObject(object.path));
+    const orphanedObjects = unreferenced.filter(object =>
+      !isLegacyObject(object.path) &&
+      (!object.createdAt || new Date(object.createdAt).getTime() < cutoff)
+    );
+
+    const missingFiles = [
+      ...documentsRes.data
+        .filter(doc => !stored.has(doc.storage_path))
+        .map(doc => ({ documentId: doc.id, title: doc.title, storagePath: doc.storage_path, versionNumber: null })),
+      ...versionsRes.data
+        .filter(version => !stored.has(version.storage_path))
+        .map(version => ({
+          documentId: version.document_id,
+          title: documentsRes.data.find(doc => doc.id === version.document_id)?.title ?? '',
+          storagePath: version.storage_path,
+          versionNumber: version.version_number,
+        })),
+    ];
+
+    let deleted = 0;
+    if (!dryRun && orphanedObjects.length > 0) {
+      for (let i = 0; i < orphanedObjects.length; i += PAGE_SIZE) {
+        const batch = orphanedObjects.slice(i, i + PAGE_SIZE).map(object => object.path);
+        const { error } = await supabase.storage.from(BUCKET).remove(batch);
+        if (error) throw error;
+        deleted += batch.length;
+      }
+    }
+
+    console.log(`Reconciled storage for ${user.id}: ${objects.length} objects, ${orphanedObjects.length} orphaned, ${unmatchedLegacyObjects.length} unmatched legacy, ${missingFiles.length} missing, ${deleted} deleted`);
+
+    return new Response(
+      JSON.stringify({ orphanedObjects, unmatchedLegacyObjects, missingFiles, deleted, scanned: objects.length }),
+      { headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+    );
+  } catch (error) {
+    console.error('Error in reconcile-storage:', error);
+    const authError = authErrorResponse(error, corsHeaders);
+    if (authError) return authError;
+    return new Response(
+      JSON.stringify({ error: error instanceof Error ? error.message : 'Unknown error' }),
+      { status: 500, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+    );
+  }
+});
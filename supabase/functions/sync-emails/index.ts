@@ -1,5 +1,5 @@
 import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
-import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { authenticate, authErrorResponse } from "../_shared/auth.ts";
 
 const corsHeaders = {
   'Access-Control-Allow-Origin': '*',
@@ -12,22 +12,7 @@ serve(async (req) => {
   }
 
   try {
-    const authHeader = req.headers.get('Authorization');
-    if (!authHeader) {
-      throw new Error('No authorization header');
-    }
-
-    const supabase = createClient(
-      Deno.env.get('SUPABASE_URL') ?? '',
-      Deno.env.get('SUPABASE_ANON_KEY') ?? '',
-      { global: { headers: { Authorization: authHeader } } }
-    );
-
-    // Get current user
-    const { data: { user }, error: userError } = await supabase.auth.getUser();
-    if (userError || !user) {
-      throw new Error('User not authenticated');
-    }
+    const { supabase, user } = await authenticate(req);
 
     console.log(`Syncing emails for user: ${user.id}`);
 
@@ -111,9 +96,8 @@ serve(async (req) => {
     // Trigger AI parsing for unprocessed emails
     if (totalSynced > 0) {
       try {
-        await supabase.functions.invoke('parse-emails', {
-          body: { user_id: user.id }
-        });
+        // Invoked with the caller's token, which is how parse-emails knows whose emails to parse
+        await supabase.functions.invoke('parse-emails');
       } catch (parseError) {
         console.error('Error triggering parse-emails:', parseError);
       }
@@ -128,6 +112,8 @@ serve(async (req) => {
     );
   } catch (error) {
     console.error('Error in sync-emails:', error);
+    const authError = authErrorResponse(error, corsHeaders);
+    if (authError) return authError;
     const errorMessage = error instanceof Error ? error.message : 'Unknown error';
     return new Response(
       JSON.stringify({ error: errorMessage }),
@@ -0,0 +1,123 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import { z } from "zod";
+
+const chatCompletion = vi.hoisted(() => vi.fn());
+vi.mock("../_shared/aiProvider.ts", async importOriginal => ({
+  ...(await importOriginal<typeof import("../_shared/aiProvider.ts")>()),
+  chatCompletion,
+}));
+
+import { choice, generateValidated, optionalText, parseJsonReply, score, text, textList } from "../_shared/aiOutput.ts";
+import { AiOutputError } from "../_shared/aiProvider.ts";
+
+const context = { functionName: "test", userId: "user-1" };
+
+describe("parseJsonReply", () => {
+  it("finds the object in fenced or chatty replies", () => {
+    expect(parseJsonReply('Here you go:\n```json\n{"a": {"b": "}"}}\n```')).toEqual({ a: { b: "}" } });
+  });
+
+  it("leaves valid JSON exactly as it is", () => {
+    const reply = '{"summary": "He said “fine, ]” and left,}", "tags": ["a", "b"]}';
+    expect(parseJsonReply(reply)).toEqual({ summary: "He said “fine, ]” and left,}", tags: ["a", "b"] });
+  });
+
+  it("drops trailing commas outside strings only", () => {
+    expect(parseJsonReply('{"note": "a, }", "tags": ["x", "y", ], }')).toEqual({ note: "a, }", tags: ["x", "y"] });
+  });
+
+  it("reads curly-quoted keys and values", () => {
+    expect(parseJsonReply('{“title”: “Q3 \\"draft\\" plan”, “quote”: “say "hi"”}')).toEqual({
+      title: 'Q3 "draft" plan',
+      quote: 'say "hi"',
+    });
+  });
+
+  it("throws when there is no object or it can't be repaired", () => {
+    expect(() => parseJsonReply("no json here")).toThrow(SyntaxError);
+    expect(() => parseJsonReply('{"title": "cut off')).toThrow(SyntaxError);
+  });
+});
+
+describe("schema building blocks", () => {
+  it("score accepts numeric strings, clamps and fails on anything else", () => {
+    expect(score().parse("42.4")).toBe(42);
+    expect(score().parse(180)).toBe(100);
+    expect(score(50).parse(undefined)).toBe(50);
+    expect(score(50).safeParse("high").success).toBe(false);
+    expect(score().safeParse(undefined).success).toBe(false);
+  });
+
+  it("text reads numbers and fails on other kinds", () => {
+    expect(text().parse(2026)).toBe("2026");
+    expect(text("").parse(null)).toBe("");
+    expect(text().safeParse(undefined).success).toBe(false);
+    expect(text("").safeParse({ value: "x" }).success).toBe(false);
+  });
+
+  it("optionalText treats empty and null-like values as missing", () => {
+    expect(optionalText().parse("")).toBeNull();
+    expect(optionalText().parse("null")).toBeNull();
+    expect(optionalText().parse(undefined)).toBeNull();
+    expect(optionalText().safeParse(7).success).toBe(false);
+  });
+
+  it("textList wraps a single string and fails on lists of other things", () => {
+    expect(textList().parse("finance")).toEqual(["finance"]);
+    expect(textList().parse(["a", " ", "b"])).toEqual(["a", "b"]);
+    expect(textList().parse(undefined)).toEqual([]);
+    expect(textList().safeParse([{ tag: "a" }]).success).toBe(false);
+  });
+
+  it("choice ignores case and fails on unknown values", () => {
+    const priority = choice(["high", "medium", "low"], "medium");
+    expect(priority.parse(" HIGH ")).toBe("high");
+    expect(priority.parse(undefined)).toBe("medium");
+    expect(priority.safeParse("urgent").success).toBe(false);
+  });
+});
+
+describe("generateValidated", () => {
+  const schema = z.object({ title: z.string().min(1), confidence: score() });
+
+  beforeEach(() => {
+    chatCompletion.mockReset();
+    vi.spyOn(console, "warn").mockImplementation(() => {});
+  });
+
+  it("returns the first reply that validates", async () => {
+    chatCompletion.mockResolvedValueOnce('{"title": "Plan", "confidence": "80",}');
+
+    await expect(generateValidated(context, schema, [{ role: "user", content: "go" }])).resolves.toEqual({
+      title: "Plan",
+      confidence: 80,
+    });
+    expect(chatCompletion).toHaveBeenCalledTimes(1);
+  });
+
+  it("asks again with the problems when a field has the wrong kind of value", async () => {
+    chatCompletion
+      .mockResolvedValueOnce('{"title": "Plan", "confidence": "very"}')
+      .mockResolvedValueOnce('{"title": "Plan", "confidence": 70}');
+
+    await expect(generateValidated(context, schema, [{ role: "user", content: "go" }])).resolves.toEqual({
+      title: "Plan",
+      confidence: 70,
+    });
+
+    const retry = chatCompletion.mock.calls[1][1];
+    expect(retry).toHaveLength(3);
+    expect(retry[1]).toEqual({ role: "assistant", content: '{"title": "Plan", "confidence": "very"}' });
+    expect(retry[2].content).toContain("confidence:");
+  });
+
+  it("reports the last problems once the attempts run out", async () => {
+    chatCompletion.mockResolvedValue("I can't do that");
+
+    const result = generateValidated(context, schema, [{ role: "user", content: "go" }]);
+
+    await expect(result).rejects.toBeInstanceOf(AiOutputError);
+    await expect(result).rejects.toMatchObject({ issues: [expect.stringContaining("Invalid JSON")] });
+    expect(chatCompletion).toHaveBeenCalledTimes(2);
+  });
+});
@@ -0,0 +1,80 @@
+import { describe, expect, it } from "vitest";
+import { collectToolCalls, proposeAction, toolDefinitions, Workspace } from "../_shared/assistantTools.ts";
+
+const PROJECT = "11111111-1111-4111-8111-111111111111";
+const TASK = "22222222-2222-4222-8222-222222222222";
+const PRINCIPLE = "33333333-3333-4333-8333-333333333333";
+const DOCUMENT = "44444444-4444-4444-8444-444444444444";
+const UNKNOWN = "55555555-5555-4555-8555-555555555555";
+
+const workspace: Workspace = {
+  projects: new Map([[PROJECT, "Apollo"]]),
+  tasks: new Map([[TASK, "Draft budget"]]),
+  principles: new Map([[PRINCIPLE, "Clarity"]]),
+  documents: new Map([[DOCUMENT, "Supplier contract"]]),
+};
+
+const propose = (name: string, args: unknown) => proposeAction(name, JSON.stringify(args), workspace);
+
+describe("proposeAction", () => {
+  it("summarizes a valid call by the names of what it refers to", () => {
+    expect(propose("create_task", { project_id: PROJECT, title: " Book venue ", priority: "HIGH" })).toEqual({
+      tool: "create_task",
+      arguments: { project_id: PROJECT, title: "Book venue", description: null, priority: "high", due_date: null },
+      summary: 'Create task "Book venue" in Apollo',
+    });
+  });
+
+  it("drops calls that refer to something outside the user's workspace", () => {
+    expect(propose("create_task", { project_id: UNKNOWN, title: "Book venue" })).toBeNull();
+    expect(propose("link_document_to_principle", { document_id: DOCUMENT, principle_id: UNKNOWN })).toBeNull();
+    expect(propose("draft_sop", { title: "Onboarding", content: "1. Welcome", project_id: UNKNOWN })).toBeNull();
+  });
+
+  it("drops calls with missing or malformed required arguments", () => {
+    expect(propose("create_task", { project_id: PROJECT })).toBeNull();
+    expect(propose("create_task", { project_id: "apollo", title: "Book venue" })).toBeNull();
+    expect(propose("add_insight", { title: "Pattern", content: "  " })).toBeNull();
+    expect(proposeAction("create_task", "{not json", workspace)).toBeNull();
+    expect(propose("delete_everything", {})).toBeNull();
+  });
+
+  it("clears optional arguments that are empty or wrong instead of dropping the call", () => {
+    const proposal = propose("create_project_goal", {
+      project_id: PROJECT,
+      title: "Launch",
+      description: "",
+      target_date: "next week",
+    });
+    expect(proposal?.arguments).toEqual({ project_id: PROJECT, title: "Launch", description: null, target_date: null });
+
+    expect(propose("create_task", { project_id: PROJECT, title: "Book venue", priority: "critical" })?.arguments)
+      .toMatchObject({ priority: "medium" });
+  });
+
+  it("offers exactly the task statuses the database allows", () => {
+    const definition = toolDefinitions().find(tool => tool.function.name === "update_task_status");
+    const properties = definition?.function.parameters.properties as Record<string, { enum?: readonly string[] }>;
+    expect(properties.status.enum).toEqual(["pending", "in_progress", "blocked", "completed", "cancelled"]);
+
+    expect(propose("update_task_status", { task_id: TASK, status: "In_Progress" })?.summary)
+      .toBe('Mark task "Draft budget" as in progress');
+    expect(propose("update_task_status", { task_id: TASK, status: "cancelled" })).not.toBeNull();
+    expect(propose("update_task_status", { task_id: TASK, status: "deferred" })).toBeNull();
+  });
+});
+
+describe("collectToolCalls", () => {
+  it("joins streamed pieces per call index", () => {
+    const toolCalls = collectToolCalls();
+    toolCalls.add([{ index: 0, function: { name: "add_insight", arguments: '{"title":' } }]);
+    toolCalls.add([{ index: 1, function: { name: "create_task", arguments: "{}" } }]);
+    toolCalls.add([{ index: 0, function: { arguments: '"Pattern"}' } }]);
+    toolCalls.add(undefined);
+
+    expect(toolCalls.calls()).toEqual([
+      { name: "add_insight", arguments: '{"title":"Pattern"}' },
+      { name: "create_task", arguments: "{}" },
+    ]);
+  });
+});
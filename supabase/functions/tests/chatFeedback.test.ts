@@ -0,0 +1,51 @@
+import { describe, expect, it } from "vitest";
+import { feedbackGuidance, steeringReasons } from "../_shared/chatFeedback.ts";
+
+const unhelpful = (reasons: string[], comment: string | null = null) => ({ feedback_type: "not_helpful", reasons, comment });
+const helpful = (reasons: string[] = []) => ({ feedback_type: "helpful", reasons, comment: null });
+
+describe("steeringReasons", () => {
+  it("keeps reasons given on at least two unhelpful answers, most frequent first", () => {
+    expect(steeringReasons([
+      unhelpful(["generic", "not_actionable"]),
+      unhelpful(["not_actionable"]),
+      unhelpful(["not_actionable", "generic"]),
+      unhelpful(["wrong_tone"]),
+      helpful(["wrong_tone"]),
+    ])).toEqual([
+      { reason: "not_actionable", count: 3 },
+      { reason: "generic", count: 2 },
+    ]);
+  });
+
+  it("follows only the more frequent of two opposite reasons", () => {
+    expect(steeringReasons([
+      unhelpful(["too_long"]),
+      unhelpful(["too_long"]),
+      unhelpful(["too_short"]),
+      unhelpful(["too_short"]),
+      unhelpful(["too_short"]),
+    ])).toEqual([{ reason: "too_short", count: 3 }]);
+  });
+
+  it("ignores reasons it has no instruction for", () => {
+    expect(steeringReasons([unhelpful(["made_up"]), unhelpful(["made_up"])])).toEqual([]);
+  });
+});
+
+describe("feedbackGuidance", () => {
+  it("turns the steering reasons and latest comments into prompt instructions", () => {
+    const guidance = feedbackGuidance([
+      unhelpful(["too_long"], "  Way too wordy  "),
+      unhelpful(["too_long"]),
+    ]);
+
+    expect(guidance).toContain("USER PREFERENCES");
+    expect(guidance).toContain("- Keep answers short");
+    expect(guidance).toContain('- "Way too wordy"');
+  });
+
+  it("is empty without anything to follow", () => {
+    expect(feedbackGuidance([helpful(), unhelpful(["generic"])])).toBe("");
+  });
+});
@@ -0,0 +1,145 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import type { SupabaseClient } from "@supabase/supabase-js";
+
+const chatCompletion = vi.hoisted(() => vi.fn());
+vi.mock("../_shared/aiProvider.ts", async importOriginal => ({
+  ...(await importOriginal<typeof import("../_shared/aiProvider.ts")>()),
+  chatCompletion,
+}));
+
+import { Conversation, estimateTokens, planContext, Turn } from "../_shared/chatMemory.ts";
+import type { Source } from "../_shared/retrieval.ts";
+
+const context = { functionName: "chat-assistant", userId: "user-1" };
+
+// Each turn is 1000 tokens of text, plus the 4 counted for its framing
+const turns = (count: number): Turn[] =>
+  Array.from({ length: count }, (_, i) => ({
+    message: `${i}`.padEnd(4000, "."),
+    role: i % 2 === 0 ? "user" : "assistant",
+    created_at: `2026-10-19T10:${String(i).padStart(2, "0")}:00Z`,
+  }));
+
+const sources = (count: number): Source[] =>
+  Array.from({ length: count }, (_, i) => ({
+    n: i + 1,
+    type: "document",
+    id: `doc-${i + 1}`,
+    title: `Doc ${i + 1}`,
+    page: null,
+    excerpt: "x".repeat(4000),
+  }));
+
+const conversationOf = (history: Turn[], summary: string | null = null): Conversation => ({
+  title: "Planning",
+  summary,
+  summaryThrough: null,
+  turns: history,
+});
+
+const sessionUpdates: { values: Record<string, unknown>; id: string }[] = [];
+let updateError: { message: string } | null = null;
+const supabase = {
+  from: () => ({
+    update: (values: Record<string, unknown>) => ({
+      eq: async (_column: string, id: string) => {
+        sessionUpdates.push({ values, id });
+        return { error: updateError };
+      },
+    }),
+  }),
+} as unknown as SupabaseClient;
+
+beforeEach(() => {
+  chatCompletion.mockReset().mockResolvedValue("  Folded summary  ");
+  sessionUpdates.length = 0;
+  updateError = null;
+});
+
+describe("estimateTokens", () => {
+  it("counts about four characters per token", () => {
+    expect(estimateTokens("")).toBe(0);
+    expect(estimateTokens("abcde")).toBe(2);
+  });
+});
+
+describe("planContext", () => {
+  it("keeps everything when it fits", async () => {
+    const history = turns(4);
+
+    const plan = await planContext({
+      supabase, context, sessionId: "session-1", conversation: conversationOf(history), sources: sources(3), fixedTokens: 2000,
+    });
+
+    expect(plan).toEqual({ sources: sources(3), summary: null, turns: history, omitted: 0 });
+    expect(chatCompletion).not.toHaveBeenCalled();
+  });
+
+  it("cuts the lowest-ranked sources when they overflow the budget", async () => {
+    const plan = await planContext({
+      supabase, context, sessionId: "session-1", conversation: conversationOf([]), sources: sources(5), fixedTokens: 20000,
+    });
+
+    expect(plan.sources.map(source => source.n)).toEqual([1, 2, 3]);
+  });
+
+  it("keeps a share of the budget for sources, and leaves older turns out without a session", async () => {
+    const history = turns(3);
+
+    const plan = await planContext({
+      supabase, context, sessionId: null, conversation: conversationOf(history), sources: sources(4), fixedTokens: 20000,
+    });
+
+    expect(plan.sources.map(source => source.n)).toEqual([1]);
+    expect(plan.turns).toEqual(history.slice(2));
+    expect(plan.omitted).toBe(2);
+    expect(chatCompletion).not.toHaveBeenCalled();
+  });
+
+  it("folds the turns that overflow into the session summary and keeps the newest", async () => {
+    const history = turns(16);
+
+    const plan = await planContext({
+      supabase, context, sessionId: "session-1", conversation: conversationOf(history, "User plans a launch"), sources: [], fixedTokens: 12000,
+    });
+
+    expect(plan.turns).toEqual(history.slice(11));
+    expect(plan.summary).toBe("Folded summary");
+    expect(plan.omitted).toBe(0);
+    expect(sessionUpdates).toEqual([{
+      id: "session-1",
+      values: { summary: "Folded summary", summary_through: history[10].created_at },
+    }]);
+
+    const [, messages] = chatCompletion.mock.calls[0];
+    expect(messages[1].content).toContain("Existing summary:\nUser plans a launch");
+    expect(messages[1].content).toContain(`User: ${history[0].message}`);
+    expect(messages[1].content).not.toContain(history[11].message);
+  });
+
+  it("works through a long backlog a batch at a time", async () => {
+    const history = turns(40);
+
+    const plan = await planContext({
+      supabase, context, sessionId: "session-1", conversation: conversationOf(history), sources: [], fixedTokens: 0,
+    });
+
+    expect(plan.turns).toEqual(history.slice(29));
+    expect(sessionUpdates[0].values.summary_through).toBe(history[10].created_at);
+    expect(plan.omitted).toBe(18);
+  });
+
+  it("answers from the newest turns and keeps the old summary when folding fails", async () => {
+    vi.spyOn(console, "error").mockImplementation(() => {});
+    updateError = { message: "permission denied" };
+    const history = turns(16);
+
+    const plan = await planContext({
+      supabase, context, sessionId: "session-1", conversation: conversationOf(history, "User plans a launch"), sources: [], fixedTokens: 12000,
+    });
+
+    expect(plan.summary).toBe("User plans a launch");
+    expect(plan.turns).toEqual(history.slice(11));
+    expect(plan.omitted).toBe(11);
+  });
+});
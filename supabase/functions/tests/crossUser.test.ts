@@ -0,0 +1,332 @@
+import { afterAll, beforeAll, beforeEach, describe, expect, it, vi } from "vitest";
+import { loadHandler } from "./support/serve.ts";
+import { embedText, LocalSupabase, signToken, startLocalSupabase } from "./support/localSupabase.ts";
+
+type Handler = Awaited<ReturnType<typeof loadHandler>>;
+
+let stack: LocalSupabase;
+let categorizeDocument: Handler;
+let chatAssistant: Handler;
+let applyAssistantAction: Handler;
+let notificationsCheck: Handler;
+
+const CRON_SECRET = "scheduler-secret";
+
+// A user with a bit of everything: principle, project, task, SOP, a chunked document, a correction,
+// and a chat session with history and a proposed action
+const seedUser = (name: string) => {
+  const user = stack.addUser(`${name.toLowerCase()}@example.com`);
+  const [principle] = stack.insert("principles", [{ user_id: user.id, title: `${name} principle`, description: `${name} keeps promises`, priority: "high" }]);
+  const [project] = stack.insert("projects", [{ user_id: user.id, name: `${name} project`, description: null }]);
+  const [task] = stack.insert("tasks", [{ project_id: project.id, title: `${name} task`, status: "pending" }]);
+  const [sop] = stack.insert("sops", [{ user_id: user.id, title: `${name} marmalade SOP`, category: "Operations", description: `${name}'s marmalade orders`, content: "" }]);
+  const [document] = stack.insert("documents", [{
+    user_id: user.id,
+    title: `${name} marmalade ledger`,
+    category: "Reference",
+    tags: [`${name.toLowerCase()}-tag`],
+    summary: `${name}'s marmalade suppliers`,
+  }]);
+  const chunkText = `${name} pays the marmalade suppliers net 30`;
+  const [chunk] = stack.insert("document_chunks", [{
+    user_id: user.id,
+    document_id: document.id,
+    chunk_index: 0,
+    content: chunkText,
+    embedding: JSON.stringify(embedText(chunkText)),
+    embedding_model: "openai/text-embedding-3-small",
+  }]);
+  stack.insert("ai_learning_log", [{
+    user_id: user.id,
+    document_id: document.id,
+    ai_suggestion: { category: "SOP" },
+    user_choice: { category: "Reference" },
+    correction_type: "category",
+  }]);
+  const [session] = stack.insert("chat_sessions", [{ user_id: user.id, title: null, summary: `${name} is weighing a merger`, summary_through: null }]);
+  stack.insert("chat_history", [{ user_id: user.id, session_id: session.id, role: "user", message: `${name} asks about the merger` }]);
+  const [action] = stack.insert("assistant_actions", [{
+    user_id: user.id,
+    session_id: session.id,
+    tool: "update_task_status",
+    arguments: { task_id: task.id, status: "completed" },
+    summary: `Mark task "${name} task" as completed`,
+    status: "proposed",
+  }]);
+  return { ...user, principle, project, task, sop, document, chunk, session, action };
+};
+
+let alice: ReturnType<typeof seedUser>;
+let bob: ReturnType<typeof seedUser>;
+
+const call = (handler: Handler, body: unknown, authorization?: string) =>
+  handler(new Request("http://localhost/", {
+    method: "POST",
+    headers: { "Content-Type": "application/json", ...(authorization ? { Authorization: authorization } : {}) },
+    body: JSON.stringify(body),
+  }));
+
+// Everything the functions sent to the AI endpoint: prompts, questions to embed
+const sentToAi = () => JSON.stringify(stack.ai.requests.map(request => request.body));
+
+// What of Bob's could have leaked: every id and every text of his
+const bobsTraces = () => [
+  "Bob",
+  "bob-tag",
+  ...[bob.principle, bob.project, bob.task, bob.sop, bob.document, bob.chunk, bob.session, bob.action].map(row => row.id as string),
+];
+
+const readEvents = async (response: Response) =>
+  (await response.text())
+    .split("\n")
+    .filter(line => line.startsWith("data: ") && !line.includes("[DONE]"))
+    .map(line => JSON.parse(line.slice("data: ".length)));
+
+const actionStatus = (id: unknown) => stack.rows("assistant_actions").find(row => row.id === id)?.status;
+
+beforeAll(async () => {
+  stack = await startLocalSupabase();
+  Object.entries(stack.env).forEach(([name, value]) => vi.stubEnv(name, value));
+  vi.stubEnv("CRON_SECRET", CRON_SECRET);
+  ["log", "warn", "error"].forEach(level => vi.spyOn(console, level as "log").mockImplementation(() => {}));
+
+  categorizeDocument = await loadHandler(() => import("../categorize-document/index.ts"));
+  chatAssistant = await loadHandler(() => import("../chat-assistant/index.ts"));
+  applyAssistantAction = await loadHandler(() => import("../apply-assistant-action/index.ts"));
+  notificationsCheck = await loadHandler(() => import("../notifications-check/index.ts"));
+
+  alice = seedUser("Alice");
+  bob = seedUser("Bob");
+});
+
+afterAll(async () => {
+  await stack.stop();
+  vi.unstubAllEnvs();
+  vi.restoreAllMocks();
+});
+
+beforeEach(() => {
+  stack.ai.requests.length = 0;
+});
+
+describe("without a valid bearer token", () => {
+  const cases = () => [
+    { name: "categorize-document", handler: categorizeDocument, body: { content: "Terms", fileName: "terms.txt", fileType: "text/plain" } },
+    { name: "chat-assistant", handler: chatAssistant, body: { message: "What does Bob owe?", sessionId: bob.session.id } },
+    { name: "apply-assistant-action", handler: applyAssistantAction, body: { actionId: bob.action.id, decision: "confirm" } },
+  ];
+
+  it("rejects a request with no Authorization header", async () => {
+    for (const { name, handler, body } of cases()) {
+      const response = await call(handler, body);
+      expect(response.status, name).toBe(401);
+      expect(await response.json(), name).toEqual({ error: "No authorization header" });
+    }
+    expect(stack.ai.requests).toEqual([]);
+    expect(actionStatus(bob.action.id)).toBe("proposed");
+  });
+
+  it("rejects a token claiming to be another user that the stack didn't sign", async () => {
+    const forged = signToken({ sub: bob.id, role: "authenticated", exp: Math.floor(Date.now() / 1000) + 3600 }, "guessed-secret");
+
+    for (const { name, handler, body } of cases()) {
+      const response = await call(handler, body, `Bearer ${forged}`);
+      expect(response.status, name).toBe(401);
+      expect(await response.json(), name).toEqual({ error: "Unauthorized" });
+    }
+    expect(stack.ai.requests).toEqual([]);
+    expect(actionStatus(bob.action.id)).toBe("proposed");
+  });
+
+  it("rejects the anon key, which names no user", async () => {
+    for (const { name, handler, body } of cases()) {
+      const response = await call(handler, body, `Bearer ${stack.env.SUPABASE_ANON_KEY}`);
+      expect(response.status, name).toBe(401);
+    }
+  });
+});
+
+describe("categorize-document", () => {
+  it("prompts with the caller's library only and drops relations to anyone else's", async () => {
+    const relation = (id: unknown) => ({ id, reason: "Same suppliers", confidence: 80 });
+    stack.ai.respondWith(() => ({
+      content: JSON.stringify({
+        principle_alignment: {
+          primary_principle_id: bob.principle.id,
+          primary_principle_name: "Bob principle",
+          alignment_explanation: "Keeps promises to suppliers",
+          serves_goal: "Reliable supply",
+        },
+        category: "Reference",
+        confidence: 85,
+        reasoning: "Supplier terms",
+        title: "Marmalade terms",
+        summary: "Payment terms for marmalade suppliers",
+        tags: ["suppliers"],
+        related_items: {
+          sops: [relation(bob.sop.id), relation(alice.sop.id)],
+          documents: [relation(bob.document.id), relation(alice.document.id)],
+          reasoning: "Both cover the suppliers",
+        },
+        suggested_actions: [],
+      }),
+    }));
+
+    const response = await call(
+      categorizeDocument,
+      { content: "Marmalade suppliers are paid net 30", fileName: "terms.txt", fileType: "text/plain" },
+      `Bearer ${alice.token}`
+    );
+
+    expect(response.status).toBe(200);
+    const result = await response.json();
+    expect(result.related_items.sop_ids).toEqual([alice.sop.id]);
+    expect(result.related_items.document_ids).toEqual([alice.document.id]);
+    expect(result.principle_alignment.primary_principle_id).toBeNull();
+
+    const prompt = sentToAi();
+    [alice.sop.id, alice.document.id, "Alice principle", "alice-tag", "Alice marmalade ledger"].forEach(trace =>
+      expect(prompt).toContain(trace)
+    );
+    bobsTraces().forEach(trace => expect(prompt).not.toContain(trace));
+  });
+});
+
+describe("chat-assistant", () => {
+  it("answers in another user's session as if there were none, reading and storing nothing there", async () => {
+    stack.ai.respondWith(({ body }) =>
+      body.stream
+        ? {
+            content: "Alice pays net 30.",
+            toolCalls: [
+              { name: "update_task_status", arguments: JSON.stringify({ task_id: bob.task.id, status: "completed" }) },
+              { name: "update_task_status", arguments: JSON.stringify({ task_id: alice.task.id, status: "in_progress" }) },
+            ],
+          }
+        : { content: "Marmalade terms" }
+    );
+
+    const response = await call(
+      chatAssistant,
+      { message: "How are the marmalade suppliers paid?", sessionId: bob.session.id },
+      `Bearer ${alice.token}`
+    );
+
+    expect(response.status).toBe(200);
+    const events = await readEvents(response);
+    const sources = events.find(event => event.sources)?.sources ?? [];
+    expect(sources.map((source: { id: string }) => source.id)).toContain(alice.document.id);
+    expect(events.some(event => event.actions || event.title)).toBe(false);
+
+    bobsTraces().forEach(trace => expect(sentToAi()).not.toContain(trace));
+    // Without a session of hers there is nowhere to store proposals, so no tools were offered
+    expect(stack.ai.requests.find(request => request.body.stream)?.body.tools).toBeUndefined();
+
+    expect(stack.rows("assistant_actions").filter(row => row.session_id === bob.session.id)).toEqual([bob.action]);
+    expect(stack.rows("chat_sessions").find(row => row.id === bob.session.id)?.title).toBeNull();
+  });
+
+  it("in the caller's own session, keeps tool calls to their own workspace", async () => {
+    stack.ai.respondWith(({ body }) =>
+      body.stream
+        ? {
+            content: "Moving it along.",
+            toolCalls: [
+              { name: "update_task_status", arguments: JSON.stringify({ task_id: bob.task.id, status: "completed" }) },
+              { name: "create_task", arguments: JSON.stringify({ project_id: bob.project.id, title: "Audit Bob" }) },
+              { name: "update_task_status", arguments: JSON.stringify({ task_id: alice.task.id, status: "in_progress" }) },
+            ],
+          }
+        : { content: "Task progress" }
+    );
+
+    const response = await call(
+      chatAssistant,
+      { message: "Start on my marmalade task", sessionId: alice.session.id },
+      `Bearer ${alice.token}`
+    );
+
+    const events = await readEvents(response);
+    expect(events.find(event => event.actions)?.actions).toEqual([
+      { id: expect.any(String), summary: 'Mark task "Alice task" as in progress' },
+    ]);
+    expect(events.find(event => event.title)?.title).toBe("Task progress");
+    bobsTraces().forEach(trace => expect(sentToAi()).not.toContain(trace));
+  });
+});
+
+describe("apply-assistant-action", () => {
+  it("can't confirm or reject another user's action", async () => {
+    for (const decision of ["confirm", "reject"]) {
+      const response = await call(applyAssistantAction, { actionId: bob.action.id, decision }, `Bearer ${alice.token}`);
+      expect(response.status).toBe(409);
+    }
+    expect(actionStatus(bob.action.id)).toBe("proposed");
+    expect(stack.rows("tasks").find(row => row.id === bob.task.id)?.status).toBe("pending");
+  });
+
+  it("fails the caller's own action when it points at another user's rows, changing nothing of theirs", async () => {
+    const taskCount = stack.rows("tasks").length;
+    const [moveTask, createTask] = stack.insert("assistant_actions", [
+      {
+        user_id: alice.id,
+        session_id: alice.session.id,
+        tool: "update_task_status",
+        arguments: { task_id: bob.task.id, status: "completed" },
+        summary: "Mark task as completed",
+        status: "proposed",
+      },
+      {
+        user_id: alice.id,
+        session_id: alice.session.id,
+        tool: "create_task",
+        arguments: { project_id: bob.project.id, title: "Audit", description: null, priority: "medium", due_date: null },
+        summary: "Create task",
+        status: "proposed",
+      },
+    ]);
+
+    for (const action of [moveTask, createTask]) {
+      const response = await call(applyAssistantAction, { actionId: action.id, decision: "confirm" }, `Bearer ${alice.token}`);
+      expect(response.status).toBe(200);
+      expect((await response.json()).action.status).toBe("failed");
+    }
+
+    expect(stack.rows("tasks").find(row => row.id === bob.task.id)?.status).toBe("pending");
+    expect(stack.rows("tasks")).toHaveLength(taskCount);
+    expect(stack.rows("task_activity")).toEqual([]);
+  });
+});
+
+describe("notifications-check", () => {
+  const check = (headers: Record<string, string>) =>
+    notificationsCheck(new Request("http://localhost/", { method: "POST", headers }));
+
+  it("only runs for the scheduler, since it reads every user's settings with the service role", async () => {
+    stack.insert("notification_settings", [{ user_id: bob.id, nudges_enabled: false }]);
+    const refused = [
+      {},
+      { Authorization: `Bearer ${alice.token}` },
+      { Authorization: `Bearer ${stack.env.SUPABASE_ANON_KEY}` },
+      { Authorization: `Bearer ${signToken({ role: "service_role" }, "guessed-secret")}` },
+      { Authorization: `Bearer ${stack.env.SUPABASE_ANON_KEY}`, "x-cron-secret": "guessed-secret" },
+    ];
+
+    for (const headers of refused) {
+      const response = await check(headers);
+      expect(response.status, JSON.stringify(headers)).toBe(401);
+      expect(await response.json()).toEqual({ error: "Unauthorized" });
+    }
+  });
+
+  it("runs with the cron secret or the service role key", async () => {
+    for (const headers of [
+      { Authorization: `Bearer ${stack.env.SUPABASE_ANON_KEY}`, "x-cron-secret": CRON_SECRET },
+      { Authorization: `Bearer ${stack.env.SUPABASE_SERVICE_ROLE_KEY}` },
+    ]) {
+      const response = await check(headers);
+      expect(response.status).toBe(200);
+      expect(await response.json()).toEqual({ success: true, created: 0 });
+    }
+  });
+});
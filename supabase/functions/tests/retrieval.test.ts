@@ -0,0 +1,70 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import type { SupabaseClient } from "@supabase/supabase-js";
+import { retrieveSources } from "../_shared/retrieval.ts";
+
+const context = { functionName: "chat-assistant", userId: "user-1" };
+
+const fakeSupabase = (rpc: ReturnType<typeof vi.fn>) =>
+  ({
+    rpc,
+    from: () => ({ select: () => ({ in: async () => ({ data: [{ id: "doc-1", title: "Supplier contract" }] }) }) }),
+  }) as unknown as SupabaseClient;
+
+describe("retrieveSources", () => {
+  const fetchMock = vi.fn();
+
+  beforeEach(() => {
+    vi.stubGlobal("fetch", fetchMock);
+    vi.stubEnv("AI_API_KEY", "key");
+    vi.stubEnv("AI_BASE_URL", "http://embeddings.test/v1");
+    vi.stubEnv("AI_BASE_URL_CHAT_ASSISTANT", "http://chat-only.test/v1");
+    vi.stubEnv("EMBEDDING_MODEL", "test/embedder");
+    fetchMock.mockReset().mockResolvedValue(
+      new Response(JSON.stringify({ data: [{ index: 0, embedding: [0.6, 0.8] }] }))
+    );
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+    vi.unstubAllEnvs();
+  });
+
+  it("embeds the question the way embed-text does and matches chunks from that model only", async () => {
+    const rpc = vi.fn(async (name: string) =>
+      name === "match_document_chunks"
+        ? { data: [{ document_id: "doc-1", content: "Renewal terms", page: 2, similarity: 0.9, keyword_rank: 1 }], error: null }
+        : { data: [], error: null }
+    );
+
+    const sources = await retrieveSources(fakeSupabase(rpc), context, "When does the contract renew?");
+
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+    const [url, init] = fetchMock.mock.calls[0];
+    expect(url).toBe("http://embeddings.test/v1/embeddings");
+    expect(JSON.parse(init.body)).toMatchObject({ model: "test/embedder", dimensions: 768 });
+    expect(rpc).toHaveBeenCalledWith("match_document_chunks", expect.objectContaining({
+      query_embedding: "[0.6,0.8]",
+      p_embedding_model: "test/embedder",
+    }));
+    expect(sources).toEqual([
+      { n: 1, type: "document", id: "doc-1", title: "Supplier contract", page: 2, excerpt: "Renewal terms" },
+    ]);
+  });
+
+  it("falls back to full-text matches when the question can't be embedded", async () => {
+    vi.stubEnv("AI_MAX_RETRIES", "0");
+    vi.spyOn(console, "warn").mockImplementation(() => {});
+    vi.spyOn(console, "error").mockImplementation(() => {});
+    fetchMock.mockResolvedValue(new Response("down", { status: 503 }));
+    const rpc = vi.fn(async () => ({
+      data: [{ source_type: "sop", source_id: "sop-1", title: "Renewals", content: "Check the notice period", rank: 0.5 }],
+      error: null,
+    }));
+
+    const sources = await retrieveSources(fakeSupabase(rpc), context, "renewal");
+
+    expect(rpc).toHaveBeenCalledTimes(1);
+    expect(rpc).toHaveBeenCalledWith("search_knowledge", expect.anything());
+    expect(sources.map(source => source.id)).toEqual(["sop-1"]);
+  });
+});
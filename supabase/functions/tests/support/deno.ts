@@ -0,0 +1,7 @@
+import { serve } from "./serve.ts";
+
+// Edge function code reads its configuration through Deno.env; under Node it comes from process.env.
+// Deno.serve hands the handler to the test, as std's serve() does.
+Object.assign(globalThis, {
+  Deno: { env: { get: (name: string) => process.env[name] }, serve },
+});
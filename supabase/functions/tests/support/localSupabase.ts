@@ -0,0 +1,432 @@
+// A stand-in for a local Supabase stack, so edge functions can run end to end under Node. Over real HTTP it
+// serves what the functions use: the auth server's /auth/v1/user, a PostgREST subset over in-memory tables
+// with row level security by owner, the two search RPCs, and an OpenAI-compatible AI endpoint whose
+// replies the test scripts. Tokens are HS256 JWTs signed with the stack's secret, as a local stack issues.
+
+import { createServer, IncomingMessage, ServerResponse } from "node:http";
+import { createHmac, randomUUID, timingSafeEqual } from "node:crypto";
+import type { AddressInfo } from "node:net";
+
+export type Row = Record<string, unknown>;
+type Claims = { sub?: string; role: string; email?: string; exp?: number };
+type Predicate = (row: Row) => boolean;
+type Selection = { all: boolean; columns: string[]; embeds: { alias: string; table: string; selection: Selection }[] };
+
+export type ScriptedReply = { content?: string; toolCalls?: { name: string; arguments: string }[] };
+type AiBody = {
+  model?: string;
+  stream?: boolean;
+  messages?: { role: string; content: string }[];
+  tools?: unknown[];
+  input?: string | string[];
+  dimensions?: number;
+};
+type RpcArgs = { query_text?: string; match_count?: number; query_embedding?: string; p_embedding_model?: string };
+
+export type AiRequest = { path: string; body: AiBody };
+
+const JWT_SECRET = "local-stand-in-jwt-secret";
+const HOUR = 3600;
+
+export const signToken = (claims: Claims, secret = JWT_SECRET) => {
+  const header = Buffer.from(JSON.stringify({ alg: "HS256", typ: "JWT" })).toString("base64url");
+  const payload = Buffer.from(JSON.stringify(claims)).toString("base64url");
+  const signature = createHmac("sha256", secret).update(`${header}.${payload}`).digest("base64url");
+  return `${header}.${payload}.${signature}`;
+};
+
+const verifyToken = (token: string): Claims | null => {
+  const [header, payload, signature] = token.split(".");
+  if (!header || !payload || !signature) return null;
+  const expected = createHmac("sha256", JWT_SECRET).update(`${header}.${payload}`).digest();
+  const given = Buffer.from(signature, "base64url");
+  if (given.length !== expected.length || !timingSafeEqual(given, expected)) return null;
+  try {
+    const claims = JSON.parse(Buffer.from(payload, "base64url").toString()) as Claims;
+    return claims.exp && claims.exp * 1000 < Date.now() ? null : claims;
+  } catch {
+    return null;
+  }
+};
+
+const bearerClaims = (req: IncomingMessage) => {
+  const header = req.headers.authorization;
+  return header?.startsWith("Bearer ") ? verifyToken(header.slice("Bearer ".length)) : null;
+};
+
+// Deterministic unit vectors, so stored chunks and questions embedded alike can be compared
+export const embedText = (text: string, dimensions = 768) => {
+  const vector = new Array<number>(dimensions).fill(0);
+  text.toLowerCase().split(/[^\p{L}\p{N}]+/u).filter(Boolean).forEach(word => {
+    let hash = 0;
+    for (const char of word) hash = (hash * 31 + char.charCodeAt(0)) >>> 0;
+    vector[hash % dimensions] += 1;
+  });
+  const norm = Math.sqrt(vector.reduce((sum, v) => sum + v * v, 0)) || 1;
+  return vector.map(v => v / norm);
+};
+
+const cosine = (a: number[], b: number[]) => a.reduce((sum, v, i) => sum + v * (b[i] ?? 0), 0);
+
+const words = (text: unknown) =>
+  new Set(String(text ?? "").toLowerCase().split(/[^\p{L}\p{N}]+/u).filter(word => word.length > 2));
+
+const keywordRank = (query: string, text: string) => {
+  const inText = words(text);
+  return [...words(query)].filter(word => inText.has(word)).length;
+};
+
+// Splits on commas outside parentheses and double quotes
+const splitTopLevel = (text: string) => {
+  const parts: string[] = [];
+  let depth = 0;
+  let quoted = false;
+  let current = "";
+  for (const char of text) {
+    if (char === '"') quoted = !quoted;
+    else if (!quoted && char === "(") depth++;
+    else if (!quoted && char === ")") depth--;
+    if (char === "," && depth === 0 && !quoted) {
+      parts.push(current.trim());
+      current = "";
+    } else {
+      current += char;
+    }
+  }
+  if (current.trim()) parts.push(current.trim());
+  return parts;
+};
+
+const unquote = (value: string) => (value.startsWith('"') && value.endsWith('"') ? value.slice(1, -1) : value);
+
+const compare = (value: unknown, raw: string) =>
+  typeof value === "number" ? value - Number(raw) : String(value).localeCompare(unquote(raw));
+
+const condition = (column: string, expression: string): Predicate => {
+  const negated = expression.startsWith("not.");
+  const rest = negated ? expression.slice(4) : expression;
+  const dot = rest.indexOf(".");
+  const operator = rest.slice(0, dot);
+  const raw = rest.slice(dot + 1);
+
+  const test: Predicate = row => {
+    const value = row[column];
+    switch (operator) {
+      case "eq": return value != null && String(value) === unquote(raw);
+      case "neq": return value != null && String(value) !== unquote(raw);
+      case "gt": return value != null && compare(value, raw) > 0;
+      case "gte": return value != null && compare(value, raw) >= 0;
+      case "lt": return value != null && compare(value, raw) < 0;
+      case "lte": return value != null && compare(value, raw) <= 0;
+      case "in": return value != null && splitTopLevel(raw.slice(1, -1)).map(unquote).includes(String(value));
+      case "is": return raw === "null" ? value == null : String(value) === raw;
+      default: throw new Error(`The stand-in doesn't support the ${operator} filter`);
+    }
+  };
+  return negated ? row => !test(row) : test;
+};
+
+// or=(a.eq.1,and(b.eq.2,c.lt.3)) and the like
+const logicTree = (kind: string, inner: string): Predicate => {
+  const parts = splitTopLevel(inner).map(part => {
+    const nested = part.match(/^(not\.)?(and|or)\((.*)\)$/s);
+    if (nested) {
+      const predicate = logicTree(nested[2], nested[3]);
+      return nested[1] ? (row: Row) => !predicate(row) : predicate;
+    }
+    const dot = part.indexOf(".");
+    return condition(part.slice(0, dot), part.slice(dot + 1));
+  });
+  return kind === "or" ? row => parts.some(p => p(row)) : row => parts.every(p => p(row));
+};
+
+const RESERVED_PARAMS = new Set(["select", "order", "limit", "offset", "columns", "on_conflict"]);
+
+const filtersOf = (params: URLSearchParams): Predicate => {
+  const predicates: Predicate[] = [];
+  params.forEach((value, key) => {
+    if (RESERVED_PARAMS.has(key)) return;
+    predicates.push(key === "or" || key === "and" ? logicTree(key, value.slice(1, -1)) : condition(key, value));
+  });
+  return row => predicates.every(p => p(row));
+};
+
+const parseSelect = (text: string): Selection => {
+  const selection: Selection = { all: false, columns: [], embeds: [] };
+  splitTopLevel(text || "*").forEach(item => {
+    const embed = item.match(/^(?:(\w+):)?(\w+)(?:!\w+)?\((.*)\)$/s);
+    if (embed) selection.embeds.push({ alias: embed[1] ?? embed[2], table: embed[2], selection: parseSelect(embed[3]) });
+    else if (item === "*") selection.all = true;
+    else selection.columns.push(item);
+  });
+  return selection;
+};
+
+const singular = (table: string) => table.replace(/s$/, "");
+
+export const startLocalSupabase = async () => {
+  const db: Record<string, Row[]> = {};
+  const users = new Map<string, string>();
+  const aiRequests: AiRequest[] = [];
+  let respond: (request: AiRequest) => ScriptedReply = () => ({ content: "{}" });
+
+  const table = (name: string) => (db[name] ??= []);
+
+  // Row level security: a row belongs to its user_id, except rows that hang off a project or a task
+  const ownerOf = (name: string, row: Row): unknown => {
+    switch (name) {
+      case "tasks":
+      case "project_goals":
+        return table("projects").find(project => project.id === row.project_id)?.user_id;
+      case "task_activity": {
+        const task = table("tasks").find(t => t.id === row.task_id);
+        return task && ownerOf("tasks", task);
+      }
+      default:
+        return row.user_id;
+    }
+  };
+  const visible = (claims: Claims, name: string, row: Row) =>
+    claims.role === "service_role" || (!!claims.sub && ownerOf(name, row) === claims.sub);
+
+  const project = (claims: Claims, name: string, row: Row, selection: Selection): Row => {
+    const result: Row = selection.all
+      ? { ...row }
+      : Object.fromEntries(selection.columns.map(column => [column, row[column] ?? null]));
+    selection.embeds.forEach(embed => {
+      const foreignKey = `${singular(embed.table)}_id`;
+      const related = table(embed.table).filter(other => visible(claims, embed.table, other));
+      if (foreignKey in row) {
+        const target = related.find(other => other.id === row[foreignKey]);
+        result[embed.alias] = target ? project(claims, embed.table, target, embed.selection) : null;
+      } else {
+        result[embed.alias] = related
+          .filter(other => other[`${singular(name)}_id`] === row.id)
+          .map(other => project(claims, embed.table, other, embed.selection));
+      }
+    });
+    return result;
+  };
+
+  const send = (res: ServerResponse, status: number, body?: unknown, headers: Record<string, string> = {}) => {
+    res.writeHead(status, { "Content-Type": "application/json", ...headers });
+    res.end(body === undefined ? undefined : JSON.stringify(body));
+  };
+
+  const sendRows = (req: IncomingMessage, res: ServerResponse, rows: Row[], status = 200) => {
+    if (req.headers.accept?.includes("application/vnd.pgrst.object+json")) {
+      if (rows.length !== 1) {
+        return send(res, 406, {
+          code: "PGRST116",
+          details: `The result contains ${rows.length} rows`,
+          hint: null,
+          message: "JSON object requested, multiple (or no) rows returned",
+        });
+      }
+      return send(res, status, rows[0]);
+    }
+    send(res, status, rows);
+  };
+
+  const rlsViolation = (res: ServerResponse, name: string) =>
+    send(res, 403, { code: "42501", details: null, hint: null, message: `new row violates row-level security policy for table "${name}"` });
+
+  const handleTable = (req: IncomingMessage, res: ServerResponse, claims: Claims, name: string, params: URLSearchParams, body: unknown) => {
+    const selection = parseSelect(params.get("select") ?? "*");
+    const wantsRows = req.method === "GET" || (req.headers.prefer ?? "").includes("return=representation");
+    const respondWith = (rows: Row[], status: number) =>
+      wantsRows ? sendRows(req, res, rows.map(row => project(claims, name, row, selection)), status) : send(res, 204);
+    const now = new Date().toISOString();
+
+    if (req.method === "POST") {
+      const rows = (Array.isArray(body) ? body : [body]).map(input => ({
+        id: randomUUID(),
+        created_at: now,
+        updated_at: now,
+        ...JSON.parse(JSON.stringify(input)),
+      }));
+      if (!rows.every(row => visible(claims, name, row))) return rlsViolation(res, name);
+      table(name).push(...rows);
+      return respondWith(rows, 201);
+    }
+
+    const matches = filtersOf(params);
+    let rows = table(name).filter(row => visible(claims, name, row) && matches(row));
+
+    if (req.method === "GET") {
+      const order = params.get("order");
+      if (order) {
+        const keys = order.split(",").map(key => key.split("."));
+        rows = [...rows].sort((a, b) => {
+          for (const [column, direction] of keys) {
+            const diff = String(a[column] ?? "").localeCompare(String(b[column] ?? ""));
+            if (diff !== 0) return direction === "desc" ? -diff : diff;
+          }
+          return 0;
+        });
+      }
+      if (params.has("limit")) rows = rows.slice(0, Number(params.get("limit")));
+      return respondWith(rows, 200);
+    }
+
+    if (req.method === "PATCH") {
+      const changes = body as Row;
+      const updated = rows.map(row => ({ ...row, ...changes, ...("updated_at" in row ? { updated_at: now } : {}) }));
+      if (!updated.every(row => visible(claims, name, row))) return rlsViolation(res, name);
+      updated.forEach((row, i) => Object.assign(rows[i], row));
+      return respondWith(rows, 200);
+    }
+
+    if (req.method === "DELETE") {
+      db[name] = table(name).filter(row => !rows.includes(row));
+      return respondWith(rows, 200);
+    }
+
+    send(res, 405, { message: `${req.method} is not supported` });
+  };
+
+  const handleRpc = (res: ServerResponse, claims: Claims, name: string, args: RpcArgs) => {
+    const own = (tableName: string) => table(tableName).filter(row => visible(claims, tableName, row));
+
+    if (name === "search_knowledge") {
+      const items = [
+        ...own("documents").map(d => ({ source_type: "document", source_id: d.id, title: d.title, content: [d.summary, `Tags: ${((d.tags as string[]) || []).join(", ")}`].join("\n") })),
+        ...own("sops").map(s => ({ source_type: "sop", source_id: s.id, title: s.title, content: [s.description, s.content].join("\n") })),
+        ...own("principles").map(p => ({ source_type: "principle", source_id: p.id, title: p.title, content: p.description ?? "" })),
+        ...own("tasks").map(t => ({ source_type: "task", source_id: t.id, title: t.title, content: `Status: ${t.status}` })),
+        ...own("insights").map(i => ({ source_type: "insight", source_id: i.id, title: i.title, content: i.content ?? "" })),
+      ];
+      const ranked = items
+        .map(item => ({ ...item, rank: keywordRank(args.query_text ?? "", `${item.title} ${item.content}`) }))
+        .filter(item => item.rank > 0)
+        .sort((a, b) => b.rank - a.rank)
+        .slice(0, args.match_count ?? 12);
+      return send(res, 200, ranked);
+    }
+
+    if (name === "match_document_chunks") {
+      const query = JSON.parse(args.query_embedding ?? "[]") as number[];
+      const chunks = own("document_chunks")
+        .map(chunk => {
+          const embedding = typeof chunk.embedding === "string" ? JSON.parse(chunk.embedding) : chunk.embedding;
+          return {
+            id: chunk.id,
+            document_id: chunk.document_id,
+            chunk_index: chunk.chunk_index,
+            content: chunk.content,
+            page: chunk.page ?? null,
+            similarity: chunk.embedding_model === args.p_embedding_model ? cosine(embedding as number[], query) : 0,
+            keyword_rank: keywordRank(args.query_text ?? "", String(chunk.content)),
+          };
+        })
+        .filter(chunk => chunk.similarity > 0 || chunk.keyword_rank > 0)
+        .sort((a, b) => b.similarity - a.similarity)
+        .slice(0, args.match_count ?? 40);
+      return send(res, 200, chunks);
+    }
+
+    send(res, 404, { code: "PGRST202", message: `Could not find the function public.${name}` });
+  };
+
+  const handleAi = (res: ServerResponse, path: string, body: AiBody) => {
+    const request = { path, body };
+    aiRequests.push(request);
+    const usage = { prompt_tokens: 10, completion_tokens: 5, total_tokens: 15 };
+
+    if (path === "/v1/embeddings") {
+      const input = Array.isArray(body.input) ? body.input : [body.input ?? ""];
+      return send(res, 200, {
+        model: body.model,
+        data: input.map((text, index) => ({ index, embedding: embedText(text, body.dimensions ?? 768) })),
+        usage,
+      });
+    }
+
+    const reply = respond(request);
+    if (!body.stream) {
+      return send(res, 200, { choices: [{ message: { role: "assistant", content: reply.content ?? "" } }], usage });
+    }
+
+    res.writeHead(200, { "Content-Type": "text/event-stream" });
+    const event = (data: unknown) => res.write(`data: ${JSON.stringify(data)}\n\n`);
+    if (reply.content) event({ choices: [{ delta: { content: reply.content } }] });
+    (reply.toolCalls || []).forEach((call, index) =>
+      event({ choices: [{ delta: { tool_calls: [{ index, function: { name: call.name, arguments: call.arguments } }] } }] })
+    );
+    event({ choices: [], usage });
+    res.end("data: [DONE]\n\n");
+  };
+
+  const server = createServer(async (req, res) => {
+    const chunks: Buffer[] = [];
+    for await (const chunk of req) chunks.push(chunk as Buffer);
+    const text = Buffer.concat(chunks).toString();
+    const body = text ? JSON.parse(text) : undefined;
+    const url = new URL(req.url ?? "/", "http://localhost");
+
+    try {
+      if (url.pathname.startsWith("/v1/")) return handleAi(res, url.pathname, body);
+
+      if (url.pathname === "/auth/v1/user") {
+        const claims = bearerClaims(req);
+        const email = claims?.sub ? users.get(claims.sub) : undefined;
+        if (!claims?.sub || !email) return send(res, 403, { code: 403, error_code: "bad_jwt", msg: "invalid JWT" });
+        return send(res, 200, { id: claims.sub, aud: "authenticated", role: "authenticated", email, app_metadata: {}, user_metadata: {} });
+      }
+
+      const rest = url.pathname.match(/^\/rest\/v1\/(rpc\/)?(\w+)$/);
+      if (rest) {
+        const claims = req.headers.authorization ? bearerClaims(req) : { role: "anon" };
+        if (!claims) return send(res, 401, { code: "PGRST301", message: "JWT could not be verified" });
+        return rest[1] ? handleRpc(res, claims, rest[2], body ?? {}) : handleTable(req, res, claims, rest[2], url.searchParams, body);
+      }
+
+      send(res, 404, { message: `No route for ${url.pathname}` });
+    } catch (error) {
+      send(res, 500, { message: error instanceof Error ? error.message : String(error) });
+    }
+  });
+
+  await new Promise<void>(resolve => server.listen(0, "127.0.0.1", resolve));
+  const url = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  const expiry = () => Math.floor(Date.now() / 1000) + HOUR;
+
+  return {
+    url,
+    // What the functions read from their environment to reach this stack
+    env: {
+      SUPABASE_URL: url,
+      SUPABASE_ANON_KEY: signToken({ role: "anon", exp: expiry() }),
+      SUPABASE_SERVICE_ROLE_KEY: signToken({ role: "service_role", exp: expiry() }),
+      AI_BASE_URL: `${url}/v1`,
+      AI_API_KEY: "local-stand-in",
+      AI_MAX_RETRIES: "0",
+    },
+    addUser: (email: string) => {
+      const id = randomUUID();
+      users.set(id, email);
+      return { id, email, token: signToken({ sub: id, role: "authenticated", email, exp: expiry() }) };
+    },
+    // Seeds rows directly, as the service role would
+    insert: (name: string, rows: Row[]) => {
+      const now = new Date().toISOString();
+      const stored = rows.map(row => ({ id: randomUUID(), created_at: now, updated_at: now, ...row }));
+      table(name).push(...stored);
+      return stored;
+    },
+    rows: (name: string) => table(name),
+    ai: {
+      requests: aiRequests,
+      respondWith: (script: (request: AiRequest) => ScriptedReply) => {
+        respond = script;
+      },
+    },
+    stop: () =>
+      new Promise<void>(resolve => {
+        server.closeAllConnections();
+        server.close(() => resolve());
+      }),
+  };
+};
+
+export type LocalSupabase = Awaited<ReturnType<typeof startLocalSupabase>>;
@@ -0,0 +1,18 @@
+// Stands in for std's serve() when a function is imported under test: instead of listening, it keeps
+// the handler so the test can call it with a Request
+
+type Handler = (req: Request) => Response | Promise<Response>;
+
+let lastHandler: Handler | null = null;
+
+export const serve = (handler: Handler) => {
+  lastHandler = handler;
+};
+
+// Imports a function's index.ts and returns the handler it passed to serve()
+export const loadHandler = async (importFunction: () => Promise<unknown>): Promise<Handler> => {
+  lastHandler = null;
+  await importFunction();
+  if (!lastHandler) throw new Error('The function did not call serve()');
+  return lastHandler;
+};
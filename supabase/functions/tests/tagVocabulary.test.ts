@@ -0,0 +1,73 @@
+import { describe, expect, it } from "vitest";
+import { asTags, buildVocabulary, normalizeTags, tagKey } from "../_shared/tagVocabulary.ts";
+
+describe("tagKey", () => {
+  it("ignores case, spacing and punctuation", () => {
+    expect(tagKey("Meal-Prep")).toBe(tagKey("meal prep"));
+    expect(tagKey("MEAL_PREP")).toBe("mealprep");
+  });
+
+  it("drops Latin accents", () => {
+    expect(tagKey("Café")).toBe(tagKey("cafe"));
+    expect(tagKey("Résumé")).toBe("resume");
+  });
+
+  it("keeps letters and digits of other scripts", () => {
+    expect(tagKey("財務")).toBe("財務");
+    expect(tagKey("Финансы 2026")).toBe("финансы2026");
+    expect(tagKey("हिंदी")).not.toBe("");
+    expect(tagKey("ñ")).toBe("n");
+  });
+
+  it("keeps words that differ by a trailing s apart", () => {
+    expect(tagKey("news")).not.toBe(tagKey("new"));
+    expect(tagKey("status")).toBe("status");
+  });
+
+  it("is empty for a tag without letters or digits", () => {
+    expect(tagKey(" -- ")).toBe("");
+  });
+});
+
+describe("asTags", () => {
+  it("reads comma-separated strings and arrays", () => {
+    expect(asTags("finance, q3 ,, planning")).toEqual(["finance", "q3", "planning"]);
+    expect(asTags(["finance", 3, " ops "])).toEqual(["finance", "ops"]);
+    expect(asTags(null)).toEqual([]);
+  });
+});
+
+describe("buildVocabulary", () => {
+  it("keys tags by spelling-insensitive form and ranks them by use", () => {
+    const vocabulary = buildVocabulary([
+      { tags: ["Meal-Prep", "finance"] },
+      { tags: ["meal prep", "財務"] },
+      { tags: ["MealPrep"] },
+      { tags: null },
+    ]);
+
+    expect(vocabulary.spellings.get("mealprep")).toBe("Meal-Prep");
+    expect(vocabulary.spellings.get("財務")).toBe("財務");
+    expect(vocabulary.ranked).toEqual(["Meal-Prep", "finance", "財務"]);
+  });
+});
+
+describe("normalizeTags", () => {
+  const { spellings } = buildVocabulary([{ tags: ["Meal-Prep", "Café", "財務", "news"] }]);
+
+  it("reuses the user's spelling and lowercases new tags", () => {
+    expect(normalizeTags(["meal prep", "cafe", "Budget"], spellings, new Set())).toEqual(["Meal-Prep", "Café", "budget"]);
+  });
+
+  it("keeps tags in other scripts", () => {
+    expect(normalizeTags(["財務", "Ωμέγα"], spellings, new Set())).toEqual(["財務", "ωμέγα"]);
+  });
+
+  it("doesn't fold a new word into an existing one that is one s shorter", () => {
+    expect(normalizeTags(["new"], spellings, new Set())).toEqual(["new"]);
+  });
+
+  it("drops duplicates, empty tags and rejected tags", () => {
+    expect(normalizeTags(["Meal Prep", "meal-prep", "!!", "draft"], spellings, new Set(["draft"]))).toEqual(["Meal-Prep"]);
+  });
+});
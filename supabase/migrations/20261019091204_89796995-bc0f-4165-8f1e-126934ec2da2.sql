@@ -0,0 +1,5 @@
+-- Store extracted document text alongside its page layout and source metadata
+ALTER TABLE public.documents
+ADD COLUMN IF NOT EXISTS extracted_text TEXT,
+ADD COLUMN IF NOT EXISTS page_offsets JSONB,
+ADD COLUMN IF NOT EXISTS source_metadata JSONB;
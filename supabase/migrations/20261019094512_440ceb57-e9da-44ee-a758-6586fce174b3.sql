@@ -0,0 +1,3 @@
+-- Per-sheet schema and preview rows for tabular documents (CSV, XLSX, XLS, ODS)
+ALTER TABLE public.documents
+ADD COLUMN IF NOT EXISTS data_schema JSONB;
@@ -0,0 +1,86 @@
+-- Chunked full-text storage with embeddings for Library semantic search
+CREATE EXTENSION IF NOT EXISTS vector WITH SCHEMA extensions;
+
+CREATE TABLE public.document_chunks (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  document_id UUID NOT NULL REFERENCES public.documents(id) ON DELETE CASCADE,
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  chunk_index INTEGER NOT NULL,
+  content TEXT NOT NULL,
+  page INTEGER,
+  start_offset INTEGER NOT NULL,
+  end_offset INTEGER NOT NULL,
+  embedding extensions.vector(768),
+  embedding_model TEXT NOT NULL,
+  content_tsv TSVECTOR GENERATED ALWAYS AS (to_tsvector('english', content)) STORED,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  UNIQUE (document_id, chunk_index)
+);
+
+ALTER TABLE public.document_chunks ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their own document chunks"
+ON public.document_chunks
+FOR SELECT
+USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can create their own document chunks"
+ON public.document_chunks
+FOR INSERT
+WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete their own document chunks"
+ON public.document_chunks
+FOR DELETE
+USING (auth.uid() = user_id);
+
+CREATE INDEX idx_document_chunks_document ON public.document_chunks(document_id);
+CREATE INDEX idx_document_chunks_user_model ON public.document_chunks(user_id, embedding_model);
+CREATE INDEX idx_document_chunks_content_tsv ON public.document_chunks USING GIN (content_tsv);
+CREATE INDEX idx_document_chunks_embedding ON public.document_chunks
+  USING hnsw (embedding extensions.vector_cosine_ops);
+
+-- Candidate chunks for hybrid ranking: the nearest neighbours by embedding plus the best
+-- full-text matches, each returned with both scores so the client can blend them
+CREATE OR REPLACE FUNCTION public.match_document_chunks(
+  query_embedding extensions.vector(768),
+  p_embedding_model text,
+  query_text text DEFAULT NULL,
+  match_count int DEFAULT 40
+) RETURNS TABLE (
+  id uuid,
+  document_id uuid,
+  chunk_index int,
+  content text,
+  page int,
+  similarity float,
+  keyword_rank float
+)
+LANGUAGE sql
+STABLE
+SECURITY INVOKER
+SET search_path = public, extensions
+AS $$
+  WITH q AS (
+    SELECT CASE WHEN coalesce(trim(query_text), '') = '' THEN NULL
+      ELSE websearch_to_tsquery('english', query_text) END AS tsq
+  ),
+  candidates AS (
+    (SELECT c.id FROM public.document_chunks c
+      WHERE c.user_id = auth.uid() AND c.embedding_model = p_embedding_model
+      ORDER BY c.embedding <=> query_embedding
+      LIMIT match_count)
+    UNION
+    (SELECT c.id FROM public.document_chunks c, q
+      WHERE c.user_id = auth.uid() AND q.tsq IS NOT NULL AND c.content_tsv @@ q.tsq
+      ORDER BY ts_rank_cd(c.content_tsv, q.tsq) DESC
+      LIMIT match_count)
+  )
+  SELECT c.id, c.document_id, c.chunk_index, c.content, c.page,
+    CASE WHEN c.embedding_model = p_embedding_model
+      THEN (1 - (c.embedding <=> query_embedding))::float ELSE 0 END AS similarity,
+    coalesce(ts_rank_cd(c.content_tsv, q.tsq), 0)::float AS keyword_rank
+  FROM candidates
+  JOIN public.document_chunks c ON c.id = candidates.id
+  CROSS JOIN q;
+$$;
@@ -0,0 +1,118 @@
+-- Named Library searches that can be pinned to the sidebar and optionally act as smart collections
+CREATE TABLE public.saved_searches (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  name TEXT NOT NULL,
+  params TEXT NOT NULL DEFAULT '',
+  pinned BOOLEAN NOT NULL DEFAULT false,
+  is_smart_collection BOOLEAN NOT NULL DEFAULT false,
+  notify_on_match BOOLEAN NOT NULL DEFAULT true,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+ALTER TABLE public.saved_searches ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their own saved searches"
+ON public.saved_searches
+FOR SELECT
+USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can create their own saved searches"
+ON public.saved_searches
+FOR INSERT
+WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can update their own saved searches"
+ON public.saved_searches
+FOR UPDATE
+USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete their own saved searches"
+ON public.saved_searches
+FOR DELETE
+USING (auth.uid() = user_id);
+
+CREATE INDEX idx_saved_searches_user_id ON public.saved_searches(user_id);
+
+CREATE TRIGGER update_saved_searches_updated_at
+  BEFORE UPDATE ON public.saved_searches
+  FOR EACH ROW
+  EXECUTE FUNCTION public.update_updated_at_column();
+
+-- Notifies the owner that a new document joined one of their smart collections.
+-- Matching happens in the client, which shares the Library filter logic; notifications have
+-- no insert policy, so this checks ownership of both rows before writing one.
+CREATE OR REPLACE FUNCTION public.notify_smart_collection_match(
+  p_saved_search_id uuid,
+  p_document_id uuid
+) RETURNS boolean
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_search public.saved_searches%ROWTYPE;
+  v_document_title text;
+  v_action_url text;
+BEGIN
+  SELECT * INTO v_search
+  FROM public.saved_searches
+  WHERE id = p_saved_search_id
+    AND user_id = auth.uid()
+    AND is_smart_collection
+    AND notify_on_match;
+
+  IF NOT FOUND THEN
+    RETURN false;
+  END IF;
+
+  SELECT title INTO v_document_title
+  FROM public.documents
+  WHERE id = p_document_id
+    AND user_id = auth.uid();
+
+  IF NOT FOUND THEN
+    RETURN false;
+  END IF;
+
+  -- Respect the in-app channel and per-collection mutes from notification settings
+  IF EXISTS (
+    SELECT 1 FROM public.notification_settings s
+    WHERE s.user_id = auth.uid()
+      AND (
+        NOT s.channel_inapp
+        OR s.muted_entities @> jsonb_build_array(jsonb_build_object('type', 'saved_search', 'id', p_saved_search_id::text))
+      )
+  ) THEN
+    RETURN false;
+  END IF;
+
+  v_action_url := '/library' || CASE WHEN v_search.params = '' THEN '' ELSE '?' || v_search.params END;
+
+  -- A document joins a collection once
+  IF EXISTS (
+    SELECT 1 FROM public.notifications n
+    WHERE n.user_id = auth.uid()
+      AND n.type = 'collection_match'
+      AND n.entity_id = p_document_id
+      AND n.action_url = v_action_url
+  ) THEN
+    RETURN false;
+  END IF;
+
+  INSERT INTO public.notifications (user_id, type, title, body, entity_type, entity_id, severity, action_url)
+  VALUES (
+    auth.uid(),
+    'collection_match',
+    'New in ' || v_search.name,
+    '"' || v_document_title || '" was added to your smart collection.',
+    'document',
+    p_document_id,
+    'info',
+    v_action_url
+  );
+
+  RETURN true;
+END;
+$$;
@@ -0,0 +1,169 @@
+-- Version history for documents: each version snapshots the file, extracted text,
+-- AI summary and categorization so revisions can be compared and rolled back
+ALTER TABLE public.documents
+ADD COLUMN current_version INTEGER NOT NULL DEFAULT 1;
+
+CREATE TABLE public.document_versions (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  document_id UUID NOT NULL REFERENCES public.documents(id) ON DELETE CASCADE,
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  version_number INTEGER NOT NULL,
+  note TEXT,
+  file_name TEXT NOT NULL,
+  file_type TEXT NOT NULL,
+  file_url TEXT NOT NULL,
+  file_size INTEGER NOT NULL,
+  extracted_text TEXT,
+  page_offsets JSONB,
+  source_metadata JSONB,
+  data_schema JSONB,
+  data_description TEXT,
+  title TEXT NOT NULL,
+  summary TEXT,
+  category TEXT,
+  tags TEXT[] DEFAULT '{}',
+  primary_principle_id UUID REFERENCES public.principles(id) ON DELETE SET NULL,
+  principle_alignment_score INTEGER,
+  ai_confidence INTEGER,
+  ai_reasoning TEXT,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  UNIQUE (document_id, version_number)
+);
+
+ALTER TABLE public.document_versions ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their own document versions"
+ON public.document_versions
+FOR SELECT
+USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can create their own document versions"
+ON public.document_versions
+FOR INSERT
+WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete their own document versions"
+ON public.document_versions
+FOR DELETE
+USING (auth.uid() = user_id);
+
+CREATE INDEX idx_document_versions_document ON public.document_versions(document_id, version_number DESC);
+
+-- Records the document's current state as its next version and returns the new version number
+CREATE OR REPLACE FUNCTION public.snapshot_document_version(
+  p_document_id uuid,
+  p_note text DEFAULT NULL
+) RETURNS integer
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+DECLARE
+  v_version integer;
+BEGIN
+  SELECT COALESCE(MAX(version_number), 0) + 1 INTO v_version
+  FROM public.document_versions
+  WHERE document_id = p_document_id;
+
+  INSERT INTO public.document_versions (
+    document_id, user_id, version_number, note,
+    file_name, file_type, file_url, file_size,
+    extracted_text, page_offsets, source_metadata, data_schema, data_description,
+    title, summary, category, tags,
+    primary_principle_id, principle_alignment_score, ai_confidence, ai_reasoning
+  )
+  SELECT
+    d.id, d.user_id, v_version, p_note,
+    d.file_name, d.file_type, d.file_url, d.file_size,
+    d.extracted_text, d.page_offsets, d.source_metadata, d.data_schema, d.data_description,
+    d.title, d.summary, d.category, d.tags,
+    d.primary_principle_id, d.principle_alignment_score, d.ai_confidence, d.ai_reasoning
+  FROM public.documents d
+  WHERE d.id = p_document_id;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Document % not found', p_document_id;
+  END IF;
+
+  UPDATE public.documents SET current_version = v_version WHERE id = p_document_id;
+
+  RETURN v_version;
+END;
+$$;
+
+-- Rolls a document back to an earlier version. History is kept: the restored state
+-- becomes a new version rather than discarding the versions after it.
+CREATE OR REPLACE FUNCTION public.restore_document_version(
+  p_document_id uuid,
+  p_version_number integer
+) RETURNS integer
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+DECLARE
+  v public.document_versions%ROWTYPE;
+BEGIN
+  SELECT * INTO v
+  FROM public.document_versions
+  WHERE document_id = p_document_id
+    AND version_number = p_version_number;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Version % of document % not found', p_version_number, p_document_id;
+  END IF;
+
+  UPDATE public.documents SET
+    file_name = v.file_name,
+    file_type = v.file_type,
+    file_url = v.file_url,
+    file_size = v.file_size,
+    extracted_text = v.extracted_text,
+    page_offsets = v.page_offsets,
+    source_metadata = v.source_metadata,
+    data_schema = v.data_schema,
+    data_description = v.data_description,
+    title = v.title,
+    summary = v.summary,
+    category = v.category,
+    tags = v.tags,
+    primary_principle_id = v.primary_principle_id,
+    principle_alignment_score = v.principle_alignment_score,
+    ai_confidence = v.ai_confidence,
+    ai_reasoning = v.ai_reasoning
+  WHERE id = p_document_id;
+
+  RETURN public.snapshot_document_version(p_document_id, 'Restored from version ' || p_version_number);
+END;
+$$;
+
+-- Every new document starts with version 1
+CREATE OR REPLACE FUNCTION public.create_initial_document_version()
+RETURNS trigger
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  PERFORM public.snapshot_document_version(NEW.id, 'Initial upload');
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER create_initial_document_version
+  AFTER INSERT ON public.documents
+  FOR EACH ROW
+  EXECUTE FUNCTION public.create_initial_document_version();
+
+-- Existing documents get their current state as version 1
+INSERT INTO public.document_versions (
+  document_id, user_id, version_number, note,
+  file_name, file_type, file_url, file_size,
+  extracted_text, page_offsets, source_metadata, data_schema, data_description,
+  title, summary, category, tags,
+  primary_principle_id, principle_alignment_score, ai_confidence, ai_reasoning, created_at
+)
+SELECT
+  d.id, d.user_id, 1, 'Initial upload',
+  d.file_name, d.file_type, d.file_url, d.file_size,
+  d.extracted_text, d.page_offsets, d.source_metadata, d.data_schema, d.data_description,
+  d.title, d.summary, d.category, d.tags,
+  d.primary_principle_id, d.principle_alignment_score, d.ai_confidence, d.ai_reasoning, d.created_at
+FROM public.documents d;
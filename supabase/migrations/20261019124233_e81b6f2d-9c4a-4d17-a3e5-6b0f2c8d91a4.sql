@@ -0,0 +1,128 @@
+-- Duplicate detection: an exact hash of the uploaded file and a MinHash fingerprint of its text
+ALTER TABLE public.documents
+ADD COLUMN content_hash TEXT,
+ADD COLUMN text_fingerprint INTEGER[];
+
+ALTER TABLE public.document_versions
+ADD COLUMN content_hash TEXT,
+ADD COLUMN text_fingerprint INTEGER[];
+
+CREATE INDEX idx_documents_user_content_hash ON public.documents(user_id, content_hash);
+
+-- Explicit links between documents, e.g. a near-duplicate kept alongside the original
+CREATE TABLE public.document_links (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  source_document_id UUID NOT NULL REFERENCES public.documents(id) ON DELETE CASCADE,
+  target_document_id UUID NOT NULL REFERENCES public.documents(id) ON DELETE CASCADE,
+  link_type TEXT NOT NULL DEFAULT 'related',
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  UNIQUE (source_document_id, target_document_id, link_type),
+  CHECK (source_document_id <> target_document_id)
+);
+
+ALTER TABLE public.document_links ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their own document links"
+ON public.document_links
+FOR SELECT
+USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can create their own document links"
+ON public.document_links
+FOR INSERT
+WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete their own document links"
+ON public.document_links
+FOR DELETE
+USING (auth.uid() = user_id);
+
+CREATE INDEX idx_document_links_source ON public.document_links(source_document_id);
+CREATE INDEX idx_document_links_target ON public.document_links(target_document_id);
+
+-- Versions now carry the hash and fingerprint too, so rollback restores them with the file
+CREATE OR REPLACE FUNCTION public.snapshot_document_version(
+  p_document_id uuid,
+  p_note text DEFAULT NULL
+) RETURNS integer
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+DECLARE
+  v_version integer;
+BEGIN
+  SELECT COALESCE(MAX(version_number), 0) + 1 INTO v_version
+  FROM public.document_versions
+  WHERE document_id = p_document_id;
+
+  INSERT INTO public.document_versions (
+    document_id, user_id, version_number, note,
+    file_name, file_type, file_url, file_size, content_hash, text_fingerprint,
+    extracted_text, page_offsets, source_metadata, data_schema, data_description,
+    title, summary, category, tags,
+    primary_principle_id, principle_alignment_score, ai_confidence, ai_reasoning
+  )
+  SELECT
+    d.id, d.user_id, v_version, p_note,
+    d.file_name, d.file_type, d.file_url, d.file_size, d.content_hash, d.text_fingerprint,
+    d.extracted_text, d.page_offsets, d.source_metadata, d.data_schema, d.data_description,
+    d.title, d.summary, d.category, d.tags,
+    d.primary_principle_id, d.principle_alignment_score, d.ai_confidence, d.ai_reasoning
+  FROM public.documents d
+  WHERE d.id = p_document_id;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Document % not found', p_document_id;
+  END IF;
+
+  UPDATE public.documents SET current_version = v_version WHERE id = p_document_id;
+
+  RETURN v_version;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.restore_document_version(
+  p_document_id uuid,
+  p_version_number integer
+) RETURNS integer
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+DECLARE
+  v public.document_versions%ROWTYPE;
+BEGIN
+  SELECT * INTO v
+  FROM public.document_versions
+  WHERE document_id = p_document_id
+    AND version_number = p_version_number;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Version % of document % not found', p_version_number, p_document_id;
+  END IF;
+
+  UPDATE public.documents SET
+    file_name = v.file_name,
+    file_type = v.file_type,
+    file_url = v.file_url,
+    file_size = v.file_size,
+    content_hash = v.content_hash,
+    text_fingerprint = v.text_fingerprint,
+    extracted_text = v.extracted_text,
+    page_offsets = v.page_offsets,
+    source_metadata = v.source_metadata,
+    data_schema = v.data_schema,
+    data_description = v.data_description,
+    title = v.title,
+    summary = v.summary,
+    category = v.category,
+    tags = v.tags,
+    primary_principle_id = v.primary_principle_id,
+    principle_alignment_score = v.principle_alignment_score,
+    ai_confidence = v.ai_confidence,
+    ai_reasoning = v.ai_reasoning
+  WHERE id = p_document_id;
+
+  RETURN public.snapshot_document_version(p_document_id, 'Restored from version ' || p_version_number);
+END;
+$$;
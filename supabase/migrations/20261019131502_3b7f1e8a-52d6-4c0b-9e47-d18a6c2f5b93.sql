@@ -0,0 +1,4 @@
+-- Undoing a bulk edit withdraws the corrections it recorded
+CREATE POLICY "Users can delete their own learning logs"
+ON public.ai_learning_log FOR DELETE
+USING (auth.uid() = user_id);
@@ -0,0 +1,107 @@
+-- Documents reference their file by storage key; the bucket is private, so links are signed on demand
+ALTER TABLE public.documents ADD COLUMN storage_path TEXT;
+ALTER TABLE public.document_versions ADD COLUMN storage_path TEXT;
+
+-- Recover the object key from the public URLs stored so far
+UPDATE public.documents
+SET storage_path = regexp_replace(file_url, '^.*/storage/v1/object/(public|sign|authenticated)/documents/', '');
+
+UPDATE public.document_versions
+SET storage_path = regexp_replace(file_url, '^.*/storage/v1/object/(public|sign|authenticated)/documents/', '');
+
+ALTER TABLE public.documents ALTER COLUMN storage_path SET NOT NULL;
+ALTER TABLE public.document_versions ALTER COLUMN storage_path SET NOT NULL;
+
+-- file_url is kept for existing rows but no longer written
+ALTER TABLE public.documents ALTER COLUMN file_url DROP NOT NULL;
+ALTER TABLE public.document_versions ALTER COLUMN file_url DROP NOT NULL;
+
+CREATE INDEX idx_documents_storage_path ON public.documents(storage_path);
+
+UPDATE storage.buckets SET public = false WHERE id = 'documents';
+
+CREATE OR REPLACE FUNCTION public.snapshot_document_version(
+  p_document_id uuid,
+  p_note text DEFAULT NULL
+) RETURNS integer
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+DECLARE
+  v_version integer;
+BEGIN
+  SELECT COALESCE(MAX(version_number), 0) + 1 INTO v_version
+  FROM public.document_versions
+  WHERE document_id = p_document_id;
+
+  INSERT INTO public.document_versions (
+    document_id, user_id, version_number, note,
+    file_name, file_type, file_url, storage_path, file_size, content_hash, text_fingerprint,
+    extracted_text, page_offsets, source_metadata, data_schema, data_description,
+    title, summary, category, tags,
+    primary_principle_id, principle_alignment_score, ai_confidence, ai_reasoning
+  )
+  SELECT
+    d.id, d.user_id, v_version, p_note,
+    d.file_name, d.file_type, d.file_url, d.storage_path, d.file_size, d.content_hash, d.text_fingerprint,
+    d.extracted_text, d.page_offsets, d.source_metadata, d.data_schema, d.data_description,
+    d.title, d.summary, d.category, d.tags,
+    d.primary_principle_id, d.principle_alignment_score, d.ai_confidence, d.ai_reasoning
+  FROM public.documents d
+  WHERE d.id = p_document_id;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Document % not found', p_document_id;
+  END IF;
+
+  UPDATE public.documents SET current_version = v_version WHERE id = p_document_id;
+
+  RETURN v_version;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.restore_document_version(
+  p_document_id uuid,
+  p_version_number integer
+) RETURNS integer
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+DECLARE
+  v public.document_versions%ROWTYPE;
+BEGIN
+  SELECT * INTO v
+  FROM public.document_versions
+  WHERE document_id = p_document_id
+    AND version_number = p_version_number;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Version % of document % not found', p_version_number, p_document_id;
+  END IF;
+
+  UPDATE public.documents SET
+    file_name = v.file_name,
+    file_type = v.file_type,
+    file_url = v.file_url,
+    storage_path = v.storage_path,
+    file_size = v.file_size,
+    content_hash = v.content_hash,
+    text_fingerprint = v.text_fingerprint,
+    extracted_text = v.extracted_text,
+    page_offsets = v.page_offsets,
+    source_metadata = v.source_metadata,
+    data_schema = v.data_schema,
+    data_description = v.data_description,
+    title = v.title,
+    summary = v.summary,
+    category = v.category,
+    tags = v.tags,
+    primary_principle_id = v.primary_principle_id,
+    principle_alignment_score = v.principle_alignment_score,
+    ai_confidence = v.ai_confidence,
+    ai_reasoning = v.ai_reasoning
+  WHERE id = p_document_id;
+
+  RETURN public.snapshot_document_version(p_document_id, 'Restored from version ' || p_version_number);
+END;
+$$;
@@ -0,0 +1,9 @@
+-- Images can now be stored and previewed alongside documents
+UPDATE storage.buckets
+SET allowed_mime_types = allowed_mime_types || ARRAY[
+  'image/png',
+  'image/jpeg',
+  'image/gif',
+  'image/webp'
+]
+WHERE id = 'documents';
@@ -0,0 +1,49 @@
+-- Highlights and margin comments on a document's extracted text. Anchors store the quoted text with
+-- some context on either side, so they can be found again after a new version shifts the offsets.
+CREATE TABLE public.document_annotations (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  document_id UUID NOT NULL REFERENCES public.documents(id) ON DELETE CASCADE,
+  quote TEXT NOT NULL,
+  prefix TEXT NOT NULL DEFAULT '',
+  suffix TEXT NOT NULL DEFAULT '',
+  start_offset INTEGER NOT NULL,
+  end_offset INTEGER NOT NULL,
+  comment TEXT,
+  color TEXT NOT NULL DEFAULT 'yellow',
+  insight_id UUID REFERENCES public.insights(id) ON DELETE SET NULL,
+  task_id UUID REFERENCES public.tasks(id) ON DELETE SET NULL,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  CHECK (end_offset > start_offset)
+);
+
+ALTER TABLE public.document_annotations ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their own annotations"
+ON public.document_annotations
+FOR SELECT
+USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can create their own annotations"
+ON public.document_annotations
+FOR INSERT
+WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can update their own annotations"
+ON public.document_annotations
+FOR UPDATE
+USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete their own annotations"
+ON public.document_annotations
+FOR DELETE
+USING (auth.uid() = user_id);
+
+CREATE INDEX idx_document_annotations_document ON public.document_annotations(document_id);
+CREATE INDEX idx_document_annotations_user ON public.document_annotations(user_id);
+
+CREATE TRIGGER document_annotations_updated_at
+  BEFORE UPDATE ON public.document_annotations
+  FOR EACH ROW
+  EXECUTE FUNCTION public.handle_updated_at();
@@ -0,0 +1,47 @@
+-- The related SOPs and documents categorize-document suggests, kept so the knowledge graph can draw
+-- them. Like project and SOP links, they are not part of a document's versions.
+ALTER TABLE public.documents
+ADD COLUMN related_items JSONB;
+
+CREATE INDEX idx_documents_related_items ON public.documents USING GIN (related_items jsonb_path_ops);
+
+-- Saved knowledge graph views: the nodes and edges on screen, pinned positions, expanded nodes
+-- and filters
+CREATE TABLE public.graph_layouts (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  name TEXT NOT NULL,
+  graph JSONB NOT NULL DEFAULT '{}'::jsonb,
+  filters JSONB NOT NULL DEFAULT '{}'::jsonb,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+ALTER TABLE public.graph_layouts ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their own graph layouts"
+ON public.graph_layouts
+FOR SELECT
+USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can create their own graph layouts"
+ON public.graph_layouts
+FOR INSERT
+WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can update their own graph layouts"
+ON public.graph_layouts
+FOR UPDATE
+USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete their own graph layouts"
+ON public.graph_layouts
+FOR DELETE
+USING (auth.uid() = user_id);
+
+CREATE INDEX idx_graph_layouts_user ON public.graph_layouts(user_id);
+
+CREATE TRIGGER graph_layouts_updated_at
+  BEFORE UPDATE ON public.graph_layouts
+  FOR EACH ROW
+  EXECUTE FUNCTION public.handle_updated_at();
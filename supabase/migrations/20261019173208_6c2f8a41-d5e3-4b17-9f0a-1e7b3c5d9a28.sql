@@ -0,0 +1,21 @@
+-- Token usage of every AI call the edge functions make, per user. Rows are written by the functions
+-- with the service role; users can only read their own.
+CREATE TABLE public.ai_usage (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  function_name TEXT NOT NULL,
+  model TEXT NOT NULL,
+  prompt_tokens INTEGER NOT NULL DEFAULT 0,
+  completion_tokens INTEGER NOT NULL DEFAULT 0,
+  total_tokens INTEGER NOT NULL DEFAULT 0,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+ALTER TABLE public.ai_usage ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their own AI usage"
+ON public.ai_usage
+FOR SELECT
+USING (auth.uid() = user_id);
+
+CREATE INDEX idx_ai_usage_user_created ON public.ai_usage(user_id, created_at DESC);
@@ -0,0 +1,50 @@
+-- Relations between a document and the documents and SOPs related to it. categorize-document suggests
+-- them with a reason and confidence; the user accepts or rejects each one. A rejected relation is kept
+-- so the same suggestion isn't made again.
+CREATE TABLE public.document_relations (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  document_id UUID NOT NULL REFERENCES public.documents(id) ON DELETE CASCADE,
+  related_document_id UUID REFERENCES public.documents(id) ON DELETE CASCADE,
+  related_sop_id UUID REFERENCES public.sops(id) ON DELETE CASCADE,
+  reason TEXT,
+  confidence INTEGER CHECK (confidence BETWEEN 0 AND 100),
+  status TEXT NOT NULL DEFAULT 'suggested' CHECK (status IN ('suggested', 'accepted', 'rejected')),
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  UNIQUE (document_id, related_document_id),
+  UNIQUE (document_id, related_sop_id),
+  -- Exactly one target, and never the document itself
+  CHECK ((related_document_id IS NULL) <> (related_sop_id IS NULL)),
+  CHECK (related_document_id IS DISTINCT FROM document_id)
+);
+
+ALTER TABLE public.document_relations ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their own document relations"
+ON public.document_relations
+FOR SELECT
+USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can create their own document relations"
+ON public.document_relations
+FOR INSERT
+WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can update their own document relations"
+ON public.document_relations
+FOR UPDATE
+USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete their own document relations"
+ON public.document_relations
+FOR DELETE
+USING (auth.uid() = user_id);
+
+CREATE INDEX idx_document_relations_related_document ON public.document_relations(related_document_id);
+CREATE INDEX idx_document_relations_related_sop ON public.document_relations(related_sop_id);
+
+CREATE TRIGGER document_relations_updated_at
+  BEFORE UPDATE ON public.document_relations
+  FOR EACH ROW
+  EXECUTE FUNCTION public.handle_updated_at();
@@ -0,0 +1,61 @@
+-- Retrieval for the assistant: the user's documents, SOPs, principles, tasks, insights and codex
+-- chats ranked against a question by full text. Any of the question's words can match, since
+-- questions are phrased loosely; titles weigh more than bodies. Document contents are searched
+-- separately through match_document_chunks.
+CREATE OR REPLACE FUNCTION public.search_knowledge(
+  query_text text,
+  match_count int DEFAULT 12
+) RETURNS TABLE (
+  source_type text,
+  source_id uuid,
+  title text,
+  content text,
+  rank float
+)
+LANGUAGE sql
+STABLE
+SECURITY INVOKER
+SET search_path = public
+AS $$
+  WITH q AS (
+    SELECT replace(plainto_tsquery('english', coalesce(query_text, ''))::text, '&', '|')::tsquery AS tsq
+  ),
+  items AS (
+    SELECT 'document'::text AS source_type, d.id AS source_id, d.title,
+      concat_ws(E'\n', d.summary, 'Tags: ' || array_to_string(d.tags, ', ')) AS body
+    FROM public.documents d
+    WHERE d.user_id = auth.uid()
+    UNION ALL
+    SELECT 'sop', s.id, s.title, concat_ws(E'\n', s.description, s.content)
+    FROM public.sops s
+    WHERE s.user_id = auth.uid()
+    UNION ALL
+    SELECT 'principle', p.id, p.title, concat_ws(E'\n', p.description, p.content)
+    FROM public.principles p
+    WHERE p.user_id = auth.uid()
+    UNION ALL
+    -- Tasks and chats belong to projects; row level security limits them to the user's own
+    SELECT 'task', t.id, t.title,
+      concat_ws(E'\n', t.description, 'Status: ' || t.status, 'Priority: ' || t.priority, 'Due: ' || t.due_date)
+    FROM public.tasks t
+    UNION ALL
+    SELECT 'insight', i.id, i.title, i.content
+    FROM public.insights i
+    WHERE i.user_id = auth.uid()
+    UNION ALL
+    SELECT 'chat', c.id, c.title, c.content
+    FROM public.ai_chats c
+  ),
+  vectors AS (
+    SELECT items.*,
+      setweight(to_tsvector('english', coalesce(items.title, '')), 'A') ||
+        to_tsvector('english', coalesce(items.body, '')) AS tsv
+    FROM items
+  )
+  SELECT v.source_type, v.source_id, v.title, left(v.body, 1500) AS content,
+    ts_rank_cd(v.tsv, q.tsq)::float AS rank
+  FROM vectors v, q
+  WHERE v.tsv @@ q.tsq
+  ORDER BY rank DESC
+  LIMIT match_count;
+$$;
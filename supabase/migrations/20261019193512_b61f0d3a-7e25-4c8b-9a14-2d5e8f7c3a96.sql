@@ -0,0 +1,45 @@
+-- Changes the assistant proposes through its tools. Each one waits for the user to confirm or reject
+-- it; apply-assistant-action carries it out as the user and records the outcome here, so the table is
+-- also the log of what the assistant changed.
+CREATE TABLE public.assistant_actions (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  session_id UUID NOT NULL REFERENCES public.chat_sessions(id) ON DELETE CASCADE,
+  message_id UUID REFERENCES public.chat_history(id) ON DELETE SET NULL,
+  tool TEXT NOT NULL CHECK (tool IN (
+    'create_task', 'update_task_status', 'create_project_goal', 'add_insight', 'link_document_to_principle', 'draft_sop'
+  )),
+  arguments JSONB NOT NULL DEFAULT '{}'::jsonb,
+  summary TEXT NOT NULL,
+  -- applying: claimed by apply-assistant-action, so a double click can't apply it twice
+  status TEXT NOT NULL DEFAULT 'proposed' CHECK (status IN ('proposed', 'applying', 'applied', 'rejected', 'failed')),
+  result JSONB,
+  error TEXT,
+  resolved_at TIMESTAMP WITH TIME ZONE,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+ALTER TABLE public.assistant_actions ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their own assistant actions"
+ON public.assistant_actions
+FOR SELECT
+USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can create their own assistant actions"
+ON public.assistant_actions
+FOR INSERT
+WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can update their own assistant actions"
+ON public.assistant_actions
+FOR UPDATE
+USING (auth.uid() = user_id);
+
+CREATE INDEX idx_assistant_actions_session ON public.assistant_actions(session_id, created_at);
+
+CREATE TRIGGER assistant_actions_updated_at
+  BEFORE UPDATE ON public.assistant_actions
+  FOR EACH ROW
+  EXECUTE FUNCTION public.handle_updated_at();
@@ -0,0 +1,38 @@
+-- Named conversations in the Assistant. chat-assistant titles a session after its first exchange unless
+-- it already has one, so a rename is never overwritten. Archived sessions leave the sidebar's main list.
+ALTER TABLE public.chat_sessions
+  ADD COLUMN title TEXT,
+  ADD COLUMN pinned BOOLEAN NOT NULL DEFAULT false,
+  ADD COLUMN archived_at TIMESTAMP WITH TIME ZONE;
+
+CREATE INDEX idx_chat_history_message_search
+  ON public.chat_history USING gin (to_tsvector('english', message));
+
+-- Past sessions whose messages match the query, each with its best-matching message as a snippet.
+-- SECURITY INVOKER, so row level security limits it to the caller's own history.
+CREATE OR REPLACE FUNCTION public.search_chat_sessions(query_text TEXT, match_count INTEGER DEFAULT 20)
+RETURNS TABLE (session_id UUID, snippet TEXT, matched_at TIMESTAMP WITH TIME ZONE, rank REAL)
+LANGUAGE sql
+STABLE
+SECURITY INVOKER
+SET search_path = public
+AS $$
+  WITH query AS (
+    SELECT plainto_tsquery('english', query_text) AS q
+  ),
+  matches AS (
+    SELECT DISTINCT ON (h.session_id)
+      h.session_id,
+      ts_headline('english', h.message, query.q, 'MaxWords=24, MinWords=10, StartSel="", StopSel=""') AS snippet,
+      h.created_at AS matched_at,
+      ts_rank(to_tsvector('english', h.message), query.q) AS rank
+    FROM public.chat_history h, query
+    WHERE h.user_id = auth.uid()
+      AND to_tsvector('english', h.message) @@ query.q
+    ORDER BY h.session_id, rank DESC, h.created_at DESC
+  )
+  SELECT session_id, snippet, matched_at, rank
+  FROM matches
+  ORDER BY rank DESC, matched_at DESC
+  LIMIT match_count;
+$$;
@@ -0,0 +1,5 @@
+-- Running summary of a conversation's older turns. chat-assistant folds turns into it once the session
+-- outgrows the prompt budget and then only sends the turns after summary_through. Users can edit it.
+ALTER TABLE public.chat_sessions
+  ADD COLUMN summary TEXT,
+  ADD COLUMN summary_through TIMESTAMP WITH TIME ZONE;
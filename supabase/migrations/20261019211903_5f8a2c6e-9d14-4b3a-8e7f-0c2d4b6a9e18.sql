@@ -0,0 +1,32 @@
+-- Feedback on assistant answers: reason tags alongside thumbs up/down and the comment, and one feedback
+-- per message that the user can change or withdraw. chat-assistant reads the recent reasons to adjust
+-- how it answers.
+DELETE FROM public.chat_feedback older
+USING public.chat_feedback newer
+WHERE older.message_id = newer.message_id
+  AND older.user_id = newer.user_id
+  AND (older.created_at, older.id) < (newer.created_at, newer.id);
+
+ALTER TABLE public.chat_feedback
+  ADD COLUMN reasons TEXT[] NOT NULL DEFAULT '{}' CHECK (reasons <@ ARRAY[
+    'too_long', 'too_short', 'generic', 'inaccurate', 'ignored_context', 'bad_sources', 'not_actionable', 'wrong_tone'
+  ]::TEXT[]),
+  ADD COLUMN updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  ADD CONSTRAINT chat_feedback_message_user_key UNIQUE (message_id, user_id);
+
+CREATE POLICY "Users can update their own feedback"
+  ON public.chat_feedback
+  FOR UPDATE
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete their own feedback"
+  ON public.chat_feedback
+  FOR DELETE
+  USING (auth.uid() = user_id);
+
+CREATE INDEX idx_chat_feedback_user_updated ON public.chat_feedback(user_id, updated_at DESC);
+
+CREATE TRIGGER chat_feedback_updated_at
+  BEFORE UPDATE ON public.chat_feedback
+  FOR EACH ROW
+  EXECUTE FUNCTION public.handle_updated_at();
@@ -0,0 +1,10 @@
+-- The parser reads RTF sent as text/rtf and OpenDocument presentations, but the bucket rejected both
+UPDATE storage.buckets
+SET allowed_mime_types = ARRAY(
+  SELECT DISTINCT unnest(allowed_mime_types || ARRAY[
+    'text/rtf',
+    'application/rtf',
+    'application/vnd.oasis.opendocument.presentation'
+  ])
+)
+WHERE id = 'documents';
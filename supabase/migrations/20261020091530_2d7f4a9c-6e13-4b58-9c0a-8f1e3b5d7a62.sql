@@ -0,0 +1,61 @@
+-- The storage_path backfill read keys off the legacy file_url, which never named the real object: the
+-- upload built that URL from a second Date.now(), and getPublicUrl percent-encoded the file name. Legacy
+-- objects sit directly in the user's folder as "<user id>/<ms timestamp>-<file name>", so each key that
+-- points at nothing is recovered from the object with the same file name whose upload timestamp is
+-- closest to when the row was created.
+CREATE TEMP TABLE legacy_objects AS
+SELECT
+  o.name,
+  split_part(o.name, '/', 1) AS owner_folder,
+  regexp_replace(split_part(o.name, '/', 2), '^[0-9]+-', '') AS file_name,
+  substring(split_part(o.name, '/', 2) FROM '^([0-9]+)-')::bigint AS uploaded_ms
+FROM storage.objects o
+WHERE o.bucket_id = 'documents'
+  AND o.name ~ '^[^/]+/[0-9]+-[^/]+$';
+
+CREATE TEMP TABLE recovered_documents AS
+SELECT DISTINCT ON (d.id)
+  d.id AS document_id,
+  d.storage_path AS backfilled_path,
+  l.name AS storage_path
+FROM public.documents d
+JOIN legacy_objects l
+  ON l.owner_folder = d.user_id::text
+ AND l.file_name = d.file_name
+WHERE NOT EXISTS (
+  SELECT 1 FROM storage.objects o WHERE o.bucket_id = 'documents' AND o.name = d.storage_path
+)
+ORDER BY d.id, abs(l.uploaded_ms - (extract(epoch FROM d.created_at) * 1000)::bigint);
+
+-- A version that copied the document's backfilled key shares its recovered one
+UPDATE public.document_versions v
+SET storage_path = r.storage_path
+FROM recovered_documents r
+WHERE v.document_id = r.document_id
+  AND v.storage_path = r.backfilled_path;
+
+-- Older versions had files of their own; they are matched the same way, by their own name and time
+UPDATE public.document_versions v
+SET storage_path = matched.storage_path
+FROM (
+  SELECT DISTINCT ON (v.id)
+    v.id AS version_id,
+    l.name AS storage_path
+  FROM public.document_versions v
+  JOIN legacy_objects l
+    ON l.owner_folder = v.user_id::text
+   AND l.file_name = v.file_name
+  WHERE NOT EXISTS (
+    SELECT 1 FROM storage.objects o WHERE o.bucket_id = 'documents' AND o.name = v.storage_path
+  )
+  ORDER BY v.id, abs(l.uploaded_ms - (extract(epoch FROM v.created_at) * 1000)::bigint)
+) matched
+WHERE v.id = matched.version_id;
+
+UPDATE public.documents d
+SET storage_path = r.storage_path
+FROM recovered_documents r
+WHERE d.id = r.document_id;
+
+DROP TABLE recovered_documents;
+DROP TABLE legacy_objects;
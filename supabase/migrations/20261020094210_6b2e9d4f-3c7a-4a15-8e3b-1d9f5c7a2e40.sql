@@ -0,0 +1,35 @@
+-- Swaps a document's chunks in one transaction, so a failed insert leaves the old chunks searchable
+-- instead of dropping the document out of search. Runs as the caller, so RLS applies to both halves.
+CREATE OR REPLACE FUNCTION public.replace_document_chunks(
+  p_document_id uuid,
+  p_chunks jsonb
+) RETURNS integer
+LANGUAGE plpgsql
+SECURITY INVOKER
+SET search_path = public
+AS $$
+DECLARE
+  v_count integer;
+BEGIN
+  DELETE FROM public.document_chunks WHERE document_id = p_document_id;
+
+  INSERT INTO public.document_chunks (
+    document_id, user_id, chunk_index, content, page, start_offset, end_offset, embedding, embedding_model
+  )
+  SELECT
+    p_document_id, auth.uid(), c.chunk_index, c.content, c.page, c.start_offset, c.end_offset,
+    c.embedding::extensions.vector(768), c.embedding_model
+  FROM jsonb_to_recordset(p_chunks) AS c(
+    chunk_index integer,
+    content text,
+    page integer,
+    start_offset integer,
+    end_offset integer,
+    embedding text,
+    embedding_model text
+  );
+
+  GET DIAGNOSTICS v_count = ROW_COUNT;
+  RETURN v_count;
+END;
+$$;
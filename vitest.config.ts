@@ -0,0 +1,25 @@
+import { defineConfig } from "vitest/config";
+import path from "path";
+
+// Edge functions import their dependencies by URL the way Deno does; under Node those resolve to the
+// same packages in node_modules, and std's serve() to a shim that hands the handler to the test (the
+// setup file does the same for Deno.serve)
+export default defineConfig({
+  resolve: {
+    alias: [
+      { find: "@", replacement: path.resolve(__dirname, "./src") },
+      { find: "https://esm.sh/@supabase/supabase-js@2", replacement: "@supabase/supabase-js" },
+      { find: "https://esm.sh/zod@4.1.12", replacement: "zod" },
+      { find: "https://esm.sh/date-fns-tz@3.2.0", replacement: "date-fns-tz" },
+      { find: "https://esm.sh/date-fns@3.6.0", replacement: "date-fns" },
+      {
+        find: "https://deno.land/std@0.168.0/http/server.ts",
+        replacement: path.resolve(__dirname, "./supabase/functions/tests/support/serve.ts"),
+      },
+    ],
+  },
+  test: {
+    include: ["src/**/*.test.ts", "supabase/functions/tests/**/*.test.ts"],
+    setupFiles: ["./supabase/functions/tests/support/deno.ts"],
+  },
+});